@@ -8,8 +8,23 @@ export interface CodeChange {
     language: string;
 }
 
-export class DiffManager {
+/**
+ * Shows proposed code next to the current text and applies accepted changes.
+ *
+ * Both sides of a diff are served from memory under the `claude-diff` scheme;
+ * register the manager with `vscode.workspace.registerTextDocumentContentProvider`.
+ */
+export class DiffManager implements vscode.TextDocumentContentProvider {
+    static readonly scheme = 'claude-diff';
+
     private pendingChanges: Map<string, CodeChange> = new Map();
+    private documents: Map<string, string> = new Map();
+    private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange = this.changeEmitter.event;
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.documents.get(uri.toString()) ?? '';
+    }
 
     async showDiff(change: CodeChange): Promise<void> {
         const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
@@ -32,12 +47,32 @@ export class DiffManager {
             originalContent = '';
         }
 
-        const originalUri = vscode.Uri.parse(`claude-diff:${change.filePath}?original`);
-        const modifiedUri = vscode.Uri.parse(`claude-diff:${change.filePath}?modified`);
-
         this.pendingChanges.set(change.filePath, change);
 
-        const diffTitle = `${path.basename(change.filePath)} (Proposed Changes)`;
+        await this.openDiff(change.filePath, originalContent, change.code, 'Proposed Changes');
+    }
+
+    /**
+     * Shows `proposedContent` against `originalContent` and asks the user to
+     * accept or reject it. Dismissing the question rejects the change.
+     */
+    async reviewChange(filePath: string, originalContent: string, proposedContent: string, question: string): Promise<boolean> {
+        await this.openDiff(filePath, originalContent, proposedContent, 'Proposed Changes');
+        const answer = await vscode.window.showInformationMessage(question, 'Accept', 'Reject');
+        return answer === 'Accept';
+    }
+
+    private async openDiff(filePath: string, originalContent: string, modifiedContent: string, label: string): Promise<void> {
+        const originalUri = vscode.Uri.parse(`${DiffManager.scheme}:${filePath}?original`);
+        const modifiedUri = vscode.Uri.parse(`${DiffManager.scheme}:${filePath}?modified`);
+
+        this.documents.set(originalUri.toString(), originalContent);
+        this.documents.set(modifiedUri.toString(), modifiedContent);
+        // Refresh diffs of the same file that are already open
+        this.changeEmitter.fire(originalUri);
+        this.changeEmitter.fire(modifiedUri);
+
+        const diffTitle = `${path.basename(filePath)} (${label})`;
         
         await vscode.commands.executeCommand(
             'vscode.diff',
@@ -0,0 +1,294 @@
+import { spawn, ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import { ParsedLine, StreamJsonParser } from './StreamEvents';
+import { PermissionMode } from '../types/WebviewMessages';
+import { DEFAULT_AUTO_APPROVED_TOOLS, PERMISSION_PROMPT_TOOL, PermissionBroker } from '../permissions/PermissionBroker';
+
+/**
+ * Options for a single agent run, independent of how the agent is hosted.
+ */
+export interface AgentRunOptions {
+    /** Full prompt, written to the agent's stdin */
+    prompt: string;
+    /** Working directory for the run */
+    cwd: string;
+    /** Model override (e.g. 'claude-opus-4-5') */
+    model?: string;
+    /** CLI session id to attach the run to */
+    sessionId?: string;
+    /** Earlier CLI session to continue (`--resume`) */
+    resumeSessionId?: string;
+    /** Continue the resumed session under a new id, leaving the original unchanged */
+    forkSession?: boolean;
+    /** How tool calls are approved. Defaults to 'auto'. */
+    permissionMode?: PermissionMode;
+    /** Identifies the run in approval prompts, e.g. "Chat" or "coder (plan-1-step-2)" */
+    label?: string;
+    /** Tools the agent may use at all; undefined leaves every tool available */
+    tools?: string[];
+}
+
+/**
+ * Handle to a running agent.
+ *
+ * @fires data - Raw stdout text exactly as received, before line splitting
+ * @fires event - One typed StreamEvent per complete stdout line (type 'unknown' for unrecognized shapes)
+ * @fires parse_error - A stdout line that looked like JSON but failed to parse
+ * @fires stderr - Raw stderr text
+ * @fires close - The run finished. Payload: exit code (null when killed)
+ * @fires error - The run could not be started
+ */
+export interface AgentStream extends EventEmitter {
+    readonly pid?: number;
+
+    /** Stops the run. A 'close' event still follows. */
+    cancel(): void;
+}
+
+/**
+ * Pluggable host for Claude agent runs.
+ *
+ * ClaudeService and SubagentOrchestrator only talk to this interface, so the
+ * CLI can be swapped for a scripted or replayed backend in tests and offline.
+ */
+export interface AgentBackend {
+    readonly name: string;
+
+    /** Starts a run and returns its stream. Listeners may be attached synchronously. */
+    start(options: AgentRunOptions): AgentStream;
+
+    /** Optional warmup, e.g. to prime the CLI environment on startup */
+    warmup?(cwd: string): Promise<void>;
+}
+
+/**
+ * Shared stream-json line handling for all backends.
+ *
+ * Subclasses feed raw stdout through handleStdout() and report termination
+ * through handleExit(); this class runs the output through StreamJsonParser
+ * and flushes the final unterminated line.
+ */
+export abstract class BaseAgentStream extends EventEmitter implements AgentStream {
+    private parser = new StreamJsonParser();
+    private closed: boolean = false;
+
+    abstract readonly pid?: number;
+    abstract cancel(): void;
+
+    protected handleStdout(chunk: string): void {
+        this.emit('data', chunk);
+        this.emitParsed(this.parser.push(chunk));
+    }
+
+    protected handleStderr(text: string): void {
+        this.emit('stderr', text);
+    }
+
+    protected handleExit(code: number | null): void {
+        if (this.closed) return;
+        this.closed = true;
+
+        this.emitParsed(this.parser.flush());
+        this.emit('close', code);
+    }
+
+    private emitParsed(lines: ParsedLine[]): void {
+        for (const parsed of lines) {
+            if (parsed.ok) {
+                this.emit('event', parsed.event);
+            } else {
+                this.emit('parse_error', parsed.line);
+            }
+        }
+    }
+}
+
+/**
+ * Stream backed by a spawned `claude` CLI process.
+ */
+class CliAgentStream extends BaseAgentStream {
+    private proc: ChildProcess;
+
+    constructor(args: string[], options: AgentRunOptions) {
+        super();
+
+        this.proc = spawn('claude', args, {
+            cwd: options.cwd,
+            shell: process.platform === 'win32',
+            env: { ...process.env, NO_COLOR: '1' }
+        });
+
+        this.proc.stdout?.on('data', (chunk: Buffer) => {
+            this.handleStdout(chunk.toString());
+        });
+
+        this.proc.stderr?.on('data', (chunk: Buffer) => {
+            this.handleStderr(chunk.toString());
+        });
+
+        this.proc.on('close', (code: number | null) => {
+            this.handleExit(code);
+        });
+
+        this.proc.on('error', (err: Error) => {
+            this.emit('error', err);
+        });
+
+        // Write to stdin AFTER all event listeners are attached to avoid race conditions
+        if (this.proc.stdin) {
+            this.proc.stdin.on('error', (err: Error) => {
+                console.error('[ClaudeCLI] Stdin error:', err.message);
+            });
+            this.proc.stdin.write(options.prompt);
+            this.proc.stdin.end();
+        }
+    }
+
+    get pid(): number | undefined {
+        return this.proc.pid;
+    }
+
+    cancel(): void {
+        if (this.proc.killed) return;
+
+        if (process.platform === 'win32') {
+            spawn('taskkill', ['/pid', this.proc.pid!.toString(), '/f', '/t']);
+        } else {
+            this.proc.kill('SIGINT');
+        }
+    }
+}
+
+/**
+ * Stream for a run that was refused before the CLI was spawned.
+ */
+class RefusedAgentStream extends BaseAgentStream {
+    readonly pid = undefined;
+
+    constructor(reason: Error) {
+        super();
+        // Emitted once the caller has attached its listeners
+        setImmediate(() => this.emit('error', reason));
+    }
+
+    cancel(): void {}
+}
+
+export interface ClaudeCliBackendOptions {
+    /**
+     * Answers permission prompts. Without it, unapproved tools are refused in manual and auto mode.
+     * Runs are refused while it is not listening, since its Bash policy could not be applied.
+     */
+    broker?: PermissionBroker;
+    /** Tools allowed without prompting in auto mode, read on every run */
+    autoApprovedTools?: () => string[];
+}
+
+/**
+ * Runs agents through the locally installed `claude` CLI in stream-json mode.
+ *
+ * Permission modes map to CLI flags: auto pre-approves the configured read-only
+ * tools and manual pre-approves nothing. Any other tool call goes to the
+ * PermissionBroker through `--permission-prompt-tool`. Skip runs also go through
+ * the broker so its Bash policy still applies; only without a broker does skip
+ * bypass all checks.
+ */
+export class ClaudeCliBackend implements AgentBackend {
+    readonly name = 'claude-cli';
+
+    constructor(private options: ClaudeCliBackendOptions = {}) {}
+
+    start(options: AgentRunOptions): AgentStream {
+        const mode = options.permissionMode ?? 'auto';
+        const allowedTools = mode === 'auto' ? this.autoApprovedTools() : [];
+        const broker = this.options.broker;
+        if (broker && !broker.listening) {
+            return new RefusedAgentStream(new Error('tool approvals are unavailable because the permission broker is not running; reload the window to retry'));
+        }
+
+        const registration = broker?.registerRun({
+            mode,
+            allowedTools,
+            label: options.label ?? 'Claude',
+            cwd: options.cwd
+        });
+
+        // Bash always reaches the broker so its policy sees every command
+        const cliAllowedTools = broker ? allowedTools.filter(tool => !tool.startsWith('Bash')) : allowedTools;
+        const stream = new CliAgentStream(this.buildArgs(options, mode, cliAllowedTools, registration?.mcpConfigPath), options);
+
+        if (broker && registration) {
+            const release = () => broker.releaseRun(registration.runId);
+            stream.once('close', release);
+            stream.once('error', release);
+        }
+
+        return stream;
+    }
+
+    async warmup(cwd: string): Promise<void> {
+        try {
+            // --version is a quick way to warm up the CLI environment
+            const proc = spawn('claude', ['--version'], {
+                cwd,
+                shell: process.platform === 'win32',
+                env: { ...process.env, NO_COLOR: '1' }
+            });
+
+            return new Promise((resolve) => {
+                proc.on('close', () => resolve());
+                proc.on('error', () => resolve()); // Ignore errors during warmup
+            });
+        } catch {
+            // Ignore init errors
+        }
+    }
+
+    private autoApprovedTools(): string[] {
+        return this.options.autoApprovedTools?.() ?? DEFAULT_AUTO_APPROVED_TOOLS;
+    }
+
+    private buildArgs(
+        options: AgentRunOptions,
+        mode: PermissionMode,
+        allowedTools: string[],
+        mcpConfigPath?: string
+    ): string[] {
+        const args = [
+            '--print',
+            '--output-format', 'stream-json',
+            '--verbose'
+        ];
+
+        if (mcpConfigPath) {
+            args.push('--mcp-config', mcpConfigPath, '--permission-prompt-tool', PERMISSION_PROMPT_TOOL);
+        } else if (mode === 'skip') {
+            args.push('--dangerously-skip-permissions');
+        }
+
+        if (allowedTools.length > 0) {
+            args.push('--allowedTools', allowedTools.join(','));
+        }
+
+        if (options.model) {
+            args.push('--model', options.model);
+        }
+
+        if (options.tools) {
+            args.push('--tools', options.tools.join(','));
+        }
+
+        if (options.sessionId) {
+            args.push('--session-id', options.sessionId);
+        }
+
+        if (options.resumeSessionId) {
+            args.push('--resume', options.resumeSessionId);
+            if (options.forkSession) {
+                args.push('--fork-session');
+            }
+        }
+
+        return args;
+    }
+}
@@ -1,30 +1,23 @@
-import { spawn, ChildProcess } from 'child_process';
 import { EventEmitter } from 'events';
+import { AgentBackend, AgentStream, ClaudeCliBackend } from './AgentBackend';
+import { StreamEvent, resultErrorMessage } from './StreamEvents';
+import { UsageTotals, UsageTracker, usageFromResult } from './UsageTracker';
+import { ToolEventHandler } from '../orchestration/ToolEventHandler';
+import { PermissionMode } from '../types/WebviewMessages';
+
+/** Conversation used when a caller does not name one */
+export const DEFAULT_CONVERSATION_ID = 'default';
 
 export interface ClaudeMessage {
     type: 'chunk' | 'done' | 'error' | 'tool';
     content: string;
     toolName?: string;
     toolInput?: Record<string, unknown>;
-}
-
-interface ContentBlock {
-    type: 'text' | 'tool_use' | 'tool_result';
-    text?: string;
-    name?: string;
-    id?: string;
-    input?: Record<string, unknown>;
-    content?: string;
-}
-
-interface CLIEvent {
-    type: 'system' | 'assistant' | 'user' | 'result';
-    subtype?: 'init' | 'success' | 'error';
-    message?: {
-        content: ContentBlock[] | string;
-    };
-    session_id?: string;
-    is_error?: boolean;
+    /** Request the message belongs to */
+    requestId?: string;
+    conversationId?: string;
+    /** Tokens and cost of the request, set on 'done' when the CLI reported them */
+    usage?: UsageTotals;
 }
 
 export interface SendOptions {
@@ -33,47 +26,87 @@ export interface SendOptions {
     sessionId?: string;
     systemPrompt?: string;
     workingDirectory?: string;
+    permissionMode?: PermissionMode;
+    /** Id for the request's messages and for stop(). Generated when omitted. */
+    requestId?: string;
+    /** Conversation the turn continues. Defaults to DEFAULT_CONVERSATION_ID. */
+    conversationId?: string;
+}
+
+/**
+ * An in-flight turn with its own stream, tool handler and text buffer.
+ */
+interface ActiveRequest {
+    stream: AgentStream;
+    toolHandler: ToolEventHandler;
+    conversationId: string;
+    buffer: string;
+    usage?: UsageTotals;
 }
 
+/**
+ * CLI session state of one conversation.
+ */
+interface ConversationState {
+    cliSessionId: string | null;
+    forkPending: boolean;
+}
+
+/**
+ * Runs chat turns against the agent backend.
+ *
+ * Every sendMessage() starts an independent request: its messages and tool
+ * events carry its requestId and conversationId, and stop() can cancel it
+ * alone. Requests of different conversations run side by side; a new turn in a
+ * conversation replaces that conversation's in-flight turn.
+ *
+ * Consecutive turns of a conversation continue one CLI conversation: the
+ * session id from each run's init event is resumed by the next turn until the
+ * session is reset.
+ *
+ * Usage reported by each run is recorded in `usage` under the request and
+ * under the conversation's `session:` scope.
+ *
+ * @fires message - ClaudeMessage for streamed text, tool uses, completion and errors
+ * @fires session - (sessionId, conversationId) whenever a conversation's CLI session changes
+ * @fires tool_invoked / tool_completed / tool_error - Tool activity of a request,
+ *        forwarded from its ToolEventHandler and tagged with { requestId, conversationId }
+ * @fires unknown_event - Raw stream event the parser did not recognize
+ */
 export class ClaudeService extends EventEmitter {
-    private process: ChildProcess | null = null;
+    private requests: Map<string, ActiveRequest> = new Map();
+    private conversations: Map<string, ConversationState> = new Map();
     private cwd: string | undefined;
-    private buffer: string = '';
-    private lineBuffer: string = '';
-
-    constructor(workspaceFolder?: string) {
+    private backend: AgentBackend;
+    private nextRequestNumber: number = 1;
+    readonly usage: UsageTracker;
+
+    constructor(
+        workspaceFolder?: string,
+        backend: AgentBackend = new ClaudeCliBackend(),
+        usage: UsageTracker = new UsageTracker()
+    ) {
         super();
         this.cwd = workspaceFolder;
+        this.backend = backend;
+        this.usage = usage;
     }
 
     async initialize(): Promise<void> {
-        if (this.process) return;
+        if (this.requests.size > 0) return;
 
-        try {
-            // Spawn a dummy process just to warm up the CLI environment
-            // We use --version as a quick check/warmup
-            const proc = spawn('claude', ['--version'], {
-                cwd: this.cwd || process.cwd(),
-                shell: process.platform === 'win32',
-                env: { ...process.env, NO_COLOR: '1' }
-            });
-            
-            return new Promise((resolve) => {
-                proc.on('close', () => resolve());
-                proc.on('error', () => resolve()); // Ignore errors during warmup
-            });
-        } catch (err) {
-            // Ignore init errors
-        }
+        await this.backend.warmup?.(this.cwd || process.cwd());
     }
 
-    async sendMessage(prompt: string, options: SendOptions = {}): Promise<void> {
-        if (this.process) {
-            this.stop();
-        }
+    /**
+     * Starts a turn and resolves to its request id once the run is started.
+     */
+    async sendMessage(prompt: string, options: SendOptions = {}): Promise<string> {
+        const requestId = options.requestId || `request-${this.nextRequestNumber++}`;
+        const conversationId = options.conversationId || DEFAULT_CONVERSATION_ID;
 
-        this.buffer = '';
-        this.lineBuffer = '';
+        // Turns of one conversation build on each other, so only one runs at a time
+        this.stopConversation(conversationId);
 
         let finalPrompt = prompt;
         if (options.systemPrompt) {
@@ -83,157 +116,224 @@ export class ClaudeService extends EventEmitter {
             finalPrompt = `ultrathink\n${finalPrompt}`;
         }
 
-        try {
-            const args = [
-                '--print',
-                '--output-format', 'stream-json',
-                '--verbose',
-                '--dangerously-skip-permissions'
-            ];
-
-            if (options.model) {
-                args.push('--model', options.model);
-            }
-
-            if (options.sessionId) {
-                args.push('--session-id', options.sessionId);
-            }
+        // An explicit session id starts that session instead of continuing ours
+        const conversation = this.getConversation(conversationId);
+        const resumeSessionId = options.sessionId ? undefined : conversation.cliSessionId ?? undefined;
+        const forkSession = conversation.forkPending && resumeSessionId !== undefined;
+        conversation.forkPending = false;
 
-            const workDir = options.workingDirectory || this.cwd || process.cwd();
+        const emitMessage = (message: ClaudeMessage) => {
+            this.emit('message', { ...message, requestId, conversationId } as ClaudeMessage);
+        };
 
-            this.process = spawn('claude', args, {
-                cwd: workDir,
-                shell: process.platform === 'win32',
-                env: {
-                    ...process.env,
-                    NO_COLOR: '1'
+        try {
+            const stream = this.backend.start({
+                prompt: finalPrompt,
+                cwd: options.workingDirectory || this.cwd || process.cwd(),
+                model: options.model,
+                sessionId: options.sessionId,
+                resumeSessionId,
+                forkSession,
+                permissionMode: options.permissionMode,
+                label: 'Chat'
+            });
+            const request: ActiveRequest = {
+                stream,
+                toolHandler: this.createToolHandler(requestId, conversationId),
+                conversationId,
+                buffer: ''
+            };
+            this.requests.set(requestId, request);
+            let initialized = false;
+
+            stream.on('event', (event: StreamEvent) => {
+                if (event.type === 'system') {
+                    initialized = true;
                 }
+                request.toolHandler.handleStreamEvent(event);
+                this.handleEvent(event, requestId, request, emitMessage);
             });
 
-            if (this.process.stdin) {
-                this.process.stdin.write(finalPrompt);
-                this.process.stdin.end();
-            }
-
-            this.process.stdout?.on('data', (chunk: Buffer) => {
-                this.handleChunk(chunk.toString());
+            stream.on('parse_error', (line: string) => {
+                console.warn('[ClaudeCLI] Failed to parse JSON line:', line.substring(0, 100));
             });
 
-            this.process.stderr?.on('data', (chunk: Buffer) => {
-                const text = chunk.toString().trim();
+            stream.on('stderr', (chunk: string) => {
+                const text = chunk.trim();
                 if (text && !text.includes('Streaming') && !text.includes('verbose')) {
                     console.error('[ClaudeCLI stderr]', text);
                 }
             });
 
-            this.process.on('close', (code) => {
-                if (this.lineBuffer.trim()) {
-                    this.parseLine(this.lineBuffer.trim());
+            stream.on('close', (code: number | null) => {
+                this.release(requestId, request);
+                // The CLI no longer knows the session (e.g. its history was cleared)
+                if (resumeSessionId && !initialized && code !== null && code !== 0
+                    && conversation.cliSessionId === resumeSessionId) {
+                    console.warn('[ClaudeCLI] Could not resume session', resumeSessionId, '- the next turn starts a new one');
+                    this.setSessionId(conversationId, null);
                 }
-                this.process = null;
-                this.emit('message', { type: 'done', content: this.buffer } as ClaudeMessage);
+                emitMessage({ type: 'done', content: request.buffer, usage: request.usage });
             });
 
-            this.process.on('error', (err) => {
-                this.emit('message', { 
-                    type: 'error', 
-                    content: `Failed to start claude: ${err.message}` 
-                } as ClaudeMessage);
-                this.process = null;
+            stream.on('error', (err: Error) => {
+                emitMessage({ type: 'error', content: `Failed to start claude: ${err.message}` });
+                this.release(requestId, request);
             });
 
         } catch (err) {
-            this.emit('message', { 
-                type: 'error', 
-                content: 'Failed to spawn claude process' 
-            } as ClaudeMessage);
+            emitMessage({ type: 'error', content: 'Failed to spawn claude process' });
         }
-    }
-
-    private handleChunk(chunk: string) {
-        this.lineBuffer += chunk;
 
-        let newlineIndex: number;
-        while ((newlineIndex = this.lineBuffer.indexOf('\n')) !== -1) {
-            const line = this.lineBuffer.substring(0, newlineIndex).trim();
-            this.lineBuffer = this.lineBuffer.substring(newlineIndex + 1);
+        return requestId;
+    }
 
-            if (line.length > 0) {
-                this.parseLine(line);
-            }
+    private createToolHandler(requestId: string, conversationId: string): ToolEventHandler {
+        const handler = new ToolEventHandler();
+        for (const eventName of ['tool_invoked', 'tool_completed', 'tool_error']) {
+            handler.on(eventName, (data) => this.emit(eventName, { ...data, requestId, conversationId }));
         }
+        return handler;
     }
 
-    private parseLine(line: string) {
-        if (!line.startsWith('{')) {
-            return;
-        }
-
-        try {
-            const event: CLIEvent = JSON.parse(line);
-            this.handleEvent(event);
-        } catch (e) {
-            console.warn('[ClaudeCLI] Failed to parse JSON line:', line.substring(0, 100));
+    private release(requestId: string, request: ActiveRequest) {
+        if (this.requests.get(requestId) === request) {
+            this.requests.delete(requestId);
         }
     }
 
-    private handleEvent(event: CLIEvent) {
-        if (event.type === 'assistant' && event.message) {
-            const content = event.message.content;
+    private handleEvent(
+        event: StreamEvent,
+        requestId: string,
+        request: ActiveRequest,
+        emitMessage: (message: ClaudeMessage) => void
+    ) {
+        switch (event.type) {
+            case 'assistant': {
+                const content = event.message.content;
+
+                if (typeof content === 'string') {
+                    request.buffer += content;
+                    emitMessage({ type: 'chunk', content });
+                    break;
+                }
 
-            if (typeof content === 'string') {
-                this.buffer += content;
-                this.emit('message', { type: 'chunk', content } as ClaudeMessage);
-            } else if (Array.isArray(content)) {
                 for (const block of content) {
                     if (block.type === 'text' && block.text) {
-                        this.buffer += block.text;
-                        this.emit('message', { type: 'chunk', content: block.text } as ClaudeMessage);
+                        request.buffer += block.text;
+                        emitMessage({ type: 'chunk', content: block.text });
                     } else if (block.type === 'tool_use') {
-                        this.emit('message', {
+                        emitMessage({
                             type: 'tool',
                             content: `Using tool: ${block.name}`,
                             toolName: block.name,
                             toolInput: block.input
-                        } as ClaudeMessage);
+                        });
                     }
                 }
+                break;
             }
-        } else if (event.type === 'result') {
-            if (event.is_error || event.subtype === 'error') {
-                const errorContent = event.message?.content;
-                let errorText = 'Unknown error';
-                if (typeof errorContent === 'string') {
-                    errorText = errorContent;
-                } else if (Array.isArray(errorContent)) {
-                    errorText = errorContent
-                        .filter(b => b.type === 'text')
-                        .map(b => b.text)
-                        .join('');
+            case 'result':
+                request.usage = usageFromResult(event);
+                this.usage.record(request.usage, [`request:${requestId}`, `session:${request.conversationId}`]);
+                if (event.is_error) {
+                    emitMessage({ type: 'error', content: resultErrorMessage(event) });
                 }
-                this.emit('message', { type: 'error', content: errorText } as ClaudeMessage);
-            }
+                break;
+            case 'unknown':
+                console.warn('[ClaudeCLI] Unrecognized stream event:', JSON.stringify(event.raw).substring(0, 200));
+                this.emit('unknown_event', event.raw);
+                break;
+            case 'system':
+                this.setSessionId(request.conversationId, event.session_id);
+                break;
+            case 'user':
+                break;
         }
     }
 
-    stop() {
-        if (this.process && !this.process.killed) {
-            if (process.platform === 'win32') {
-                spawn('taskkill', ['/pid', this.process.pid!.toString(), '/f', '/t']);
-            } else {
-                this.process.kill('SIGINT');
+    /**
+     * Stops one request, or every request when no id is given.
+     * Each stopped request still ends with its 'done' message.
+     */
+    stop(requestId?: string) {
+        const ids = requestId ? [requestId] : [...this.requests.keys()];
+        for (const id of ids) {
+            this.requests.get(id)?.stream.cancel();
+        }
+    }
+
+    /**
+     * Ids of the requests still streaming.
+     */
+    getActiveRequests(): string[] {
+        return [...this.requests.keys()];
+    }
+
+    /**
+     * Starts a new conversation: the next turn opens a fresh CLI session.
+     */
+    createSession(conversationId: string = DEFAULT_CONVERSATION_ID) {
+        this.stopConversation(conversationId);
+        this.getConversation(conversationId).forkPending = false;
+        this.setSessionId(conversationId, null);
+    }
+
+    /**
+     * Continues a saved conversation with its CLI session id, or starts a
+     * fresh one when the id is null.
+     */
+    resumeSession(sessionId: string | null, conversationId: string = DEFAULT_CONVERSATION_ID) {
+        this.getConversation(conversationId).forkPending = false;
+        this.setSessionId(conversationId, sessionId);
+    }
+
+    /**
+     * Makes the next turn of `targetConversationId` branch off the CLI session
+     * of `conversationId`. The branch gets its own session id; the original
+     * session is left as it was.
+     */
+    forkSession(conversationId: string = DEFAULT_CONVERSATION_ID, targetConversationId: string = conversationId) {
+        const source = this.getConversation(conversationId).cliSessionId;
+        if (source === null) return;
+
+        this.setSessionId(targetConversationId, source);
+        this.getConversation(targetConversationId).forkPending = true;
+    }
+
+    getSessionId(conversationId: string = DEFAULT_CONVERSATION_ID): string | null {
+        return this.conversations.get(conversationId)?.cliSessionId ?? null;
+    }
+
+    private stopConversation(conversationId: string) {
+        for (const [id, request] of this.requests) {
+            if (request.conversationId === conversationId) {
+                this.stop(id);
             }
-            this.process = null;
         }
     }
 
-    createSession() {
-        this.stop();
-        this.buffer = '';
-        this.lineBuffer = '';
+    private getConversation(conversationId: string): ConversationState {
+        let conversation = this.conversations.get(conversationId);
+        if (!conversation) {
+            conversation = { cliSessionId: null, forkPending: false };
+            this.conversations.set(conversationId, conversation);
+        }
+        return conversation;
+    }
+
+    private setSessionId(conversationId: string, sessionId: string | null) {
+        const conversation = this.getConversation(conversationId);
+        if (sessionId === conversation.cliSessionId) return;
+        conversation.cliSessionId = sessionId;
+        this.emit('session', sessionId, conversationId);
     }
 
     dispose() {
         this.stop();
+        for (const request of this.requests.values()) {
+            request.toolHandler.removeAllListeners();
+        }
+        this.requests.clear();
     }
 }
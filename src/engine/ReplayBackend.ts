@@ -0,0 +1,127 @@
+import { AgentBackend, AgentRunOptions, AgentStream, BaseAgentStream } from './AgentBackend';
+import { Transcript, loadTranscripts } from './TranscriptRecorder';
+
+/**
+ * How recorded gaps between chunks are reproduced.
+ * - preserve: original timing, scaled by `speed`
+ * - compress: original timing with every gap capped at `maxGapMs`
+ * - instant: chunks are emitted back to back
+ */
+export type ReplayTiming = 'preserve' | 'compress' | 'instant';
+
+export interface ReplayOptions {
+    /** Default: 'compress' */
+    timing?: ReplayTiming;
+    /** Playback speed multiplier for 'preserve' (default 1) */
+    speed?: number;
+    /** Largest gap between chunks for 'compress' (default 50ms) */
+    maxGapMs?: number;
+}
+
+/**
+ * A fixed queue of transcripts (consumed in order) or a function choosing one per request.
+ */
+export type TranscriptSource = Transcript[] | ((options: AgentRunOptions, index: number) => Transcript | undefined);
+
+class ReplayStream extends BaseAgentStream {
+    readonly pid = undefined;
+    private timers: NodeJS.Timeout[] = [];
+    private cancelled: boolean = false;
+
+    constructor(transcript: Transcript, options: Required<ReplayOptions>) {
+        super();
+
+        let elapsed = 0;
+        let previousOffset = 0;
+        for (const chunk of transcript.chunks) {
+            elapsed += ReplayStream.gap(chunk.offsetMs - previousOffset, options);
+            previousOffset = chunk.offsetMs;
+            this.schedule(elapsed, () => {
+                if (chunk.stream === 'stdout') {
+                    this.handleStdout(chunk.data);
+                } else {
+                    this.handleStderr(chunk.data);
+                }
+            });
+        }
+
+        const tail = ReplayStream.gap(transcript.durationMs - previousOffset, options);
+        this.schedule(elapsed + tail, () => this.handleExit(transcript.exitCode));
+    }
+
+    cancel(): void {
+        if (this.cancelled) return;
+        this.cancelled = true;
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers = [];
+        setImmediate(() => this.handleExit(null));
+    }
+
+    private schedule(delayMs: number, fn: () => void): void {
+        // Timers with equal delays fire in insertion order, which keeps chunk order stable
+        this.timers.push(setTimeout(() => {
+            if (!this.cancelled) fn();
+        }, delayMs));
+    }
+
+    private static gap(recordedGapMs: number, options: Required<ReplayOptions>): number {
+        const gap = Math.max(0, recordedGapMs);
+        switch (options.timing) {
+            case 'preserve':
+                return gap / options.speed;
+            case 'compress':
+                return Math.min(gap, options.maxGapMs);
+            case 'instant':
+                return 0;
+        }
+    }
+}
+
+/**
+ * Backend that replays recorded transcripts deterministically instead of
+ * spawning the CLI. Raw chunks are fed through the same line parser as live
+ * runs, so partial-line boundaries from the recording are reproduced exactly.
+ *
+ * @example
+ * const backend = ReplayBackend.fromDirectory('fixtures/plan-session', { timing: 'instant' });
+ * const orchestrator = new SubagentOrchestrator('/workspace', backend);
+ */
+export class ReplayBackend implements AgentBackend {
+    readonly name = 'replay';
+    readonly runs: AgentRunOptions[] = [];
+    private options: Required<ReplayOptions>;
+
+    constructor(private source: TranscriptSource, options: ReplayOptions = {}) {
+        this.options = {
+            timing: options.timing ?? 'compress',
+            speed: options.speed ?? 1,
+            maxGapMs: options.maxGapMs ?? 50
+        };
+    }
+
+    static fromDirectory(directory: string, options: ReplayOptions = {}): ReplayBackend {
+        return new ReplayBackend(loadTranscripts(directory), options);
+    }
+
+    start(options: AgentRunOptions): AgentStream {
+        const index = this.runs.length;
+        this.runs.push(options);
+
+        const transcript = typeof this.source === 'function'
+            ? this.source(options, index)
+            : this.source[index];
+
+        if (!transcript) {
+            return new ReplayStream({
+                version: 1,
+                recordedAt: new Date().toISOString(),
+                request: { cwd: options.cwd, promptPreview: '' },
+                chunks: [{ offsetMs: 0, stream: 'stderr', data: `No transcript to replay for request #${index + 1}` }],
+                exitCode: 1,
+                durationMs: 0
+            }, this.options);
+        }
+
+        return new ReplayStream(transcript, this.options);
+    }
+}
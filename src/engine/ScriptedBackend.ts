@@ -0,0 +1,106 @@
+import { AgentBackend, AgentRunOptions, AgentStream, BaseAgentStream } from './AgentBackend';
+
+/**
+ * One scripted agent run.
+ */
+export interface ScriptedRun {
+    /** stream-json events, serialized one per stdout line */
+    events?: object[];
+    /** Raw stdout lines; used instead of events when provided */
+    lines?: string[];
+    /** Text written to stderr before the run closes */
+    stderr?: string;
+    /** Exit code reported on close (default 0) */
+    exitCode?: number;
+    /** Delay between stdout lines in milliseconds (default 0) */
+    delayMs?: number;
+}
+
+/**
+ * A fixed queue of runs (consumed in order) or a function choosing a run per request.
+ */
+export type Script = ScriptedRun[] | ((options: AgentRunOptions, index: number) => ScriptedRun);
+
+/**
+ * Builds a successful run that streams the given text as one assistant message.
+ */
+export function textRun(text: string, exitCode: number = 0): ScriptedRun {
+    return {
+        events: [{ type: 'assistant', message: { content: [{ type: 'text', text }] } }],
+        exitCode
+    };
+}
+
+class ScriptedStream extends BaseAgentStream {
+    readonly pid = undefined;
+    private timer: NodeJS.Timeout | undefined;
+    private cancelled: boolean = false;
+
+    constructor(private run: ScriptedRun) {
+        super();
+        // Emit asynchronously so callers can attach listeners first
+        this.timer = setTimeout(() => this.play(0), 0);
+    }
+
+    cancel(): void {
+        if (this.cancelled) return;
+        this.cancelled = true;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        setImmediate(() => this.handleExit(null));
+    }
+
+    private play(index: number): void {
+        if (this.cancelled) return;
+
+        const lines = this.run.lines ?? (this.run.events ?? []).map(e => JSON.stringify(e));
+        if (index < lines.length) {
+            this.handleStdout(lines[index] + '\n');
+            this.timer = setTimeout(() => this.play(index + 1), this.run.delayMs ?? 0);
+            return;
+        }
+
+        if (this.run.stderr) {
+            this.handleStderr(this.run.stderr);
+        }
+        this.timer = undefined;
+        this.handleExit(this.run.exitCode ?? 0);
+    }
+}
+
+/**
+ * Fake backend that plays back scripted stream-json runs instead of spawning the CLI.
+ *
+ * Every start() call is recorded in `runs`, so tests can assert on the prompts
+ * and options the extension produced.
+ *
+ * @example
+ * const backend = new ScriptedBackend([textRun('{"steps": []}'), textRun('PASS')]);
+ * const orchestrator = new SubagentOrchestrator('/workspace', backend);
+ */
+export class ScriptedBackend implements AgentBackend {
+    readonly name = 'scripted';
+    readonly runs: AgentRunOptions[] = [];
+
+    constructor(private script: Script) {}
+
+    start(options: AgentRunOptions): AgentStream {
+        const index = this.runs.length;
+        this.runs.push(options);
+
+        let run: ScriptedRun | undefined;
+        if (typeof this.script === 'function') {
+            run = this.script(options, index);
+        } else {
+            run = this.script[index];
+        }
+
+        if (!run) {
+            run = { stderr: `No scripted run for request #${index + 1}`, exitCode: 1 };
+        }
+
+        return new ScriptedStream(run);
+    }
+}
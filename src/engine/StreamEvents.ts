@@ -0,0 +1,314 @@
+/**
+ * Typed model of the Claude CLI `--output-format stream-json` protocol.
+ *
+ * Every line the CLI prints is normalized into one member of the StreamEvent
+ * union. Lines that parse as JSON but match none of the known shapes become
+ * an UnknownEvent carrying the raw object, so consumers can log or surface
+ * protocol additions instead of silently dropping them.
+ */
+
+// ---------------------------------------------------------------------------
+// Content blocks
+// ---------------------------------------------------------------------------
+
+export interface TextBlock {
+    type: 'text';
+    text: string;
+}
+
+export interface ThinkingBlock {
+    type: 'thinking';
+    thinking: string;
+}
+
+export interface ToolUseBlock {
+    type: 'tool_use';
+    id: string;
+    name: string;
+    input: Record<string, unknown>;
+}
+
+/** Content of a tool result: plain text or a list of (mostly text) blocks */
+export type ToolResultContent = string | Array<TextBlock | { type: string; [key: string]: unknown }>;
+
+export interface ToolResultBlock {
+    type: 'tool_result';
+    tool_use_id: string;
+    content?: ToolResultContent;
+    is_error?: boolean;
+}
+
+export type AssistantContentBlock = TextBlock | ThinkingBlock | ToolUseBlock;
+
+export interface Usage {
+    input_tokens: number;
+    output_tokens: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Events
+// ---------------------------------------------------------------------------
+
+export interface McpServerStatus {
+    name: string;
+    status: string;
+}
+
+/** First event of every session */
+export interface SystemInitEvent {
+    type: 'system';
+    subtype: 'init';
+    session_id: string;
+    cwd?: string;
+    model?: string;
+    tools?: string[];
+    mcp_servers?: McpServerStatus[];
+    permissionMode?: string;
+    apiKeySource?: string;
+}
+
+export interface AssistantEvent {
+    type: 'assistant';
+    message: {
+        id?: string;
+        model?: string;
+        /** Always blocks from the CLI; plain strings are accepted for older transcripts */
+        content: AssistantContentBlock[] | string;
+        stop_reason?: string | null;
+        usage?: Usage;
+    };
+    parent_tool_use_id?: string | null;
+    session_id?: string;
+}
+
+/** Tool results are fed back to the model as user messages */
+export interface UserEvent {
+    type: 'user';
+    message: {
+        role: 'user';
+        content: ToolResultBlock[] | string;
+    };
+    parent_tool_use_id?: string | null;
+    session_id?: string;
+}
+
+interface ResultEventBase {
+    type: 'result';
+    is_error: boolean;
+    result?: string;
+    session_id?: string;
+    duration_ms?: number;
+    duration_api_ms?: number;
+    num_turns?: number;
+    total_cost_usd?: number;
+    usage?: Usage;
+}
+
+export interface ResultSuccessEvent extends ResultEventBase {
+    subtype: 'success';
+    result: string;
+}
+
+export type ResultErrorSubtype = 'error' | 'error_max_turns' | 'error_during_execution';
+
+export interface ResultErrorEvent extends ResultEventBase {
+    subtype: ResultErrorSubtype;
+    is_error: true;
+}
+
+/** Last event of every session, with cost and usage totals */
+export type ResultEvent = ResultSuccessEvent | ResultErrorEvent;
+
+/** A JSON line that matched no known event shape */
+export interface UnknownEvent {
+    type: 'unknown';
+    raw: Record<string, unknown>;
+}
+
+export type StreamEvent =
+    | SystemInitEvent
+    | AssistantEvent
+    | UserEvent
+    | ResultEvent
+    | UnknownEvent;
+
+const RESULT_ERROR_SUBTYPES: ResultErrorSubtype[] = ['error', 'error_max_turns', 'error_during_execution'];
+
+// ---------------------------------------------------------------------------
+// Normalization
+// ---------------------------------------------------------------------------
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasContent(message: unknown): boolean {
+    return isRecord(message) && (typeof message.content === 'string' || Array.isArray(message.content));
+}
+
+/**
+ * Classifies a parsed JSON object as a StreamEvent.
+ * Only the fields consumers rely on are checked; everything else passes through.
+ */
+export function toStreamEvent(value: unknown): StreamEvent {
+    if (!isRecord(value)) {
+        return { type: 'unknown', raw: { value } };
+    }
+
+    switch (value.type) {
+        case 'system':
+            if (value.subtype === 'init' && typeof value.session_id === 'string') {
+                return value as unknown as SystemInitEvent;
+            }
+            break;
+        case 'assistant':
+        case 'user':
+            if (hasContent(value.message)) {
+                return value as unknown as AssistantEvent | UserEvent;
+            }
+            break;
+        case 'result':
+            if (value.subtype === 'success') {
+                return { is_error: false, result: '', ...value } as ResultSuccessEvent;
+            }
+            if (RESULT_ERROR_SUBTYPES.includes(value.subtype as ResultErrorSubtype)) {
+                return { ...value, is_error: true } as ResultErrorEvent;
+            }
+            break;
+    }
+
+    return { type: 'unknown', raw: value };
+}
+
+/**
+ * Outcome of parsing one stdout line: an event, or the line that failed to parse.
+ */
+export type ParsedLine =
+    | { ok: true; event: StreamEvent }
+    | { ok: false; line: string };
+
+/**
+ * Incremental stream-json parser.
+ *
+ * Accepts raw stdout in arbitrary chunks, buffers partial lines and returns
+ * the lines completed by each chunk. Lines that don't start with `{` (CLI
+ * banners, progress output) are skipped.
+ *
+ * @example
+ * const parser = new StreamJsonParser();
+ * for (const parsed of parser.push(chunk)) {
+ *     if (parsed.ok) handle(parsed.event);
+ * }
+ * parser.flush();
+ */
+export class StreamJsonParser {
+    private buffer: string = '';
+
+    push(chunk: string): ParsedLine[] {
+        this.buffer += chunk;
+        const results: ParsedLine[] = [];
+
+        let newlineIndex: number;
+        while ((newlineIndex = this.buffer.indexOf('\n')) !== -1) {
+            const line = this.buffer.substring(0, newlineIndex).trim();
+            this.buffer = this.buffer.substring(newlineIndex + 1);
+            this.parseLine(line, results);
+        }
+
+        return results;
+    }
+
+    /** Parses whatever is left in the buffer, e.g. a final line without newline. */
+    flush(): ParsedLine[] {
+        const remaining = this.buffer.trim();
+        this.buffer = '';
+        const results: ParsedLine[] = [];
+        this.parseLine(remaining, results);
+        return results;
+    }
+
+    private parseLine(line: string, results: ParsedLine[]): void {
+        if (!line.startsWith('{')) {
+            return;
+        }
+
+        try {
+            results.push({ ok: true, event: toStreamEvent(JSON.parse(line)) });
+        } catch {
+            results.push({ ok: false, line });
+        }
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Concatenated text of an assistant message.
+ */
+export function assistantText(event: AssistantEvent): string {
+    const content = event.message.content;
+    if (typeof content === 'string') {
+        return content;
+    }
+    return content
+        .filter((block): block is TextBlock => block.type === 'text' && !!block.text)
+        .map(block => block.text)
+        .join('');
+}
+
+/**
+ * Tool invocations requested by an assistant message.
+ */
+export function toolUses(event: AssistantEvent): ToolUseBlock[] {
+    const content = event.message.content;
+    return typeof content === 'string'
+        ? []
+        : content.filter((block): block is ToolUseBlock => block.type === 'tool_use');
+}
+
+/**
+ * Tool results carried by a user message.
+ */
+export function toolResults(event: UserEvent): ToolResultBlock[] {
+    const content = event.message.content;
+    return typeof content === 'string'
+        ? []
+        : content.filter(block => block.type === 'tool_result');
+}
+
+/**
+ * Plain text of a tool result's content.
+ */
+export function toolResultText(content: ToolResultContent | undefined): string {
+    if (content === undefined) {
+        return '';
+    }
+    if (typeof content === 'string') {
+        return content;
+    }
+    return content
+        .filter((block): block is TextBlock => block.type === 'text')
+        .map(block => block.text)
+        .join('\n');
+}
+
+/**
+ * Human-readable description of a failed result event.
+ */
+export function resultErrorMessage(event: ResultEvent): string {
+    if (event.result) {
+        return event.result;
+    }
+    switch (event.subtype) {
+        case 'error_max_turns':
+            return `Stopped after reaching the maximum number of turns (${event.num_turns ?? '?'})`;
+        case 'error_during_execution':
+            return 'The CLI failed during execution';
+        default:
+            return 'Unknown error';
+    }
+}
@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentBackend, AgentRunOptions, AgentStream } from './AgentBackend';
+
+/**
+ * A slice of raw output captured from an agent run.
+ */
+export interface TranscriptChunk {
+    /** Milliseconds since the run started */
+    offsetMs: number;
+    stream: 'stdout' | 'stderr';
+    /** Raw text exactly as received, including partial lines */
+    data: string;
+}
+
+/**
+ * Recorded stream-json session, stored as one JSON fixture file per run.
+ */
+export interface Transcript {
+    version: 1;
+    recordedAt: string;
+    request: {
+        cwd: string;
+        model?: string;
+        sessionId?: string;
+        /** First characters of the prompt, to help identify the fixture */
+        promptPreview: string;
+    };
+    chunks: TranscriptChunk[];
+    exitCode: number | null;
+    durationMs: number;
+}
+
+const PROMPT_PREVIEW_LENGTH = 200;
+
+/**
+ * Reads a single transcript fixture.
+ */
+export function loadTranscript(filePath: string): Transcript {
+    const transcript = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Transcript;
+    if (transcript.version !== 1 || !Array.isArray(transcript.chunks)) {
+        throw new Error(`Unsupported transcript format: ${filePath}`);
+    }
+    return transcript;
+}
+
+/**
+ * Reads all transcript fixtures in a directory, ordered by file name.
+ */
+export function loadTranscripts(directory: string): Transcript[] {
+    if (!fs.existsSync(directory)) {
+        return [];
+    }
+
+    return fs.readdirSync(directory)
+        .filter(name => name.endsWith('.json'))
+        .sort()
+        .map(name => loadTranscript(path.join(directory, name)));
+}
+
+/**
+ * Backend decorator that captures the raw stdout/stderr of every run into a
+ * transcript fixture, while passing the stream through unchanged.
+ *
+ * @example
+ * const backend = new RecordingBackend(new ClaudeCliBackend(), '/workspace/.claudeprint/transcripts');
+ */
+export class RecordingBackend implements AgentBackend {
+    readonly name: string;
+    private runCount: number = 0;
+
+    constructor(private inner: AgentBackend, private directory: string) {
+        this.name = `recording(${inner.name})`;
+    }
+
+    start(options: AgentRunOptions): AgentStream {
+        const stream = this.inner.start(options);
+        const startedAt = Date.now();
+        const chunks: TranscriptChunk[] = [];
+        const fileName = `${startedAt}-${String(++this.runCount).padStart(3, '0')}.json`;
+
+        stream.on('data', (data: string) => {
+            chunks.push({ offsetMs: Date.now() - startedAt, stream: 'stdout', data });
+        });
+
+        stream.on('stderr', (data: string) => {
+            chunks.push({ offsetMs: Date.now() - startedAt, stream: 'stderr', data });
+        });
+
+        stream.on('close', (code: number | null) => {
+            const transcript: Transcript = {
+                version: 1,
+                recordedAt: new Date(startedAt).toISOString(),
+                request: {
+                    cwd: options.cwd,
+                    model: options.model,
+                    sessionId: options.sessionId,
+                    promptPreview: options.prompt.substring(0, PROMPT_PREVIEW_LENGTH)
+                },
+                chunks,
+                exitCode: code,
+                durationMs: Date.now() - startedAt
+            };
+            this.write(fileName, transcript);
+        });
+
+        return stream;
+    }
+
+    warmup(cwd: string): Promise<void> {
+        return this.inner.warmup?.(cwd) ?? Promise.resolve();
+    }
+
+    private write(fileName: string, transcript: Transcript): void {
+        try {
+            if (!fs.existsSync(this.directory)) {
+                fs.mkdirSync(this.directory, { recursive: true });
+            }
+            fs.writeFileSync(path.join(this.directory, fileName), JSON.stringify(transcript, null, 2));
+        } catch (err) {
+            console.error('[TranscriptRecorder] Failed to write transcript:', err);
+        }
+    }
+}
@@ -0,0 +1,96 @@
+import { EventEmitter } from 'events';
+import { ResultEvent } from './StreamEvents';
+
+/**
+ * Token and cost totals of one or more agent runs.
+ */
+export interface UsageTotals {
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadTokens: number;
+    cacheCreationTokens: number;
+    costUsd: number;
+    /** Number of runs that reported usage */
+    runs: number;
+}
+
+/** What usage is rolled up by */
+export type UsageScopeKind = 'request' | 'task' | 'step' | 'plan' | 'swarm' | 'session';
+
+/** A rollup key such as `task:plan-1-step-2` or `session:session-1700000000000` */
+export type UsageScope = `${UsageScopeKind}:${string}`;
+
+export function emptyUsage(): UsageTotals {
+    return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0, costUsd: 0, runs: 0 };
+}
+
+export function addUsage(a: UsageTotals, b: UsageTotals): UsageTotals {
+    return {
+        inputTokens: a.inputTokens + b.inputTokens,
+        outputTokens: a.outputTokens + b.outputTokens,
+        cacheReadTokens: a.cacheReadTokens + b.cacheReadTokens,
+        cacheCreationTokens: a.cacheCreationTokens + b.cacheCreationTokens,
+        costUsd: a.costUsd + b.costUsd,
+        runs: a.runs + b.runs
+    };
+}
+
+/**
+ * Usage of a single run, taken from its result event.
+ * The CLI reports usage and cost for the whole run there.
+ */
+export function usageFromResult(event: ResultEvent): UsageTotals {
+    return {
+        inputTokens: event.usage?.input_tokens ?? 0,
+        outputTokens: event.usage?.output_tokens ?? 0,
+        cacheReadTokens: event.usage?.cache_read_input_tokens ?? 0,
+        cacheCreationTokens: event.usage?.cache_creation_input_tokens ?? 0,
+        costUsd: event.total_cost_usd ?? 0,
+        runs: 1
+    };
+}
+
+/**
+ * Rolls the usage of agent runs up into scopes.
+ *
+ * A run is recorded once with every scope it counts towards, e.g. its task,
+ * plan step and plan, so each scope's totals can be read without walking
+ * the others.
+ *
+ * @fires usage_updated - { scope, totals, delta } for every scope a run was recorded in
+ */
+export class UsageTracker extends EventEmitter {
+    private totals: Map<UsageScope, UsageTotals> = new Map();
+
+    record(usage: UsageTotals, scopes: UsageScope[]): void {
+        for (const scope of new Set(scopes)) {
+            const totals = addUsage(this.totals.get(scope) ?? emptyUsage(), usage);
+            this.totals.set(scope, totals);
+            this.emit('usage_updated', { scope, totals: { ...totals }, delta: { ...usage } });
+        }
+    }
+
+    /**
+     * Totals of a scope; zero when nothing was recorded for it.
+     */
+    getTotals(scope: UsageScope): UsageTotals {
+        return { ...(this.totals.get(scope) ?? emptyUsage()) };
+    }
+
+    /**
+     * Scopes with recorded usage, optionally limited to one kind.
+     */
+    getScopes(kind?: UsageScopeKind): UsageScope[] {
+        const scopes = [...this.totals.keys()];
+        return kind ? scopes.filter(scope => scope.startsWith(`${kind}:`)) : scopes;
+    }
+
+    /**
+     * Seeds a scope with totals persisted earlier, e.g. of a reloaded session.
+     * Scopes that already have usage are left alone.
+     */
+    restore(scope: UsageScope, totals: UsageTotals): void {
+        if (this.totals.has(scope)) return;
+        this.totals.set(scope, { ...emptyUsage(), ...totals });
+    }
+}
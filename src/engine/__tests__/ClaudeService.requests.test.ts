@@ -0,0 +1,120 @@
+import { ClaudeService, ClaudeMessage } from '../ClaudeService';
+import { ScriptedBackend, ScriptedRun } from '../ScriptedBackend';
+import { collectEvents } from '../../orchestration/__tests__/setup';
+
+/**
+ * Tests for concurrent, independently cancellable ClaudeService requests.
+ */
+describe('ClaudeService - Requests', () => {
+    function slowRun(words: string[]): ScriptedRun {
+        return {
+            events: words.map(text => ({ type: 'assistant', message: { content: [{ type: 'text', text }] } })),
+            delayMs: 5
+        };
+    }
+
+    function waitForDone(service: ClaudeService, requestId: string): Promise<ClaudeMessage> {
+        return new Promise(resolve => {
+            const onMessage = (message: ClaudeMessage) => {
+                if (message.requestId === requestId && message.type === 'done') {
+                    service.off('message', onMessage);
+                    resolve(message);
+                }
+            };
+            service.on('message', onMessage);
+        });
+    }
+
+    it('should stream requests of different conversations side by side', async () => {
+        const backend = new ScriptedBackend([slowRun(['a1 ', 'a2']), slowRun(['b1 ', 'b2'])]);
+        const service = new ClaudeService('/workspace', backend);
+        const messages = collectEvents<ClaudeMessage>(service, 'message');
+
+        const first = await service.sendMessage('chat', { conversationId: 'chat-1' });
+        const second = await service.sendMessage('other chat', { conversationId: 'chat-2' });
+        expect(service.getActiveRequests()).toEqual([first, second]);
+
+        const [doneFirst, doneSecond] = await Promise.all([waitForDone(service, first), waitForDone(service, second)]);
+
+        expect(doneFirst).toMatchObject({ content: 'a1 a2', conversationId: 'chat-1' });
+        expect(doneSecond).toMatchObject({ content: 'b1 b2', conversationId: 'chat-2' });
+        expect(messages.events.filter(m => m.requestId === first && m.type === 'chunk').map(m => m.content))
+            .toEqual(['a1 ', 'a2']);
+        expect(service.getActiveRequests()).toEqual([]);
+    });
+
+    it('should stop one request without touching the others', async () => {
+        const backend = new ScriptedBackend([slowRun(['a1 ', 'a2 ', 'a3']), slowRun(['b1 ', 'b2'])]);
+        const service = new ClaudeService('/workspace', backend);
+
+        const first = await service.sendMessage('chat', { conversationId: 'chat-1', requestId: 'chat-turn' });
+        const second = await service.sendMessage('review', { conversationId: 'review-1' });
+        const doneFirst = waitForDone(service, first);
+        const doneSecond = waitForDone(service, second);
+
+        service.stop(first);
+
+        expect(first).toBe('chat-turn');
+        expect((await doneFirst).content).not.toBe('a1 a2 a3');
+        expect((await doneSecond).content).toBe('b1 b2');
+    });
+
+    it('should replace the in-flight turn of the same conversation', async () => {
+        const backend = new ScriptedBackend([slowRun(['old ', 'reply']), slowRun(['new reply'])]);
+        const service = new ClaudeService('/workspace', backend);
+
+        const first = await service.sendMessage('first');
+        const doneFirst = waitForDone(service, first);
+        const second = await service.sendMessage('second');
+
+        expect((await doneFirst).content).not.toBe('old reply');
+        expect((await waitForDone(service, second)).content).toBe('new reply');
+    });
+
+    it('should tag tool events with their request', async () => {
+        const backend = new ScriptedBackend([{
+            events: [{ type: 'assistant', message: { content: [{ type: 'tool_use', id: 'toolu_1', name: 'Read', input: {} }] } }]
+        }]);
+        const service = new ClaudeService('/workspace', backend);
+        const invoked = collectEvents(service, 'tool_invoked');
+
+        const requestId = await service.sendMessage('read it', { conversationId: 'chat-1' });
+        await waitForDone(service, requestId);
+
+        expect(invoked.events).toEqual([
+            expect.objectContaining({ toolName: 'Read', requestId, conversationId: 'chat-1' })
+        ]);
+    });
+
+    it('should report the usage of a request and add it to its conversation', async () => {
+        const run = (costUsd: number): ScriptedRun => ({
+            events: [
+                { type: 'assistant', message: { content: [{ type: 'text', text: 'ok' }] } },
+                {
+                    type: 'result',
+                    subtype: 'success',
+                    is_error: false,
+                    result: 'ok',
+                    total_cost_usd: costUsd,
+                    usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 300 }
+                }
+            ]
+        });
+        const service = new ClaudeService('/workspace', new ScriptedBackend([run(0.02), run(0.03)]));
+
+        const first = await service.sendMessage('one', { conversationId: 'chat-1' });
+        expect((await waitForDone(service, first)).usage).toEqual({
+            inputTokens: 10,
+            outputTokens: 5,
+            cacheReadTokens: 300,
+            cacheCreationTokens: 0,
+            costUsd: 0.02,
+            runs: 1
+        });
+        const second = await service.sendMessage('two', { conversationId: 'chat-1' });
+        await waitForDone(service, second);
+
+        expect(service.usage.getTotals(`request:${second}`).costUsd).toBe(0.03);
+        expect(service.usage.getTotals('session:chat-1')).toMatchObject({ outputTokens: 10, costUsd: 0.05, runs: 2 });
+    });
+});
@@ -0,0 +1,101 @@
+import { ClaudeService } from '../ClaudeService';
+import { ScriptedBackend, ScriptedRun } from '../ScriptedBackend';
+import { collectEvents } from '../../orchestration/__tests__/setup';
+
+/**
+ * Tests for conversation continuity across ClaudeService turns.
+ */
+describe('ClaudeService - Sessions', () => {
+    function turn(sessionId: string, text: string = 'ok'): ScriptedRun {
+        return {
+            events: [
+                { type: 'system', subtype: 'init', session_id: sessionId },
+                { type: 'assistant', message: { content: [{ type: 'text', text }] } },
+                { type: 'result', subtype: 'success', is_error: false, result: text, session_id: sessionId }
+            ]
+        };
+    }
+
+    async function sendAndWait(service: ClaudeService, prompt: string) {
+        const done = new Promise<void>(resolve => {
+            const onMessage = (message: { type: string }) => {
+                if (message.type === 'done') {
+                    service.off('message', onMessage);
+                    resolve();
+                }
+            };
+            service.on('message', onMessage);
+        });
+        await service.sendMessage(prompt);
+        await done;
+    }
+
+    it('should resume the session of the previous turn', async () => {
+        const backend = new ScriptedBackend([turn('session-a'), turn('session-a')]);
+        const service = new ClaudeService('/workspace', backend);
+        const sessions = collectEvents(service, 'session');
+
+        await sendAndWait(service, 'first');
+        await sendAndWait(service, 'second');
+
+        expect(backend.runs[0].resumeSessionId).toBeUndefined();
+        expect(backend.runs[1].resumeSessionId).toBe('session-a');
+        expect(service.getSessionId()).toBe('session-a');
+        expect(sessions.events).toEqual(['session-a']);
+    });
+
+    it('should start a fresh CLI session after createSession', async () => {
+        const backend = new ScriptedBackend([turn('session-a'), turn('session-b')]);
+        const service = new ClaudeService('/workspace', backend);
+        const sessions = collectEvents(service, 'session');
+
+        await sendAndWait(service, 'first');
+        service.createSession();
+        await sendAndWait(service, 'second');
+
+        expect(backend.runs[1].resumeSessionId).toBeUndefined();
+        expect(sessions.events).toEqual(['session-a', null, 'session-b']);
+    });
+
+    it('should fork only the next turn', async () => {
+        const backend = new ScriptedBackend([turn('session-a'), turn('session-fork'), turn('session-fork')]);
+        const service = new ClaudeService('/workspace', backend);
+
+        await sendAndWait(service, 'first');
+        service.forkSession();
+        await sendAndWait(service, 'branch');
+        await sendAndWait(service, 'continue branch');
+
+        expect(backend.runs[1]).toMatchObject({ resumeSessionId: 'session-a', forkSession: true });
+        expect(backend.runs[2]).toMatchObject({ resumeSessionId: 'session-fork', forkSession: false });
+    });
+
+    it('should continue a restored session', async () => {
+        const backend = new ScriptedBackend([turn('saved-session')]);
+        const service = new ClaudeService('/workspace', backend);
+
+        service.resumeSession('saved-session');
+        await sendAndWait(service, 'where were we?');
+
+        expect(backend.runs[0].resumeSessionId).toBe('saved-session');
+    });
+
+    it('should drop a session the CLI can no longer resume', async () => {
+        const backend = new ScriptedBackend([
+            { stderr: 'No conversation found with session ID: gone', exitCode: 1 },
+            turn('session-new')
+        ]);
+        const service = new ClaudeService('/workspace', backend);
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        service.resumeSession('gone');
+        await sendAndWait(service, 'hello');
+        await sendAndWait(service, 'hello again');
+
+        expect(backend.runs[1].resumeSessionId).toBeUndefined();
+        expect(service.getSessionId()).toBe('session-new');
+        warn.mockRestore();
+        error.mockRestore();
+    });
+});
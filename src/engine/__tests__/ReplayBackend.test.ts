@@ -0,0 +1,210 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ReplayBackend } from '../ReplayBackend';
+import { RecordingBackend, Transcript, loadTranscripts } from '../TranscriptRecorder';
+import { ScriptedBackend } from '../ScriptedBackend';
+import { StreamEvent } from '../StreamEvents';
+import { ClaudeService, ClaudeMessage } from '../ClaudeService';
+import { SubagentOrchestrator } from '../../orchestration/SubagentOrchestrator';
+import { ToolEventHandler } from '../../orchestration/ToolEventHandler';
+import { collectEvents, createReplayBackend, waitForEvent } from '../../orchestration/__tests__/setup';
+
+/**
+ * Tests for transcript recording and deterministic replay.
+ *
+ * Fixtures live in src/orchestration/__tests__/fixtures/transcripts and were
+ * captured from real CLI sessions, including lines split across chunks.
+ */
+describe('ReplayBackend', () => {
+    function transcriptOf(lines: string[], durationMs: number = 100): Transcript {
+        return {
+            version: 1,
+            recordedAt: '2026-10-12T09:00:00.000Z',
+            request: { cwd: '/workspace', promptPreview: 'p' },
+            chunks: lines.map((data, i) => ({ offsetMs: i * 40, stream: 'stdout' as const, data })),
+            exitCode: 0,
+            durationMs
+        };
+    }
+
+    describe('stream handling', () => {
+        it('should reassemble lines that were split across recorded chunks', async () => {
+            const stream = createReplayBackend(['planner-session']).start({ prompt: 'p', cwd: '/workspace' });
+            const events = collectEvents(stream, 'event');
+            const parseErrors = collectEvents(stream, 'parse_error');
+
+            const code = await waitForEvent(stream, 'close');
+
+            expect(code).toBe(0);
+            expect(events.events.map(e => e.type)).toEqual(['system', 'assistant', 'user', 'assistant', 'result']);
+            expect(parseErrors.events).toHaveLength(0);
+        });
+
+        it('should fail requests with no transcript left', async () => {
+            const backend = new ReplayBackend([]);
+            const stream = backend.start({ prompt: 'p', cwd: '/workspace' });
+            const stderr = collectEvents(stream, 'stderr');
+
+            const code = await waitForEvent(stream, 'close');
+
+            expect(code).toBe(1);
+            expect(stderr.events[0]).toContain('No transcript to replay');
+        });
+
+        it('should close with a null code when cancelled', async () => {
+            const backend = new ReplayBackend([transcriptOf(['{"type":"system"}\n'])], { timing: 'preserve' });
+            const stream = backend.start({ prompt: 'p', cwd: '/workspace' });
+            const events = collectEvents(stream, 'event');
+
+            stream.cancel();
+
+            await expect(waitForEvent(stream, 'close')).resolves.toBeNull();
+            expect(events.events).toHaveLength(0);
+        });
+    });
+
+    describe('timing', () => {
+        beforeEach(() => {
+            jest.useFakeTimers();
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it('should keep recorded gaps in preserve mode, scaled by speed', () => {
+            const transcript = transcriptOf(['{"type":"a"}\n', '{"type":"b"}\n', '{"type":"c"}\n']);
+            const stream = new ReplayBackend([transcript], { timing: 'preserve', speed: 2 })
+                .start({ prompt: 'p', cwd: '/workspace' });
+            const events = collectEvents(stream, 'event');
+
+            // Placeholder lines surface as unknown events carrying the raw object
+            jest.advanceTimersByTime(20);
+            expect(events.events.map(e => e.raw.type)).toEqual(['a', 'b']);
+
+            jest.advanceTimersByTime(20);
+            expect(events.events.map(e => e.raw.type)).toEqual(['a', 'b', 'c']);
+        });
+
+        it('should cap gaps in compress mode', () => {
+            const transcript = transcriptOf(['{"type":"a"}\n', '{"type":"b"}\n'], 60_000);
+            const stream = new ReplayBackend([transcript], { timing: 'compress', maxGapMs: 5 })
+                .start({ prompt: 'p', cwd: '/workspace' });
+            const closed = jest.fn();
+            stream.on('close', closed);
+
+            jest.advanceTimersByTime(10);
+
+            expect(closed).toHaveBeenCalledWith(0);
+        });
+    });
+
+    describe('RecordingBackend', () => {
+        let directory: string;
+
+        beforeEach(() => {
+            directory = fs.mkdtempSync(path.join(os.tmpdir(), 'transcripts-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(directory, { recursive: true, force: true });
+        });
+
+        it('should record a run that replays to the same events', async () => {
+            const scripted = new ScriptedBackend([{
+                lines: [
+                    JSON.stringify({ type: 'system', subtype: 'init', session_id: 's1' }),
+                    JSON.stringify({ type: 'result', subtype: 'success', is_error: false, result: 'ok' })
+                ],
+                stderr: 'warning: slow network',
+                exitCode: 0
+            }]);
+            const recorder = new RecordingBackend(scripted, directory);
+
+            const live = recorder.start({ prompt: 'record me', cwd: '/workspace', model: 'claude-haiku-4-5' });
+            const liveEvents = collectEvents(live, 'event');
+            await waitForEvent(live, 'close');
+
+            const transcripts = loadTranscripts(directory);
+            expect(transcripts).toHaveLength(1);
+            expect(transcripts[0].request).toMatchObject({ promptPreview: 'record me', model: 'claude-haiku-4-5' });
+            expect(transcripts[0].chunks.some(c => c.stream === 'stderr')).toBe(true);
+
+            const replayed = new ReplayBackend(transcripts, { timing: 'instant' }).start({ prompt: 'record me', cwd: '/workspace' });
+            const replayedEvents = collectEvents(replayed, 'event');
+            const code = await waitForEvent(replayed, 'close');
+
+            expect(code).toBe(0);
+            expect(replayedEvents.events).toEqual(liveEvents.events);
+        });
+    });
+
+    describe('consumers', () => {
+        it('should extract a fenced plan from a recorded planner session', async () => {
+            const backend = createReplayBackend(['planner-session']);
+            const orchestrator = new SubagentOrchestrator('/workspace', backend);
+
+            const response = await orchestrator.runAgent({ taskId: 'plan-1', role: 'planner', prompt: 'Slug session files' });
+
+            expect(response.success).toBe(true);
+            expect(response.plan?.steps.map(s => s.action)).toEqual(['create_file', 'modify_file', 'run_command']);
+            expect(response.plan?.steps[1].files).toEqual(['src/providers/SessionManager.ts']);
+            orchestrator.dispose();
+        });
+
+        it('should stream a recorded coder session through ClaudeService', async () => {
+            const service = new ClaudeService('/workspace', createReplayBackend(['coder-tools-session']));
+            const messages = collectEvents<ClaudeMessage>(service, 'message');
+            const done = new Promise<void>(resolve => {
+                service.on('message', (msg: ClaudeMessage) => {
+                    if (msg.type === 'done') resolve();
+                });
+            });
+
+            await service.sendMessage('Add slugify');
+            await done;
+
+            expect(messages.events.filter(m => m.type === 'tool').map(m => m.toolName)).toEqual(['Glob', 'Write', 'Bash']);
+            expect(messages.events[messages.events.length - 1].content).toContain('Created src/utils/slugify.ts.');
+        });
+
+        it('should forward tool status transitions from ClaudeService', async () => {
+            const service = new ClaudeService('/workspace', createReplayBackend(['coder-tools-session']));
+            const invoked = collectEvents(service, 'tool_invoked');
+            const completed = collectEvents(service, 'tool_completed');
+            const errors = collectEvents(service, 'tool_error');
+            const done = new Promise<void>(resolve => {
+                service.on('message', (msg: ClaudeMessage) => {
+                    if (msg.type === 'done') resolve();
+                });
+            });
+
+            await service.sendMessage('Add slugify');
+            await done;
+
+            expect(invoked.events.map(e => e.toolName)).toEqual(['Glob', 'Write', 'Bash']);
+            expect(completed.events.map(e => e.output)).toEqual([
+                '/workspace/src/utils/paths.ts',
+                'File created successfully at: /workspace/src/utils/slugify.ts'
+            ]);
+            expect(errors.events).toEqual([expect.objectContaining({ toolName: 'Bash' })]);
+            service.dispose();
+        });
+
+        it('should drive ToolEventHandler from a recorded coder session', async () => {
+            const handler = new ToolEventHandler({ enableLogging: false });
+            const stream = createReplayBackend(['coder-tools-session']).start({ prompt: 'p', cwd: '/workspace' });
+
+            stream.on('event', (event: StreamEvent) => handler.handleStreamEvent(event));
+            await waitForEvent(stream, 'close');
+
+            const stats = handler.getStatistics();
+            expect(stats.totalInvocations).toBe(3);
+            expect(stats.successCount).toBe(2);
+            expect(stats.errorCount).toBe(1);
+            expect(handler.getToolsByName('Bash')[0].error).toContain('TS2322');
+            expect(handler.getActiveTools().size).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,133 @@
+import { ScriptedBackend, textRun } from '../ScriptedBackend';
+import { ClaudeService, ClaudeMessage } from '../ClaudeService';
+import { SubagentOrchestrator, AgentPlan } from '../../orchestration/SubagentOrchestrator';
+import { collectEvents, waitForEvent } from '../../orchestration/__tests__/setup';
+
+/**
+ * Tests for the AgentBackend abstraction using the scripted fake backend.
+ *
+ * These run ClaudeService and SubagentOrchestrator end to end without
+ * spawning the CLI or mocking child_process.
+ */
+describe('ScriptedBackend', () => {
+    describe('stream handling', () => {
+        it('should split raw lines into parsed events and skip non-JSON lines', async () => {
+            const backend = new ScriptedBackend([{
+                lines: [
+                    'Streaming output...',
+                    JSON.stringify({ type: 'system', subtype: 'init', session_id: 's1' }),
+                    '{ not json',
+                    JSON.stringify({ type: 'assistant', message: { content: 'hi' } })
+                ]
+            }]);
+
+            const stream = backend.start({ prompt: 'p', cwd: '/workspace' });
+            const events = collectEvents(stream, 'event');
+            const parseErrors = collectEvents(stream, 'parse_error');
+
+            const code = await waitForEvent(stream, 'close');
+
+            expect(code).toBe(0);
+            expect(events.events.map(e => e.type)).toEqual(['system', 'assistant']);
+            expect(parseErrors.events).toEqual(['{ not json']);
+        });
+
+        it('should record every run request', () => {
+            const backend = new ScriptedBackend([textRun('a')]);
+
+            backend.start({ prompt: 'first prompt', cwd: '/workspace', model: 'claude-haiku-4-5' });
+
+            expect(backend.runs).toHaveLength(1);
+            expect(backend.runs[0].prompt).toBe('first prompt');
+            expect(backend.runs[0].model).toBe('claude-haiku-4-5');
+        });
+
+        it('should fail runs that were not scripted', async () => {
+            const backend = new ScriptedBackend([]);
+            const stream = backend.start({ prompt: 'p', cwd: '/workspace' });
+            const stderr = collectEvents(stream, 'stderr');
+
+            const code = await waitForEvent(stream, 'close');
+
+            expect(code).toBe(1);
+            expect(stderr.events[0]).toContain('No scripted run');
+        });
+
+        it('should close with a null code when cancelled', async () => {
+            const backend = new ScriptedBackend([{ ...textRun('slow'), delayMs: 1000 }]);
+            const stream = backend.start({ prompt: 'p', cwd: '/workspace' });
+
+            stream.cancel();
+
+            await expect(waitForEvent(stream, 'close')).resolves.toBeNull();
+        });
+    });
+
+    describe('ClaudeService', () => {
+        it('should stream chunks, tool uses and done from a scripted run', async () => {
+            const backend = new ScriptedBackend([{
+                events: [
+                    { type: 'assistant', message: { content: [{ type: 'text', text: 'Reading. ' }] } },
+                    { type: 'assistant', message: { content: [{ type: 'tool_use', id: 't1', name: 'Read', input: { file_path: 'a.ts' } }] } },
+                    { type: 'assistant', message: { content: [{ type: 'text', text: 'Done.' }] } }
+                ]
+            }]);
+            const service = new ClaudeService('/workspace', backend);
+            const messages = collectEvents<ClaudeMessage>(service, 'message');
+
+            const done = new Promise<void>(resolve => {
+                service.on('message', (msg: ClaudeMessage) => {
+                    if (msg.type === 'done') resolve();
+                });
+            });
+            await service.sendMessage('hello', { model: 'claude-sonnet-4-5', ultrathink: true });
+            await done;
+
+            expect(backend.runs[0].prompt).toBe('ultrathink\nhello');
+            expect(backend.runs[0].model).toBe('claude-sonnet-4-5');
+            expect(messages.events.map(m => m.type)).toEqual(['chunk', 'tool', 'chunk', 'done']);
+            expect(messages.events[1].toolName).toBe('Read');
+            expect(messages.events[3].content).toBe('Reading. Done.');
+        });
+    });
+
+    describe('SubagentOrchestrator', () => {
+        it('should run a planner against a scripted transcript', async () => {
+            const backend = new ScriptedBackend([
+                textRun('{"steps": [{"id": 1, "action": "create_file", "description": "Add util", "files": ["src/util.ts"]}]}')
+            ]);
+            const orchestrator = new SubagentOrchestrator('/workspace', backend);
+
+            const response = await orchestrator.runAgent({ taskId: 'plan-1', role: 'planner', prompt: 'Add a util' });
+
+            expect(response.success).toBe(true);
+            expect(response.plan?.steps).toHaveLength(1);
+            expect(response.plan?.steps[0].files).toEqual(['src/util.ts']);
+            expect(backend.runs[0].cwd).toBe('/workspace');
+            orchestrator.dispose();
+        });
+
+        it('should execute a plan with coder and verifier runs', async () => {
+            const backend = new ScriptedBackend((options) =>
+                options.prompt.includes('The Verifier') ? textRun('PASS') : textRun('Implemented')
+            );
+            const orchestrator = new SubagentOrchestrator('/workspace', backend);
+            const plan: AgentPlan = {
+                taskId: 'task-1',
+                steps: [
+                    { id: 1, action: 'modify_file', description: 'Change a', status: 'pending' },
+                    { id: 2, action: 'modify_file', description: 'Change b', status: 'pending' }
+                ],
+                createdAt: Date.now()
+            };
+
+            const results = await orchestrator.executePlan(plan, '/worktree');
+
+            expect(results.every(r => r.success)).toBe(true);
+            expect(plan.steps.map(s => s.status)).toEqual(['completed', 'completed']);
+            expect(backend.runs).toHaveLength(4);
+            expect(backend.runs.every(r => r.cwd === '/worktree')).toBe(true);
+            orchestrator.dispose();
+        });
+    });
+});
@@ -0,0 +1,184 @@
+import {
+    StreamJsonParser,
+    StreamEvent,
+    AssistantEvent,
+    UserEvent,
+    toStreamEvent,
+    assistantText,
+    toolUses,
+    toolResults,
+    toolResultText,
+    resultErrorMessage
+} from '../StreamEvents';
+import { ScriptedBackend } from '../ScriptedBackend';
+import { ClaudeService, ClaudeMessage } from '../ClaudeService';
+import { SubagentOrchestrator } from '../../orchestration/SubagentOrchestrator';
+import { collectEvents, waitForEvent } from '../../orchestration/__tests__/setup';
+
+/**
+ * Tests for the typed stream-json event model and incremental parser.
+ */
+describe('StreamEvents', () => {
+    function eventsOf(lines: Array<{ ok: boolean }>): StreamEvent[] {
+        return lines.filter((l): l is { ok: true; event: StreamEvent } => l.ok).map(l => l.event);
+    }
+
+    describe('StreamJsonParser', () => {
+        it('should emit events only once their line is complete', () => {
+            const parser = new StreamJsonParser();
+            const line = JSON.stringify({ type: 'system', subtype: 'init', session_id: 's1' });
+
+            expect(parser.push(line.substring(0, 10))).toEqual([]);
+            const parsed = parser.push(line.substring(10) + '\n');
+
+            expect(eventsOf(parsed)).toEqual([{ type: 'system', subtype: 'init', session_id: 's1' }]);
+        });
+
+        it('should skip non-JSON lines and report malformed JSON', () => {
+            const parser = new StreamJsonParser();
+
+            const parsed = parser.push('Welcome to Claude\n{ broken\n');
+
+            expect(parsed).toEqual([{ ok: false, line: '{ broken' }]);
+        });
+
+        it('should parse an unterminated final line on flush', () => {
+            const parser = new StreamJsonParser();
+            parser.push('{"type":"result","subtype":"success","is_error":false,"result":"ok"}');
+
+            const [parsed] = parser.flush();
+
+            expect(parsed.ok && parsed.event.type).toBe('result');
+            expect(parser.flush()).toEqual([]);
+        });
+    });
+
+    describe('toStreamEvent', () => {
+        it('should classify assistant and user messages', () => {
+            const assistant = toStreamEvent({ type: 'assistant', message: { content: [{ type: 'text', text: 'hi' }] } });
+            const user = toStreamEvent({
+                type: 'user',
+                message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1', content: 'ok' }] }
+            });
+
+            expect(assistant.type).toBe('assistant');
+            expect(user.type).toBe('user');
+        });
+
+        it('should carry usage and cost on successful results', () => {
+            const event = toStreamEvent({
+                type: 'result',
+                subtype: 'success',
+                is_error: false,
+                result: 'Done',
+                total_cost_usd: 0.0412,
+                usage: { input_tokens: 10, output_tokens: 20 }
+            });
+
+            expect(event).toMatchObject({ type: 'result', subtype: 'success', total_cost_usd: 0.0412 });
+            expect(event.type === 'result' && event.usage?.output_tokens).toBe(20);
+        });
+
+        it('should mark error subtypes as errors', () => {
+            const event = toStreamEvent({ type: 'result', subtype: 'error_max_turns', num_turns: 30 });
+
+            expect(event).toMatchObject({ type: 'result', subtype: 'error_max_turns', is_error: true });
+            expect(event.type === 'result' && resultErrorMessage(event)).toContain('maximum number of turns (30)');
+        });
+
+        it.each([
+            ['an unrecognized type', { type: 'stream_event', event: {} }],
+            ['a system event without init', { type: 'system', subtype: 'compact_boundary' }],
+            ['an init event without session id', { type: 'system', subtype: 'init' }],
+            ['an assistant event without content', { type: 'assistant', message: {} }],
+            ['a result with an unknown subtype', { type: 'result', subtype: 'cancelled' }]
+        ])('should surface %s as unknown', (_label, raw) => {
+            expect(toStreamEvent(raw)).toEqual({ type: 'unknown', raw });
+        });
+    });
+
+    describe('helpers', () => {
+        const assistant: AssistantEvent = {
+            type: 'assistant',
+            message: {
+                content: [
+                    { type: 'text', text: 'Reading ' },
+                    { type: 'tool_use', id: 't1', name: 'Read', input: { file_path: 'a.ts' } },
+                    { type: 'thinking', thinking: 'hmm' },
+                    { type: 'text', text: 'now.' }
+                ]
+            }
+        };
+
+        it('should extract text and tool uses from assistant messages', () => {
+            expect(assistantText(assistant)).toBe('Reading now.');
+            expect(toolUses(assistant).map(t => t.name)).toEqual(['Read']);
+        });
+
+        it('should extract tool results and their text', () => {
+            const user: UserEvent = {
+                type: 'user',
+                message: {
+                    role: 'user',
+                    content: [{ type: 'tool_result', tool_use_id: 't1', content: [{ type: 'text', text: 'a' }, { type: 'text', text: 'b' }] }]
+                }
+            };
+
+            const [result] = toolResults(user);
+
+            expect(result.tool_use_id).toBe('t1');
+            expect(toolResultText(result.content)).toBe('a\nb');
+            expect(toolResultText(undefined)).toBe('');
+        });
+    });
+
+    describe('consumers', () => {
+        it('should surface unknown events from ClaudeService', async () => {
+            const backend = new ScriptedBackend([{ events: [{ type: 'stream_event', event: { delta: 'x' } }] }]);
+            const service = new ClaudeService('/workspace', backend);
+            const unknown = collectEvents(service, 'unknown_event');
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+            await service.sendMessage('hi');
+            await waitForEvent(service, 'message');
+
+            expect(unknown.events).toEqual([{ type: 'stream_event', event: { delta: 'x' } }]);
+            warn.mockRestore();
+        });
+
+        it('should report result errors from ClaudeService', async () => {
+            const backend = new ScriptedBackend([{
+                events: [{ type: 'result', subtype: 'error_during_execution', is_error: true }],
+                exitCode: 1
+            }]);
+            const service = new ClaudeService('/workspace', backend);
+
+            await service.sendMessage('hi');
+            const message = await waitForEvent<ClaudeMessage>(service, 'message');
+
+            expect(message).toEqual({
+                type: 'error',
+                content: 'The CLI failed during execution',
+                requestId: 'request-1',
+                conversationId: 'default'
+            });
+        });
+
+        it('should surface unknown events from SubagentOrchestrator with task context', async () => {
+            const backend = new ScriptedBackend([{
+                events: [
+                    { type: 'stream_event', event: {} },
+                    { type: 'assistant', message: { content: [{ type: 'text', text: 'Implemented' }] } }
+                ]
+            }]);
+            const orchestrator = new SubagentOrchestrator('/workspace', backend);
+            const unknown = collectEvents(orchestrator, 'unknown_event');
+
+            const response = await orchestrator.runAgent({ taskId: 'task-1', role: 'coder', prompt: 'Do it' });
+
+            expect(response.content).toBe('Implemented');
+            expect(unknown.events).toEqual([{ taskId: 'task-1', role: 'coder', event: { type: 'stream_event', event: {} } }]);
+            orchestrator.dispose();
+        });
+    });
+});
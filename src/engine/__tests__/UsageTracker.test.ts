@@ -0,0 +1,63 @@
+import { UsageTracker, emptyUsage, usageFromResult } from '../UsageTracker';
+import { collectEvents } from '../../orchestration/__tests__/setup';
+
+/**
+ * Tests for usage rollups.
+ */
+describe('UsageTracker', () => {
+    const run = { inputTokens: 100, outputTokens: 20, cacheReadTokens: 500, cacheCreationTokens: 0, costUsd: 0.01, runs: 1 };
+
+    it('should read usage and cost from a result event', () => {
+        expect(usageFromResult({
+            type: 'result',
+            subtype: 'success',
+            is_error: false,
+            result: 'done',
+            total_cost_usd: 0.0421,
+            usage: { input_tokens: 12, output_tokens: 340, cache_read_input_tokens: 9000, cache_creation_input_tokens: 150 }
+        })).toEqual({
+            inputTokens: 12,
+            outputTokens: 340,
+            cacheReadTokens: 9000,
+            cacheCreationTokens: 150,
+            costUsd: 0.0421,
+            runs: 1
+        });
+
+        expect(usageFromResult({ type: 'result', subtype: 'error_during_execution', is_error: true }))
+            .toEqual({ ...emptyUsage(), runs: 1 });
+    });
+
+    it('should add a run to every scope it counts towards', () => {
+        const tracker = new UsageTracker();
+
+        tracker.record(run, ['task:plan-1-step-1', 'step:plan-1-step-1', 'plan:plan-1']);
+        tracker.record(run, ['task:plan-1-verify-1', 'step:plan-1-step-1', 'plan:plan-1']);
+
+        expect(tracker.getTotals('task:plan-1-step-1')).toEqual(run);
+        expect(tracker.getTotals('step:plan-1-step-1')).toMatchObject({ inputTokens: 200, runs: 2 });
+        expect(tracker.getTotals('plan:plan-1').costUsd).toBeCloseTo(0.02);
+        expect(tracker.getTotals('plan:unknown')).toEqual(emptyUsage());
+        expect(tracker.getScopes('task')).toEqual(['task:plan-1-step-1', 'task:plan-1-verify-1']);
+    });
+
+    it('should emit the new totals of each updated scope', () => {
+        const tracker = new UsageTracker();
+        const updates = collectEvents(tracker, 'usage_updated');
+
+        tracker.record(run, ['request:r1', 'session:chat-1', 'session:chat-1']);
+
+        expect(updates.events.map(e => e.scope)).toEqual(['request:r1', 'session:chat-1']);
+        expect(updates.events[1]).toEqual({ scope: 'session:chat-1', totals: run, delta: run });
+    });
+
+    it('should restore persisted totals only into empty scopes', () => {
+        const tracker = new UsageTracker();
+
+        tracker.restore('session:chat-1', { ...run, runs: 4 });
+        tracker.record(run, ['session:chat-1']);
+        tracker.restore('session:chat-1', emptyUsage());
+
+        expect(tracker.getTotals('session:chat-1')).toMatchObject({ inputTokens: 200, runs: 5 });
+    });
+});
@@ -1,15 +1,61 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { ClaudeService } from './engine/ClaudeService';
+import { AgentBackend, ClaudeCliBackend } from './engine/AgentBackend';
+import { RecordingBackend } from './engine/TranscriptRecorder';
+import { ReplayBackend } from './engine/ReplayBackend';
 import { ChatViewProvider } from './providers/ChatViewProvider';
+import { DEFAULT_AUTO_APPROVED_TOOLS, PermissionBroker } from './permissions/PermissionBroker';
+import { promptForPermission } from './permissions/VsCodePermissionPrompt';
+import { BASH_POLICY_FILE, BashPolicyEngine } from './permissions/BashPolicyEngine';
+import { UsageScope, UsageScopeKind, UsageTotals, UsageTracker } from './engine/UsageTracker';
+
+/**
+ * API returned from activate() for other extensions to query.
+ */
+export interface ClaudeAssistantApi {
+    /** Token and cost totals of a scope, e.g. `session:<chat id>` or `plan:<taskId>` */
+    getUsage(scope: UsageScope): UsageTotals;
+    /** Scopes with recorded usage, optionally of one kind */
+    getUsageScopes(kind?: UsageScopeKind): UsageScope[];
+}
 
 let claudeService: ClaudeService | undefined;
+let permissionBroker: PermissionBroker | undefined;
 
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): ClaudeAssistantApi {
     const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
     
-    claudeService = new ClaudeService(workspaceFolder);
+    // Tool approvals for manual and auto runs
+    permissionBroker = new PermissionBroker(context.asAbsolutePath('dist/permission-server.js'), promptForPermission);
+    permissionBroker.start().catch((err) => {
+        vscode.window.showErrorMessage(
+            `Claude agents cannot run: tool approvals failed to start (${err instanceof Error ? err.message : String(err)}). Reload the window to retry.`
+        );
+    });
+    if (workspaceFolder) {
+        const policyPath = path.join(workspaceFolder, BASH_POLICY_FILE);
+        const policy = BashPolicyEngine.fromWorkspace(workspaceFolder);
+        permissionBroker.setBashPolicy(policy);
+
+        const watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(workspaceFolder, BASH_POLICY_FILE)
+        );
+        const reload = () => policy.reload(policyPath);
+        watcher.onDidCreate(reload);
+        watcher.onDidChange(reload);
+        watcher.onDidDelete(reload);
+        context.subscriptions.push(watcher);
+    } else {
+        permissionBroker.setBashPolicy(new BashPolicyEngine());
+    }
+
+    // Chat and orchestrated agents share one backend
+    const backend = createBackend(workspaceFolder, permissionBroker);
+    const usage = new UsageTracker();
+    claudeService = new ClaudeService(workspaceFolder, backend, usage);
     
-    const chatProvider = new ChatViewProvider(context.extensionUri, claudeService, workspaceFolder);
+    const chatProvider = new ChatViewProvider(context.extensionUri, claudeService, workspaceFolder, backend);
     
     context.subscriptions.push(
         vscode.window.registerWebviewViewProvider('claudeAssistant.chatView', chatProvider)
@@ -30,10 +76,51 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push({
         dispose: () => {
             claudeService?.dispose();
+            permissionBroker?.dispose();
         }
     });
+
+    return {
+        getUsage: (scope) => usage.getTotals(scope),
+        getUsageScopes: (kind) => usage.getScopes(kind)
+    };
+}
+
+/**
+ * Picks the agent backend according to the transcript settings. Falls back
+ * to the Claude CLI when the transcripts to replay cannot be loaded.
+ */
+function createBackend(workspaceFolder: string | undefined, broker: PermissionBroker): AgentBackend {
+    const config = vscode.workspace.getConfiguration('claudeAssistant');
+    const mode = config.get<string>('transcripts.mode', 'off');
+    const cliBackend = new ClaudeCliBackend({
+        broker,
+        autoApprovedTools: () => vscode.workspace.getConfiguration('claudeAssistant')
+            .get<string[]>('autoApprovedTools', DEFAULT_AUTO_APPROVED_TOOLS)
+    });
+
+    if (mode === 'off' || !workspaceFolder) {
+        return cliBackend;
+    }
+
+    const directory = path.resolve(workspaceFolder, config.get<string>('transcripts.directory', '.claudeprint/transcripts'));
+
+    if (mode === 'record') {
+        return new RecordingBackend(cliBackend, directory);
+    }
+
+    try {
+        return ReplayBackend.fromDirectory(directory);
+    } catch (err) {
+        // A bad transcript must not keep the extension from activating
+        vscode.window.showErrorMessage(
+            `Could not replay the transcripts in ${directory} (${err instanceof Error ? err.message : String(err)}); agents run the Claude CLI instead.`
+        );
+        return cliBackend;
+    }
 }
 
 export function deactivate() {
     claudeService?.dispose();
+    permissionBroker?.dispose();
 }
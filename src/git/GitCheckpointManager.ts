@@ -0,0 +1,141 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Snapshot of the workspace, kept alive by a ref under `refs/claudeprint/checkpoints/`.
+ */
+export interface Checkpoint {
+    ref: string;
+    /** Commit holding the working tree, untracked files included */
+    commit: string;
+    /** Commit HEAD pointed at when the snapshot was taken */
+    head: string;
+    createdAt: number;
+}
+
+export interface CheckpointManagerConfig {
+    rootDir: string;
+    /** Paths left out of snapshots and never touched by a restore */
+    exclude?: string[];
+}
+
+// Snapshot commits are internal; they do not depend on the user's git identity
+const SNAPSHOT_IDENTITY = {
+    GIT_AUTHOR_NAME: 'Claude Assistant',
+    GIT_AUTHOR_EMAIL: 'checkpoints@claude-assistant.local',
+    GIT_COMMITTER_NAME: 'Claude Assistant',
+    GIT_COMMITTER_EMAIL: 'checkpoints@claude-assistant.local'
+};
+
+/**
+ * Takes and restores snapshots of the workspace without touching the working
+ * tree, the index or the checked out branch while taking them.
+ */
+export class GitCheckpointManager {
+    private rootDir: string;
+    private exclude: string[];
+
+    constructor(config: CheckpointManagerConfig) {
+        this.rootDir = config.rootDir;
+        this.exclude = config.exclude ?? ['.claudeprint', '.worktrees'];
+    }
+
+    private async exec(args: string[], env: Record<string, string> = {}): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const proc = spawn('git', args, {
+                cwd: this.rootDir,
+                env: { ...process.env, ...env },
+                shell: process.platform === 'win32'
+            });
+
+            let stdout = '';
+            let stderr = '';
+
+            proc.stdout?.on('data', (data) => { stdout += data.toString(); });
+            proc.stderr?.on('data', (data) => { stderr += data.toString(); });
+
+            proc.on('close', (code) => {
+                if (code === 0) {
+                    resolve(stdout.trim());
+                } else {
+                    reject(new Error(`Command failed: ${stderr || stdout}`));
+                }
+            });
+
+            proc.on('error', reject);
+        });
+    }
+
+    private pathspec(): string[] {
+        return ['--', '.', ...this.exclude.map(p => `:(exclude)${p}`)];
+    }
+
+    /**
+     * Snapshots the workspace as `refs/claudeprint/checkpoints/<name>`,
+     * replacing an earlier checkpoint of the same name.
+     */
+    async create(name: string): Promise<Checkpoint> {
+        const head = await this.exec(['rev-parse', 'HEAD']);
+        const tree = await this.snapshotTree(head);
+        const commit = await this.exec(['commit-tree', tree, '-p', head, '-m', `Checkpoint ${name}`], SNAPSHOT_IDENTITY);
+        const ref = `refs/claudeprint/checkpoints/${name}`;
+        await this.exec(['update-ref', ref, commit]);
+
+        return { ref, commit, head, createdAt: Date.now() };
+    }
+
+    /**
+     * Diff of the workspace, untracked files included, against `base`.
+     */
+    async diff(base: string = 'HEAD'): Promise<string> {
+        const tree = await this.snapshotTree(await this.exec(['rev-parse', 'HEAD']));
+        return this.exec(['diff', base, tree, ...this.pathspec()]);
+    }
+
+    /**
+     * Writes the working tree as a tree object, staged into a throwaway index
+     * on top of `head` so the real index stays as it is.
+     */
+    private async snapshotTree(head: string): Promise<string> {
+        const indexFile = path.join(os.tmpdir(), `claude-checkpoint-${process.pid}-${Date.now()}.index`);
+        try {
+            const env = { GIT_INDEX_FILE: indexFile };
+            await this.exec(['read-tree', head], env);
+            await this.exec(['add', '-A', ...this.pathspec()], env);
+            return await this.exec(['write-tree'], env);
+        } finally {
+            fs.rmSync(indexFile, { force: true });
+        }
+    }
+
+    /**
+     * Puts the workspace back the way it was at `checkpoint`: the checked out
+     * branch is reset to the commit it was on, and tracked and untracked files
+     * are restored, leaving changes that were uncommitted then uncommitted
+     * again. Ignored files are left alone.
+     *
+     * The state being replaced is snapshotted first, as `<name>-replaced`.
+     *
+     * @returns the checkpoint of the replaced state
+     */
+    async restore(checkpoint: Checkpoint): Promise<Checkpoint> {
+        const name = checkpoint.ref.replace('refs/claudeprint/checkpoints/', '');
+        const replaced = await this.create(`${name}-replaced`);
+
+        await this.exec(['reset', '--hard', checkpoint.head]);
+        await this.exec(['clean', '-fd', ...this.pathspec()]);
+        await this.exec(['checkout', checkpoint.commit, ...this.pathspec()]);
+        // Unstage, so files uncommitted at the checkpoint are uncommitted again
+        await this.exec(['reset', '-q']);
+
+        // Checking out the snapshot does not remove files that were deleted at the time
+        const deleted = await this.exec(['diff', '--name-only', '--diff-filter=D', checkpoint.head, checkpoint.commit]);
+        for (const file of deleted.split('\n').filter(Boolean)) {
+            fs.rmSync(path.join(this.rootDir, file), { force: true });
+        }
+
+        return replaced;
+    }
+}
@@ -10,6 +10,44 @@ export interface WorktreeSession {
     createdAt: number;
 }
 
+/**
+ * Outcome of merging a task branch back into the workspace.
+ * Nothing in the workspace changes unless `merged` is true.
+ */
+export type MergeBackResult =
+    | { merged: true; committed: boolean }
+    | {
+        merged: false;
+        /** conflict: the branch conflicts with the workspace; dirty_workspace: the workspace has uncommitted changes */
+        reason: 'conflict' | 'dirty_workspace' | 'failed';
+        /** Files git could not merge, for conflicts */
+        conflicts: string[];
+        message: string;
+    };
+
+/**
+ * Conflicts between a task branch and the commit it is being merged into,
+ * reproduced by merging that commit into the task's worktree.
+ */
+export interface WorktreeConflict {
+    sessionId: string;
+    worktreePath: string;
+    branch: string;
+    /** Commit the task branch is being merged into */
+    targetRef: string;
+    /** Conflicted files, relative to the worktree */
+    files: string[];
+    /** Reads a file as it is at `targetRef`; empty when it does not exist there */
+    readTargetVersion(file: string): Promise<string>;
+}
+
+/**
+ * Resolves the conflicts by editing the conflicted files in the worktree.
+ * Returning false, or changing any other file, rejects the resolution and
+ * the merge is abandoned.
+ */
+export type ConflictHandler = (conflict: WorktreeConflict) => Promise<boolean>;
+
 export interface WorktreeManagerConfig {
     rootDir: string;
     worktreeDir?: string;
@@ -25,7 +63,7 @@ export class GitWorktreeManager {
         this.worktreeRoot = config.worktreeDir || path.join(this.rootDir, '.worktrees');
     }
 
-    private async exec(command: string, args: string[], cwd?: string): Promise<string> {
+    private async exec(command: string, args: string[], cwd?: string, trim: boolean = true): Promise<string> {
         return new Promise((resolve, reject) => {
             const proc = spawn(command, args, {
                 cwd: cwd || this.rootDir,
@@ -40,7 +78,7 @@ export class GitWorktreeManager {
 
             proc.on('close', (code) => {
                 if (code === 0) {
-                    resolve(stdout.trim());
+                    resolve(trim ? stdout.trim() : stdout);
                 } else {
                     reject(new Error(`Command failed: ${stderr || stdout}`));
                 }
@@ -87,7 +125,11 @@ export class GitWorktreeManager {
         }
     }
 
-    async create(taskId: string): Promise<WorktreeSession> {
+    /**
+     * Creates a worktree for a task on a new `task/<id>` branch starting at `baseRef`.
+     * Without a usable git repository the session points at the root directory.
+     */
+    async create(taskId: string, baseRef: string = 'HEAD'): Promise<WorktreeSession> {
         const sanitizedId = taskId.replace(/[^a-zA-Z0-9-_]/g, '-');
         const branchName = `task/${sanitizedId}`;
         const worktreePath = path.join(this.worktreeRoot, sanitizedId);
@@ -117,11 +159,11 @@ export class GitWorktreeManager {
 
         // Create worktree with new branch based on HEAD
         try {
-            await this.exec('git', ['worktree', 'add', '-b', branchName, worktreePath, 'HEAD']);
+            await this.exec('git', ['worktree', 'add', '-b', branchName, worktreePath, baseRef]);
         } catch (err) {
             // If branch creation fails, try detached worktree as fallback
             try {
-                await this.exec('git', ['worktree', 'add', '--detach', worktreePath, 'HEAD']);
+                await this.exec('git', ['worktree', 'add', '--detach', worktreePath, baseRef]);
             } catch {
                 // If git worktree fails entirely, just use the main directory
                 // This allows Plan mode to work even without git
@@ -168,14 +210,238 @@ export class GitWorktreeManager {
         this.sessions.delete(sessionId);
     }
 
-    async mergeToMain(sessionId: string, mainBranch: string = 'main'): Promise<void> {
+    /**
+     * Squash-merges a task branch into `mainBranch` and removes its worktree.
+     *
+     * Uncommitted changes to tracked files are stashed first, and the branch
+     * that was checked out and the stash are restored afterwards, whether or
+     * not the merge went through. Conflicts go to `onConflict` when given;
+     * without it, or when the resolution is rejected, the merge is abandoned
+     * and the task branch kept.
+     */
+    async mergeToMain(sessionId: string, mainBranch: string = 'main', onConflict?: ConflictHandler): Promise<MergeBackResult> {
+        const session = this.sessions.get(sessionId);
+        if (!session) throw new Error(`Session ${sessionId} not found`);
+
+        const originalRef = await this.currentRef();
+        const stashMessage = `Before merging task ${sessionId}`;
+        const stashed = await this.stashLocalChanges(stashMessage);
+
+        let result: MergeBackResult;
+        try {
+            if (originalRef !== mainBranch) {
+                await this.exec('git', ['checkout', mainBranch]);
+            }
+            result = await this.squashMerge(session, `Merge task: ${sessionId}`, onConflict);
+            if (result.merged) {
+                await this.cleanup(sessionId);
+            }
+        } catch (err) {
+            await this.restoreWorkspace(originalRef, stashed, stashMessage).catch(() => undefined);
+            throw err;
+        }
+
+        await this.restoreWorkspace(originalRef, stashed, stashMessage);
+        return result;
+    }
+
+    /**
+     * Commits everything the agent changed in a task worktree to its branch.
+     * Resolves to false when there was nothing to commit.
+     */
+    async commitChanges(sessionId: string, message: string): Promise<boolean> {
+        const session = this.sessions.get(sessionId);
+        if (!session) throw new Error(`Session ${sessionId} not found`);
+
+        const status = await this.exec('git', ['status', '--porcelain'], session.path);
+        if (!status) return false;
+
+        await this.exec('git', ['add', '-A'], session.path);
+        await this.exec('git', ['commit', '-m', message], session.path);
+        return true;
+    }
+
+    /**
+     * Squash-merges a task branch into the branch checked out in the root
+     * directory and commits it there, without switching branches.
+     *
+     * Refuses to start while tracked files in the root directory have
+     * uncommitted changes, so user edits are never mixed into the merge
+     * commit. Conflicts go to `onConflict` when given; otherwise the merge is
+     * undone and the conflicted files are reported. The task branch and
+     * worktree are kept either way.
+     */
+    async mergeBack(sessionId: string, message: string, onConflict?: ConflictHandler): Promise<MergeBackResult> {
         const session = this.sessions.get(sessionId);
         if (!session) throw new Error(`Session ${sessionId} not found`);
 
-        await this.exec('git', ['checkout', mainBranch]);
-        await this.exec('git', ['merge', '--squash', session.branch]);
-        await this.exec('git', ['commit', '-m', `Merge task: ${sessionId}`]);
-        await this.cleanup(sessionId);
+        if (await this.hasLocalChanges()) {
+            return {
+                merged: false,
+                reason: 'dirty_workspace',
+                conflicts: [],
+                message: 'The workspace has uncommitted changes'
+            };
+        }
+
+        return this.squashMerge(session, message, onConflict);
+    }
+
+    /**
+     * Whether tracked files in the root directory have uncommitted changes,
+     * which mergeBack refuses to merge into.
+     */
+    async hasLocalChanges(): Promise<boolean> {
+        return !!await this.exec('git', ['status', '--porcelain', '--untracked-files=no']);
+    }
+
+    private async squashMerge(session: WorktreeSession, message: string, onConflict?: ConflictHandler): Promise<MergeBackResult> {
+        let failure = await this.trySquash(session.branch);
+
+        if (failure?.reason === 'conflict' && onConflict) {
+            const head = await this.exec('git', ['rev-parse', 'HEAD']);
+            const rejection = await this.resolveInWorktree(session, head, onConflict);
+            failure = rejection ? { ...failure, message: rejection } : await this.trySquash(session.branch);
+        }
+        if (failure) return failure;
+
+        try {
+            // Exits non-zero when the squash staged any changes
+            await this.exec('git', ['diff', '--cached', '--quiet']);
+            return { merged: true, committed: false };
+        } catch {
+            await this.exec('git', ['commit', '-m', message]);
+            return { merged: true, committed: true };
+        }
+    }
+
+    /**
+     * Stages a squash merge of `branch`, or undoes it and describes why it failed.
+     */
+    private async trySquash(branch: string): Promise<Extract<MergeBackResult, { merged: false }> | undefined> {
+        try {
+            await this.exec('git', ['merge', '--squash', branch]);
+            return undefined;
+        } catch (err) {
+            const conflicts = await this.listConflicts(this.rootDir);
+            await this.exec('git', ['reset', '--merge']).catch(() => undefined);
+            return {
+                merged: false,
+                reason: conflicts.length > 0 ? 'conflict' : 'failed',
+                conflicts,
+                message: err instanceof Error ? err.message : String(err)
+            };
+        }
+    }
+
+    /**
+     * Merges `targetRef` into the task branch inside its worktree and hands
+     * the conflicts to `onConflict`. An accepted resolution is committed on
+     * the task branch, so squashing it afterwards applies cleanly; anything
+     * else aborts the worktree merge. Only the conflicted files are staged,
+     * and a resolution that changed any other file is rejected, since the
+     * handler only vouches for the conflicted ones.
+     *
+     * @returns why the resolution was rejected, or undefined once it is committed
+     */
+    private async resolveInWorktree(session: WorktreeSession, targetRef: string, onConflict: ConflictHandler): Promise<string | undefined> {
+        try {
+            await this.exec('git', ['merge', '--no-edit', targetRef], session.path);
+            return undefined;
+        } catch {
+            // Conflicts are expected here
+        }
+
+        let accepted = false;
+        let outside: string[] = [];
+        try {
+            const files = await this.listConflicts(session.path);
+            if (files.length === 0) return 'The conflict resolution was not accepted';
+
+            const statusBefore = new Set(await this.statusLines(session.path));
+            const approved = await onConflict({
+                sessionId: session.id,
+                worktreePath: session.path,
+                branch: session.branch,
+                targetRef,
+                files,
+                readTargetVersion: file => this.exec('git', ['show', `${targetRef}:${file}`], session.path, false).catch(() => '')
+            });
+            if (!approved) return 'The conflict resolution was not accepted';
+
+            outside = (await this.statusLines(session.path))
+                .filter(line => !statusBefore.has(line))
+                .map(line => line.substring(3))
+                .filter(file => !files.includes(file));
+            if (outside.length > 0) {
+                return `The conflict resolution also changed files outside the conflict: ${outside.join(', ')}`;
+            }
+
+            await this.exec('git', ['add', '-A', '--', ...files], session.path);
+            await this.exec('git', ['commit', '--no-edit'], session.path);
+            accepted = true;
+            return undefined;
+        } finally {
+            if (!accepted) {
+                await this.exec('git', ['merge', '--abort'], session.path).catch(() => undefined);
+            }
+            if (outside.length > 0) {
+                // The abort keeps edits of files the merge did not touch
+                await this.exec('git', ['reset', '-q', '--hard'], session.path).catch(() => undefined);
+                await this.exec('git', ['clean', '-fdq', '--', ...outside], session.path).catch(() => undefined);
+            }
+        }
+    }
+
+    /**
+     * `git status --porcelain` lines, untracked files included.
+     */
+    private async statusLines(cwd: string): Promise<string[]> {
+        const output = await this.exec('git', ['status', '--porcelain', '--untracked-files=all'], cwd, false);
+        return output.split('\n').filter(Boolean);
+    }
+
+    private async listConflicts(cwd: string): Promise<string[]> {
+        const output = await this.exec('git', ['diff', '--name-only', '--diff-filter=U'], cwd).catch(() => '');
+        return output.split('\n').filter(Boolean);
+    }
+
+    /**
+     * Name of the checked out branch, or the commit when HEAD is detached.
+     */
+    private async currentRef(): Promise<string> {
+        try {
+            return await this.exec('git', ['symbolic-ref', '--short', '-q', 'HEAD']);
+        } catch {
+            return this.exec('git', ['rev-parse', 'HEAD']);
+        }
+    }
+
+    /**
+     * Stashes uncommitted changes to tracked files. Untracked files stay put,
+     * which also keeps the worktree directory out of the stash.
+     */
+    private async stashLocalChanges(message: string): Promise<boolean> {
+        const localChanges = await this.exec('git', ['status', '--porcelain', '--untracked-files=no']);
+        if (!localChanges) return false;
+
+        await this.exec('git', ['stash', 'push', '-m', message]);
+        return true;
+    }
+
+    private async restoreWorkspace(originalRef: string, stashed: boolean, stashMessage: string): Promise<void> {
+        if (await this.currentRef() !== originalRef) {
+            await this.exec('git', ['checkout', originalRef]);
+        }
+        if (!stashed) return;
+
+        try {
+            await this.exec('git', ['stash', 'pop']);
+        } catch {
+            // A conflicting pop keeps the stash entry; put the files back as they were
+            await this.exec('git', ['reset', '--merge']).catch(() => undefined);
+            throw new Error(`Could not restore uncommitted changes; they are kept in the stash as "${stashMessage}"`);
+        }
     }
 
     async syncContext(sessionId: string): Promise<void> {
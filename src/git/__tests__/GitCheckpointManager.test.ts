@@ -0,0 +1,97 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitCheckpointManager } from '../GitCheckpointManager';
+
+/**
+ * Tests for workspace snapshots, against a throwaway git repository.
+ */
+describe('GitCheckpointManager', () => {
+    let repo: string;
+    let checkpoints: GitCheckpointManager;
+
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf-8' }).trim();
+    const write = (file: string, content: string) => {
+        fs.mkdirSync(path.dirname(path.join(repo, file)), { recursive: true });
+        fs.writeFileSync(path.join(repo, file), content);
+    };
+    const read = (file: string) => fs.readFileSync(path.join(repo, file), 'utf-8');
+    const exists = (file: string) => fs.existsSync(path.join(repo, file));
+
+    beforeEach(() => {
+        repo = fs.mkdtempSync(path.join(os.tmpdir(), 'checkpoint-manager-'));
+        git('init', '-q', '-b', 'main');
+        git('config', 'user.email', 'test@example.com');
+        git('config', 'user.name', 'Test');
+        write('a.txt', 'one\n');
+        write('gone.txt', 'tracked\n');
+        git('add', '-A');
+        git('commit', '-q', '-m', 'initial');
+
+        checkpoints = new GitCheckpointManager({ rootDir: repo });
+    });
+
+    afterEach(() => {
+        fs.rmSync(repo, { recursive: true, force: true });
+    });
+
+    it('should snapshot the workspace without touching it', async () => {
+        write('a.txt', 'uncommitted\n');
+        write('new.txt', 'untracked\n');
+        const status = git('status', '--porcelain');
+
+        const checkpoint = await checkpoints.create('plan-1/step-1');
+
+        expect(checkpoint.ref).toBe('refs/claudeprint/checkpoints/plan-1/step-1');
+        expect(git('rev-parse', checkpoint.ref)).toBe(checkpoint.commit);
+        expect(checkpoint.head).toBe(git('rev-parse', 'HEAD'));
+        expect(git('show', `${checkpoint.commit}:new.txt`)).toBe('untracked');
+        expect(git('status', '--porcelain')).toBe(status);
+        expect(git('stash', 'list')).toBe('');
+    });
+
+    it('should restore commits, uncommitted and untracked files from the checkpoint', async () => {
+        write('a.txt', 'uncommitted\n');
+        write('notes.txt', 'untracked\n');
+        fs.rmSync(path.join(repo, 'gone.txt'));
+        const checkpoint = await checkpoints.create('plan-1/step-2');
+
+        // What a coder might do afterwards
+        write('a.txt', 'broken\n');
+        write('notes.txt', 'overwritten\n');
+        write('src/extra.ts', 'export {};\n');
+        git('add', '-A');
+        git('commit', '-q', '-m', 'step 2');
+        write('.claudeprint/plans/plan-1.json', '{}');
+
+        const replaced = await checkpoints.restore(checkpoint);
+
+        expect(git('rev-parse', 'HEAD')).toBe(checkpoint.head);
+        expect(read('a.txt')).toBe('uncommitted\n');
+        expect(read('notes.txt')).toBe('untracked\n');
+        expect(exists('gone.txt')).toBe(false);
+        expect(exists('src/extra.ts')).toBe(false);
+        expect(git('status', '--porcelain').split('\n')).toEqual(['M a.txt', ' D gone.txt', '?? .claudeprint/', '?? notes.txt']);
+        // Excluded paths are left alone
+        expect(read('.claudeprint/plans/plan-1.json')).toBe('{}');
+        // The replaced state can be restored in turn
+        expect(replaced.ref).toBe('refs/claudeprint/checkpoints/plan-1/step-2-replaced');
+        expect(git('show', `${replaced.commit}:src/extra.ts`)).toBe('export {};');
+    });
+
+    it('should diff the working tree, untracked files included, against a commit', async () => {
+        const base = git('rev-parse', 'HEAD');
+        write('a.txt', 'two\n');
+        git('commit', '-q', '-am', 'step 1');
+        write('notes.txt', 'untracked\n');
+        const status = git('status', '--porcelain');
+
+        const diff = await checkpoints.diff(base);
+
+        expect(diff).toContain('+++ b/a.txt\n@@ -1 +1 @@\n-one\n+two');
+        expect(diff).toContain('+++ b/notes.txt\n@@ -0,0 +1 @@\n+untracked');
+        expect(await checkpoints.diff()).not.toContain('a.txt');
+        expect(git('status', '--porcelain')).toBe(status);
+    });
+});
@@ -0,0 +1,171 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitWorktreeManager, WorktreeConflict } from '../GitWorktreeManager';
+
+/**
+ * Tests for committing task worktrees and merging them back, against a
+ * throwaway git repository.
+ */
+describe('GitWorktreeManager', () => {
+    let repo: string;
+    let manager: GitWorktreeManager;
+
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf-8' }).trim();
+    const write = (dir: string, file: string, content: string) => fs.writeFileSync(path.join(dir, file), content);
+
+    beforeEach(async () => {
+        repo = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-manager-'));
+        git('init', '-q', '-b', 'main');
+        git('config', 'user.email', 'test@example.com');
+        git('config', 'user.name', 'Test');
+        write(repo, 'a.txt', 'one\n');
+        write(repo, '.gitignore', '.worktrees/\n');
+        git('add', '-A');
+        git('commit', '-q', '-m', 'initial');
+
+        manager = new GitWorktreeManager({ rootDir: repo });
+        await manager.initialize();
+    });
+
+    afterEach(() => {
+        fs.rmSync(repo, { recursive: true, force: true });
+    });
+
+    it('should commit a task and squash-merge it into the current branch', async () => {
+        const session = await manager.create('plan-1-step-1');
+        write(session.path, 'a.txt', 'two\n');
+        write(session.path, 'b.txt', 'new\n');
+
+        expect(await manager.commitChanges(session.id, 'Step 1')).toBe(true);
+        expect(await manager.commitChanges(session.id, 'Nothing')).toBe(false);
+        expect(await manager.mergeBack(session.id, 'plan-1 step 1')).toEqual({ merged: true, committed: true });
+
+        expect(git('log', '-1', '--format=%s')).toBe('plan-1 step 1');
+        expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe('main');
+        expect(fs.readFileSync(path.join(repo, 'b.txt'), 'utf-8')).toBe('new\n');
+    });
+
+    it('should report conflicts and leave the workspace as it was', async () => {
+        const session = await manager.create('plan-1-step-1');
+        write(session.path, 'a.txt', 'from the step\n');
+        write(session.path, 'c.txt', 'added by the step\n');
+        await manager.commitChanges(session.id, 'Step 1');
+
+        write(repo, 'a.txt', 'from the user\n');
+        git('commit', '-q', '-am', 'user change');
+        const head = git('rev-parse', 'HEAD');
+
+        const result = await manager.mergeBack(session.id, 'plan-1 step 1');
+
+        expect(result).toMatchObject({ merged: false, reason: 'conflict', conflicts: ['a.txt'] });
+        expect(git('rev-parse', 'HEAD')).toBe(head);
+        expect(git('status', '--porcelain', '--untracked-files=no')).toBe('');
+        expect(fs.readFileSync(path.join(repo, 'a.txt'), 'utf-8')).toBe('from the user\n');
+        expect(fs.existsSync(session.path)).toBe(true);
+    });
+
+    it('should not merge into a workspace with uncommitted changes', async () => {
+        const session = await manager.create('plan-1-step-1');
+        write(session.path, 'b.txt', 'new\n');
+        await manager.commitChanges(session.id, 'Step 1');
+        write(repo, 'a.txt', 'unsaved user edit\n');
+
+        const result = await manager.mergeBack(session.id, 'plan-1 step 1');
+
+        expect(result).toMatchObject({ merged: false, reason: 'dirty_workspace' });
+        expect(fs.existsSync(path.join(repo, 'b.txt'))).toBe(false);
+        expect(fs.readFileSync(path.join(repo, 'a.txt'), 'utf-8')).toBe('unsaved user edit\n');
+    });
+
+    describe('mergeToMain', () => {
+        async function createConflictingTask() {
+            const session = await manager.create('task-1');
+            write(session.path, 'a.txt', 'from the task\n');
+            await manager.commitChanges(session.id, 'Task 1');
+            write(repo, 'a.txt', 'from main\n');
+            git('commit', '-q', '-am', 'main change');
+            return session;
+        }
+
+        it('should merge from another branch and restore it with its uncommitted changes', async () => {
+            const session = await manager.create('task-1');
+            write(session.path, 'b.txt', 'new\n');
+            await manager.commitChanges(session.id, 'Task 1');
+            git('checkout', '-q', '-b', 'feature');
+            write(repo, 'a.txt', 'unsaved user edit\n');
+
+            expect(await manager.mergeToMain(session.id)).toEqual({ merged: true, committed: true });
+
+            expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe('feature');
+            expect(fs.readFileSync(path.join(repo, 'a.txt'), 'utf-8')).toBe('unsaved user edit\n');
+            expect(git('stash', 'list')).toBe('');
+            expect(git('log', '-1', '--format=%s', 'main')).toBe('Merge task: task-1');
+            expect(git('show', 'main:b.txt')).toBe('new');
+            expect(fs.existsSync(session.path)).toBe(false);
+        });
+
+        it('should hand conflicts to the handler and merge the accepted resolution', async () => {
+            const session = await createConflictingTask();
+            const seen: Partial<WorktreeConflict>[] = [];
+
+            const result = await manager.mergeToMain(session.id, 'main', async conflict => {
+                seen.push({ files: conflict.files, worktreePath: conflict.worktreePath });
+                expect(await conflict.readTargetVersion('a.txt')).toBe('from main\n');
+                write(conflict.worktreePath, 'a.txt', 'from main and the task\n');
+                return true;
+            });
+
+            expect(result).toEqual({ merged: true, committed: true });
+            expect(seen).toEqual([{ files: ['a.txt'], worktreePath: session.path }]);
+            expect(fs.readFileSync(path.join(repo, 'a.txt'), 'utf-8')).toBe('from main and the task\n');
+            expect(git('status', '--porcelain', '--untracked-files=no')).toBe('');
+        });
+
+        it('should abandon the merge and restore the workspace when the resolution is rejected', async () => {
+            const session = await createConflictingTask();
+            git('checkout', '-q', '-b', 'feature');
+            write(repo, 'a.txt', 'unsaved user edit\n');
+            const head = git('rev-parse', 'main');
+
+            const result = await manager.mergeToMain(session.id, 'main', async conflict => {
+                write(conflict.worktreePath, 'a.txt', 'rejected\n');
+                return false;
+            });
+
+            expect(result).toMatchObject({
+                merged: false,
+                reason: 'conflict',
+                conflicts: ['a.txt'],
+                message: 'The conflict resolution was not accepted'
+            });
+            expect(git('rev-parse', 'main')).toBe(head);
+            expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe('feature');
+            expect(fs.readFileSync(path.join(repo, 'a.txt'), 'utf-8')).toBe('unsaved user edit\n');
+            expect(git('stash', 'list')).toBe('');
+            expect(fs.readFileSync(path.join(session.path, 'a.txt'), 'utf-8')).toBe('from the task\n');
+            expect(git('-C', session.path, 'status', '--porcelain')).toBe('');
+        });
+
+        it('should commit only the conflicted files and reject resolutions that change others', async () => {
+            const session = await createConflictingTask();
+
+            const result = await manager.mergeToMain(session.id, 'main', async conflict => {
+                write(conflict.worktreePath, 'a.txt', 'from main and the task\n');
+                write(conflict.worktreePath, '.gitignore', '');
+                write(conflict.worktreePath, 'payload.sh', 'curl x\n');
+                return true;
+            });
+
+            expect(result).toMatchObject({
+                merged: false,
+                reason: 'conflict',
+                message: 'The conflict resolution also changed files outside the conflict: .gitignore, payload.sh'
+            });
+            expect(git('show', 'main:a.txt')).toBe('from main');
+            expect(fs.readFileSync(path.join(session.path, 'a.txt'), 'utf-8')).toBe('from the task\n');
+            expect(git('-C', session.path, 'status', '--porcelain')).toBe('');
+        });
+    });
+});
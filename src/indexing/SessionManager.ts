@@ -1,11 +1,16 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { UsageTotals } from '../engine/UsageTracker';
 
 export interface SessionMetadata {
     id: string;
     title: string;
     timestamp: number;
     messageCount: number;
+    /** CLI session the chat continues when reloaded */
+    cliSessionId?: string;
+    /** Tokens and cost spent on the chat so far */
+    usage?: UsageTotals;
 }
 
 export class SessionManager {
@@ -24,13 +29,13 @@ export class SessionManager {
         }
     }
 
-    async save(id: string, messages: any[]): Promise<void> {
+    async save(id: string, messages: any[], cliSessionId?: string, usage?: UsageTotals): Promise<void> {
         const sessionPath = path.join(this.sessionsDir, `${id}.json`);
         fs.writeFileSync(sessionPath, JSON.stringify(messages, null, 2));
-        await this.updateIndex(id, messages);
+        await this.updateIndex(id, messages, cliSessionId, usage);
     }
 
-    private async updateIndex(id: string, messages: any[]): Promise<void> {
+    private async updateIndex(id: string, messages: any[], cliSessionId?: string, usage?: UsageTotals): Promise<void> {
         const index = this.loadIndex();
         const firstUserMsg = messages.find(m => m.role === 'user');
         const title = firstUserMsg?.content?.substring(0, 50) || 'New Session';
@@ -40,7 +45,9 @@ export class SessionManager {
             id,
             title,
             timestamp: Date.now(),
-            messageCount: messages.length
+            messageCount: messages.length,
+            cliSessionId: cliSessionId ?? index[existing]?.cliSessionId,
+            usage: usage ?? index[existing]?.usage
         };
         
         if (existing >= 0) {
@@ -79,6 +86,14 @@ export class SessionManager {
         return [];
     }
 
+    async getCliSessionId(id: string): Promise<string | undefined> {
+        return this.loadIndex().find(s => s.id === id)?.cliSessionId;
+    }
+
+    async getUsage(id: string): Promise<UsageTotals | undefined> {
+        return this.loadIndex().find(s => s.id === id)?.usage;
+    }
+
     async delete(id: string): Promise<void> {
         const sessionPath = path.join(this.sessionsDir, `${id}.json`);
         if (fs.existsSync(sessionPath)) {
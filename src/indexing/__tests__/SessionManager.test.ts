@@ -0,0 +1,53 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionManager } from '../SessionManager';
+
+/**
+ * Tests for saved chat sessions.
+ */
+describe('SessionManager', () => {
+    let workspace: string;
+    let manager: SessionManager;
+
+    beforeEach(() => {
+        workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'session-manager-'));
+        manager = new SessionManager(workspace);
+    });
+
+    afterEach(() => {
+        fs.rmSync(workspace, { recursive: true, force: true });
+    });
+
+    it('should save messages and list the session with its title', async () => {
+        const messages = [{ role: 'user', content: 'Add a slugify helper' }, { role: 'assistant', content: 'Done' }];
+
+        await manager.save('session-1', messages);
+
+        expect(await manager.load('session-1')).toEqual(messages);
+        expect(await manager.list()).toEqual([
+            expect.objectContaining({ id: 'session-1', title: 'Add a slugify helper', messageCount: 2 })
+        ]);
+    });
+
+    it('should keep the CLI session id alongside the messages', async () => {
+        await manager.save('session-1', [{ role: 'user', content: 'hi' }], 'cli-abc');
+        expect(await manager.getCliSessionId('session-1')).toBe('cli-abc');
+
+        // Later saves without an id keep the known one
+        await manager.save('session-1', [{ role: 'user', content: 'hi' }, { role: 'assistant', content: 'hello' }]);
+        expect(await manager.getCliSessionId('session-1')).toBe('cli-abc');
+
+        expect(await manager.getCliSessionId('unknown')).toBeUndefined();
+    });
+
+    it('should keep the usage of the chat until a save reports new totals', async () => {
+        const usage = { inputTokens: 120, outputTokens: 40, cacheReadTokens: 0, cacheCreationTokens: 0, costUsd: 0.01, runs: 1 };
+
+        await manager.save('session-1', [{ role: 'user', content: 'hi' }], undefined, usage);
+        await manager.save('session-1', [{ role: 'user', content: 'hi' }, { role: 'assistant', content: 'hello' }]);
+
+        expect(await manager.getUsage('session-1')).toEqual(usage);
+        expect(await manager.getUsage('unknown')).toBeUndefined();
+    });
+});
@@ -12,6 +12,7 @@ import {
   BrainstormModeResponse,
   AppMode
 } from '../types';
+import { Perspective, selectPerspectives } from '../../orchestration/BrainstormSwarm';
 
 /**
  * Interface for SubagentOrchestrator dependency
@@ -50,44 +51,6 @@ export interface ClaudeService {
   }>;
 }
 
-/**
- * Agent perspective configurations
- */
-const AGENT_PERSPECTIVES = [
-  {
-    role: 'Critical Analyst',
-    prompt: 'Analyze from a critical perspective. Identify potential problems, edge cases, and challenges.'
-  },
-  {
-    role: 'Creative Innovator',
-    prompt: 'Think creatively and suggest innovative, out-of-the-box solutions and approaches.'
-  },
-  {
-    role: 'Practical Engineer',
-    prompt: 'Focus on practical, implementable solutions. Consider feasibility and resource constraints.'
-  },
-  {
-    role: 'User Advocate',
-    prompt: 'Consider the end-user perspective. Focus on usability, accessibility, and user experience.'
-  },
-  {
-    role: 'Performance Optimizer',
-    prompt: 'Analyze from a performance and efficiency standpoint. Suggest optimizations.'
-  },
-  {
-    role: 'Security Expert',
-    prompt: 'Focus on security implications, vulnerabilities, and best security practices.'
-  },
-  {
-    role: 'Maintainability Specialist',
-    prompt: 'Consider long-term maintainability, code quality, and technical debt.'
-  },
-  {
-    role: 'Integration Architect',
-    prompt: 'Think about integration points, dependencies, and system architecture.'
-  }
-];
-
 /**
  * BrainstormModeHandler spawns multiple agents for diverse perspectives
  */
@@ -109,12 +72,8 @@ export class BrainstormModeHandler extends BaseModeHandler {
 
     try {
       // Determine number of agents based on swarmDensity
-      const agentCount = Math.min(
-        Math.max(request.settings.swarmDensity, 2),
-        AGENT_PERSPECTIVES.length
-      );
-
-      const selectedPerspectives = AGENT_PERSPECTIVES.slice(0, agentCount);
+      const selectedPerspectives = selectPerspectives(request.settings.swarmDensity);
+      const agentCount = selectedPerspectives.length;
 
       this.emitProgress(
         request.requestId,
@@ -160,7 +119,7 @@ export class BrainstormModeHandler extends BaseModeHandler {
    */
   private async runPerspectiveAgent(
     request: ModeRequest,
-    perspective: { role: string; prompt: string },
+    perspective: Perspective,
     index: number,
     total: number
   ): Promise<BrainstormModeResponse['agentResponses'][0]> {
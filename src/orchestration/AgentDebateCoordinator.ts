@@ -144,6 +144,18 @@ export interface DebateRound {
     votes: Vote[];
 }
 
+/**
+ * Decision that settled an escalated debate
+ */
+export interface DebateDecision {
+    /** Who chose the winning proposal */
+    decidedBy: 'architect' | 'user';
+    /** Why the proposal was chosen */
+    rationale?: string;
+    /** When the decision was recorded */
+    timestamp: number;
+}
+
 /**
  * Complete debate session
  */
@@ -168,6 +180,8 @@ export interface Debate {
     endedAt?: number;
     /** Reason for escalation (if escalated) */
     escalationReason?: string;
+    /** How an escalated debate was settled (if it was) */
+    decision?: DebateDecision;
 }
 
 // ============================================
@@ -803,6 +817,43 @@ export class AgentDebateCoordinator extends EventEmitter {
         this.emit('debate_escalated', debateId, escalationReason);
     }
 
+    /**
+     * Records the architect's or the user's choice as the consensus of an
+     * escalated debate
+     *
+     * @param debateId - ID of the debate
+     * @param proposalId - ID of the chosen proposal
+     * @param decidedBy - Who made the choice
+     * @param rationale - Optional reason for the choice
+     * @throws Error if the debate is not escalated or the proposal is not found
+     */
+    recordDecision(
+        debateId: string,
+        proposalId: string,
+        decidedBy: DebateDecision['decidedBy'],
+        rationale?: string
+    ): void {
+        const debate = this.getDebate(debateId);
+
+        if (debate.status !== 'escalated') {
+            throw new Error(
+                `Debate ${debateId} is not escalated (status: ${debate.status})`
+            );
+        }
+
+        const proposal = this.findProposalById(debate, proposalId);
+        if (!proposal) {
+            throw new Error(`Proposal ${proposalId} not found`);
+        }
+
+        debate.consensus = proposal;
+        debate.status = 'consensus_reached';
+        debate.endedAt = Date.now();
+        debate.decision = { decidedBy, rationale, timestamp: Date.now() };
+
+        this.emit('consensus_reached', debateId, proposal);
+    }
+
     // ============================================
     // Debate Flow Control
     // ============================================
@@ -852,6 +903,22 @@ export class AgentDebateCoordinator extends EventEmitter {
         this.startRound(debateId, nextRoundType);
     }
 
+    /**
+     * Ends the current round without starting the next one, so a vote round
+     * can be resolved once every vote is in
+     *
+     * @param debateId - ID of the debate
+     * @throws Error if the debate is not active
+     */
+    endRound(debateId: string): void {
+        const debate = this.getDebate(debateId);
+        this.validateActiveDebate(debate);
+
+        if (!this.getCurrentRound(debate).complete) {
+            this.completeRound(debateId);
+        }
+    }
+
     /**
      * Manually advances to the next round (for testing or manual control)
      *
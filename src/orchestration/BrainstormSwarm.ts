@@ -0,0 +1,95 @@
+import { DebateOutcome, DebateRunner } from './DebateRunner';
+import { UsageScope } from '../engine/UsageTracker';
+import { PermissionMode } from '../types/WebviewMessages';
+
+/**
+ * A point of view a brainstorm agent argues from
+ */
+export interface Perspective {
+    role: string;
+    prompt: string;
+}
+
+/**
+ * Points of view of brainstorm agents, in the order agents are given them
+ */
+export const AGENT_PERSPECTIVES: Perspective[] = [
+    {
+        role: 'Critical Analyst',
+        prompt: 'Analyze from a critical perspective. Identify potential problems, edge cases, and challenges.'
+    },
+    {
+        role: 'Creative Innovator',
+        prompt: 'Think creatively and suggest innovative, out-of-the-box solutions and approaches.'
+    },
+    {
+        role: 'Practical Engineer',
+        prompt: 'Focus on practical, implementable solutions. Consider feasibility and resource constraints.'
+    },
+    {
+        role: 'User Advocate',
+        prompt: 'Consider the end-user perspective. Focus on usability, accessibility, and user experience.'
+    },
+    {
+        role: 'Performance Optimizer',
+        prompt: 'Analyze from a performance and efficiency standpoint. Suggest optimizations.'
+    },
+    {
+        role: 'Security Expert',
+        prompt: 'Focus on security implications, vulnerabilities, and best security practices.'
+    },
+    {
+        role: 'Maintainability Specialist',
+        prompt: 'Consider long-term maintainability, code quality, and technical debt.'
+    },
+    {
+        role: 'Integration Architect',
+        prompt: 'Think about integration points, dependencies, and system architecture.'
+    }
+];
+
+/**
+ * Perspectives for a swarm of `swarmDensity` agents: at least 2, and at most
+ * one agent per perspective
+ */
+export function selectPerspectives(swarmDensity: number): Perspective[] {
+    const agentCount = Math.min(Math.max(swarmDensity, 2), AGENT_PERSPECTIVES.length);
+    return AGENT_PERSPECTIVES.slice(0, agentCount);
+}
+
+export interface BrainstormRequest {
+    taskId: string;
+    topic: string;
+    context?: string;
+    /** Number of agents wanted; see selectPerspectives */
+    swarmDensity: number;
+    /** Scopes besides `task:<taskId>` the agents' usage counts towards */
+    usageScopes?: UsageScope[];
+    /** How the agents' tool calls are approved; 'auto' when absent */
+    permissionMode?: PermissionMode;
+}
+
+/**
+ * Runs a brainstorm as a debate between debater agents, one per perspective
+ * the swarm density allows. Events are those of DebateRunner.
+ */
+export class BrainstormSwarm extends DebateRunner {
+    /**
+     * Runs the debate to its end.
+     */
+    async run(request: BrainstormRequest): Promise<DebateOutcome> {
+        const participants = selectPerspectives(request.swarmDensity).map((perspective, index) => ({
+            agentId: `agent-${index}`,
+            perspective: perspective.role,
+            instructions: perspective.prompt
+        }));
+        return this.runDebate({
+            taskId: request.taskId,
+            topic: request.topic,
+            participants,
+            context: request.context,
+            usageScopes: request.usageScopes,
+            permissionMode: request.permissionMode
+        });
+    }
+}
@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Critique, DebateRound, Proposal } from './AgentDebateCoordinator';
+import { DebateRecord } from './DebateStore';
+
+/** Numbered records already in a decisions directory, e.g. `ADR-001-...` or `DDR-002-...` */
+const RECORD_FILE = /^[A-Z]{3}-(\d+)-.*\.md$/i;
+
+/**
+ * Renders a finished debate as a Markdown architecture decision record:
+ * topic, panel, decision, every round of the debate and the alternatives
+ * that lost.
+ */
+export function renderDebateAdr(record: DebateRecord, number: number): string {
+    const { debate, participants } = record;
+    const name = (agentId: string | undefined) =>
+        participants.find(p => p.agentId === agentId)?.perspective ?? agentId ?? 'unknown';
+    const authorOf = new Map<string, string>();
+    for (const round of debate.rounds) {
+        for (const proposal of round.proposals) authorOf.set(proposal.id, proposal.agentId);
+    }
+
+    const lines: string[] = [
+        `# ADR-${padNumber(number)}: ${title(debate.topic)}`,
+        '',
+        `**Status**: ${debate.consensus ? 'Accepted' : 'Unresolved'}`,
+        `**Date**: ${new Date(debate.endedAt ?? debate.startedAt).toISOString().slice(0, 10)}`,
+        `**Deciders**: ${participants.map(p => p.perspective).join(', ')}` +
+            (debate.decision?.decidedBy === 'architect' ? ', Architect' : debate.decision?.decidedBy === 'user' ? ', User' : ''),
+        '',
+        '## Context',
+        '',
+        debate.topic.trim(),
+        '',
+        '## Decision',
+        ''
+    ];
+
+    const winner = debate.consensus;
+    if (winner) {
+        const how = debate.decision?.decidedBy === 'architect'
+            ? 'Chosen by the architect after the panel failed to agree'
+            : debate.decision?.decidedBy === 'user'
+                ? 'Chosen by the user after the panel failed to agree'
+                : 'Adopted by panel consensus';
+        lines.push(`${how}: ${name(winner.agentId)}'s proposal.`, '', winner.solution.trim());
+        if (winner.reasoning) lines.push('', `**Reasoning:** ${winner.reasoning.trim()}`);
+        if (debate.decision?.rationale) lines.push('', `**Why it was chosen:** ${debate.decision.rationale.trim()}`);
+    } else {
+        lines.push(`No decision was reached: ${debate.escalationReason ?? 'the debate ended without consensus'}.`);
+    }
+
+    lines.push('', '## Debate');
+    let cycle = 0;
+    for (const round of debate.rounds) {
+        if (round.type === 'propose') {
+            cycle++;
+            lines.push('', `### Round ${cycle}`);
+        }
+        const section = renderRound(round, name, authorOf);
+        if (section.length > 0) lines.push('', ...section);
+    }
+
+    const alternatives = finalProposals(record).filter(p => p.id !== winner?.id);
+    if (alternatives.length > 0) {
+        lines.push('', '## Alternatives Considered', '');
+        for (const proposal of alternatives) {
+            const votes = proposal.voteCount ?? 0;
+            lines.push(`- **${name(proposal.agentId)}** (${votes} vote${votes === 1 ? '' : 's'}): ${oneLine(proposal.solution)}`);
+        }
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Writes the debate's ADR into `directory` (relative to `rootDir`), numbered
+ * after the records already there. A debate exported before is rewritten in
+ * place, unless its saved path leads outside `rootDir`. Returns the ADR's
+ * path relative to `rootDir`.
+ *
+ * @throws Error if `directory` is not inside `rootDir`
+ */
+export function exportDebateAdr(rootDir: string, record: DebateRecord, directory = 'docs/decisions'): string {
+    const root = path.resolve(rootDir);
+    const isInside = (target: string) => path.resolve(root, target).startsWith(root + path.sep);
+    if (!isInside(directory)) {
+        throw new Error(`The ADR directory ${directory} is not inside the workspace`);
+    }
+
+    const existing = record.adrPath && isInside(record.adrPath) && fs.existsSync(path.join(rootDir, record.adrPath))
+        ? record.adrPath
+        : undefined;
+    const dir = path.join(rootDir, existing ? path.dirname(existing) : directory);
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+
+    let relativePath = existing;
+    let number = existing ? Number(RECORD_FILE.exec(path.basename(existing))?.[1] ?? 0) : 0;
+    if (!relativePath || !number) {
+        number = nextRecordNumber(dir);
+        relativePath = path.relative(rootDir, path.join(dir, `ADR-${padNumber(number)}-${slug(record.debate.topic)}.md`));
+    }
+
+    fs.writeFileSync(path.join(rootDir, relativePath), renderDebateAdr(record, number));
+    return relativePath.split(path.sep).join('/');
+}
+
+function renderRound(round: DebateRound, name: (agentId?: string) => string, authorOf: Map<string, string>): string[] {
+    switch (round.type) {
+        case 'propose':
+            return round.proposals.flatMap((p, index) => [
+                ...(index > 0 ? [''] : []),
+                `#### Proposal from ${name(p.agentId)} (${Math.round(p.confidence * 100)}% confident)`,
+                '',
+                p.solution.trim(),
+                ...(p.reasoning ? ['', `*Reasoning:* ${p.reasoning.trim()}`] : [])
+            ]);
+        case 'critique':
+            return round.critiques.length === 0 ? [] : ['#### Critiques', '', ...round.critiques.map(c => describeCritique(c, name))];
+        case 'defend': {
+            // The coordinator records one defense per critique answered; list each once
+            const defenses = round.defenses.filter((d, i) =>
+                round.defenses.findIndex(other => other.proposalId === d.proposalId) === i);
+            return defenses.length === 0 ? [] : [
+                '#### Defenses',
+                '',
+                ...defenses.map(d => `- **${name(d.agentId)}**${d.proposalModified ? ' (revised the proposal)' : ''}: ${oneLine(d.defense)}`)
+            ];
+        }
+        case 'vote':
+            return round.votes.length === 0 ? [] : [
+                '#### Votes',
+                '',
+                ...round.votes.map(v => `- **${name(v.agentId)}** for ${name(authorOf.get(v.proposalId))}` +
+                    (v.justification ? `: ${oneLine(v.justification)}` : ''))
+            ];
+    }
+}
+
+function describeCritique(critique: Critique, name: (agentId?: string) => string): string {
+    const fix = critique.suggestedFix ? ` *Suggested fix:* ${oneLine(critique.suggestedFix)}` : '';
+    return `- **${name(critique.fromAgent)}** on ${name(critique.toAgent)} [${critique.severity}]: ${oneLine(critique.criticism)}${fix}`;
+}
+
+/** Proposals of the debate's last cycle that had any */
+function finalProposals(record: DebateRecord): Proposal[] {
+    const rounds = record.debate.rounds.filter(r => r.type === 'propose' && r.proposals.length > 0);
+    return rounds.length > 0 ? rounds[rounds.length - 1].proposals : [];
+}
+
+function nextRecordNumber(dir: string): number {
+    const numbers = fs.readdirSync(dir)
+        .map(file => RECORD_FILE.exec(file)?.[1])
+        .filter((n): n is string => n !== undefined)
+        .map(Number);
+    return Math.max(0, ...numbers) + 1;
+}
+
+function padNumber(number: number): string {
+    return String(number).padStart(3, '0');
+}
+
+/** First line of the topic, shortened for a heading */
+function title(topic: string): string {
+    const first = topic.trim().split('\n')[0].trim();
+    return first.length > 80 ? `${first.slice(0, 77)}...` : first;
+}
+
+function slug(topic: string): string {
+    const words = title(topic).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    return words.slice(0, 50).replace(/-+$/, '') || 'debate';
+}
+
+function oneLine(text: string): string {
+    return text.trim().replace(/\s*\n\s*/g, ' ');
+}
@@ -0,0 +1,599 @@
+import { EventEmitter } from 'events';
+import {
+    AgentDebateCoordinator,
+    Critique,
+    CritiqueSeverity,
+    Debate,
+    DebateConfig,
+    DebateDecision,
+    DebateRoundType,
+    Proposal,
+    Vote
+} from './AgentDebateCoordinator';
+import { SubagentOrchestrator, SubagentRole } from './SubagentOrchestrator';
+import { RoleProfileRegistry } from './RoleProfiles';
+import { jsonCandidates } from './PlanParser';
+import { UsageScope } from '../engine/UsageTracker';
+import { PermissionMode } from '../types/WebviewMessages';
+
+/**
+ * An agent taking part in a debate.
+ */
+export interface DebateParticipant {
+    agentId: string;
+    /** Point of view the agent argues from, e.g. "Security Expert" */
+    perspective: string;
+    /** What the perspective asks of the agent, added to every prompt */
+    instructions?: string;
+    /** Role the agent runs as; defaults to the debater */
+    role?: SubagentRole;
+}
+
+export interface DebateRequest {
+    taskId: string;
+    topic: string;
+    participants: DebateParticipant[];
+    context?: string;
+    /** Scopes besides `task:<taskId>` the agents' usage counts towards */
+    usageScopes?: UsageScope[];
+    /** How the agents' tool calls are approved; 'auto' when absent */
+    permissionMode?: PermissionMode;
+    /** Profiles the agents run with; the orchestrator's ones when the debate starts if absent */
+    roleProfiles?: RoleProfileRegistry;
+}
+
+export interface DebateOutcome {
+    participants: DebateParticipant[];
+    debate: Debate;
+    /** The winning proposal, when the participants reached consensus */
+    consensus?: Proposal;
+    /** Why the debate ended without consensus, or why it escalated before a decision */
+    escalationReason?: string;
+    /** Who settled the escalated debate, and why */
+    decision?: DebateDecision;
+}
+
+/**
+ * The top proposals of an escalated debate the architect did not decide,
+ * offered to the user to choose from.
+ */
+export interface DebateDecisionRequest {
+    taskId: string;
+    topic: string;
+    /** Why the debate escalated */
+    reason: string;
+    /** The architect's view of the choice, when it gave one */
+    rationale?: string;
+    options: Proposal[];
+}
+
+/**
+ * Asks the user to choose; resolves to the chosen proposal's id, or
+ * undefined to leave the debate undecided.
+ */
+export type DebateDecisionHandler = (request: DebateDecisionRequest) => Promise<string | undefined>;
+
+const PHASE_ACTIVITY: Record<DebateRoundType, string> = {
+    propose: 'Proposing',
+    critique: 'Critiquing',
+    defend: 'Defending',
+    vote: 'Voting'
+};
+
+const SEVERITIES: CritiqueSeverity[] = ['minor', 'major', 'blocking'];
+
+/** Same as the coordinator's own default */
+const DEFAULT_ROUND_TIMEOUT = 5 * 60 * 1000;
+
+/** Coordinator events forwarded by the runner, with the key their value is sent under */
+const FORWARDED_EVENTS: Array<[string, string]> = [
+    ['round_started', 'round'],
+    ['proposal_submitted', 'proposal'],
+    ['critique_submitted', 'critique'],
+    ['defense_submitted', 'defense'],
+    ['vote_cast', 'vote'],
+    ['consensus_reached', 'proposal'],
+    ['debate_escalated', 'reason']
+];
+
+type Reply = Record<string, unknown>;
+
+/** One propose-critique-defend-vote cycle of a debate */
+interface DebateCycle {
+    proposals: Proposal[];
+    critiques: Critique[];
+    votes: Vote[];
+}
+
+/** Proposals offered to the user when the architect names none */
+const MAX_DECISION_OPTIONS = 3;
+
+/**
+ * Plays the rounds of an AgentDebateCoordinator debate with agents: each
+ * participant runs as a SubagentOrchestrator agent that is prompted with the
+ * debate so far and answers in JSON, which becomes its proposal, critiques,
+ * defense or vote. Cycles repeat until the coordinator finds consensus or
+ * escalates.
+ *
+ * Rounds last at most `roundTimeout`; agents still running then are stopped
+ * and the round goes on without them. A debate that escalates goes to an
+ * architect agent, which either picks the winner or leaves the choice
+ * between the top proposals to the user (see setDecisionHandler).
+ *
+ * @fires debate_started - { taskId, debate, participants }
+ * @fires architect_started - { taskId }
+ * @fires agent_status - { taskId, agentId, status: 'working' | 'completed' | 'failed', activity }
+ * @fires round_timed_out - { taskId, roundType, agentIds }
+ * @fires round_started / proposal_submitted / critique_submitted / defense_submitted /
+ *        vote_cast / consensus_reached / debate_escalated - the coordinator's events,
+ *        as { taskId, round | proposal | critique | defense | vote | reason }
+ */
+export class DebateRunner extends EventEmitter {
+    private coordinator: AgentDebateCoordinator | undefined;
+    private debateId: string | undefined;
+    private runningTasks = new Set<string>();
+    private cancelled: boolean = false;
+    private roundTimeout: number;
+    private decisionHandler: DebateDecisionHandler | undefined;
+
+    constructor(
+        private orchestrator: SubagentOrchestrator,
+        private config: DebateConfig = {}
+    ) {
+        super();
+        this.roundTimeout = config.roundTimeout ?? DEFAULT_ROUND_TIMEOUT;
+    }
+
+    /**
+     * Lets the user settle escalated debates the architect leaves open.
+     * Without a handler such debates stay escalated.
+     */
+    setDecisionHandler(handler: DebateDecisionHandler | undefined): void {
+        this.decisionHandler = handler;
+    }
+
+    /**
+     * Starts a debate between the participants and runs it to its end.
+     *
+     * @throws Error if fewer participants than the debate's minimum take part
+     */
+    async runDebate(request: DebateRequest): Promise<DebateOutcome> {
+        request = { ...request, roleProfiles: request.roleProfiles ?? this.orchestrator.getRoleProfiles() };
+        const { participants } = request;
+        // The runner keeps time itself, so the coordinator never advances a round on its own
+        const coordinator = new AgentDebateCoordinator({ ...this.config, roundTimeout: 0 });
+        this.coordinator = coordinator;
+        this.cancelled = false;
+        for (const [event, key] of FORWARDED_EVENTS) {
+            coordinator.on(event, (debateId: string, value: unknown) => {
+                this.emit(event, { taskId: request.taskId, [key]: value });
+            });
+        }
+
+        try {
+            const debateId = coordinator.startDebate(request.topic, participants.map(p => p.agentId));
+            this.debateId = debateId;
+            this.emit('debate_started', { taskId: request.taskId, debate: coordinator.getDebateState(debateId), participants });
+
+            let cycle = 1;
+            while (coordinator.getDebateState(debateId).status === 'active') {
+                await this.runCycle(request, debateId, cycle++);
+            }
+            for (const participant of participants) {
+                this.emit('agent_status', { taskId: request.taskId, agentId: participant.agentId, status: 'completed', activity: 'Done' });
+            }
+
+            if (coordinator.getDebateState(debateId).status === 'escalated' && !this.cancelled) {
+                await this.settle(request, debateId);
+            }
+
+            const debate = coordinator.getDebateState(debateId);
+            return {
+                participants,
+                debate,
+                consensus: debate.consensus,
+                escalationReason: debate.escalationReason,
+                decision: debate.decision
+            };
+        } finally {
+            coordinator.dispose();
+        }
+    }
+
+    /**
+     * Stops the debate and the agents still running.
+     */
+    cancel(): void {
+        this.cancelled = true;
+        for (const taskId of this.runningTasks) {
+            this.orchestrator.stopTask(taskId);
+        }
+        const debate = this.debateId ? this.coordinator?.getDebateState(this.debateId) : undefined;
+        if (debate?.status === 'active') {
+            this.coordinator!.cancelDebate(debate.id);
+        }
+    }
+
+    private async runCycle(request: DebateRequest, debateId: string, cycle: number): Promise<void> {
+        const coordinator = this.coordinator!;
+        const { topic, participants } = request;
+        const previous = cycle > 1 ? this.summarizeCycle(coordinator.getDebateState(debateId), participants) : undefined;
+
+        // PROPOSE
+        const proposals = await this.ask(request, 'propose', cycle, participant =>
+            this.proposePrompt(topic, participant, previous)
+        );
+        if (this.cancelled) return;
+        for (const [participant, reply] of proposals) {
+            const solution = text(reply.solution);
+            if (!solution) continue;
+            const confidence = typeof reply.confidence === 'number' ? Math.min(1, Math.max(0, reply.confidence)) : 0.5;
+            coordinator.submitProposal(debateId, {
+                agentId: participant.agentId,
+                solution,
+                reasoning: text(reply.reasoning) ?? '',
+                confidence
+            });
+        }
+        const submitted = this.currentRound(debateId).proposals;
+        if (submitted.length === 0) {
+            coordinator.escalateToArchitect(debateId, 'No panelist produced a proposal');
+            return;
+        }
+        coordinator.advanceToNextRound(debateId);
+
+        // CRITIQUE
+        const critiques = await this.ask(request, 'critique', cycle, participant => {
+            const others = submitted.filter(p => p.agentId !== participant.agentId);
+            return others.length ? this.critiquePrompt(topic, participant, others, participants) : undefined;
+        });
+        if (this.cancelled) return;
+        for (const [participant, reply] of critiques) {
+            const items: unknown[] = Array.isArray(reply.critiques) ? reply.critiques : [];
+            for (const item of items.filter((i): i is Reply => !!i && typeof i === 'object')) {
+                const proposal = this.proposalByNumber(submitted, participants, item.proposal);
+                const criticism = text(item.criticism);
+                if (!proposal || proposal.agentId === participant.agentId || !criticism) continue;
+                const severity = SEVERITIES.find(s => s === item.severity);
+                coordinator.submitCritique(debateId, {
+                    fromAgent: participant.agentId,
+                    toAgent: proposal.agentId,
+                    proposalId: proposal.id,
+                    criticism,
+                    severity: severity ?? 'major',
+                    suggestedFix: text(item.suggestedFix)
+                });
+            }
+        }
+        const submittedCritiques = this.currentRound(debateId).critiques;
+        coordinator.advanceToNextRound(debateId);
+
+        // DEFEND
+        const defenses = await this.ask(request, 'defend', cycle, participant => {
+            const proposal = submitted.find(p => p.agentId === participant.agentId);
+            const against = submittedCritiques.filter(c => c.proposalId === proposal?.id);
+            return proposal && against.length ? this.defendPrompt(topic, participant, proposal, against, participants) : undefined;
+        });
+        if (this.cancelled) return;
+        for (const [participant, reply] of defenses) {
+            const defense = text(reply.defense);
+            if (!defense) continue;
+            coordinator.defendProposal(debateId, participant.agentId, defense, undefined, text(reply.revisedSolution));
+        }
+        coordinator.advanceToNextRound(debateId);
+
+        // VOTE
+        const votes = await this.ask(request, 'vote', cycle, participant =>
+            this.votePrompt(topic, participant, submitted, participants)
+        );
+        if (this.cancelled) return;
+        for (const [participant, reply] of votes) {
+            const proposal = this.proposalByNumber(submitted, participants, reply.proposal);
+            if (!proposal?.blockingResolved) continue;
+            coordinator.castVote(debateId, {
+                agentId: participant.agentId,
+                proposalId: proposal.id,
+                weight: 1,
+                justification: text(reply.justification)
+            });
+        }
+        coordinator.endRound(debateId);
+
+        // Either ends the debate or starts the next cycle's propose round
+        coordinator.resolveDebate(debateId);
+    }
+
+    /**
+     * Runs the participants that have something to do in `phase` side by
+     * side and returns the JSON object each one answered with, in participant
+     * order. Agents that fail, answer without one or are still running when
+     * the round times out are left out.
+     */
+    private async ask(
+        request: DebateRequest,
+        phase: DebateRoundType,
+        cycle: number,
+        prompt: (participant: DebateParticipant) => string | undefined
+    ): Promise<Array<[DebateParticipant, Reply]>> {
+        const replies: Array<[DebateParticipant, Reply] | undefined> = [];
+        const pending = new Map<string, string>();
+        let timedOut = false;
+
+        const runs = request.participants.map(async (participant, index) => {
+            const text = prompt(participant);
+            if (!text || this.cancelled) return;
+
+            const taskId = `${request.taskId}-${participant.agentId}-${phase}-${cycle}`;
+            const activity = `${PHASE_ACTIVITY[phase]}${cycle > 1 ? ` (cycle ${cycle})` : ''}`;
+            this.emit('agent_status', { taskId: request.taskId, agentId: participant.agentId, status: 'working', activity });
+            pending.set(participant.agentId, taskId);
+            this.runningTasks.add(taskId);
+            try {
+                const response = await this.orchestrator.runAgent({
+                    taskId,
+                    role: participant.role ?? 'debater',
+                    prompt: text,
+                    context: request.context,
+                    usageScopes: request.usageScopes,
+                    permissionMode: request.permissionMode,
+                    roleProfiles: request.roleProfiles
+                });
+                if (timedOut) return;
+
+                const reply = response.success ? readReply(response.content) : undefined;
+                if (!reply) {
+                    this.emit('agent_status', {
+                        taskId: request.taskId,
+                        agentId: participant.agentId,
+                        status: 'failed',
+                        activity: `${activity}: ${response.error ?? 'no JSON answer'}`
+                    });
+                    return;
+                }
+                replies[index] = [participant, reply];
+            } finally {
+                pending.delete(participant.agentId);
+                this.runningTasks.delete(taskId);
+            }
+        });
+
+        let timer: NodeJS.Timeout | undefined;
+        const deadline = new Promise<void>(resolve => {
+            if (this.roundTimeout > 0) timer = setTimeout(resolve, this.roundTimeout);
+        });
+        await Promise.race([Promise.all(runs), deadline]);
+        clearTimeout(timer);
+
+        if (pending.size > 0) {
+            timedOut = true;
+            const late = [...pending.entries()];
+            this.emit('round_timed_out', { taskId: request.taskId, roundType: phase, agentIds: late.map(([agentId]) => agentId) });
+            for (const [agentId, taskId] of late) {
+                this.orchestrator.stopTask(taskId);
+                this.emit('agent_status', { taskId: request.taskId, agentId, status: 'failed', activity: `${PHASE_ACTIVITY[phase]}: timed out` });
+            }
+        }
+        return replies.filter((reply): reply is [DebateParticipant, Reply] => !!reply);
+    }
+
+    /**
+     * Has the architect decide an escalated debate from its transcript, and
+     * asks the user to choose when the architect leaves it open or fails.
+     */
+    private async settle(request: DebateRequest, debateId: string): Promise<void> {
+        const coordinator = this.coordinator!;
+        const { participants } = request;
+        const debate = coordinator.getDebateState(debateId);
+        const cycles = this.cycles(debate).filter(c => c.proposals.length > 0);
+        if (cycles.length === 0) return;
+        const candidates = cycles[cycles.length - 1].proposals;
+
+        this.emit('architect_started', { taskId: request.taskId });
+        const taskId = `${request.taskId}-architect`;
+        this.runningTasks.add(taskId);
+        let reply: Reply | undefined;
+        try {
+            const response = await this.orchestrator.runAgent({
+                taskId,
+                role: 'architect',
+                prompt: this.architectPrompt(request.topic, debate.escalationReason ?? '', cycles, participants),
+                context: request.context,
+                usageScopes: request.usageScopes,
+                permissionMode: request.permissionMode,
+                roleProfiles: request.roleProfiles
+            });
+            reply = response.success ? readReply(response.content) : undefined;
+        } finally {
+            this.runningTasks.delete(taskId);
+        }
+        if (this.cancelled) return;
+
+        const rationale = text(reply?.rationale);
+        if (reply?.decision === 'select') {
+            const chosen = this.proposalByNumber(candidates, participants, reply.proposal);
+            if (chosen) {
+                coordinator.recordDecision(debateId, chosen.id, 'architect', rationale);
+                return;
+            }
+        }
+
+        if (!this.decisionHandler) return;
+        const numbers: unknown[] = reply?.decision === 'ask_user' && Array.isArray(reply.proposals) ? reply.proposals : [];
+        const named = candidates.filter(p => numbers.some(n => this.proposalByNumber(candidates, participants, n) === p));
+        const options = named.length > 0
+            ? named
+            : [...candidates]
+                .sort((a, b) => (b.weightedScore ?? 0) - (a.weightedScore ?? 0) || b.confidence - a.confidence)
+                .slice(0, MAX_DECISION_OPTIONS);
+
+        const chosenId = await this.decisionHandler({
+            taskId: request.taskId,
+            topic: request.topic,
+            reason: debate.escalationReason ?? '',
+            rationale,
+            options
+        });
+        if (this.cancelled || !chosenId || !options.some(p => p.id === chosenId)) return;
+        coordinator.recordDecision(debateId, chosenId, 'user');
+    }
+
+    private currentRound(debateId: string) {
+        const debate = this.coordinator!.getDebateState(debateId);
+        return debate.rounds[debate.currentRound];
+    }
+
+    /** Proposals are numbered by their author's place among the participants */
+    private proposalByNumber(proposals: Proposal[], participants: DebateParticipant[], number: unknown): Proposal | undefined {
+        const participant = typeof number === 'number' ? participants[number - 1] : undefined;
+        return participant && proposals.find(p => p.agentId === participant.agentId);
+    }
+
+    private describeProposal(proposal: Proposal, participants: DebateParticipant[]): string {
+        const index = participants.findIndex(p => p.agentId === proposal.agentId);
+        const header = `### Proposal ${index + 1} (${participants[index].perspective})`;
+        const reasoning = proposal.reasoning ? `\nReasoning: ${proposal.reasoning}` : '';
+        return `${header}\nSolution: ${proposal.solution}${reasoning}`;
+    }
+
+    private describeCritique(critique: Critique, participants: DebateParticipant[]): string {
+        const from = this.perspectiveOf(critique.fromAgent, participants);
+        const fix = critique.suggestedFix ? ` Suggested fix: ${critique.suggestedFix}` : '';
+        return `- [${critique.severity}] ${from}: ${critique.criticism}${fix}`;
+    }
+
+    private perspectiveOf(agentId: string, participants: DebateParticipant[]): string {
+        return participants.find(p => p.agentId === agentId)?.perspective ?? agentId;
+    }
+
+    private intro(topic: string, participant: DebateParticipant): string {
+        const instructions = participant.instructions ? ` ${participant.instructions}` : '';
+        return `Your perspective: ${participant.perspective}.${instructions}\n\nProblem:\n${topic}`;
+    }
+
+    private proposePrompt(topic: string, participant: DebateParticipant, previous: string | undefined): string {
+        const history = previous
+            ? `\n\nThe last cycle ended without consensus:\n${previous}\n\nPropose again. Improve on your proposal, or adopt another panelist's if it convinced you.`
+            : '\n\nPropose your solution.';
+        return `${this.intro(topic, participant)}${history}
+
+Reply with:
+{"solution": "the approach, concretely", "reasoning": "why it is the best option from your perspective", "confidence": 0.0 to 1.0}`;
+    }
+
+    private critiquePrompt(topic: string, participant: DebateParticipant, others: Proposal[], participants: DebateParticipant[]): string {
+        return `${this.intro(topic, participant)}
+
+Proposals from the other panelists:
+${others.map(p => this.describeProposal(p, participants)).join('\n\n')}
+
+Critique each proposal. Use "blocking" only for a flaw that makes a proposal unacceptable, "major" for a serious problem and "minor" for a detail. Reply with:
+{"critiques": [{"proposal": <number>, "criticism": "...", "severity": "minor" | "major" | "blocking", "suggestedFix": "..."}]}`;
+    }
+
+    private defendPrompt(
+        topic: string,
+        participant: DebateParticipant,
+        proposal: Proposal,
+        critiques: Critique[],
+        participants: DebateParticipant[]
+    ): string {
+        return `${this.intro(topic, participant)}
+
+Your proposal:
+${proposal.solution}
+
+Critiques of it:
+${critiques.map(c => this.describeCritique(c, participants)).join('\n')}
+
+Answer the critiques, and revise your solution where they are right. Reply with:
+{"defense": "...", "revisedSolution": "the complete revised solution, or null to keep it as it is"}`;
+    }
+
+    private votePrompt(topic: string, participant: DebateParticipant, proposals: Proposal[], participants: DebateParticipant[]): string {
+        const described = proposals.map(p => p.blockingResolved
+            ? this.describeProposal(p, participants)
+            : `${this.describeProposal(p, participants)}\n(Not eligible: a blocking critique was not answered)`);
+        return `${this.intro(topic, participant)}
+
+The proposals after critique and defense:
+${described.join('\n\n')}
+
+Vote for the eligible proposal you now think is best; it may be your own. Reply with:
+{"proposal": <number>, "justification": "..."}`;
+    }
+
+    private architectPrompt(topic: string, reason: string, cycles: DebateCycle[], participants: DebateParticipant[]): string {
+        const transcript = cycles.map((cycle, index) => {
+            const unresolved = (proposal: Proposal) => cycle.critiques
+                .filter(c => c.proposalId === proposal.id && c.severity === 'blocking' && !c.addressed)
+                .map(c => `- Unresolved blocking critique from ${this.perspectiveOf(c.fromAgent, participants)}: ${c.criticism}`);
+            const proposals = cycle.proposals.map(proposal => [
+                `${this.describeProposal(proposal, participants)}\nVotes: ${this.votesFor(proposal, cycle)} of ${cycle.votes.length}`,
+                ...unresolved(proposal)
+            ].join('\n'));
+            return `## Cycle ${index + 1}\n\n${proposals.join('\n\n')}`;
+        });
+
+        return `Problem debated:
+${topic}
+
+The panel could not agree: ${reason}.
+
+${transcript.join('\n\n')}
+
+Decide. Either choose the proposal to adopt, by its number in the last cycle:
+{"decision": "select", "proposal": <number>, "rationale": "why it wins, and why its unresolved critiques do not stop it"}
+or, if the choice turns on priorities only the user can set, name the proposals the user should choose between:
+{"decision": "ask_user", "proposals": [<number>, ...], "rationale": "what the choice comes down to"}`;
+    }
+
+    /** What the last cycle's proposals, critiques and votes were, for the next propose round */
+    private summarizeCycle(debate: Debate, participants: DebateParticipant[]): string {
+        // The last cycle is the one just started
+        const cycles = this.cycles(debate);
+        const cycle = cycles[cycles.length - 2];
+
+        return cycle.proposals.map(proposal => {
+            const against = cycle.critiques.filter(c => c.proposalId === proposal.id).map(c => this.describeCritique(c, participants));
+            return [
+                `${this.describeProposal(proposal, participants)}\nVotes: ${this.votesFor(proposal, cycle)} of ${cycle.votes.length}`,
+                ...against
+            ].join('\n');
+        }).join('\n\n');
+    }
+
+    /** The debate's rounds grouped by cycle, each cycle starting with a propose round */
+    private cycles(debate: Debate): DebateCycle[] {
+        const cycles: DebateCycle[] = [];
+        for (const round of debate.rounds) {
+            if (round.type === 'propose') {
+                cycles.push({ proposals: [], critiques: [], votes: [] });
+            }
+            const cycle = cycles[cycles.length - 1];
+            cycle.proposals.push(...round.proposals);
+            cycle.critiques.push(...round.critiques);
+            cycle.votes.push(...round.votes);
+        }
+        return cycles;
+    }
+
+    private votesFor(proposal: Proposal, cycle: DebateCycle): number {
+        return cycle.votes.filter(v => v.proposalId === proposal.id).length;
+    }
+}
+
+/** The first JSON object in an agent's reply */
+function readReply(content: string): Reply | undefined {
+    for (const candidate of jsonCandidates(content)) {
+        try {
+            const parsed: unknown = JSON.parse(candidate);
+            if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed as Reply;
+        } catch {}
+    }
+    return undefined;
+}
+
+/** A reply field as trimmed text, or undefined when it is not a non-empty string */
+function text(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Debate } from './AgentDebateCoordinator';
+import { DebateParticipant } from './DebateRunner';
+
+export interface DebateRecord {
+    /** Task the debate ran under, e.g. `swarm-<timestamp>` */
+    taskId: string;
+    debate: Debate;
+    participants: DebateParticipant[];
+    /** Workspace-relative path of the ADR the debate was exported to */
+    adrPath?: string;
+    updatedAt: number;
+}
+
+/**
+ * Persists finished debates under `.claudeprint/debates`, one file per
+ * debate, so they can be browsed, searched and exported later.
+ */
+export class DebateStore {
+    private debatesDir: string;
+
+    constructor(workspaceRoot: string) {
+        this.debatesDir = path.join(workspaceRoot, '.claudeprint', 'debates');
+    }
+
+    private debatePath(taskId: string): string {
+        return path.join(this.debatesDir, `${taskId.replace(/[^a-zA-Z0-9-_]/g, '-')}.json`);
+    }
+
+    async save(record: DebateRecord): Promise<void> {
+        if (!fs.existsSync(this.debatesDir)) {
+            fs.mkdirSync(this.debatesDir, { recursive: true });
+        }
+        record.updatedAt = Date.now();
+        fs.writeFileSync(this.debatePath(record.taskId), JSON.stringify(record, null, 2));
+    }
+
+    /**
+     * The saved record of a debate, or undefined when there is none or its
+     * file is not a debate record.
+     */
+    async load(taskId: string): Promise<DebateRecord | undefined> {
+        const debatePath = this.debatePath(taskId);
+        if (!fs.existsSync(debatePath)) return undefined;
+        try {
+            const record: unknown = JSON.parse(fs.readFileSync(debatePath, 'utf-8'));
+            return isDebateRecord(record) ? record : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /** Newest first; files that are not debate records are skipped */
+    async list(): Promise<DebateRecord[]> {
+        if (!fs.existsSync(this.debatesDir)) return [];
+
+        const records: DebateRecord[] = [];
+        for (const file of fs.readdirSync(this.debatesDir)) {
+            if (!file.endsWith('.json')) continue;
+            const record = await this.load(path.basename(file, '.json'));
+            if (record) records.push(record);
+        }
+        return records.sort((a, b) => b.debate.startedAt - a.debate.startedAt);
+    }
+
+    /**
+     * Debates whose topic or transcript holds every word of `query`, ignoring
+     * case, newest first. A blank query matches every debate.
+     */
+    async search(query: string): Promise<DebateRecord[]> {
+        const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+        const records = await this.list();
+        if (words.length === 0) return records;
+        return records.filter(record => {
+            const text = searchableText(record).toLowerCase();
+            return words.every(word => text.includes(word));
+        });
+    }
+
+    async delete(taskId: string): Promise<void> {
+        const debatePath = this.debatePath(taskId);
+        if (fs.existsSync(debatePath)) {
+            fs.unlinkSync(debatePath);
+        }
+    }
+}
+
+/**
+ * Checks the parts of a parsed record that listing, searching and exporting
+ * read, so a hand-edited or damaged file is skipped instead of breaking them.
+ */
+function isDebateRecord(value: unknown): value is DebateRecord {
+    if (!isObject(value) || !isObject(value.debate)) return false;
+    const { topic, startedAt, rounds } = value.debate;
+    return typeof value.taskId === 'string'
+        && typeof topic === 'string'
+        && typeof startedAt === 'number'
+        && Array.isArray(rounds)
+        && rounds.every(round => isObject(round)
+            && ['proposals', 'critiques', 'defenses', 'votes'].every(key => Array.isArray(round[key])))
+        && Array.isArray(value.participants)
+        && value.participants.every(isObject);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Everything said in a debate, for search */
+function searchableText(record: DebateRecord): string {
+    const { debate } = record;
+    const parts: Array<string | undefined> = [
+        debate.topic,
+        debate.escalationReason,
+        debate.decision?.rationale,
+        ...record.participants.map(p => p.perspective)
+    ];
+    for (const round of debate.rounds) {
+        parts.push(
+            ...round.proposals.flatMap(p => [p.solution, p.reasoning]),
+            ...round.critiques.flatMap(c => [c.criticism, c.suggestedFix]),
+            ...round.defenses.map(d => d.defense),
+            ...round.votes.map(v => v.justification)
+        );
+    }
+    return parts.filter(Boolean).join('\n');
+}
@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { WorktreeConflict } from '../git/GitWorktreeManager';
+import { RunSettings, SubagentOrchestrator } from './SubagentOrchestrator';
+
+/** A conflicted file after the resolver edited it, waiting for approval */
+export interface ConflictResolution {
+    /** Path relative to the worktree */
+    file: string;
+    /** Absolute path of the resolved file in the worktree */
+    worktreeFile: string;
+    /** The file on the branch being merged into */
+    targetContent: string;
+    resolvedContent: string;
+}
+
+/** Decides whether the resolutions may be committed to the task branch */
+export type ResolutionReviewer = (resolutions: ConflictResolution[], conflict: WorktreeConflict) => Promise<boolean>;
+
+const CONFLICT_MARKER = /^(<{7}|>{7})( |$)/m;
+
+function buildPrompt(conflict: WorktreeConflict): string {
+    return `Resolve the merge conflicts of branch ${conflict.branch} with ${conflict.targetRef}.
+
+Conflicted files:
+${conflict.files.map(file => `- ${file}`).join('\n')}`;
+}
+
+/**
+ * Resolves worktree merge conflicts with a resolver agent and asks a
+ * reviewer to approve the result before it is committed.
+ *
+ * Resolutions that still contain conflict markers are rejected without
+ * review. Pass `handle` to GitWorktreeManager.mergeBack or mergeToMain, or
+ * to SubagentOrchestrator.setConflictHandler.
+ */
+export class MergeConflictResolver {
+    constructor(
+        private orchestrator: SubagentOrchestrator,
+        private review: ResolutionReviewer
+    ) {}
+
+    readonly handle = (conflict: WorktreeConflict, settings?: RunSettings): Promise<boolean> =>
+        this.resolve(conflict, settings);
+
+    /**
+     * @param settings - permission mode and role profiles of the resolver run;
+     *                   'auto' and the orchestrator's current profiles when absent
+     */
+    async resolve(conflict: WorktreeConflict, settings: RunSettings = {}): Promise<boolean> {
+        const response = await this.orchestrator.runAgent({
+            ...settings,
+            taskId: `${conflict.sessionId}-resolve`,
+            role: 'resolver',
+            prompt: buildPrompt(conflict),
+            worktreePath: conflict.worktreePath
+        });
+        if (!response.success) {
+            console.error(`[resolver] ${conflict.sessionId}:`, response.error);
+            return false;
+        }
+
+        const resolutions: ConflictResolution[] = [];
+        for (const file of conflict.files) {
+            const worktreeFile = path.join(conflict.worktreePath, file);
+            // A file the resolver deleted resolves to nothing
+            const resolvedContent = fs.existsSync(worktreeFile) ? fs.readFileSync(worktreeFile, 'utf-8') : '';
+            if (CONFLICT_MARKER.test(resolvedContent)) {
+                console.error(`[resolver] ${conflict.sessionId}: conflict markers left in ${file}`);
+                return false;
+            }
+            resolutions.push({
+                file,
+                worktreeFile,
+                targetContent: await conflict.readTargetVersion(file),
+                resolvedContent
+            });
+        }
+
+        return this.review(resolutions, conflict);
+    }
+}
@@ -0,0 +1,216 @@
+import { AgentPlan, PlanStep } from './SubagentOrchestrator';
+import { findDependencyCycle } from './PlanScheduler';
+
+/**
+ * JSON schema of the planner's output. Given to the planner when it has to
+ * repair a rejected plan; `validatePlan` checks the same rules and, beyond
+ * the schema, that step ids are unique and dependencies form no cycle.
+ */
+export const PLAN_SCHEMA = {
+    type: 'object',
+    required: ['steps'],
+    properties: {
+        steps: {
+            type: 'array',
+            minItems: 1,
+            items: {
+                type: 'object',
+                required: ['action', 'description'],
+                properties: {
+                    id: { type: 'integer', minimum: 1, description: 'Defaults to the step\'s position, starting at 1' },
+                    action: { type: 'string', minLength: 1, examples: ['create_file', 'modify_file', 'run_tests', 'install_deps'] },
+                    description: { type: 'string', minLength: 1 },
+                    files: { type: 'array', items: { type: 'string', minLength: 1 } },
+                    role: { type: 'string', minLength: 1, description: 'Role that carries out the step; defaults to coder' },
+                    dependencies: {
+                        type: 'array',
+                        items: { type: 'integer' },
+                        description: 'Ids of other steps this step builds on'
+                    }
+                }
+            }
+        }
+    }
+} as const;
+
+export interface PlanParseResult {
+    /** The plan, when the output held a valid one */
+    plan?: AgentPlan;
+    /** Why the output was rejected; empty when it was accepted */
+    errors: string[];
+}
+
+/**
+ * JSON objects in `content`: fenced code blocks first, then every top-level
+ * `{...}` with balanced braces, so braces in surrounding prose or in strings
+ * do not cut an object short.
+ */
+export function jsonCandidates(content: string): string[] {
+    const candidates: string[] = [];
+    for (const match of content.matchAll(/```[\w-]*[^\S\n]*\n([\s\S]*?)```/g)) {
+        if (match[1].trim().startsWith('{')) candidates.push(match[1].trim());
+    }
+
+    let index = content.indexOf('{');
+    while (index !== -1) {
+        const end = balancedEnd(content, index);
+        if (end === -1) {
+            index = content.indexOf('{', index + 1);
+            continue;
+        }
+        candidates.push(content.slice(index, end + 1));
+        index = content.indexOf('{', end + 1);
+    }
+    return candidates;
+}
+
+/** Index of the brace closing the one at `start`, or -1 */
+function balancedEnd(content: string, start: number): number {
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < content.length; i++) {
+        const char = content[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{') {
+            depth++;
+        } else if (char === '}' && --depth === 0) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Checks parsed planner output against PLAN_SCHEMA and turns it into plan
+ * steps. Every problem is reported, not just the first. With `roles` given,
+ * a step's role must be one of them.
+ */
+export function validatePlan(parsed: unknown, taskId: string, roles?: string[]): PlanParseResult {
+    const errors: string[] = [];
+    const raw = parsed as { steps?: unknown };
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return { errors: ['The plan must be a JSON object'] };
+    }
+    if (!Array.isArray(raw.steps)) {
+        return { errors: ['"steps" must be an array'] };
+    }
+    if (raw.steps.length === 0) {
+        return { errors: ['"steps" must contain at least one step'] };
+    }
+
+    const steps = raw.steps.map((value: unknown, index: number): PlanStep | undefined => {
+        const at = `steps[${index}]`;
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            errors.push(`${at} must be an object`);
+            return undefined;
+        }
+        const step = value as Record<string, unknown>;
+
+        if (step.id !== undefined && !(Number.isInteger(step.id) && (step.id as number) >= 1)) {
+            errors.push(`${at}.id must be a positive integer`);
+        }
+        if (!isNonEmptyString(step.action)) {
+            errors.push(`${at}.action must be a non-empty string`);
+        }
+        if (!isNonEmptyString(step.description)) {
+            errors.push(`${at}.description must be a non-empty string`);
+        }
+        if (step.files !== undefined && !(Array.isArray(step.files) && step.files.every(isNonEmptyString))) {
+            errors.push(`${at}.files must be an array of file paths`);
+        }
+        if (step.dependencies !== undefined
+            && !(Array.isArray(step.dependencies) && step.dependencies.every(d => Number.isInteger(d)))) {
+            errors.push(`${at}.dependencies must be an array of step ids`);
+        }
+        if (step.role !== undefined && !isNonEmptyString(step.role)) {
+            errors.push(`${at}.role must be a non-empty string`);
+        } else if (step.role !== undefined && roles && !roles.includes(step.role as string)) {
+            errors.push(`${at}.role "${step.role}" is not one of: ${roles.join(', ')}`);
+        }
+
+        return {
+            id: Number.isInteger(step.id) ? step.id as number : index + 1,
+            action: step.action as string,
+            description: step.description as string,
+            status: 'pending' as const,
+            files: step.files as string[] | undefined,
+            dependencies: step.dependencies as number[] | undefined,
+            ...(step.role !== undefined && step.role !== 'coder' ? { role: step.role as string } : {})
+        };
+    }).filter((step: PlanStep | undefined): step is PlanStep => !!step);
+
+    if (errors.length) return { errors };
+
+    const ids = new Set<number>();
+    steps.forEach((step, index) => {
+        if (ids.has(step.id)) {
+            errors.push(`steps[${index}].id ${step.id} is used by more than one step`);
+        }
+        ids.add(step.id);
+    });
+    steps.forEach((step, index) => {
+        for (const dependency of step.dependencies ?? []) {
+            if (dependency === step.id) {
+                errors.push(`steps[${index}].dependencies: step ${step.id} cannot depend on itself`);
+            } else if (!steps.some(s => s.id === dependency)) {
+                errors.push(`steps[${index}].dependencies: there is no step ${dependency}`);
+            }
+        }
+    });
+    if (errors.length) return { errors };
+
+    const cycle = findDependencyCycle(new Map(steps.map(step => [step.id, new Set(step.dependencies ?? [])])));
+    if (cycle) {
+        return { errors: [`Step dependencies form a cycle: ${cycle.join(' -> ')}`] };
+    }
+
+    return { plan: { taskId, steps, createdAt: Date.now() }, errors: [] };
+}
+
+/**
+ * Reads a plan out of the planner's output, which may wrap the JSON in a
+ * fenced block or surround it with prose. The first JSON object with a
+ * `steps` field is validated; when there is none, the errors say why.
+ */
+export function parsePlan(content: string, taskId: string, roles?: string[]): PlanParseResult {
+    let syntaxError: string | undefined;
+    for (const candidate of jsonCandidates(content)) {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(candidate);
+        } catch (error) {
+            if (!syntaxError && candidate.includes('"steps"')) {
+                syntaxError = `The plan is not valid JSON: ${error instanceof Error ? error.message : error}`;
+            }
+            continue;
+        }
+        if (parsed && typeof parsed === 'object' && 'steps' in parsed) {
+            return validatePlan(parsed, taskId, roles);
+        }
+    }
+    return { errors: [syntaxError ?? 'No JSON object with a "steps" array was found in the planner output'] };
+}
+
+/**
+ * Follow-up prompt asking the planner to fix a rejected plan.
+ */
+export function buildRepairPrompt(request: string, output: string, errors: string[]): string {
+    const previous = output.length > 20000 ? `${output.slice(0, 20000)}\n[truncated]` : output;
+    return `Your plan for the request below was rejected:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Reply with ONLY the corrected plan: one JSON object matching this schema, with no other text.
+${JSON.stringify(PLAN_SCHEMA, null, 2)}
+
+Request:
+${request}
+
+Your previous output:
+${previous}`;
+}
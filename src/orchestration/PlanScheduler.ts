@@ -0,0 +1,191 @@
+import { EventEmitter } from 'events';
+import { PlanStep } from './SubagentOrchestrator';
+
+/** How a step run by the scheduler ended */
+export type StepOutcome = 'completed' | 'failed' | 'halted';
+
+function normalizeFile(file: string): string {
+    return file.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\.\//, '');
+}
+
+/**
+ * Steps each plan step has to wait for, by step id.
+ *
+ * - Explicit `dependencies` are used as given; unknown ids are dropped.
+ * - A step without a `dependencies` field waits for the step before it, so
+ *   plans that do not describe dependencies keep running in order.
+ * - A step that touches a file of an earlier step waits for that step, unless
+ *   the earlier step already depends on it.
+ */
+export function buildStepDependencies(steps: PlanStep[]): Map<number, Set<number>> {
+    const ids = new Set(steps.map(step => step.id));
+    const dependencies = new Map<number, Set<number>>();
+
+    steps.forEach((step, index) => {
+        const prerequisites = new Set<number>();
+        if (step.dependencies) {
+            for (const id of step.dependencies) {
+                if (ids.has(id) && id !== step.id) {
+                    prerequisites.add(id);
+                }
+            }
+        } else if (index > 0) {
+            prerequisites.add(steps[index - 1].id);
+        }
+        dependencies.set(step.id, prerequisites);
+    });
+
+    steps.forEach((step, index) => {
+        const files = new Set((step.files ?? []).map(normalizeFile));
+        if (files.size === 0) return;
+
+        for (const earlier of steps.slice(0, index)) {
+            const overlaps = (earlier.files ?? []).some(file => files.has(normalizeFile(file)));
+            if (overlaps && !dependencies.get(earlier.id)!.has(step.id)) {
+                dependencies.get(step.id)!.add(earlier.id);
+            }
+        }
+    });
+
+    return dependencies;
+}
+
+/**
+ * A dependency cycle as a list of step ids (first id repeated at the end), or null.
+ */
+export function findDependencyCycle(dependencies: Map<number, Set<number>>): number[] | null {
+    const state = new Map<number, 'visiting' | 'done'>();
+    const trail: number[] = [];
+
+    const visit = (id: number): number[] | null => {
+        if (state.get(id) === 'done') return null;
+        if (state.get(id) === 'visiting') {
+            return [...trail.slice(trail.indexOf(id)), id];
+        }
+        state.set(id, 'visiting');
+        trail.push(id);
+        for (const prerequisite of dependencies.get(id) ?? []) {
+            const cycle = visit(prerequisite);
+            if (cycle) return cycle;
+        }
+        trail.pop();
+        state.set(id, 'done');
+        return null;
+    };
+
+    for (const id of dependencies.keys()) {
+        const cycle = visit(id);
+        if (cycle) return cycle;
+    }
+    return null;
+}
+
+/**
+ * Runs plan steps as a DAG: a step starts once all its prerequisites have
+ * completed, with at most `maxConcurrency` steps running at a time. Ready
+ * steps start in plan order.
+ *
+ * Steps that depend on a failed or skipped step are skipped. Once a step
+ * reports 'halted', no further step starts; running steps are awaited and the
+ * remaining steps are left pending. Steps already marked completed, as in a
+ * resumed plan, count as completed without running again.
+ *
+ * @fires step_skipped - { step, reason } for each step that will not run
+ */
+export class PlanScheduler extends EventEmitter {
+    private dependencies: Map<number, Set<number>>;
+
+    /**
+     * @throws Error if the step dependencies form a cycle
+     */
+    constructor(private readonly steps: PlanStep[], private readonly maxConcurrency: number = 1) {
+        super();
+        this.dependencies = buildStepDependencies(steps);
+
+        const cycle = findDependencyCycle(this.dependencies);
+        if (cycle) {
+            throw new Error(`Plan steps depend on each other in a cycle: ${cycle.join(' -> ')}`);
+        }
+    }
+
+    /**
+     * Ids of the steps a step waits for.
+     */
+    getDependencies(stepId: number): number[] {
+        return [...(this.dependencies.get(stepId) ?? [])];
+    }
+
+    /**
+     * @param failed - ids of steps that already failed in this execution; they
+     *                 are not run again and the steps waiting for them are skipped
+     */
+    async run(executeStep: (step: PlanStep) => Promise<StepOutcome>, failed: number[] = []): Promise<void> {
+        const outcomes = new Map<number, StepOutcome | 'skipped'>();
+        const running = new Map<number, Promise<void>>();
+        let pending = this.steps.filter(step => step.status !== 'completed' && !failed.includes(step.id));
+        for (const step of this.steps) {
+            if (step.status === 'completed') {
+                outcomes.set(step.id, 'completed');
+            } else if (failed.includes(step.id)) {
+                outcomes.set(step.id, 'failed');
+            }
+        }
+        let halted = false;
+
+        while (true) {
+            if (!halted) {
+                pending = this.skipBlocked(pending, outcomes);
+
+                while (running.size < Math.max(1, this.maxConcurrency)) {
+                    const next = pending.find(step =>
+                        this.getDependencies(step.id).every(id => outcomes.get(id) === 'completed')
+                    );
+                    if (!next) break;
+
+                    pending = pending.filter(step => step !== next);
+                    running.set(next.id, executeStep(next)
+                        .catch((): StepOutcome => 'failed')
+                        .then(outcome => {
+                            outcomes.set(next.id, outcome);
+                            halted = halted || outcome === 'halted';
+                            running.delete(next.id);
+                        }));
+                }
+            }
+
+            if (running.size === 0) break;
+            await Promise.race(running.values());
+        }
+    }
+
+    /**
+     * Skips the pending steps that wait for a failed or skipped step,
+     * including steps that only become blocked through another skip.
+     */
+    private skipBlocked(pending: PlanStep[], outcomes: Map<number, StepOutcome | 'skipped'>): PlanStep[] {
+        let remaining = pending;
+        let skippedAny = true;
+
+        while (skippedAny) {
+            skippedAny = false;
+            for (const step of remaining) {
+                const blockerId = this.getDependencies(step.id).find(id =>
+                    outcomes.get(id) === 'failed' || outcomes.get(id) === 'skipped'
+                );
+                if (blockerId === undefined) continue;
+
+                const blocker = this.steps.find(s => s.id === blockerId)!;
+                const what = outcomes.get(blockerId) === 'failed' ? 'failed' : 'was skipped';
+                outcomes.set(step.id, 'skipped');
+                remaining = remaining.filter(s => s !== step);
+                skippedAny = true;
+                this.emit('step_skipped', {
+                    step,
+                    reason: `Skipped because step ${blocker.id} (${blocker.action}) ${what}`
+                });
+            }
+        }
+
+        return remaining;
+    }
+}
@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentPlan, AgentResponse } from './SubagentOrchestrator';
+import { Checkpoint } from '../git/GitCheckpointManager';
+
+/** Progress of one plan step */
+export interface StepRecord {
+    /** Responses of the step's latest run */
+    responses: AgentResponse[];
+    /** Coder/verifier rounds the latest run made, retries included */
+    attempts: number;
+    /** Error that triggered the latest retry or failed the step */
+    lastError?: string;
+    /** Worktree holding the step's changes while they are not merged back */
+    worktree?: { path: string; branch: string };
+    /** Workspace snapshot taken before the step's latest run */
+    checkpoint?: Checkpoint;
+    /** When the step last completed */
+    completedAt?: number;
+}
+
+/**
+ * awaiting_approval: planned, not started; running: executing or cut off by
+ * a reload; paused: steps are left to run after a budget stop or a rollback;
+ * finished: every step ran, completed or not.
+ */
+export type PlanRecordStatus = 'awaiting_approval' | 'running' | 'paused' | 'finished' | 'cancelled';
+
+export interface PlanRecord {
+    plan: AgentPlan;
+    status: PlanRecordStatus;
+    /** Chat the plan was created in */
+    conversationId?: string;
+    /** Progress by step id */
+    steps: Record<number, StepRecord>;
+    updatedAt: number;
+}
+
+/**
+ * Persists plans and their execution progress under `.claudeprint/plans`,
+ * one file per plan, so they survive a VS Code reload.
+ */
+export class PlanStore {
+    private plansDir: string;
+
+    constructor(workspaceRoot: string) {
+        this.plansDir = path.join(workspaceRoot, '.claudeprint', 'plans');
+    }
+
+    private planPath(taskId: string): string {
+        return path.join(this.plansDir, `${taskId.replace(/[^a-zA-Z0-9-_]/g, '-')}.json`);
+    }
+
+    async save(record: PlanRecord): Promise<void> {
+        if (!fs.existsSync(this.plansDir)) {
+            fs.mkdirSync(this.plansDir, { recursive: true });
+        }
+        record.updatedAt = Date.now();
+        fs.writeFileSync(this.planPath(record.plan.taskId), JSON.stringify(record, null, 2));
+    }
+
+    /**
+     * The saved record of a plan, or undefined when there is none or its
+     * file is not a plan record.
+     */
+    async load(taskId: string): Promise<PlanRecord | undefined> {
+        const planPath = this.planPath(taskId);
+        if (!fs.existsSync(planPath)) return undefined;
+        try {
+            const record: unknown = JSON.parse(fs.readFileSync(planPath, 'utf-8'));
+            return isPlanRecord(record) ? record : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    async list(): Promise<PlanRecord[]> {
+        if (!fs.existsSync(this.plansDir)) return [];
+
+        const records: PlanRecord[] = [];
+        for (const file of fs.readdirSync(this.plansDir)) {
+            if (!file.endsWith('.json')) continue;
+            const record = await this.load(path.basename(file, '.json'));
+            if (record) records.push(record);
+        }
+        return records.sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    /**
+     * The most recently updated plan that still has steps to run, if any.
+     *
+     * Only one window runs a workspace's plans, so a plan still marked running
+     * was cut off by a reload: it comes back paused, with its running steps
+     * pending again.
+     */
+    async findResumable(): Promise<PlanRecord | undefined> {
+        const record = (await this.list()).find(r =>
+            r.status !== 'cancelled' && r.plan.steps.some(step => step.status !== 'completed')
+        );
+        if (record?.status === 'running') {
+            record.status = 'paused';
+            for (const step of record.plan.steps) {
+                if (step.status === 'in_progress') {
+                    step.status = 'pending';
+                }
+            }
+        }
+        return record;
+    }
+
+    async delete(taskId: string): Promise<void> {
+        const planPath = this.planPath(taskId);
+        if (fs.existsSync(planPath)) {
+            fs.unlinkSync(planPath);
+        }
+    }
+}
+
+/**
+ * Checks the parts of a parsed record that restoring and resuming read, so
+ * a hand-edited or damaged file is skipped instead of breaking them.
+ */
+function isPlanRecord(value: unknown): value is PlanRecord {
+    if (!isObject(value) || !isObject(value.plan) || !isObject(value.steps)) return false;
+    const { taskId, steps } = value.plan;
+    return typeof taskId === 'string'
+        && Array.isArray(steps)
+        && steps.every(step => isObject(step) && typeof step.id === 'number' && typeof step.status === 'string')
+        && typeof value.status === 'string'
+        && typeof value.updatedAt === 'number';
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,75 @@
+import { AgentPlan, PlanStep } from './SubagentOrchestrator';
+
+export interface FailedStep {
+    step: PlanStep;
+    /** Why its last attempt failed */
+    error: string;
+}
+
+/**
+ * Revised remaining plan, proposed after steps failed every attempt.
+ */
+export interface ReplanProposal {
+    taskId: string;
+    failed: FailedStep[];
+    /** Steps left to run that the revision replaces */
+    replaced: PlanStep[];
+    /** The revised steps, numbered after every step the plan had */
+    steps: PlanStep[];
+}
+
+/**
+ * Decides whether a revised plan replaces the remaining steps.
+ */
+export type ReplanHandler = (proposal: ReplanProposal) => Promise<boolean>;
+
+const MAX_DIFF = 30000;
+
+/**
+ * Prompt asking the planner for the steps that are left to reach the plan's
+ * goal, given what completed, what failed and the workspace changes so far.
+ */
+export function buildReplanPrompt(plan: AgentPlan, failed: FailedStep[], diff: string | undefined): string {
+    const describe = (step: PlanStep) => `- Step ${step.id} (${step.action}): ${step.description}`;
+    const completed = plan.steps.filter(step => step.status === 'completed');
+    const remaining = plan.steps.filter(step =>
+        step.status !== 'completed' && !failed.some(f => f.step.id === step.id)
+    );
+    const changes = diff === undefined
+        ? 'Not available.'
+        : diff.trim()
+            ? (diff.length > MAX_DIFF ? `${diff.slice(0, MAX_DIFF)}\n[truncated]` : diff)
+            : 'None.';
+
+    return `A plan is partway through and some of its steps failed every attempt. Plan the steps that are still needed to reach the goal. Work with the changes already made, take a different approach where a step failed, and leave out anything already done.
+
+Goal:
+${plan.goal ?? 'Not recorded; infer it from the steps below.'}
+
+Completed steps:
+${completed.map(describe).join('\n') || 'None.'}
+
+Failed steps:
+${failed.map(({ step, error }) => `${describe(step)}\n  Error: ${error.replace(/\n/g, '\n  ')}`).join('\n')}
+
+Steps that have not run yet, and will be replaced by your plan:
+${remaining.map(describe).join('\n') || 'None.'}
+
+Workspace changes so far:
+${changes}
+
+Output only the remaining steps as a plan, numbered from 1. Completed steps are done and cannot be depended on.`;
+}
+
+/**
+ * Numbers steps from `firstId` on, keeping their dependencies on each other.
+ */
+export function renumberSteps(steps: PlanStep[], firstId: number): PlanStep[] {
+    const ids = new Map(steps.map((step, index) => [step.id, firstId + index]));
+    return steps.map(step => ({
+        ...step,
+        id: ids.get(step.id)!,
+        status: 'pending',
+        dependencies: step.dependencies?.map(id => ids.get(id)!)
+    }));
+}
@@ -0,0 +1,194 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BuiltInRole } from './SubagentOrchestrator';
+
+/**
+ * How the agents of one role are run.
+ */
+export interface RoleProfile {
+    model: string;
+    /** What the role is for, shown to the planner for custom roles */
+    description?: string;
+    /** Replaces the role's built-in system prompt; AGENTS.md is still prepended */
+    systemPrompt?: string;
+    ultrathink: boolean;
+    timeoutMs: number;
+    /**
+     * How often failed work of the role is tried again: a plan step for the
+     * coder and custom roles, an invalid plan for the planner, a run that
+     * errored or timed out for the verifier
+     */
+    maxRetries: number;
+    /** Tools the role's agents may use; undefined leaves every tool available */
+    allowedTools?: string[];
+}
+
+/**
+ * A profile as written in the `claudeAssistant.roles` setting. Fields left
+ * out keep their defaults.
+ */
+export interface RoleProfileSettings {
+    model?: string;
+    description?: string;
+    systemPrompt?: string;
+    ultrathink?: boolean;
+    timeoutSeconds?: number;
+    maxRetries?: number;
+    allowedTools?: string[];
+}
+
+export const DEFAULT_MODEL = 'claude-opus-4-5';
+
+/** Workspace file declaring custom roles, relative to the workspace root */
+export const ROLES_FILE = '.claudeprint/roles.json';
+
+const BASE_PROFILE: Omit<RoleProfile, 'model'> = {
+    ultrathink: false,
+    timeoutMs: 5 * 60 * 1000,
+    maxRetries: 2
+};
+
+/** Built-in differences from BASE_PROFILE */
+const ROLE_DEFAULTS: Record<BuiltInRole, Partial<RoleProfile>> = {
+    planner: { ultrathink: true },
+    coder: {},
+    verifier: { maxRetries: 0 },
+    resolver: { maxRetries: 0 },
+    debater: { maxRetries: 0, allowedTools: ['Read', 'Glob', 'Grep', 'LS'] },
+    architect: { ultrathink: true, maxRetries: 0, allowedTools: ['Read', 'Glob', 'Grep', 'LS'] }
+};
+
+const isBuiltIn = (role: string): role is BuiltInRole => Object.prototype.hasOwnProperty.call(ROLE_DEFAULTS, role);
+
+/**
+ * Reads the custom roles declared in the workspace's ROLES_FILE, an object
+ * keyed by role name with the fields of the `roles` setting. A custom role
+ * needs a `description` and a `systemPrompt`; entries for built-in roles
+ * only adjust their profile. Invalid entries are left out and reported.
+ */
+export function loadRolesFile(rootDir: string): { roles: Record<string, RoleProfileSettings>; errors: string[] } {
+    const filePath = path.join(rootDir, ROLES_FILE);
+    if (!fs.existsSync(filePath)) {
+        return { roles: {}, errors: [] };
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+        return { roles: {}, errors: [`${ROLES_FILE} is not valid JSON: ${error instanceof Error ? error.message : error}`] };
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        return { roles: {}, errors: [`${ROLES_FILE} must hold an object keyed by role name`] };
+    }
+
+    const roles: Record<string, RoleProfileSettings> = {};
+    const errors: string[] = [];
+    for (const [name, role] of Object.entries(parsed as Record<string, RoleProfileSettings>)) {
+        if (!/^[a-z][a-z0-9-]*$/.test(name)) {
+            errors.push(`Role "${name}" must be lowercase letters, digits and dashes`);
+        } else if (!role || typeof role !== 'object' || Array.isArray(role)) {
+            errors.push(`Role "${name}" must be an object`);
+        } else if (!isBuiltIn(name) && !(typeof role.systemPrompt === 'string' && role.systemPrompt.trim())) {
+            errors.push(`Role "${name}" needs a systemPrompt`);
+        } else if (!isBuiltIn(name) && !(typeof role.description === 'string' && role.description.trim())) {
+            errors.push(`Role "${name}" needs a description`);
+        } else {
+            roles[name] = role;
+        }
+    }
+    return { roles, errors };
+}
+
+/**
+ * Layers role settings field by field, later layers winning.
+ */
+export function mergeRoleSettings(...layers: Record<string, RoleProfileSettings>[]): Record<string, RoleProfileSettings> {
+    const merged: Record<string, RoleProfileSettings> = {};
+    for (const layer of layers) {
+        for (const [role, settings] of Object.entries(layer)) {
+            if (settings && typeof settings === 'object') {
+                merged[role] = { ...merged[role], ...settings };
+            }
+        }
+    }
+    return merged;
+}
+
+/**
+ * Profiles of the built-in roles and any custom role named in settings.
+ * Settings override the defaults field by field; values of the wrong type
+ * are ignored.
+ */
+export class RoleProfileRegistry {
+    private profiles = new Map<string, RoleProfile>();
+
+    constructor(
+        private defaultModel: string = DEFAULT_MODEL,
+        settings: Record<string, RoleProfileSettings> = {}
+    ) {
+        for (const role of Object.keys(ROLE_DEFAULTS)) {
+            this.profiles.set(role, this.resolve(role, {}));
+        }
+        for (const [role, overrides] of Object.entries(settings)) {
+            if (overrides && typeof overrides === 'object') {
+                this.profiles.set(role, this.resolve(role, overrides));
+            }
+        }
+    }
+
+    /**
+     * The profile of `role`; roles without one get the base profile.
+     */
+    get(role: string): RoleProfile {
+        return this.profiles.get(role) ?? this.resolve(role, {});
+    }
+
+    /** Built-in roles first, then custom roles in settings order */
+    roles(): string[] {
+        return [...this.profiles.keys()];
+    }
+
+    /**
+     * Custom roles that can run: those with a system prompt of their own.
+     */
+    customRoles(): string[] {
+        return this.roles().filter(role => !isBuiltIn(role) && this.profiles.get(role)!.systemPrompt);
+    }
+
+    /** Roles a plan step can be assigned to */
+    stepRoles(): string[] {
+        return ['coder', ...this.customRoles()];
+    }
+
+    private resolve(role: string, settings: RoleProfileSettings): RoleProfile {
+        const profile: RoleProfile = {
+            model: this.defaultModel,
+            ...BASE_PROFILE,
+            ...(isBuiltIn(role) ? ROLE_DEFAULTS[role] : {})
+        };
+
+        if (typeof settings.model === 'string' && settings.model.trim()) {
+            profile.model = settings.model.trim();
+        }
+        if (typeof settings.description === 'string' && settings.description.trim()) {
+            profile.description = settings.description.trim();
+        }
+        if (typeof settings.systemPrompt === 'string' && settings.systemPrompt.trim()) {
+            profile.systemPrompt = settings.systemPrompt;
+        }
+        if (typeof settings.ultrathink === 'boolean') {
+            profile.ultrathink = settings.ultrathink;
+        }
+        if (typeof settings.timeoutSeconds === 'number' && settings.timeoutSeconds > 0) {
+            profile.timeoutMs = settings.timeoutSeconds * 1000;
+        }
+        if (Number.isInteger(settings.maxRetries) && settings.maxRetries! >= 0) {
+            profile.maxRetries = settings.maxRetries!;
+        }
+        if (Array.isArray(settings.allowedTools) && settings.allowedTools.every(tool => typeof tool === 'string')) {
+            profile.allowedTools = settings.allowedTools;
+        }
+        return profile;
+    }
+}
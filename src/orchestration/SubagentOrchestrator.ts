@@ -1,8 +1,22 @@
-import { spawn, ChildProcess } from 'child_process';
 import { EventEmitter } from 'events';
+import * as path from 'path';
 import { RetryExecutor, createRetryPolicy } from './RetryStrategy';
-
-// Simplified session interface (no GitWorktree dependency)
+import { AgentBackend, AgentStream, ClaudeCliBackend } from '../engine/AgentBackend';
+import { StreamEvent, assistantText } from '../engine/StreamEvents';
+import { UsageScope, UsageTotals, UsageTracker, usageFromResult } from '../engine/UsageTracker';
+import { ToolEvent, ToolEventHandler, ToolStatistics } from './ToolEventHandler';
+import { PlanScheduler, StepOutcome, buildStepDependencies } from './PlanScheduler';
+import { PlanRecord, PlanStore, StepRecord } from './PlanStore';
+import { VerifierVerdict, describeVerdict, parseVerifierVerdict } from './VerifierVerdict';
+import { buildRepairPrompt, parsePlan } from './PlanParser';
+import { FailedStep, ReplanHandler, buildReplanPrompt, renumberSteps } from './Replanner';
+import { ROLES_FILE, RoleProfileRegistry } from './RoleProfiles';
+import { GateResult, VerificationGateRunner, describeGateFailures } from './VerificationGates';
+import { GitWorktreeManager, MergeBackResult, WorktreeConflict } from '../git/GitWorktreeManager';
+import { Checkpoint, GitCheckpointManager } from '../git/GitCheckpointManager';
+import { PermissionMode } from '../types/WebviewMessages';
+
+// Same shape as the GitWorktreeManager session
 export interface WorktreeSession {
     id: string;
     path: string;
@@ -11,27 +25,88 @@ export interface WorktreeSession {
     createdAt: number;
 }
 
-export type SubagentRole = 'planner' | 'coder' | 'verifier';
+/** Roles with a built-in system prompt */
+export type BuiltInRole = 'planner' | 'coder' | 'verifier' | 'resolver' | 'debater' | 'architect';
+
+/** A built-in role or a custom role declared in the workspace (see RoleProfiles) */
+export type SubagentRole = BuiltInRole | (string & {});
 
 export interface PlanStep {
     id: number;
     action: string;
     description: string;
-    status: 'pending' | 'in_progress' | 'completed' | 'failed';
+    status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'skipped';
     files?: string[];
+    /** Ids of the steps this step builds on; when absent, the step follows the one before it */
+    dependencies?: number[];
+    /** Role that carries out the step instead of the coder, such as a custom role */
+    role?: SubagentRole;
+    /** Why the step did not run, set when it is skipped */
+    skipReason?: string;
+    /** Outcome of the step's latest verification */
+    verification?: StepVerification;
+}
+
+export interface StepVerification {
+    /** Results of the project's verification commands */
+    gates: GateResult[];
+    /** The verifier's opinion; absent when a gate failed and the verifier was not asked */
+    verdict?: VerifierVerdict;
 }
 
 export interface AgentPlan {
     taskId: string;
     steps: PlanStep[];
     createdAt: number;
+    /** The request the plan was made for */
+    goal?: string;
 }
 
+/**
+ * State of one executePlan() call, shared by its concurrently running steps.
+ */
+interface PlanExecution {
+    plan: AgentPlan;
+    worktreePath: string;
+    /** Plan scope and caller scopes every run of the execution counts towards */
+    usageScopes: UsageScope[];
+    /** Responses of each finished or skipped step */
+    results: Map<number, AgentResponse[]>;
+    costBefore: number;
+    limitUsd?: number;
+    budgetExceeded: boolean;
+    /** Worktree and merge operations on the main repository, run one at a time */
+    gitQueue: Promise<unknown>;
+    /** Persisted progress, when a plan store is set */
+    record?: PlanRecord;
+    /** Whether steps that fail every attempt halt the plan for replanning */
+    replanning: boolean;
+    /** Steps that failed every attempt since the last replan */
+    exhausted: FailedStep[];
+    /** How tool calls of the execution's runs are approved, fixed when it starts */
+    permissionMode: PermissionMode;
+    /** Role profiles when the execution started; later setRoleProfiles calls don't reach it */
+    roleProfiles: RoleProfileRegistry;
+    /** Set by cancelPlan; no further step or attempt starts */
+    cancelled: boolean;
+}
+
+/** Permission mode and role profiles of a run, as fixed by the plan or debate it belongs to */
+export type RunSettings = Pick<AgentRequest, 'permissionMode' | 'roleProfiles'>;
+
+/**
+ * Resolves the merge conflict of a plan step; agents it runs should use the
+ * plan's settings.
+ */
+export type StepConflictHandler = (conflict: WorktreeConflict, settings: RunSettings) => Promise<boolean>;
+
 export interface SubagentConfig {
     role: SubagentRole;
     model: string;
     systemPrompt: string;
     ultrathink: boolean;
+    timeoutMs: number;
+    allowedTools?: string[];
 }
 
 export interface AgentRequest {
@@ -40,6 +115,12 @@ export interface AgentRequest {
     prompt: string;
     context?: string;
     worktreePath?: string;
+    /** Scopes besides `task:<taskId>` the run's usage counts towards */
+    usageScopes?: UsageScope[];
+    /** How the run's tool calls are approved; 'auto' when absent */
+    permissionMode?: PermissionMode;
+    /** Profiles to run the role with; the orchestrator's current ones when absent */
+    roleProfiles?: RoleProfileRegistry;
 }
 
 export interface AgentResponse {
@@ -47,11 +128,17 @@ export interface AgentResponse {
     role: SubagentRole;
     content: string;
     plan?: AgentPlan;
+    /** Why a planner's output was not accepted as a plan */
+    planErrors?: string[];
     success: boolean;
     error?: string;
+    /** Tokens and cost of the run, when the CLI reported them */
+    usage?: UsageTotals;
+    /** Verdict read from a verifier's response */
+    verdict?: VerifierVerdict;
 }
 
-const ROLE_PROMPTS: Record<SubagentRole, string> = {
+const ROLE_PROMPTS: Record<BuiltInRole, string> = {
     planner: `You are The Planner, a senior software architect with TOOL-FIRST methodology.
 
 CRITICAL RULES - MUST FOLLOW:
@@ -78,6 +165,8 @@ Step 3: CREATE the plan
   - Include VERIFIED absolute file paths
   - Specify exact actions (create, modify, test)
   - Order steps by dependency chain
+  - List in "dependencies" the ids of the steps each step builds on ([] if none),
+    so independent steps can run in parallel
 
 OUTPUT FORMAT (JSON ONLY, no markdown):
 {
@@ -86,7 +175,8 @@ OUTPUT FORMAT (JSON ONLY, no markdown):
       "id": 1,
       "action": "create_file|modify_file|run_tests|install_deps",
       "description": "Detailed description with context from codebase exploration",
-      "files": ["C:\\absolute\\verified\\path\\to\\file.ts"]
+      "files": ["C:\\absolute\\verified\\path\\to\\file.ts"],
+      "dependencies": []
     }
   ]
 }
@@ -175,33 +265,21 @@ Step 3: ANALYZE results
 Step 4: PROVIDE structured feedback
 
 OUTPUT FORMAT:
+End your response with this JSON object, in a \`\`\`json block:
 {
   "verdict": "PASS" | "FAIL",
-  "testsRun": true/false,
-  "testCommand": "npm test",
-  "testResults": {
-    "total": 10,
-    "passed": 8,
-    "failed": 2
-  },
-  "errors": [
+  "findings": [
     {
-      "file": "C:\\path\\to\\file.ts",
-      "line": 42,
-      "error": "TypeError: Cannot read property 'x' of undefined",
-      "stackTrace": "full stack trace",
-      "fix": "Specific instruction for retry"
+      "category": "correctness" | "security" | "performance" | "style",
+      "severity": "critical" | "major" | "minor",
+      "message": "TypeError: Cannot read property 'x' of undefined - specific instruction for the retry",
+      "file": "src/path/to/file.ts",
+      "line": 42
     }
   ],
-  "checks": {
-    "correctness": "PASS/FAIL - explanation",
-    "edgeCases": "PASS/FAIL - what cases were tested",
-    "security": "PASS/FAIL - vulnerabilities found",
-    "performance": "PASS/FAIL - performance issues",
-    "style": "PASS/FAIL - linting results"
-  },
-  "recommendation": "APPROVE | REJECT | RETRY with specific fix"
+  "reviewerNotes": "Ran npm test: 8 of 10 passed. Summary of what was checked and why the verdict"
 }
+A FAIL must list the findings the Coder has to fix. Findings on a PASS are advisory.
 
 TOOL USAGE EXAMPLES:
 ✅ REQUIRED:
@@ -217,7 +295,63 @@ TOOL USAGE EXAMPLES:
 
 If tests fail, provide EXACT error messages and line numbers for the Coder to retry.
 If no tests exist, create and run basic validation tests.
-Always execute, never assume.`
+Always execute, never assume.`,
+
+    resolver: `You are The Resolver, an expert at resolving git merge conflicts.
+
+The working directory is a git worktree in the middle of a merge. The task branch ("ours")
+is being brought up to date with the branch it will be merged into ("theirs"), and the
+conflicted files contain conflict markers (<<<<<<<, =======, >>>>>>>).
+
+RESOLUTION WORKFLOW:
+Step 1: UNDERSTAND both sides
+  - Use Read tool on every conflicted file
+  - Use Bash: "git log --oneline -5 MERGE_HEAD" and "git diff" to see what each side changed
+
+Step 2: RESOLVE each file
+  - Use Edit tool to replace every conflict region with code that keeps the intent of BOTH sides
+  - Remove all conflict markers
+  - Keep unrelated code exactly as it is
+
+Step 3: VERIFY
+  - Use Grep tool to confirm no conflict markers remain
+  - Use Bash to build or run the tests touching the files when the project has them
+
+❌ FORBIDDEN:
+  - Running git add, git commit, git merge --abort or git checkout (the merge is finished for you after review)
+  - Picking one side wholesale when the other side made a meaningful change
+  - Editing files that are not conflicted unless the resolution requires it
+
+RESPONSE FORMAT:
+For each file, one line saying how the conflict was resolved.`,
+
+    debater: `You are The Debater, a panelist in a structured design debate.
+
+Each panelist argues from an assigned perspective. Together the panel proposes solutions
+to one problem, critiques each other's proposals, defends its own and votes for the best.
+
+RULES:
+1. Explore the codebase with Read, Glob and Grep when the problem concerns it
+2. NEVER modify files - the debate decides, it does not implement
+3. Argue from your perspective, but judge other proposals on their merits
+4. Be concrete: name files, APIs, trade-offs and risks
+
+RESPONSE FORMAT:
+End your response with exactly the JSON object the task asks for, in a \`\`\`json block.`,
+
+    architect: `You are The Architect, who settles design debates the panel could not settle itself.
+
+You get the transcript of a deadlocked debate: every proposal, the blocking critiques
+nobody answered and how the votes fell. Your decision is binding.
+
+RULES:
+1. Explore the codebase with Read, Glob and Grep to check the proposals' claims
+2. NEVER modify files - you decide, you do not implement
+3. Choose a proposal only if you can defend it against its unresolved blocking critiques
+4. If the choice turns on priorities only the user can set, leave it to the user
+
+RESPONSE FORMAT:
+End your response with exactly the JSON object the task asks for, in a \`\`\`json block.`
 };
 
 /**
@@ -228,6 +362,10 @@ Always execute, never assume.`
  *                Note: content is human-readable text, NOT raw JSON.
  * @fires step - Emits step status updates during plan execution.
  *               Event payload: { taskId: string, step: PlanStep }
+ * @fires tool_invoked / tool_completed / tool_error - Tool activity of each agent run,
+ *               forwarded from its ToolEventHandler and tagged with { taskId, role }
+ * @fires tool_statistics - Updated statistics for a task.
+ *               Event payload: { taskId: string, role: SubagentRole, statistics: ToolStatistics }
  *
  * @example
  * orchestrator.on('chunk', ({ taskId, role, content }) => {
@@ -240,16 +378,39 @@ Always execute, never assume.`
  * });
  */
 export class SubagentOrchestrator extends EventEmitter {
-    private static readonly MAX_RETRIES = 3;
-    private activeProcesses: Map<string, ChildProcess> = new Map();
+    private static readonly MAX_REPLANS = 2;
+    /** Tasks whose tool history is kept; older ones are dropped first */
+    private static readonly MAX_TOOL_HISTORIES = 100;
+    private activeProcesses: Map<string, AgentStream> = new Map();
+    /** Running executions by plan taskId */
+    private executions: Map<string, PlanExecution> = new Map();
+    private toolHandlers: Map<string, ToolEventHandler> = new Map();
     private cwd: string;
+    private backend: AgentBackend;
     private agentsConfig: string = '';
-    private timeoutDuration: number = 300000; // 5 minutes default timeout
+    private roleProfiles: RoleProfileRegistry = new RoleProfileRegistry();
     private retryExecutor: RetryExecutor = new RetryExecutor();
-
-    constructor(workspaceFolder: string) {
+    private retryBaseDelayMs: number = 1000;
+    private retryMaxDelayMs: number = 30000;
+    private planBudgetUsd: number | undefined;
+    private maxParallelSteps: number = 3;
+    private worktrees: GitWorktreeManager | undefined;
+    private conflictHandler: StepConflictHandler | undefined;
+    private planStore: PlanStore | undefined;
+    private checkpoints: GitCheckpointManager | undefined;
+    private verificationGates: VerificationGateRunner | undefined;
+    private replanHandler: ReplanHandler | undefined;
+    readonly usage: UsageTracker;
+
+    constructor(
+        workspaceFolder: string,
+        backend: AgentBackend = new ClaudeCliBackend(),
+        usage: UsageTracker = new UsageTracker()
+    ) {
         super();
         this.cwd = workspaceFolder;
+        this.backend = backend;
+        this.usage = usage;
 
         // Forward retry events from RetryExecutor
         this.retryExecutor.on('retry_attempt', (data) => this.emit('retry_attempt', data));
@@ -260,22 +421,126 @@ export class SubagentOrchestrator extends EventEmitter {
         this.agentsConfig = config;
     }
 
-    private getConfig(role: SubagentRole, ultrathink: boolean = false): SubagentConfig {
-        let systemPrompt = ROLE_PROMPTS[role];
+    /**
+     * Sets the model, prompt, timeout, retries and tools of each role for
+     * subsequently started agents.
+     */
+    setRoleProfiles(profiles: RoleProfileRegistry): void {
+        this.roleProfiles = profiles;
+    }
+
+    /** The current role profiles, for callers that run several agents with the same ones */
+    getRoleProfiles(): RoleProfileRegistry {
+        return this.roleProfiles;
+    }
+
+    /**
+     * Runs tasks and plan steps in their own git worktrees when a manager is
+     * set; without one they run in the workspace itself.
+     */
+    setWorktreeManager(manager: GitWorktreeManager | undefined): void {
+        this.worktrees = manager;
+    }
+
+    /**
+     * Sets who resolves conflicts when a plan step is merged back; without a
+     * handler conflicting steps fail and keep their branch.
+     */
+    setConflictHandler(handler: StepConflictHandler | undefined): void {
+        this.conflictHandler = handler;
+    }
+
+    /**
+     * Persists plan executions, step by step, to the given store.
+     */
+    setPlanStore(store: PlanStore | undefined): void {
+        this.planStore = store;
+    }
+
+    /**
+     * Snapshots the workspace before each plan step runs, so rollbackToStep
+     * can return to it. Checkpoints are saved through the plan store.
+     */
+    setCheckpointManager(manager: GitCheckpointManager | undefined): void {
+        this.checkpoints = manager;
+    }
+
+    /**
+     * Runs the project's verification commands on each step's changes before
+     * the verifier sees them. A step passes only when every command exits 0.
+     */
+    setVerificationGates(runner: VerificationGateRunner | undefined): void {
+        this.verificationGates = runner;
+    }
+
+    /**
+     * Enables adaptive replanning: when steps fail every attempt, executePlan
+     * stops starting steps, asks the planner for a revised remaining plan and
+     * continues with it if the handler approves. Without a handler, or when a
+     * revision is declined, the remaining steps run as planned.
+     */
+    setReplanHandler(handler: ReplanHandler | undefined): void {
+        this.replanHandler = handler;
+    }
+
+    /**
+     * Sets how many independent plan steps may run at the same time.
+     */
+    setMaxParallelSteps(count: number): void {
+        this.maxParallelSteps = Math.max(1, Math.floor(count));
+    }
+
+    /**
+     * Sets the exponential backoff before a failed step is retried, which
+     * grows from `baseDelayMs` to at most `maxDelayMs`; 0 retries at once.
+     */
+    setRetryDelay(baseDelayMs: number, maxDelayMs: number = 30000): void {
+        this.retryBaseDelayMs = Math.max(0, baseDelayMs);
+        this.retryMaxDelayMs = Math.max(this.retryBaseDelayMs, maxDelayMs);
+    }
+
+    /**
+     * Sets the spend limit of each plan execution in USD; undefined or 0 removes it.
+     */
+    setPlanBudget(limitUsd: number | undefined): void {
+        this.planBudgetUsd = limitUsd && limitUsd > 0 ? limitUsd : undefined;
+    }
+
+    /**
+     * Config of a run of `role`, or undefined for a custom role that was
+     * never declared.
+     */
+    private getConfig(role: SubagentRole, profiles: RoleProfileRegistry): SubagentConfig | undefined {
+        const profile = profiles.get(role);
+        let systemPrompt = profile.systemPrompt ?? ROLE_PROMPTS[role as BuiltInRole];
+        if (!systemPrompt) {
+            return undefined;
+        }
+        const customRoles = profiles.customRoles();
+        if (role === 'planner' && customRoles.length) {
+            const list = customRoles.map(name => `- ${name}: ${profiles.get(name).description ?? ''}`.trimEnd());
+            systemPrompt += `\n\nSTEP ROLES:\nSteps go to the coder unless you set "role" on them. Hand a step to one of these specialists when it fits their work better:\n${list.join('\n')}`;
+        }
         if (this.agentsConfig) {
             systemPrompt = `${this.agentsConfig}\n\n${systemPrompt}`;
         }
 
         return {
             role,
-            model: 'claude-opus-4-5',
+            model: profile.model,
             systemPrompt,
-            ultrathink
+            ultrathink: profile.ultrathink,
+            timeoutMs: profile.timeoutMs,
+            allowedTools: profile.allowedTools
         };
     }
 
     async createTask(taskId: string): Promise<WorktreeSession> {
-        // Create a simple session using the main workspace (no git worktree)
+        if (this.worktrees) {
+            return this.worktrees.create(taskId);
+        }
+
+        // Without a worktree manager tasks share the main workspace
         return {
             id: taskId,
             path: this.cwd,
@@ -285,6 +550,34 @@ export class SubagentOrchestrator extends EventEmitter {
         };
     }
 
+    /**
+     * Runs the planner for `request` and, while its output is not a valid
+     * plan, asks it to repair it as often as the planner's maxRetries allows.
+     *
+     * @returns the last planner response; `planErrors` is set when it still
+     *          holds no valid plan
+     */
+    async createPlan(request: Omit<AgentRequest, 'role'>): Promise<AgentResponse> {
+        // Repairs run with the same profiles as the first attempt
+        request = { ...request, roleProfiles: request.roleProfiles ?? this.roleProfiles };
+        let response = await this.runAgent({ ...request, role: 'planner' });
+
+        const maxRepairs = request.roleProfiles!.get('planner').maxRetries;
+        for (let repair = 0; repair < maxRepairs; repair++) {
+            if (!response.success || !response.planErrors) break;
+            this.emit('plan_repair', { taskId: request.taskId, attempt: repair + 1, errors: response.planErrors });
+            response = await this.runAgent({
+                ...request,
+                role: 'planner',
+                prompt: buildRepairPrompt(request.prompt, response.content, response.planErrors)
+            });
+        }
+        if (response.plan) {
+            response.plan.goal = request.prompt;
+        }
+        return response;
+    }
+
     /**
      * Runs a Claude CLI subagent for the specified role and task.
      *
@@ -299,17 +592,30 @@ export class SubagentOrchestrator extends EventEmitter {
      * @fires chunk - Emits each chunk of text content as it's streamed from Claude CLI
      */
     async runAgent(request: AgentRequest): Promise<AgentResponse> {
-        const config = this.getConfig(request.role, request.role === 'planner');
+        const roleProfiles = request.roleProfiles ?? this.roleProfiles;
+        const config = this.getConfig(request.role, roleProfiles);
         // Use provided path or default to main workspace
         const workingPath = request.worktreePath || this.cwd;
+        if (!config) {
+            return {
+                taskId: request.taskId,
+                role: request.role,
+                content: '',
+                success: false,
+                error: `Unknown role "${request.role}"; declare it in ${ROLES_FILE}`
+            };
+        }
 
         return new Promise((resolve) => {
             let timeoutId: NodeJS.Timeout | undefined;
             let resolved = false;
+            const toolHandler = this.getToolHandler(request.taskId);
+            const stopForwardingTools = this.forwardToolEvents(toolHandler, request.taskId, request.role);
 
             const safeResolve = (response: AgentResponse) => {
                 if (resolved) return;
                 resolved = true;
+                stopForwardingTools();
                 if (timeoutId) {
                     clearTimeout(timeoutId);
                 }
@@ -327,19 +633,13 @@ export class SubagentOrchestrator extends EventEmitter {
             // Combine system prompt with user prompt
             const fullPrompt = config.systemPrompt + '\n\n' + finalPrompt;
 
-            // Pass prompt via stdin (more reliable for large payloads)
-            const args = [
-                '--print',
-                '--output-format', 'stream-json',
-                '--model', config.model,
-                '--dangerously-skip-permissions',
-                '--verbose'
-            ];
-
-            const proc = spawn('claude', args, {
+            const proc = this.backend.start({
+                prompt: fullPrompt,
                 cwd: workingPath,
-                shell: process.platform === 'win32',
-                env: { ...process.env, NO_COLOR: '1' }
+                model: config.model,
+                permissionMode: request.permissionMode ?? 'auto',
+                label: `${request.role} (${request.taskId})`,
+                tools: config.allowedTools
             });
 
             this.activeProcesses.set(request.taskId, proc);
@@ -354,57 +654,42 @@ export class SubagentOrchestrator extends EventEmitter {
                         role: request.role,
                         content: '',
                         success: false,
-                        error: `Process timed out after ${this.timeoutDuration / 1000} seconds`
+                        error: `Process timed out after ${config.timeoutMs / 1000} seconds`
                     });
                 }
-            }, this.timeoutDuration);
+            }, config.timeoutMs);
 
             let buffer = '';
-            let lineBuffer = '';
             let stderrBuffer = '';
+            let usage: UsageTotals | undefined;
+
+            proc.on('event', (event: StreamEvent) => {
+                toolHandler.handleStreamEvent(event);
 
-            proc.stdout?.on('data', (chunk: Buffer) => {
-                lineBuffer += chunk.toString();
-                let newlineIndex: number;
-                while ((newlineIndex = lineBuffer.indexOf('\n')) !== -1) {
-                    const line = lineBuffer.substring(0, newlineIndex).trim();
-                    lineBuffer = lineBuffer.substring(newlineIndex + 1);
-                    if (line.startsWith('{')) {
-                        try {
-                            const event = JSON.parse(line);
-                            if (event.type === 'assistant' && event.message?.content) {
-                                const content = event.message.content;
-                                let textDelta = '';
-                                if (typeof content === 'string') {
-                                    textDelta = content;
-                                    buffer += content;
-                                } else if (Array.isArray(content)) {
-                                    for (const block of content) {
-                                        if (block.type === 'text' && block.text) {
-                                            textDelta += block.text;
-                                            buffer += block.text;
-                                        }
-                                    }
-                                }
-                                // Emit parsed text, not raw JSON
-                                if (textDelta) {
-                                    this.emit('chunk', { taskId: request.taskId, role: request.role, content: textDelta });
-                                }
-                            }
-                        } catch {}
+                if (event.type === 'assistant') {
+                    // Emit parsed text, not raw JSON
+                    const textDelta = assistantText(event);
+                    if (textDelta) {
+                        buffer += textDelta;
+                        this.emit('chunk', { taskId: request.taskId, role: request.role, content: textDelta });
                     }
+                } else if (event.type === 'result') {
+                    usage = usageFromResult(event);
+                    this.usage.record(usage, [`task:${request.taskId}`, ...(request.usageScopes ?? [])]);
+                } else if (event.type === 'unknown') {
+                    this.emit('unknown_event', { taskId: request.taskId, role: request.role, event: event.raw });
                 }
             });
 
-            proc.stderr?.on('data', (chunk: Buffer) => {
-                const text = chunk.toString().trim();
+            proc.on('stderr', (chunk: string) => {
+                const text = chunk.trim();
                 if (text && !text.includes('Streaming')) {
                     stderrBuffer += text + '\n';
                     console.error(`[${request.role}]`, text);
                 }
             });
 
-            proc.on('close', (code) => {
+            proc.on('close', (code: number | null) => {
                 this.activeProcesses.delete(request.taskId);
 
                 // Check for non-zero exit code - include stderr in error
@@ -415,43 +700,29 @@ export class SubagentOrchestrator extends EventEmitter {
                         role: request.role,
                         content: '',
                         success: false,
-                        error: errorDetail
+                        error: errorDetail,
+                        usage
                     });
                     return;
                 }
 
-                let plan: AgentPlan | undefined;
-
-                if (request.role === 'planner') {
-                    try {
-                        const jsonMatch = buffer.match(/\{[\s\S]*\}/);
-                        if (jsonMatch) {
-                            const parsed = JSON.parse(jsonMatch[0]);
-                            plan = {
-                                taskId: request.taskId,
-                                steps: parsed.steps.map((s: any, i: number) => ({
-                                    id: s.id || i + 1,
-                                    action: s.action,
-                                    description: s.description,
-                                    status: 'pending' as const,
-                                    files: s.files
-                                })),
-                                createdAt: Date.now()
-                            };
-                        }
-                    } catch {}
-                }
+                const parsedPlan = request.role === 'planner'
+                    ? parsePlan(buffer, request.taskId, roleProfiles.stepRoles())
+                    : undefined;
 
                 safeResolve({
                     taskId: request.taskId,
                     role: request.role,
                     content: buffer,
-                    plan,
-                    success: true
+                    plan: parsedPlan?.plan,
+                    planErrors: parsedPlan?.errors.length ? parsedPlan.errors : undefined,
+                    verdict: request.role === 'verifier' ? parseVerifierVerdict(buffer) : undefined,
+                    success: true,
+                    usage
                 });
             });
 
-            proc.on('error', (err) => {
+            proc.on('error', (err: Error) => {
                 this.activeProcesses.delete(request.taskId);
                 safeResolve({
                     taskId: request.taskId,
@@ -461,112 +732,737 @@ export class SubagentOrchestrator extends EventEmitter {
                     error: err.message
                 });
             });
+        });
+    }
 
-            // Write to stdin AFTER all event listeners are attached to avoid race conditions
-            if (proc.stdin) {
-                proc.stdin.on('error', (err) => {
-                    console.error(`[${request.role}] Stdin error:`, err.message);
-                });
-                proc.stdin.write(fullPrompt);
-                proc.stdin.end();
+    /**
+     * Runs the steps of a plan through a coder and a verifier, retrying failed steps.
+     * A step with a `role` is carried out by that role instead of the coder.
+     *
+     * Steps are scheduled by PlanScheduler: steps that do not depend on each
+     * other run side by side, up to the parallel step limit, and steps that
+     * depend on a failed step are skipped with the reason in `skipReason`.
+     * Responses are returned in plan order.
+     *
+     * With a worktree manager, each step runs in its own worktree branched
+     * from the workspace HEAD. A completed step is committed there and merged
+     * back into the workspace, one step at a time, before its dependents
+     * start. A step whose merge conflicts, or that finds the workspace with
+     * uncommitted changes, fails and keeps its worktree; 'merge_conflict'
+     * reports the files.
+     *
+     * Steps already completed are not run again, so calling this with a
+     * reloaded plan resumes it. With a plan store, the plan, each step's
+     * responses, attempts and kept worktree are saved as execution goes, and
+     * with a checkpoint manager also a snapshot of the workspace from before
+     * each step (see rollbackToStep).
+     *
+     * Usage of every run is rolled up under `step:<taskId>-step-<id>`,
+     * `plan:<taskId>` and the given `usageScopes`. With a plan budget set, no
+     * further run starts once the execution has spent it: running steps fail,
+     * steps not yet started stay pending and 'budget_exceeded' is emitted.
+     *
+     * With a replan handler set, a step failing every attempt stops further
+     * steps from starting until the planner has proposed a revised remaining
+     * plan and the handler has decided on it (see setReplanHandler).
+     *
+     * Every run of the execution, conflict resolution and replanning included,
+     * approves tool calls by `permissionMode`. cancelPlan stops the execution.
+     *
+     * @fires step - { taskId, step } when a step starts, ends or is skipped
+     * @fires plan_revised - { taskId, plan } when an approved revision replaced the remaining steps
+     * @fires budget_exceeded - { taskId, stepId, limitUsd, spentUsd }
+     * @fires step_merged - { taskId, stepId, committed } when a step's worktree was merged back
+     * @fires merge_conflict - { taskId, stepId, branch, worktreePath, reason, conflicts, message }
+     * @throws Error if the step dependencies form a cycle, or steps run in
+     *         worktrees and the workspace they merge into has uncommitted changes
+     */
+    async executePlan(
+        plan: AgentPlan,
+        worktreePath: string,
+        usageScopes: UsageScope[] = [],
+        permissionMode: PermissionMode = 'auto'
+    ): Promise<AgentResponse[]> {
+        // Validates the dependencies before anything runs
+        let scheduler = new PlanScheduler(plan.steps, this.maxParallelSteps);
+        const roleProfiles = this.roleProfiles;
+        await this.assertCleanWorkspace();
+        const execution = await this.startExecution(plan, worktreePath, usageScopes, permissionMode, roleProfiles);
+        execution.replanning = !!this.replanHandler;
+        const failed: number[] = [];
+        let replans = 0;
+
+        while (true) {
+            scheduler.on('step_skipped', ({ step, reason }: { step: PlanStep; reason: string }) => {
+                step.status = 'skipped';
+                step.skipReason = reason;
+                execution.results.set(step.id, [{
+                    taskId: `${plan.taskId}-step-${step.id}`,
+                    role: step.role ?? 'coder',
+                    content: '',
+                    success: false,
+                    error: reason
+                }]);
+                this.recordStep(execution, step, { responses: execution.results.get(step.id)! });
+                this.emit('step', { taskId: plan.taskId, step });
+            });
+            await scheduler.run(step => this.executeStep(execution, step), failed);
+
+            const exhausted = execution.exhausted.splice(0);
+            if (exhausted.length === 0 || execution.budgetExceeded || execution.cancelled) break;
+
+            // Without an approved revision, carry on as planned: the failed steps block their dependents
+            failed.push(...exhausted.map(({ step }) => step.id));
+            const revised = replans++ < SubagentOrchestrator.MAX_REPLANS && await this.replan(execution, exhausted);
+            if (!revised) {
+                execution.replanning = false;
             }
+            scheduler = new PlanScheduler(plan.steps, this.maxParallelSteps);
+        }
+        this.finishExecution(execution);
+
+        return plan.steps.flatMap(step => execution.results.get(step.id) ?? []);
+    }
+
+    /**
+     * Runs a single step of a plan again, such as a failed step of a plan
+     * reloaded from the store. Steps skipped because of it stay skipped; run
+     * executePlan to carry on with them.
+     *
+     * @throws Error if the plan has no such step, one of its prerequisites has
+     *         not completed, or the step would not merge back (see executePlan)
+     */
+    async retryStep(
+        plan: AgentPlan,
+        stepId: number,
+        worktreePath: string,
+        usageScopes: UsageScope[] = [],
+        permissionMode: PermissionMode = 'auto'
+    ): Promise<AgentResponse[]> {
+        const step = plan.steps.find(s => s.id === stepId);
+        if (!step) {
+            throw new Error(`Plan ${plan.taskId} has no step ${stepId}`);
+        }
+        const waitingFor = [...buildStepDependencies(plan.steps).get(stepId)!]
+            .filter(id => plan.steps.find(s => s.id === id)?.status !== 'completed');
+        if (waitingFor.length > 0) {
+            throw new Error(`Step ${stepId} cannot run before step ${waitingFor.join(', ')} has completed`);
+        }
+
+        const roleProfiles = this.roleProfiles;
+        await this.assertCleanWorkspace();
+        const execution = await this.startExecution(plan, worktreePath, usageScopes, permissionMode, roleProfiles);
+        await this.executeStep(execution, step);
+        this.finishExecution(execution);
+
+        return execution.results.get(stepId) ?? [];
+    }
+
+    /**
+     * Restores the workspace to the checkpoint taken before a step last ran
+     * and marks that step, and every step completed since, as pending again;
+     * executePlan then replays them. Worktrees kept by steps that will run
+     * again are removed, since they branch from the discarded state.
+     *
+     * @returns the steps marked pending and the checkpoint of the replaced workspace state
+     * @throws Error if no checkpoint was saved for the step
+     */
+    async rollbackToStep(plan: AgentPlan, stepId: number): Promise<{ reset: PlanStep[]; replaced: Checkpoint }> {
+        const step = plan.steps.find(s => s.id === stepId);
+        if (!step) {
+            throw new Error(`Plan ${plan.taskId} has no step ${stepId}`);
+        }
+        const record = await this.planStore?.load(plan.taskId);
+        const checkpoint = record?.steps[stepId]?.checkpoint;
+        if (!this.checkpoints || !record || !checkpoint) {
+            throw new Error(`No checkpoint was saved before step ${stepId}`);
+        }
+
+        const replaced = await this.checkpoints.restore(checkpoint);
+
+        const reset = plan.steps.filter(s =>
+            s === step || (s.status === 'completed' && (record.steps[s.id]?.completedAt ?? 0) > checkpoint.createdAt)
+        );
+        for (const s of reset) {
+            s.status = 'pending';
+            s.skipReason = undefined;
+            s.verification = undefined;
+        }
+        for (const s of plan.steps) {
+            const kept = record.steps[s.id]?.worktree;
+            if (s.status === 'completed' || !kept) continue;
+            await this.worktrees?.cleanup(path.basename(kept.path)).catch(() => undefined);
+            record.steps[s.id] = { ...record.steps[s.id], worktree: undefined };
+        }
+        for (const s of reset) {
+            record.steps[s.id] = { ...(record.steps[s.id] ?? { responses: [], attempts: 0 }), completedAt: undefined };
+            this.emit('step', { taskId: plan.taskId, step: s });
+        }
+
+        record.plan = plan;
+        record.status = 'paused';
+        await this.planStore!.save(record);
+        return { reset, replaced };
+    }
+
+    /**
+     * Refuses to run steps whose worktrees could not be merged back, rather
+     * than finding out once their work is done.
+     */
+    private async assertCleanWorkspace(): Promise<void> {
+        // Without git the manager runs steps in the workspace and has nothing to merge
+        const dirty = await this.worktrees?.hasLocalChanges().catch(() => false);
+        if (dirty) {
+            throw new Error('The workspace has uncommitted changes; commit or stash them first, since plan steps are merged into it');
+        }
+    }
+
+    private async startExecution(
+        plan: AgentPlan,
+        worktreePath: string,
+        usageScopes: UsageScope[],
+        permissionMode: PermissionMode,
+        roleProfiles: RoleProfileRegistry
+    ): Promise<PlanExecution> {
+        const planScope: UsageScope = `plan:${plan.taskId}`;
+        const execution: PlanExecution = {
+            plan,
+            worktreePath,
+            usageScopes: [planScope, ...usageScopes],
+            results: new Map(),
+            // The plan scope also holds the planner run and earlier executions
+            costBefore: this.usage.getTotals(planScope).costUsd,
+            limitUsd: this.planBudgetUsd,
+            budgetExceeded: false,
+            gitQueue: Promise.resolve(),
+            replanning: false,
+            exhausted: [],
+            permissionMode,
+            roleProfiles,
+            cancelled: false
+        };
+        this.executions.set(plan.taskId, execution);
+
+        if (this.planStore) {
+            const stored = await this.planStore.load(plan.taskId);
+            execution.record = {
+                conversationId: stored?.conversationId,
+                steps: stored?.steps ?? {},
+                updatedAt: Date.now(),
+                plan,
+                status: 'running'
+            };
+            this.persist(execution);
+        }
+        return execution;
+    }
+
+    private finishExecution(execution: PlanExecution): void {
+        if (this.executions.get(execution.plan.taskId) === execution) {
+            this.executions.delete(execution.plan.taskId);
+        }
+        if (!execution.record) return;
+        const unfinished = execution.plan.steps.some(step => step.status === 'pending');
+        execution.record.status = execution.cancelled ? 'cancelled' : unfinished ? 'paused' : 'finished';
+        this.persist(execution);
+    }
+
+    /**
+     * Updates the saved progress of a step; a no-op without a plan store.
+     */
+    private recordStep(execution: PlanExecution, step: PlanStep, update: Partial<StepRecord>): void {
+        if (!execution.record) return;
+        const current = execution.record.steps[step.id] ?? { responses: [], attempts: 0 };
+        execution.record.steps[step.id] = { ...current, ...update };
+        this.persist(execution);
+    }
+
+    private persist(execution: PlanExecution): void {
+        if (!this.planStore || !execution.record) return;
+        this.planStore.save(execution.record).catch(error => {
+            console.error(`[Orchestrator] Could not save plan ${execution.plan.taskId}:`, error);
         });
     }
 
-    async executePlan(plan: AgentPlan, worktreePath: string): Promise<AgentResponse[]> {
-        const results: AgentResponse[] = [];
+    private async executeStep(execution: PlanExecution, step: PlanStep): Promise<StepOutcome> {
+        const { plan, worktreePath } = execution;
+        const stepTaskId = `${plan.taskId}-step-${step.id}`;
+        const role = step.role ?? 'coder';
 
-        for (const step of plan.steps) {
-            step.status = 'in_progress';
-            this.emit('step', { taskId: plan.taskId, step });
+        if (execution.cancelled) {
+            return 'halted';
+        }
+        if (this.isOverBudget(execution)) {
+            this.haltForBudget(execution, step);
+            return 'halted';
+        }
 
-            let lastError: string | undefined;
-            let stepSuccessful = false;
+        step.status = 'in_progress';
+        step.skipReason = undefined;
+        step.verification = undefined;
+        this.recordStep(execution, step, { responses: [], attempts: 0, lastError: undefined });
+        this.emit('step', { taskId: plan.taskId, step });
+        this.recordStep(execution, step, { checkpoint: await this.createCheckpoint(execution, step) });
+
+        let worktree: WorktreeSession | undefined;
+        try {
+            worktree = await this.openStepWorktree(execution, stepTaskId);
+        } catch (error) {
+            console.error(`[Orchestrator] Could not create a worktree for ${stepTaskId}:`, error);
+        }
+        const stepPath = worktree?.path ?? worktreePath;
+        this.recordStep(execution, step, { worktree: this.keptWorktree(worktree) });
+        // The planner wrote its paths against the workspace, which a step in a worktree must not touch
+        const description = SubagentOrchestrator.inStepPath(step.description, worktreePath, stepPath);
+        const files = step.files?.map(file => SubagentOrchestrator.inStepPath(file, worktreePath, stepPath));
+        const location = worktree
+            ? `\n\nWorking directory: ${stepPath}\nThis is a git worktree of ${worktreePath}; read and change files only inside the working directory.`
+            : '';
+
+        let lastError: string | undefined;
+        let attempts = 0;
+        let outcome: StepOutcome;
+        const usageScopes: UsageScope[] = [`step:${stepTaskId}`, ...execution.usageScopes];
+
+        // Create retry policy with exponential backoff
+        const maxAttempts = execution.roleProfiles.get(role).maxRetries + 1;
+        const retryPolicy = createRetryPolicy({
+            maxAttempts,
+            backoffType: 'exponential',
+            baseDelayMs: this.retryBaseDelayMs,
+            maxDelayMs: this.retryMaxDelayMs,
+            retryableErrors: [], // Retry all errors
+            jitter: true
+        });
 
-            // Create retry policy with exponential backoff
-            const retryPolicy = createRetryPolicy({
-                maxAttempts: SubagentOrchestrator.MAX_RETRIES,
-                backoffType: 'exponential',
-                baseDelayMs: 1000,
-                maxDelayMs: 30000,
-                retryableErrors: [], // Retry all errors
-                jitter: true
-            });
+        try {
+            // Wrap step execution in retry loop; resolves to null when the budget runs out
+            const attempt = await this.retryExecutor.executeWithRetry(
+                async () => {
+                    if (this.isStopped(execution)) {
+                        return null;
+                    }
+                    attempts++;
+                    this.recordStep(execution, step, { attempts, lastError });
 
-            try {
-                // Wrap step execution in retry loop
-                const { coderResponse, verifyResponse } = await this.retryExecutor.executeWithRetry(
-                    async () => {
-                        // Build prompt with error context on retry
-                        let coderPrompt = `Implement step ${step.id}: ${step.action}\n\nDescription: ${step.description}`;
-                        if (lastError) {
-                            coderPrompt = `FIX THIS ERROR: ${lastError}\n\n${coderPrompt}`;
-                        }
+                    // Build prompt with error context on retry
+                    let coderPrompt = `Implement step ${step.id}: ${step.action}\n\nDescription: ${description}${location}`;
+                    if (lastError) {
+                        coderPrompt = `FIX THIS ERROR: ${lastError}\n\n${coderPrompt}`;
+                    }
 
-                        const coder = await this.runAgent({
-                            taskId: `${plan.taskId}-step-${step.id}`,
-                            role: 'coder',
-                            prompt: coderPrompt,
-                            worktreePath
-                        });
+                    const coder = await this.runAgent({
+                        taskId: stepTaskId,
+                        role,
+                        prompt: coderPrompt,
+                        worktreePath: stepPath,
+                        usageScopes,
+                        permissionMode: execution.permissionMode,
+                        roleProfiles: execution.roleProfiles
+                    });
 
-                        if (!coder.success) {
-                            lastError = coder.error || 'Coder execution failed';
-                            throw new Error(lastError);
-                        }
+                    if (!coder.success) {
+                        lastError = coder.error || 'Coder execution failed';
+                        throw new Error(lastError);
+                    }
+
+                    if (this.isStopped(execution)) {
+                        return null;
+                    }
 
-                        const verifier = await this.runAgent({
-                            taskId: `${plan.taskId}-verify-${step.id}`,
-                            role: 'verifier',
-                            prompt: `Review the implementation of step ${step.id}: ${step.action}\n\nCode output:\n${coder.content}`,
-                            worktreePath
-                        });
+                    // Objective checks first; the verifier is only asked once they pass
+                    const gates = this.verificationGates ? await this.verificationGates.run(stepPath, files) : [];
+                    step.verification = { gates };
+                    if (gates.some(gate => !gate.passed)) {
+                        this.emit('step', { taskId: plan.taskId, step });
+                        lastError = describeGateFailures(gates);
+                        throw new Error(lastError);
+                    }
 
-                        if (!verifier.success || !verifier.content.includes('PASS')) {
-                            lastError = verifier.error || 'Verification failed: code does not meet quality standards';
-                            throw new Error(lastError);
+                    const passedGates = gates.length
+                        ? `\n\nThese verification commands already passed:\n${gates.map(g => `- ${g.name}: ${g.command}`).join('\n')}`
+                        : '';
+                    const verifierRequest: AgentRequest = {
+                        taskId: `${plan.taskId}-verify-${step.id}`,
+                        role: 'verifier',
+                        prompt: `Review the implementation of step ${step.id}: ${step.action}${location}\n\nCode output:\n${coder.content}${passedGates}`,
+                        worktreePath: stepPath,
+                        usageScopes,
+                        permissionMode: execution.permissionMode,
+                        roleProfiles: execution.roleProfiles
+                    };
+                    // A verifier run that errors says nothing about the code, so it is run again before the attempt fails
+                    let verifier = await this.runAgent(verifierRequest);
+                    for (let retry = execution.roleProfiles.get('verifier').maxRetries; !verifier.success && retry > 0; retry--) {
+                        if (this.isStopped(execution)) {
+                            return null;
                         }
+                        verifier = await this.runAgent(verifierRequest);
+                    }
+                    step.verification = { gates, verdict: verifier.verdict };
+                    this.emit('step', { taskId: plan.taskId, step });
 
-                        return { coderResponse: coder, verifyResponse: verifier };
-                    },
-                    retryPolicy,
-                    `step-${step.id}`
-                );
+                    if (!verifier.success) {
+                        lastError = verifier.error || 'Verifier execution failed';
+                        throw new Error(lastError);
+                    }
+                    if (verifier.verdict?.verdict !== 'PASS') {
+                        // The findings are what the next coder attempt gets to fix
+                        lastError = describeVerdict(verifier.verdict ?? parseVerifierVerdict(verifier.content));
+                        throw new Error(lastError);
+                    }
 
-                // Step succeeded
-                results.push(coderResponse, verifyResponse);
-                step.status = 'completed';
-                stepSuccessful = true;
+                    return { coderResponse: coder, verifyResponse: verifier };
+                },
+                retryPolicy,
+                `step-${step.id}`
+            );
 
-            } catch (error) {
-                // All retries exhausted
+            if (attempt === null) {
                 step.status = 'failed';
-                const errorMessage = error instanceof Error ? error.message : String(error);
-
-                // Add failed response to results
-                results.push({
-                    taskId: `${plan.taskId}-step-${step.id}`,
-                    role: 'coder',
+                execution.results.set(step.id, [{
+                    taskId: stepTaskId,
+                    role,
                     content: '',
                     success: false,
-                    error: `Step exhausted after ${SubagentOrchestrator.MAX_RETRIES} attempts: ${errorMessage}`
+                    error: execution.cancelled ? 'Plan cancelled' : `Plan budget of $${execution.limitUsd!.toFixed(2)} exceeded`
+                }]);
+                this.emit('step', { taskId: plan.taskId, step });
+                if (!execution.cancelled) {
+                    this.haltForBudget(execution, step);
+                }
+                await this.closeStepWorktree(execution, worktree);
+                this.recordStep(execution, step, {
+                    responses: execution.results.get(step.id)!,
+                    lastError,
+                    worktree: undefined
                 });
+                return 'halted';
+            }
+
+            const merge = worktree ? await this.mergeStepBack(execution, step, worktree) : undefined;
+            if (merge && !merge.merged) {
+                step.status = 'failed';
+                execution.results.set(step.id, [attempt.coderResponse, attempt.verifyResponse, {
+                    taskId: stepTaskId,
+                    role,
+                    content: '',
+                    success: false,
+                    error: merge.reason === 'conflict'
+                        ? `Merge conflict in ${merge.conflicts.join(', ')}; the changes are kept on branch ${worktree!.branch}`
+                        : `Could not merge the step back (${merge.message}); the changes are kept on branch ${worktree!.branch}`
+                }]);
+                outcome = 'failed';
+            } else {
+                // Step succeeded
+                execution.results.set(step.id, [attempt.coderResponse, attempt.verifyResponse]);
+                step.status = 'completed';
+                outcome = 'completed';
+            }
+
+        } catch (error) {
+            // All retries exhausted
+            step.status = 'failed';
+            const errorMessage = error instanceof Error ? error.message : String(error);
+
+            // Add failed response to results
+            execution.results.set(step.id, [{
+                taskId: stepTaskId,
+                role,
+                content: '',
+                success: false,
+                error: execution.cancelled ? 'Plan cancelled' : `Step exhausted after ${maxAttempts} attempts: ${errorMessage}`
+            }]);
+            outcome = 'failed';
+            await this.closeStepWorktree(execution, worktree);
+            if (execution.cancelled) {
+                outcome = 'halted';
+            } else if (execution.replanning) {
+                execution.exhausted.push({ step, error: lastError ?? errorMessage });
+                outcome = 'halted';
+            }
+        }
+
+        this.recordStep(execution, step, {
+            responses: execution.results.get(step.id) ?? [],
+            lastError,
+            worktree: this.keptWorktree(worktree),
+            completedAt: outcome === 'completed' ? Date.now() : undefined
+        });
+        this.emit('step', { taskId: plan.taskId, step });
+        return outcome;
+    }
+
+    /**
+     * `text` with the paths into `workspace` it names pointed at the same
+     * files under `stepPath`.
+     */
+    private static inStepPath(text: string, workspace: string, stepPath: string): string {
+        if (stepPath === workspace) return text;
+        const root = workspace.replace(/[\\/]+$/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return text.replace(new RegExp(`${root}(?![\\w.-])`, 'g'), () => stepPath);
+    }
+
+    /**
+     * Asks the planner for steps to replace the ones left to run after
+     * `failed` failed every attempt, and applies them if the replan handler
+     * approves. The failed steps are dropped from the plan; their progress
+     * stays in the plan store.
+     *
+     * @returns whether the plan was revised
+     */
+    private async replan(execution: PlanExecution, failed: FailedStep[]): Promise<boolean> {
+        const { plan } = execution;
+        const handler = this.replanHandler;
+        if (!handler) return false;
+
+        const response = await this.createPlan({
+            taskId: `${plan.taskId}-replan`,
+            prompt: buildReplanPrompt(plan, failed, await this.planDiff(execution)),
+            worktreePath: execution.worktreePath,
+            usageScopes: execution.usageScopes,
+            permissionMode: execution.permissionMode,
+            roleProfiles: execution.roleProfiles
+        });
+        if (!response.plan) {
+            console.error(`[Orchestrator] Could not replan ${plan.taskId}:`, response.error ?? response.planErrors);
+            return false;
+        }
+
+        // Ids of dropped steps stay taken, since the plan store keeps their progress
+        const usedIds = [...plan.steps.map(step => step.id), ...Object.keys(execution.record?.steps ?? {}).map(Number)];
+        const steps = renumberSteps(response.plan.steps, Math.max(...usedIds) + 1);
+        const replaced = plan.steps.filter(step =>
+            step.status !== 'completed' && !failed.some(f => f.step.id === step.id)
+        );
+        if (!await handler({ taskId: plan.taskId, failed, replaced, steps })) {
+            return false;
+        }
+
+        plan.steps.splice(0, plan.steps.length, ...plan.steps.filter(step => step.status === 'completed'), ...steps);
+        this.persist(execution);
+        this.emit('plan_revised', { taskId: plan.taskId, plan });
+        return true;
+    }
+
+    /**
+     * Workspace changes since the plan's earliest checkpoint, or since HEAD
+     * without one; undefined without a checkpoint manager.
+     */
+    private async planDiff(execution: PlanExecution): Promise<string | undefined> {
+        const manager = this.checkpoints;
+        if (!manager) return undefined;
+        const first = Object.values(execution.record?.steps ?? {})
+            .map(record => record.checkpoint)
+            .filter((checkpoint): checkpoint is Checkpoint => !!checkpoint)
+            .sort((a, b) => a.createdAt - b.createdAt)[0];
+        try {
+            return await this.queueGit(execution, () => manager.diff(first?.head));
+        } catch (error) {
+            console.error(`[Orchestrator] Could not diff the workspace of ${execution.plan.taskId}:`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Snapshots the workspace before a step; undefined without a checkpoint
+     * manager or plan store, or when the snapshot fails.
+     */
+    private async createCheckpoint(execution: PlanExecution, step: PlanStep): Promise<Checkpoint | undefined> {
+        const manager = this.checkpoints;
+        if (!manager || !execution.record) return undefined;
+        try {
+            return await this.queueGit(execution, () => manager.create(`${execution.plan.taskId}/step-${step.id}`));
+        } catch (error) {
+            console.error(`[Orchestrator] Could not checkpoint step ${step.id} of ${execution.plan.taskId}:`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Where a step's worktree is, while the manager still keeps it.
+     */
+    private keptWorktree(worktree: WorktreeSession | undefined): StepRecord['worktree'] {
+        if (!worktree || !this.worktrees?.getSession(worktree.id)) return undefined;
+        return { path: worktree.path, branch: worktree.branch };
+    }
+
+    /**
+     * Creates the worktree of a step, or resolves to undefined when steps run
+     * in the workspace itself.
+     */
+    private async openStepWorktree(execution: PlanExecution, stepTaskId: string): Promise<WorktreeSession | undefined> {
+        const manager = this.worktrees;
+        if (!manager) return undefined;
+
+        const session = await this.queueGit(execution, () => manager.create(stepTaskId));
+        // The manager falls back to the workspace when git is unavailable
+        return session.path === execution.worktreePath || session.path === this.cwd ? undefined : session;
+    }
+
+    private async mergeStepBack(execution: PlanExecution, step: PlanStep, worktree: WorktreeSession): Promise<MergeBackResult> {
+        const manager = this.worktrees!;
+        const { plan } = execution;
+        const handler = this.conflictHandler;
+        const onConflict = handler && ((conflict: WorktreeConflict) => handler(conflict, {
+            permissionMode: execution.permissionMode,
+            roleProfiles: execution.roleProfiles
+        }));
+        const summary = step.description.split('\n')[0].substring(0, 60);
+        const message = `${plan.taskId} step ${step.id} (${step.action}): ${summary}`;
+
+        const result = await this.queueGit(execution, async (): Promise<MergeBackResult> => {
+            try {
+                await manager.commitChanges(worktree.id, message);
+                const merge = await manager.mergeBack(worktree.id, message, onConflict);
+                if (merge.merged) {
+                    await manager.cleanup(worktree.id);
+                }
+                return merge;
+            } catch (error) {
+                return {
+                    merged: false,
+                    reason: 'failed',
+                    conflicts: [],
+                    message: error instanceof Error ? error.message : String(error)
+                };
             }
+        });
 
-            this.emit('step', { taskId: plan.taskId, step });
+        if (result.merged) {
+            this.emit('step_merged', { taskId: plan.taskId, stepId: step.id, committed: result.committed });
+        } else {
+            this.emit('merge_conflict', {
+                taskId: plan.taskId,
+                stepId: step.id,
+                branch: worktree.branch,
+                worktreePath: worktree.path,
+                reason: result.reason,
+                conflicts: result.conflicts,
+                message: result.message
+            });
         }
+        return result;
+    }
+
+    private async closeStepWorktree(execution: PlanExecution, worktree: WorktreeSession | undefined): Promise<void> {
+        const manager = this.worktrees;
+        if (!manager || !worktree) return;
+        await this.queueGit(execution, () => manager.cleanup(worktree.id)).catch(() => undefined);
+    }
+
+    private queueGit<T>(execution: PlanExecution, operation: () => Promise<T>): Promise<T> {
+        const result = execution.gitQueue.then(operation);
+        execution.gitQueue = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * Whether no further run of the execution may start.
+     */
+    private isStopped(execution: PlanExecution): boolean {
+        return execution.cancelled || this.isOverBudget(execution);
+    }
 
-        return results;
+    private isOverBudget(execution: PlanExecution): boolean {
+        if (execution.limitUsd === undefined) return false;
+        const spent = this.usage.getTotals(`plan:${execution.plan.taskId}`).costUsd - execution.costBefore;
+        return spent >= execution.limitUsd;
+    }
+
+    /**
+     * Reports the exceeded budget once per execution; parallel steps may all run into it.
+     */
+    private haltForBudget(execution: PlanExecution, step: PlanStep): void {
+        if (execution.budgetExceeded) return;
+        execution.budgetExceeded = true;
+        this.emit('budget_exceeded', {
+            taskId: execution.plan.taskId,
+            stepId: step.id,
+            limitUsd: execution.limitUsd,
+            spentUsd: this.usage.getTotals(`plan:${execution.plan.taskId}`).costUsd - execution.costBefore
+        });
+    }
+
+    /**
+     * Tools invoked by the agent runs of a task, oldest first.
+     * Retries of a task share one history. Only the histories of the latest
+     * MAX_TOOL_HISTORIES tasks are kept.
+     */
+    getToolHistory(taskId: string): ToolEvent[] {
+        return this.toolHandlers.get(taskId)?.getToolHistory() ?? [];
+    }
+
+    /**
+     * Tool usage statistics for a task, or undefined if it never ran.
+     */
+    getToolStatistics(taskId: string): ToolStatistics | undefined {
+        return this.toolHandlers.get(taskId)?.getStatistics();
+    }
+
+    private getToolHandler(taskId: string): ToolEventHandler {
+        const handler = this.toolHandlers.get(taskId) ?? new ToolEventHandler();
+        // Most recently used last, so the oldest histories are dropped first
+        this.toolHandlers.delete(taskId);
+        this.toolHandlers.set(taskId, handler);
+        for (const oldest of this.toolHandlers.keys()) {
+            if (this.toolHandlers.size <= SubagentOrchestrator.MAX_TOOL_HISTORIES) break;
+            this.toolHandlers.delete(oldest);
+        }
+        return handler;
+    }
+
+    /**
+     * Re-emits a task's tool events, tagged with the task and the role of the
+     * run, until the returned function is called at the end of the run.
+     */
+    private forwardToolEvents(handler: ToolEventHandler, taskId: string, role: SubagentRole): () => void {
+        const listeners = ['tool_invoked', 'tool_started', 'tool_completed', 'tool_error'].map(eventName => {
+            const listener = (data: object) => this.emit(eventName, { taskId, role, ...data });
+            handler.on(eventName, listener);
+            return () => handler.off(eventName, listener);
+        });
+        const onStatistics = (statistics: ToolStatistics) => this.emit('tool_statistics', { taskId, role, statistics });
+        handler.on('statistics_updated', onStatistics);
+        return () => {
+            listeners.forEach(remove => remove());
+            handler.off('statistics_updated', onStatistics);
+        };
+    }
+
+    /**
+     * Cancels a plan: no further step or attempt of its running execution
+     * starts, its running agents are stopped and the plan is saved as
+     * cancelled. Also stops the planner while the plan is being made.
+     */
+    async cancelPlan(taskId: string): Promise<void> {
+        const execution = this.executions.get(taskId);
+        if (execution) {
+            execution.cancelled = true;
+        }
+        for (const runTaskId of [...this.activeProcesses.keys()]) {
+            // Steps, verifiers, resolvers and replans run as `<taskId>-...`
+            if (runTaskId === taskId || runTaskId.startsWith(`${taskId}-`)) {
+                this.stopTask(runTaskId);
+            }
+        }
+
+        if (execution?.record) {
+            execution.record.status = 'cancelled';
+            this.persist(execution);
+        } else if (this.planStore) {
+            const record = await this.planStore.load(taskId);
+            if (record) {
+                record.status = 'cancelled';
+                await this.planStore.save(record);
+            }
+        }
     }
 
     stopTask(taskId: string): void {
         const proc = this.activeProcesses.get(taskId);
-        if (proc && !proc.killed) {
-            if (process.platform === 'win32') {
-                spawn('taskkill', ['/pid', proc.pid!.toString(), '/f', '/t']);
-            } else {
-                proc.kill('SIGINT');
-            }
+        if (proc) {
+            proc.cancel();
             this.activeProcesses.delete(taskId);
         }
     }
@@ -579,6 +1475,8 @@ export class SubagentOrchestrator extends EventEmitter {
 
     dispose(): void {
         this.stopAll();
+        this.toolHandlers.forEach(handler => handler.removeAllListeners());
+        this.toolHandlers.clear();
     }
 
     /**
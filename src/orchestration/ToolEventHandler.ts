@@ -1,4 +1,5 @@
 import { EventEmitter } from 'events';
+import { StreamEvent, ToolResultContent, toolResults, toolResultText } from '../engine/StreamEvents';
 
 /**
  * Represents a tool execution event within the Claude API stream.
@@ -70,6 +71,30 @@ export interface ToolEventHandlerConfig {
     enableMetrics?: boolean;
 }
 
+/**
+ * Content block accepted by handleAssistantContent.
+ * Looser than the StreamEvents block types so hand-built content works too;
+ * only tool_use blocks with an id and name are tracked.
+ */
+export interface AssistantBlockInput {
+    type: string;
+    id?: string;
+    name?: string;
+    input?: Record<string, unknown>;
+    text?: string;
+}
+
+/**
+ * Tool result accepted by handleToolResult.
+ * Anything other than a tool_result block is ignored.
+ */
+export interface ToolResultInput {
+    type: string;
+    tool_use_id?: string;
+    is_error?: boolean;
+    content?: ToolResultContent | { text: string };
+}
+
 /**
  * Processes and tracks tool_use and tool_result events from Claude API streams.
  *
@@ -81,8 +106,8 @@ export interface ToolEventHandlerConfig {
  * - Maintains execution history for debugging
  * - Calculates performance metrics
  *
- * This class solves the critical gap where SubagentOrchestrator ignores tool events,
- * providing complete visibility into autonomous agent tool usage.
+ * SubagentOrchestrator owns one handler per task and forwards its events,
+ * tagged with the task id and role.
  *
  * @fires tool_invoked - When a tool is first requested
  * @fires tool_started - When a tool begins execution
@@ -102,11 +127,8 @@ export interface ToolEventHandlerConfig {
  *   console.log(`Tool ${toolId} completed in ${duration}ms`);
  * });
  *
- * // Process assistant content blocks
- * handler.handleAssistantContent(event.message.content);
- *
- * // Process tool results
- * handler.handleToolResult(toolResultEvent);
+ * // Feed every typed event from an agent stream
+ * stream.on('event', (event: StreamEvent) => handler.handleStreamEvent(event));
  * ```
  */
 export class ToolEventHandler extends EventEmitter {
@@ -145,6 +167,20 @@ export class ToolEventHandler extends EventEmitter {
         };
     }
 
+    /**
+     * Processes a typed stream event: tool_use blocks from assistant messages
+     * and tool_result blocks from user messages. Other events are ignored.
+     *
+     * @param event - Event from an AgentStream
+     */
+    handleStreamEvent(event: StreamEvent): void {
+        if (event.type === 'assistant' && Array.isArray(event.message.content)) {
+            this.handleAssistantContent(event.message.content);
+        } else if (event.type === 'user') {
+            toolResults(event).forEach(block => this.handleToolResult(block));
+        }
+    }
+
     /**
      * Processes assistant content array to extract tool_use blocks.
      *
@@ -166,13 +202,13 @@ export class ToolEventHandler extends EventEmitter {
      * // Emits 'tool_invoked' event
      * ```
      */
-    handleAssistantContent(content: any[]): void {
+    handleAssistantContent(content: AssistantBlockInput[]): void {
         if (!Array.isArray(content)) {
             return;
         }
 
         for (const block of content) {
-            if (block.type === 'tool_use') {
+            if (block.type === 'tool_use' && block.id && block.name) {
                 const toolEvent: ToolEvent = {
                     toolId: block.id,
                     toolName: block.name,
@@ -220,8 +256,8 @@ export class ToolEventHandler extends EventEmitter {
      * // Emits 'tool_completed' event
      * ```
      */
-    handleToolResult(event: any): void {
-        if (event.type !== 'tool_result') {
+    handleToolResult(event: ToolResultInput): void {
+        if (event.type !== 'tool_result' || !event.tool_use_id) {
             return;
         }
 
@@ -256,7 +292,8 @@ export class ToolEventHandler extends EventEmitter {
             this.emit('tool_error', {
                 toolId: toolEvent.toolId,
                 toolName: toolEvent.toolName,
-                error: toolEvent.error
+                error: toolEvent.error,
+                duration: toolEvent.duration
             });
         } else {
             this.emit('tool_completed', {
@@ -388,23 +425,12 @@ export class ToolEventHandler extends EventEmitter {
      * @param content - Content to extract (string, array, or object)
      * @returns Extracted text content
      */
-    private extractContent(content: any): string {
-        if (typeof content === 'string') {
-            return content;
-        }
-
-        if (Array.isArray(content)) {
-            return content
-                .filter(block => block.type === 'text')
-                .map(block => block.text)
-                .join('\n');
-        }
-
-        if (content?.text) {
+    private extractContent(content: ToolResultInput['content']): string {
+        if (content && !Array.isArray(content) && typeof content === 'object') {
             return content.text;
         }
 
-        return String(content);
+        return toolResultText(content);
     }
 
     /**
@@ -467,36 +493,15 @@ export class ToolEventHandler extends EventEmitter {
 }
 
 /**
- * Integration function to patch ToolEventHandler into SubagentOrchestrator.
+ * Attaches a shared ToolEventHandler to an orchestrator-like emitter and
+ * forwards its events untagged.
  *
- * This function provides a clean integration point to add tool tracking
- * to the existing event handling logic in SubagentOrchestrator.
+ * @deprecated SubagentOrchestrator now tracks tools per task; use its
+ * `tool_*` events and `getToolHistory(taskId)` / `getToolStatistics(taskId)`.
  *
- * INTEGRATION STRATEGY:
- * 1. Create ToolEventHandler instance
- * 2. Forward events from orchestrator to handler
- * 3. Re-emit handler events with taskId context
- * 4. Expose handler methods through orchestrator
- *
- * @param orchestrator - SubagentOrchestrator instance to patch
+ * @param orchestrator - Emitter to patch
  * @param config - Optional configuration for ToolEventHandler
  * @returns The created ToolEventHandler instance
- *
- * @example
- * ```typescript
- * import { SubagentOrchestrator } from './SubagentOrchestrator';
- * import { patchToolEventHandler } from './ToolEventHandler';
- *
- * const orchestrator = new SubagentOrchestrator('/workspace');
- * const toolHandler = patchToolEventHandler(orchestrator, { enableLogging: true });
- *
- * orchestrator.on('tool_completed', ({ taskId, toolName, duration }) => {
- *   console.log(`Task ${taskId}: ${toolName} completed in ${duration}ms`);
- * });
- *
- * // Now tool events will be tracked automatically
- * await orchestrator.runAgent({...});
- * ```
  */
 export function patchToolEventHandler(
     orchestrator: any,
@@ -536,52 +541,3 @@ export function patchToolEventHandler(
 
     return handler;
 }
-
-/**
- * INTEGRATION NOTES FOR SUBAGENT ORCHESTRATOR:
- *
- * To integrate this handler into SubagentOrchestrator.ts, modify the stdout data handler
- * (around line 219) to process tool events:
- *
- * ```typescript
- * proc.stdout?.on('data', (chunk: Buffer) => {
- *     lineBuffer += chunk.toString();
- *     let newlineIndex: number;
- *     while ((newlineIndex = lineBuffer.indexOf('\n')) !== -1) {
- *         const line = lineBuffer.substring(0, newlineIndex).trim();
- *         lineBuffer = lineBuffer.substring(newlineIndex + 1);
- *         if (line.startsWith('{')) {
- *             try {
- *                 const event = JSON.parse(line);
- *
- *                 // EXISTING: Handle text content
- *                 if (event.type === 'assistant' && event.message?.content) {
- *                     const content = event.message.content;
- *
- *                     // NEW: Extract tool_use blocks
- *                     if (this.toolEventHandler) {
- *                         this.toolEventHandler.handleAssistantContent(content);
- *                     }
- *
- *                     // ... existing text extraction logic ...
- *                 }
- *
- *                 // NEW: Handle tool results
- *                 if (event.type === 'tool_result' && this.toolEventHandler) {
- *                     this.toolEventHandler.handleToolResult(event);
- *                 }
- *             } catch {}
- *         }
- *     }
- * });
- * ```
- *
- * Constructor initialization:
- * ```typescript
- * constructor(workspaceFolder: string) {
- *     super();
- *     this.cwd = workspaceFolder;
- *     patchToolEventHandler(this, { enableLogging: true });
- * }
- * ```
- */
@@ -0,0 +1,245 @@
+import { spawn } from 'child_process';
+import * as path from 'path';
+import { ReviewFinding } from '../types/WebviewMessages';
+import { describeFinding } from './VerifierVerdict';
+
+/** A command whose exit code decides whether a step's changes pass */
+export interface VerificationGate {
+    name: string;
+    /** Shell command; `{files}` is replaced by the step's files */
+    command: string;
+}
+
+export interface GateResult {
+    name: string;
+    /** Command as run, placeholders filled in */
+    command: string;
+    passed: boolean;
+    /** null when the command was killed or could not start */
+    exitCode: number | null;
+    timedOut?: boolean;
+    durationMs: number;
+    /** Tail of stdout and stderr */
+    output: string;
+    /** Failures read from the output */
+    failures: ReviewFinding[];
+}
+
+/** Preference key prefix of gates declared in AGENTS.md, e.g. `- verify.lint: npx eslint .` */
+const PREFERENCE_PREFIX = 'verify.';
+const MAX_OUTPUT = 8000;
+const MAX_FAILURES = 20;
+
+/**
+ * Gates declared in AGENTS.md preferences, with `overrides` (from settings)
+ * replacing gates of the same name; an empty override command drops a gate.
+ */
+export function resolveVerificationGates(
+    preferences: Record<string, string>,
+    overrides: Record<string, string> = {}
+): VerificationGate[] {
+    const commands = new Map<string, string>();
+    for (const [key, command] of Object.entries(preferences)) {
+        if (key.startsWith(PREFERENCE_PREFIX) && key.length > PREFERENCE_PREFIX.length) {
+            commands.set(key.slice(PREFERENCE_PREFIX.length), command);
+        }
+    }
+    for (const [name, command] of Object.entries(overrides)) {
+        commands.set(name.toLowerCase(), command);
+    }
+    return [...commands]
+        .filter(([, command]) => typeof command === 'string' && command.trim())
+        .map(([name, command]) => ({ name, command: command.trim() }));
+}
+
+/**
+ * Reads failures out of gate output: TypeScript diagnostics, ESLint's
+ * stylish and unix formats, failed Jest tests and `file:line` compiler
+ * errors. Output in other formats yields no failures.
+ */
+export function parseGateFailures(output: string): ReviewFinding[] {
+    const failures: ReviewFinding[] = [];
+    let eslintFile: string | undefined;
+
+    for (const line of output.split('\n')) {
+        let match: RegExpMatchArray | null;
+        if ((match = line.match(/^(\S.*?)\((\d+),\d+\): error (TS\d+: .*)$/))) {
+            failures.push({ category: 'correctness', severity: 'major', message: match[3], file: match[1], line: Number(match[2]) });
+        } else if ((match = line.match(/^\s+(\d+):\d+\s+(error|warning)\s+(.*?)(?:\s{2,}(\S+))?\s*$/)) && eslintFile) {
+            const rule = match[4] ? ` (${match[4]})` : '';
+            failures.push({
+                category: 'style',
+                severity: match[2] === 'error' ? 'major' : 'minor',
+                message: `${match[3]}${rule}`,
+                file: eslintFile,
+                line: Number(match[1])
+            });
+        } else if ((match = line.match(/^\s*● (.+ › .+)$/))) {
+            failures.push({ category: 'correctness', severity: 'critical', message: `Test failed: ${match[1].trim()}` });
+        } else if ((match = line.match(/^(\S[^:\s]*\.\w+):(\d+):\d+:\s*(?:error:?\s*)?(.+)$/))) {
+            failures.push({ category: 'correctness', severity: 'major', message: match[3].trim(), file: match[1], line: Number(match[2]) });
+        }
+
+        // ESLint's stylish format names the file on a line of its own above its problems
+        if (/^(\/|[A-Za-z]:\\|\.{0,2}[\w-]*\/)\S*\.\w+$/.test(line.trim()) && !line.startsWith(' ')) {
+            eslintFile = line.trim();
+        } else if (!line.trim()) {
+            eslintFile = undefined;
+        }
+    }
+
+    // Jest prints each failed test twice, in the summary and with its error
+    const seen = new Set<string>();
+    return failures
+        .filter(f => {
+            const key = `${f.file}:${f.line}:${f.message}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .slice(0, MAX_FAILURES);
+}
+
+/**
+ * Describes failed gates for the coder's next attempt.
+ */
+export function describeGateFailures(results: GateResult[]): string {
+    const lines: string[] = [];
+    for (const result of results.filter(r => !r.passed)) {
+        const outcome = result.timedOut
+            ? 'timed out'
+            : result.exitCode === null ? 'could not run' : `exited with code ${result.exitCode}`;
+        lines.push(`Verification gate "${result.name}" failed: \`${result.command}\` ${outcome}`);
+        lines.push(...result.failures.map(describeFinding));
+        if (!result.failures.length && result.output) {
+            lines.push(result.output.split('\n').slice(-15).join('\n'));
+        }
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Runs a project's verification commands, one after another, in a step's
+ * working directory.
+ */
+export class VerificationGateRunner {
+    constructor(
+        private gates: VerificationGate[],
+        private timeoutMs: number = 5 * 60 * 1000
+    ) {}
+
+    getGates(): VerificationGate[] {
+        return this.gates;
+    }
+
+    /**
+     * Runs every gate in `cwd`. Gates whose command takes `{files}` are left
+     * out when the step names no files, and fail without running when one of
+     * the files is not a plain path inside `cwd`, since the files come from
+     * the plan. Absolute files inside `cwd`, as the planner writes them, are
+     * passed relative to it.
+     */
+    async run(cwd: string, stepFiles: string[] = []): Promise<GateResult[]> {
+        const results: GateResult[] = [];
+        const files = stepFiles.map(file => relativeTo(cwd, file));
+        const unsafe = files.find(isUnsafeFile);
+        for (const gate of this.gates) {
+            if (gate.command.includes('{files}') && !files.length) continue;
+            if (gate.command.includes('{files}') && unsafe !== undefined) {
+                results.push({
+                    name: gate.name,
+                    command: gate.command,
+                    passed: false,
+                    exitCode: null,
+                    durationMs: 0,
+                    output: `Refused to pass ${JSON.stringify(unsafe)} to the command: step files must be paths inside the working directory`,
+                    failures: []
+                });
+                continue;
+            }
+            const command = gate.command.replace(/\{files\}/g, files.map(quote).join(' '));
+            results.push(await this.runGate(gate.name, command, cwd));
+        }
+        return results;
+    }
+
+    private runGate(name: string, command: string, cwd: string): Promise<GateResult> {
+        const startedAt = Date.now();
+        return new Promise(resolve => {
+            let output = '';
+            let timedOut = false;
+            const append = (data: Buffer) => {
+                output = (output + data.toString()).slice(-MAX_OUTPUT * 4);
+            };
+            const finish = (exitCode: number | null, error?: Error) => {
+                clearTimeout(timer);
+                const text = (error ? `${output}${error.message}` : output).trim();
+                resolve({
+                    name,
+                    command,
+                    passed: exitCode === 0 && !timedOut,
+                    exitCode,
+                    timedOut: timedOut || undefined,
+                    durationMs: Date.now() - startedAt,
+                    output: text.slice(-MAX_OUTPUT),
+                    failures: exitCode === 0 ? [] : parseGateFailures(text)
+                });
+            };
+
+            // In its own process group, so a timeout stops what the shell started too
+            const proc = spawn(command, {
+                cwd,
+                shell: true,
+                detached: process.platform !== 'win32',
+                env: { ...process.env, CI: 'true', FORCE_COLOR: '0' }
+            });
+            const timer = setTimeout(() => {
+                timedOut = true;
+                if (process.platform === 'win32') {
+                    spawn('taskkill', ['/pid', proc.pid!.toString(), '/f', '/t']);
+                } else {
+                    try {
+                        process.kill(-proc.pid!, 'SIGTERM');
+                    } catch {}
+                }
+            }, this.timeoutMs);
+
+            proc.stdout?.on('data', append);
+            proc.stderr?.on('data', append);
+            proc.on('close', code => finish(timedOut ? null : code));
+            proc.on('error', error => finish(null, error));
+        });
+    }
+}
+
+/**
+ * `file` relative to `cwd` when it is an absolute path inside it; other
+ * files are returned as they are.
+ */
+function relativeTo(cwd: string, file: string): string {
+    if (!path.isAbsolute(file)) return file;
+    const relative = path.relative(cwd, file);
+    const inside = relative !== '' && !path.isAbsolute(relative) && relative.split(path.sep)[0] !== '..';
+    return inside ? relative : file;
+}
+
+/**
+ * Absolute paths, paths leaving the working directory, line breaks and, on
+ * Windows, characters cmd.exe expands even inside quotes.
+ */
+function isUnsafeFile(file: string): boolean {
+    return path.posix.isAbsolute(file)
+        || path.win32.isAbsolute(file)
+        || file.split(/[\\/]/).includes('..')
+        || /[\0\r\n]/.test(file)
+        || (process.platform === 'win32' && /["%!]/.test(file));
+}
+
+function quote(file: string): string {
+    // A leading dash would be read as an option
+    const arg = file.startsWith('-') ? `./${file}` : file;
+    if (process.platform === 'win32') {
+        return /^[\w./\\:-]+$/.test(arg) ? arg : `"${arg}"`;
+    }
+    return /^[\w./:-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
@@ -0,0 +1,98 @@
+import { ReviewFinding, ReviewResultPayload } from '../types/WebviewMessages';
+import { jsonCandidates } from './PlanParser';
+
+/** What the verifier decided about a step, in the shape of a review result */
+export type VerifierVerdict = Omit<ReviewResultPayload, 'taskId'>;
+
+const CATEGORIES: ReviewFinding['category'][] = ['correctness', 'security', 'performance', 'style'];
+const SEVERITIES: ReviewFinding['severity'][] = ['critical', 'major', 'minor'];
+
+// A line that opens with the verdict, e.g. "PASS", "**FAIL**: tests are red" or "Verdict: PASS"
+const VERDICT_LINE = /^[\s*#>_-]*(?:[Vv]erdict\s*:?\s*)?[*_]*(PASS|FAIL)\b[*_]*[\s:.\-–—]*(.*)$/;
+
+function toFinding(raw: unknown): ReviewFinding | undefined {
+    if (!raw || typeof raw !== 'object') return undefined;
+    const value = raw as Record<string, unknown>;
+    const message = typeof value.message === 'string' ? value.message.trim() : '';
+    if (!message) return undefined;
+
+    const category = String(value.category ?? '').toLowerCase() as ReviewFinding['category'];
+    const severity = String(value.severity ?? '').toLowerCase() as ReviewFinding['severity'];
+    const line = Number(value.line);
+    return {
+        category: CATEGORIES.includes(category) ? category : 'correctness',
+        severity: SEVERITIES.includes(severity) ? severity : 'major',
+        message,
+        file: typeof value.file === 'string' && value.file ? value.file : undefined,
+        line: Number.isInteger(line) && line > 0 ? line : undefined
+    };
+}
+
+function fromJson(content: string): VerifierVerdict | undefined {
+    for (const candidate of jsonCandidates(content)) {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(candidate);
+        } catch {
+            continue;
+        }
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) continue;
+        const raw = parsed as Record<string, unknown>;
+        const verdict = typeof raw.verdict === 'string' ? raw.verdict.trim().toUpperCase() : undefined;
+        if (verdict !== 'PASS' && verdict !== 'FAIL') continue;
+
+        return {
+            verdict,
+            findings: Array.isArray(raw.findings)
+                ? raw.findings.map(toFinding).filter((f): f is ReviewFinding => !!f)
+                : [],
+            reviewerNotes: typeof raw.reviewerNotes === 'string' ? raw.reviewerNotes.trim() : ''
+        };
+    }
+    return undefined;
+}
+
+/**
+ * Reads the verdict out of a verifier's response.
+ *
+ * The verifier is asked for a JSON object with `verdict`, `findings` and
+ * `reviewerNotes`, on its own or in a fenced block. Failing that, a line that
+ * opens with PASS or FAIL is taken as the verdict, the last one winning, and
+ * the rest of that line as the notes. A response with neither fails: PASS
+ * anywhere else in the text, as in "does not PASS", is not a verdict.
+ */
+export function parseVerifierVerdict(content: string): VerifierVerdict {
+    const structured = fromJson(content);
+    if (structured) return structured;
+
+    let verdict: VerifierVerdict | undefined;
+    for (const line of content.split('\n')) {
+        const match = line.match(VERDICT_LINE);
+        if (match) {
+            verdict = { verdict: match[1] as 'PASS' | 'FAIL', findings: [], reviewerNotes: match[2].trim() };
+        }
+    }
+    return verdict ?? {
+        verdict: 'FAIL',
+        findings: [],
+        reviewerNotes: 'The verifier did not return a PASS or FAIL verdict'
+    };
+}
+
+/**
+ * Describes a failing verdict for the coder's next attempt, one finding per line.
+ */
+export function describeVerdict(verdict: VerifierVerdict): string {
+    const summary = verdict.reviewerNotes
+        ? `Verification failed: ${verdict.reviewerNotes}`
+        : 'Verification failed: code does not meet quality standards';
+    return [summary, ...verdict.findings.map(describeFinding)].join('\n');
+}
+
+/**
+ * One finding as a list item, e.g. `- [major style] src/a.ts:3 Unused import`.
+ */
+export function describeFinding(finding: ReviewFinding): string {
+    const location = finding.file ? ` ${finding.file}${finding.line ? `:${finding.line}` : ''}` : '';
+    return `- [${finding.severity} ${finding.category}]${location} ${finding.message}`;
+}
@@ -0,0 +1,34 @@
+import { SubagentOrchestrator } from '../SubagentOrchestrator';
+import { AGENT_PERSPECTIVES, BrainstormSwarm, selectPerspectives } from '../BrainstormSwarm';
+import { ScriptedBackend, textRun } from '../../engine/ScriptedBackend';
+
+/**
+ * Tests for brainstorm panels.
+ */
+describe('BrainstormSwarm', () => {
+    it('should seat between 2 and one agent per perspective', () => {
+        expect(selectPerspectives(1)).toHaveLength(2);
+        expect(selectPerspectives(4).map(p => p.role)).toEqual(
+            ['Critical Analyst', 'Creative Innovator', 'Practical Engineer', 'User Advocate']
+        );
+        expect(selectPerspectives(12)).toEqual(AGENT_PERSPECTIVES);
+    });
+
+    it('should debate with one debater per perspective', async () => {
+        const backend = new ScriptedBackend(options => textRun(
+            options.prompt.includes('Vote for') ? '{"proposal": 1}' : '{"solution": "Cache in memory", "critiques": []}'
+        ));
+        const orchestrator = new SubagentOrchestrator('/workspace', backend);
+        const swarm = new BrainstormSwarm(orchestrator);
+
+        const result = await swarm.run({ taskId: 'swarm-1', topic: 'How should we cache?', swarmDensity: 2 });
+
+        expect(result.participants).toEqual([
+            { agentId: 'agent-0', perspective: 'Critical Analyst', instructions: AGENT_PERSPECTIVES[0].prompt },
+            { agentId: 'agent-1', perspective: 'Creative Innovator', instructions: AGENT_PERSPECTIVES[1].prompt }
+        ]);
+        expect(result.consensus).toMatchObject({ agentId: 'agent-0', solution: 'Cache in memory' });
+        expect(backend.runs[1].prompt).toContain(`Your perspective: Creative Innovator. ${AGENT_PERSPECTIVES[1].prompt}`);
+        orchestrator.dispose();
+    });
+});
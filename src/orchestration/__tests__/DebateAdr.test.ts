@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { exportDebateAdr, renderDebateAdr } from '../DebateAdr';
+import { DebateRecord } from '../DebateStore';
+import { Proposal } from '../AgentDebateCoordinator';
+
+/**
+ * Tests for exporting debates as architecture decision records.
+ */
+describe('DebateAdr', () => {
+    const cache: Proposal = {
+        id: 'p1', agentId: 'agent-0', solution: 'Cache in memory', reasoning: 'Fewest moving parts',
+        confidence: 0.8, timestamp: 0, voteCount: 2
+    };
+    const redis: Proposal = {
+        id: 'p2', agentId: 'agent-1', solution: 'Use Redis', reasoning: 'Shared across instances',
+        confidence: 0.6, timestamp: 0, voteCount: 1
+    };
+
+    function record(): DebateRecord {
+        return {
+            taskId: 'swarm-1',
+            debate: {
+                id: 'debate-1',
+                topic: 'How should we cache sessions?\nThey are read on every request.',
+                participants: ['agent-0', 'agent-1', 'agent-2'],
+                rounds: [
+                    { roundNumber: 1, type: 'propose', startedAt: 0, complete: true, proposals: [cache, redis], critiques: [], defenses: [], votes: [] },
+                    {
+                        roundNumber: 2, type: 'critique', startedAt: 0, complete: true, proposals: [], defenses: [], votes: [],
+                        critiques: [
+                            { id: 'c1', fromAgent: 'agent-1', toAgent: 'agent-0', proposalId: 'p1', criticism: 'Lost on restart', severity: 'major', suggestedFix: 'Persist snapshots', timestamp: 0 },
+                            { id: 'c2', fromAgent: 'agent-2', toAgent: 'agent-0', proposalId: 'p1', criticism: 'Not shared', severity: 'minor', timestamp: 0 }
+                        ]
+                    },
+                    {
+                        roundNumber: 3, type: 'defend', startedAt: 0, complete: true, proposals: [], critiques: [], votes: [],
+                        defenses: ['c1', 'c2'].map(critiqueId => ({
+                            id: `d-${critiqueId}`, agentId: 'agent-0', proposalId: 'p1', critiqueId,
+                            defense: 'Sessions are cheap to rebuild', proposalModified: false, timestamp: 0
+                        }))
+                    },
+                    {
+                        roundNumber: 4, type: 'vote', startedAt: 0, complete: true, proposals: [], critiques: [], defenses: [],
+                        votes: [
+                            { id: 'v1', agentId: 'agent-0', proposalId: 'p1', weight: 1, timestamp: 0 },
+                            { id: 'v2', agentId: 'agent-2', proposalId: 'p1', weight: 1, justification: 'Simplest', timestamp: 0 },
+                            { id: 'v3', agentId: 'agent-1', proposalId: 'p2', weight: 1, timestamp: 0 }
+                        ]
+                    }
+                ],
+                currentRound: 3,
+                status: 'consensus_reached',
+                consensus: cache,
+                startedAt: Date.UTC(2026, 2, 4),
+                endedAt: Date.UTC(2026, 2, 4)
+            },
+            participants: [
+                { agentId: 'agent-0', perspective: 'Critical Analyst' },
+                { agentId: 'agent-1', perspective: 'Creative Innovator' },
+                { agentId: 'agent-2', perspective: 'Practical Engineer' }
+            ],
+            updatedAt: 0
+        };
+    }
+
+    it('should record the topic, panel, decision and every round', () => {
+        const adr = renderDebateAdr(record(), 7);
+
+        expect(adr).toContain('# ADR-007: How should we cache sessions?\n');
+        expect(adr).toContain('**Status**: Accepted');
+        expect(adr).toContain('**Date**: 2026-03-04');
+        expect(adr).toContain('**Deciders**: Critical Analyst, Creative Innovator, Practical Engineer');
+        expect(adr).toContain('## Context\n\nHow should we cache sessions?\nThey are read on every request.');
+        expect(adr).toContain("Adopted by panel consensus: Critical Analyst's proposal.\n\nCache in memory");
+        expect(adr).toContain('### Round 1');
+        expect(adr).toContain('#### Proposal from Creative Innovator (60% confident)\n\nUse Redis\n\n*Reasoning:* Shared across instances');
+        expect(adr).toContain('- **Creative Innovator** on Critical Analyst [major]: Lost on restart *Suggested fix:* Persist snapshots');
+        expect(adr.match(/Sessions are cheap to rebuild/g)).toHaveLength(1);
+        expect(adr).toContain('- **Practical Engineer** for Critical Analyst: Simplest');
+        expect(adr).toContain('## Alternatives Considered\n\n- **Creative Innovator** (1 vote): Use Redis');
+    });
+
+    it('should say who settled an escalated debate, or that nobody did', () => {
+        const decided = record();
+        decided.debate.decision = { decidedBy: 'architect', rationale: 'Restarts are rare', timestamp: 0 };
+        expect(renderDebateAdr(decided, 1)).toContain('Chosen by the architect after the panel failed to agree');
+        expect(renderDebateAdr(decided, 1)).toContain('**Why it was chosen:** Restarts are rare');
+
+        const unresolved = record();
+        unresolved.debate.status = 'escalated';
+        unresolved.debate.consensus = undefined;
+        unresolved.debate.escalationReason = 'No consensus after 3 rounds';
+        const adr = renderDebateAdr(unresolved, 1);
+        expect(adr).toContain('**Status**: Unresolved');
+        expect(adr).toContain('No decision was reached: No consensus after 3 rounds.');
+        expect(adr).toContain('- **Critical Analyst** (2 votes): Cache in memory');
+    });
+
+    describe('exportDebateAdr', () => {
+        let workspace: string;
+
+        beforeEach(() => {
+            workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'debate-adr-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(workspace, { recursive: true, force: true });
+        });
+
+        it('should number the record after those already in the directory', () => {
+            fs.mkdirSync(path.join(workspace, 'docs', 'decisions'), { recursive: true });
+            fs.writeFileSync(path.join(workspace, 'docs', 'decisions', 'DDR-001-Agent-Debate-System.md'), '');
+
+            const adrPath = exportDebateAdr(workspace, record());
+
+            expect(adrPath).toBe('docs/decisions/ADR-002-how-should-we-cache-sessions.md');
+            expect(fs.readFileSync(path.join(workspace, adrPath), 'utf-8')).toContain('# ADR-002: How should we cache sessions?');
+        });
+
+        it('should rewrite a debate exported before in place', () => {
+            const exported = record();
+            exported.adrPath = exportDebateAdr(workspace, exported, 'adr');
+            exported.debate.decision = { decidedBy: 'user', timestamp: 0 };
+
+            expect(exportDebateAdr(workspace, exported, 'adr')).toBe('adr/ADR-001-how-should-we-cache-sessions.md');
+            expect(fs.readdirSync(path.join(workspace, 'adr'))).toHaveLength(1);
+            expect(fs.readFileSync(path.join(workspace, exported.adrPath), 'utf-8')).toContain('Chosen by the user');
+        });
+
+        it('should only write inside the workspace', () => {
+            const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'debate-adr-outside-'));
+            fs.writeFileSync(path.join(outside, 'ADR-001-x.md'), 'keep');
+            const tampered = record();
+            tampered.adrPath = path.relative(workspace, path.join(outside, 'ADR-001-x.md'));
+
+            try {
+                expect(exportDebateAdr(workspace, tampered)).toBe('docs/decisions/ADR-001-how-should-we-cache-sessions.md');
+                expect(fs.readFileSync(path.join(outside, 'ADR-001-x.md'), 'utf-8')).toBe('keep');
+                expect(() => exportDebateAdr(workspace, record(), outside)).toThrow('is not inside the workspace');
+                expect(() => exportDebateAdr(workspace, record(), '../adr')).toThrow('is not inside the workspace');
+                expect(() => exportDebateAdr(workspace, record(), '.')).toThrow('is not inside the workspace');
+            } finally {
+                fs.rmSync(outside, { recursive: true, force: true });
+            }
+        });
+    });
+});
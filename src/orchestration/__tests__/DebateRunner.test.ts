@@ -0,0 +1,292 @@
+import { SubagentOrchestrator } from '../SubagentOrchestrator';
+import { DebateDecisionRequest, DebateParticipant, DebateRunner } from '../DebateRunner';
+import { DebateConfig } from '../AgentDebateCoordinator';
+import { RoleProfileRegistry } from '../RoleProfiles';
+import { AgentRunOptions } from '../../engine/AgentBackend';
+import { ScriptedBackend, ScriptedRun, textRun } from '../../engine/ScriptedBackend';
+import { collectEvents } from './setup';
+
+type Phase = 'propose' | 'critique' | 'defend' | 'vote' | 'architect';
+
+const PARTICIPANTS: DebateParticipant[] = [
+    { agentId: 'agent-0', perspective: 'Critical Analyst', instructions: 'Find the problems.' },
+    { agentId: 'agent-1', perspective: 'Creative Innovator' },
+    { agentId: 'agent-2', perspective: 'Practical Engineer' }
+];
+
+/**
+ * Tests for debates played by agents.
+ */
+describe('DebateRunner', () => {
+    let orchestrator: SubagentOrchestrator;
+    let backend: ScriptedBackend;
+    let runner: DebateRunner;
+
+    function phaseOf(prompt: string): Phase {
+        if (prompt.startsWith('You are The Architect')) return 'architect';
+        if (prompt.includes('Critique each proposal')) return 'critique';
+        if (prompt.includes('Answer the critiques')) return 'defend';
+        if (prompt.includes('Vote for the eligible proposal')) return 'vote';
+        return 'propose';
+    }
+
+    /** Index of the participant a prompt was written for */
+    function agentOf(prompt: string): number {
+        return PARTICIPANTS.findIndex(p => prompt.includes(`Your perspective: ${p.perspective}.`));
+    }
+
+    const json = (value: unknown) => textRun(`Here is my answer.\n\n\`\`\`json\n${JSON.stringify(value)}\n\`\`\``);
+
+    /**
+     * Answers every phase with the reply `answer` gives, or by default a
+     * proposal, no critiques, a vote for itself and no architect decision
+     */
+    function createRunner(answer: (phase: Phase, agent: number) => ScriptedRun | undefined, config: DebateConfig = {}) {
+        backend = new ScriptedBackend((options: AgentRunOptions) => {
+            const phase = phaseOf(options.prompt);
+            const agent = agentOf(options.prompt);
+            const run = answer(phase, agent);
+            if (run) return run;
+            if (phase === 'architect') return textRun('I cannot decide this.');
+            if (phase === 'propose') return json({ solution: `Solution ${agent + 1}`, reasoning: 'Because', confidence: 0.8 });
+            if (phase === 'critique') return json({ critiques: [] });
+            return json({ proposal: agent + 1, justification: 'Mine is best' });
+        });
+        orchestrator = new SubagentOrchestrator('/workspace', backend);
+        runner = new DebateRunner(orchestrator, config);
+    }
+
+    const debate = (participants = PARTICIPANTS) =>
+        runner.runDebate({ taskId: 'debate-1', topic: 'How should we cache?', participants });
+
+    const runsIn = (phase: Phase) => backend.runs.filter(r => phaseOf(r.prompt) === phase);
+
+    afterEach(() => {
+        orchestrator.dispose();
+    });
+
+    it('should reach consensus when the participants vote for one proposal', async () => {
+        createRunner((phase) => phase === 'vote' ? json({ proposal: 2, justification: 'Simplest' }) : undefined);
+        const statuses = collectEvents(runner, 'agent_status');
+
+        const result = await debate();
+
+        expect(result.debate.status).toBe('consensus_reached');
+        expect(result.consensus).toMatchObject({ agentId: 'agent-1', solution: 'Solution 2', confidence: 0.8 });
+        expect(result.escalationReason).toBeUndefined();
+        // Nobody was critiqued, so nobody had to defend
+        expect(backend.runs.map(r => phaseOf(r.prompt))).toEqual([
+            'propose', 'propose', 'propose', 'critique', 'critique', 'critique', 'vote', 'vote', 'vote'
+        ]);
+        expect(backend.runs.every(r => r.prompt.startsWith('You are The Debater'))).toBe(true);
+        expect(backend.runs[0].tools).toEqual(['Read', 'Glob', 'Grep', 'LS']);
+        expect(backend.runs[0].prompt).toContain('Your perspective: Critical Analyst. Find the problems.');
+        expect(statuses.events.filter(e => e.status === 'completed')).toHaveLength(3);
+    });
+
+    it('should show each participant the others\' proposals to critique', async () => {
+        createRunner((phase) => phase === 'vote' ? json({ proposal: 1 }) : undefined);
+
+        await debate();
+
+        const critique = runsIn('critique').find(r => agentOf(r.prompt) === 0)!.prompt;
+        expect(critique).toContain('### Proposal 2 (Creative Innovator)\nSolution: Solution 2');
+        expect(critique).toContain('### Proposal 3 (Practical Engineer)');
+        expect(critique).not.toContain('### Proposal 1');
+    });
+
+    it('should escalate when votes stay split for every cycle', async () => {
+        createRunner(() => undefined);
+        const escalated = collectEvents(runner, 'debate_escalated');
+
+        const result = await debate();
+
+        expect(result.debate.status).toBe('escalated');
+        expect(result.consensus).toBeUndefined();
+        expect(result.escalationReason).toBe('Maximum 3 debate cycles reached without consensus');
+        expect(escalated.events).toEqual([{ taskId: 'debate-1', reason: result.escalationReason }]);
+        expect(runsIn('propose')).toHaveLength(9);
+        // Later cycles start from how the previous one went
+        expect(runsIn('propose')[3].prompt).toContain('The last cycle ended without consensus');
+        expect(runsIn('propose')[3].prompt).toContain('Votes: 1 of 3');
+    });
+
+    it('should keep a proposal out of the vote while a blocking critique is unanswered', async () => {
+        createRunner((phase, agent) => {
+            if (phase === 'critique' && agent === 1) {
+                return json({ critiques: [{ proposal: 1, criticism: 'Loses data on restart', severity: 'blocking' }] });
+            }
+            if (phase === 'defend') return textRun('I stand by it.');
+            if (phase === 'vote') return json({ proposal: agent === 1 ? 2 : 1 });
+            return undefined;
+        });
+
+        const result = await debate();
+
+        expect(runsIn('defend').map(r => agentOf(r.prompt))).toEqual([0]);
+        expect(runsIn('vote')[0].prompt).toContain('(Not eligible: a blocking critique was not answered)');
+        // Only the vote for an eligible proposal counts
+        expect(result.consensus).toMatchObject({ agentId: 'agent-1', voteCount: 1 });
+    });
+
+    it('should let a defense revise the proposal it answers for', async () => {
+        createRunner((phase, agent) => {
+            if (phase === 'critique' && agent === 1) {
+                return json({ critiques: [{ proposal: 1, criticism: 'Loses data on restart', severity: 'blocking', suggestedFix: 'Persist it' }] });
+            }
+            if (phase === 'defend') return json({ defense: 'Fair point', revisedSolution: 'Solution 1, persisted' });
+            if (phase === 'vote') return json({ proposal: 1 });
+            return undefined;
+        });
+
+        const result = await debate();
+
+        expect(runsIn('defend')[0].prompt).toContain('- [blocking] Creative Innovator: Loses data on restart Suggested fix: Persist it');
+        expect(result.consensus).toMatchObject({ agentId: 'agent-0', solution: 'Solution 1, persisted' });
+    });
+
+    it('should ignore reply fields of the wrong shape', async () => {
+        createRunner((phase, agent) => {
+            if (phase === 'propose' && agent === 2) return json({ solution: { text: 'Solution 3' }, confidence: '0.9' });
+            if (phase === 'critique' && agent === 1) {
+                return json({ critiques: [null, 'Proposal 1 is bad', { proposal: '1', criticism: 'Wrong type' }, { proposal: 1, criticism: 42 }, { proposal: 1, criticism: ' Slow ', severity: 'fatal' }] });
+            }
+            if (phase === 'defend') return json({ defense: ['Fair'] });
+            if (phase === 'vote') return json({ proposal: 1, justification: 7 });
+            return undefined;
+        });
+
+        const result = await debate();
+
+        expect(result.debate.rounds[0].proposals.map(p => p.agentId)).toEqual(['agent-0', 'agent-1']);
+        expect(result.debate.rounds[1].critiques).toEqual([expect.objectContaining({ criticism: 'Slow', severity: 'major', suggestedFix: undefined })]);
+        expect(result.debate.rounds[2].defenses).toEqual([]);
+        expect(result.consensus).toMatchObject({ agentId: 'agent-0', voteCount: 3 });
+    });
+
+    it('should escalate when no participant produces a proposal', async () => {
+        createRunner((phase) => phase === 'propose' ? textRun('I need more information.') : undefined);
+
+        const result = await debate(PARTICIPANTS.slice(0, 2));
+
+        expect(result.escalationReason).toBe('No panelist produced a proposal');
+        expect(backend.runs).toHaveLength(2);
+    });
+
+    describe('escalation', () => {
+        /** Every cycle, agent 1 blocks proposal 1, so agent 0's vote for it is dropped and the rest split */
+        const deadlock = (architect: ScriptedRun) => (phase: Phase, agent: number) => {
+            if (phase === 'critique' && agent === 1) {
+                return json({ critiques: [{ proposal: 1, criticism: 'Loses data on restart', severity: 'blocking' }] });
+            }
+            if (phase === 'defend') return textRun('No comment.');
+            if (phase === 'vote') return json({ proposal: agent + 1 });
+            if (phase === 'architect') return architect;
+            return undefined;
+        };
+
+        it('should have the architect decide from the transcript', async () => {
+            createRunner(deadlock(json({ decision: 'select', proposal: 3, rationale: 'Simplest to run' })));
+
+            const result = await debate();
+
+            const architect = runsIn('architect');
+            expect(architect).toHaveLength(1);
+            expect(architect[0].tools).toEqual(['Read', 'Glob', 'Grep', 'LS']);
+            expect(architect[0].prompt).toContain('The panel could not agree: Maximum 3 debate cycles reached without consensus.');
+            expect(architect[0].prompt).toContain('## Cycle 3');
+            expect(architect[0].prompt).toContain(
+                '### Proposal 3 (Practical Engineer)\nSolution: Solution 3\nReasoning: Because\nVotes: 1 of 2'
+            );
+            expect(architect[0].prompt).toContain('Votes: 0 of 2\n- Unresolved blocking critique from Creative Innovator: Loses data on restart');
+            expect(result.debate.status).toBe('consensus_reached');
+            expect(result.consensus).toMatchObject({ agentId: 'agent-2', solution: 'Solution 3' });
+            expect(result.decision).toMatchObject({ decidedBy: 'architect', rationale: 'Simplest to run' });
+            expect(result.escalationReason).toBe('Maximum 3 debate cycles reached without consensus');
+        });
+
+        it('should let the user choose between the proposals the architect names', async () => {
+            createRunner(deadlock(json({ decision: 'ask_user', proposals: [1, 2], rationale: 'Durability against speed' })));
+            const requests: DebateDecisionRequest[] = [];
+            runner.setDecisionHandler(async request => {
+                requests.push(request);
+                return request.options[1].id;
+            });
+
+            const result = await debate();
+
+            expect(requests).toHaveLength(1);
+            expect(requests[0]).toMatchObject({
+                taskId: 'debate-1',
+                reason: 'Maximum 3 debate cycles reached without consensus',
+                rationale: 'Durability against speed'
+            });
+            expect(requests[0].options.map(p => p.agentId)).toEqual(['agent-0', 'agent-1']);
+            expect(result.consensus).toMatchObject({ agentId: 'agent-1' });
+            expect(result.decision).toMatchObject({ decidedBy: 'user' });
+        });
+
+        it('should offer the best voted proposals when the architect gives no decision', async () => {
+            createRunner(deadlock(textRun('It depends.')));
+            let offered: string[] = [];
+            runner.setDecisionHandler(async request => {
+                offered = request.options.map(p => p.agentId);
+                return undefined;
+            });
+
+            const result = await debate();
+
+            expect(offered).toEqual(['agent-1', 'agent-2', 'agent-0']);
+            expect(result.debate.status).toBe('escalated');
+            expect(result.consensus).toBeUndefined();
+        });
+
+        it('should stay escalated without a decision handler', async () => {
+            createRunner(deadlock(json({ decision: 'ask_user', proposals: [1, 2] })));
+
+            const result = await debate();
+
+            expect(result.debate.status).toBe('escalated');
+            expect(result.decision).toBeUndefined();
+        });
+    });
+
+    it('should go on without participants still running when a round times out', async () => {
+        createRunner((phase, agent) => {
+            if (phase === 'propose' && agent === 2) return { ...json({ solution: 'Too late' }), delayMs: 5000 };
+            if (phase === 'vote') return json({ proposal: 1 });
+            return undefined;
+        }, { roundTimeout: 100 });
+        const timeouts = collectEvents(runner, 'round_timed_out');
+
+        const result = await debate();
+
+        expect(timeouts.events).toEqual([{ taskId: 'debate-1', roundType: 'propose', agentIds: ['agent-2'] }]);
+        expect(result.debate.rounds[0].proposals.map(p => p.agentId)).toEqual(['agent-0', 'agent-1']);
+        expect(result.consensus).toMatchObject({ agentId: 'agent-0' });
+    });
+
+    it('should run a participant as its own role', async () => {
+        createRunner((phase) => phase === 'vote' ? json({ proposal: 1 }) : undefined);
+        orchestrator.setRoleProfiles(new RoleProfileRegistry('claude-opus-4-5', {
+            'security-auditor': { description: 'Audits security', systemPrompt: 'You are The Security Auditor.' }
+        }));
+
+        await debate([PARTICIPANTS[0], { ...PARTICIPANTS[1], role: 'security-auditor' }]);
+
+        expect(backend.runs.filter(r => r.prompt.startsWith('You are The Security Auditor.')).map(r => agentOf(r.prompt)))
+            .toEqual([1, 1, 1]);
+    });
+
+    it('should stop the agents and the debate when cancelled', async () => {
+        createRunner(() => ({ ...json({ solution: 'Slow' }), delayMs: 5000 }));
+
+        const running = debate();
+        await new Promise(resolve => setTimeout(resolve, 20));
+        runner.cancel();
+        const result = await running;
+
+        expect(result.debate.status).toBe('cancelled');
+        expect(backend.runs).toHaveLength(3);
+    });
+});
@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DebateRecord, DebateStore } from '../DebateStore';
+
+/**
+ * Tests for saved debates and searching them.
+ */
+describe('DebateStore', () => {
+    let workspace: string;
+    let store: DebateStore;
+
+    function record(taskId: string, topic: string, startedAt: number, critique = 'Too slow'): DebateRecord {
+        const proposal = { id: `${taskId}-p`, agentId: 'agent-0', solution: 'Cache in memory', reasoning: 'Fast', confidence: 0.8, timestamp: 0 };
+        return {
+            taskId,
+            debate: {
+                id: `debate-${taskId}`,
+                topic,
+                participants: ['agent-0', 'agent-1'],
+                rounds: [
+                    { roundNumber: 1, type: 'propose', startedAt, complete: true, proposals: [proposal], critiques: [], defenses: [], votes: [] },
+                    {
+                        roundNumber: 2,
+                        type: 'critique',
+                        startedAt,
+                        complete: true,
+                        proposals: [],
+                        critiques: [{
+                            id: 'c', fromAgent: 'agent-1', toAgent: 'agent-0', proposalId: proposal.id,
+                            criticism: critique, severity: 'major', timestamp: 0
+                        }],
+                        defenses: [],
+                        votes: []
+                    }
+                ],
+                currentRound: 1,
+                status: 'consensus_reached',
+                consensus: proposal,
+                startedAt
+            },
+            participants: [
+                { agentId: 'agent-0', perspective: 'Critical Analyst' },
+                { agentId: 'agent-1', perspective: 'Creative Innovator' }
+            ],
+            updatedAt: 0
+        };
+    }
+
+    beforeEach(() => {
+        workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'debate-store-'));
+        store = new DebateStore(workspace);
+    });
+
+    afterEach(() => {
+        fs.rmSync(workspace, { recursive: true, force: true });
+    });
+
+    it('should save debates with their transcript', async () => {
+        const saved = record('swarm-1', 'How should we cache?', 1);
+
+        await store.save(saved);
+
+        expect(await store.load('swarm-1')).toEqual(saved);
+        expect(fs.existsSync(path.join(workspace, '.claudeprint', 'debates', 'swarm-1.json'))).toBe(true);
+        expect(await store.load('swarm-2')).toBeUndefined();
+    });
+
+    it('should list debates newest first', async () => {
+        await store.save(record('swarm-1', 'Old topic', 1));
+        await store.save(record('swarm-2', 'New topic', 2));
+
+        expect((await store.list()).map(r => r.taskId)).toEqual(['swarm-2', 'swarm-1']);
+    });
+
+    it('should search topics and everything said in the debate', async () => {
+        await store.save(record('swarm-1', 'How should we cache?', 1, 'Memory grows without bound'));
+        await store.save(record('swarm-2', 'Which queue should we use?', 2));
+
+        expect((await store.search('QUEUE')).map(r => r.taskId)).toEqual(['swarm-2']);
+        expect((await store.search('memory bound')).map(r => r.taskId)).toEqual(['swarm-1']);
+        expect((await store.search('bound queue')).map(r => r.taskId)).toEqual([]);
+        expect((await store.search('  '))).toHaveLength(2);
+    });
+
+    it('should skip debate files that are not debate records', async () => {
+        await store.save(record('swarm-1', 'How should we cache?', 1));
+        const debatesDir = path.join(workspace, '.claudeprint', 'debates');
+        const broken = (taskId: string, change: (record: any) => void) => {
+            const saved: any = record(taskId, 'Which queue should we use?', 2);
+            change(saved);
+            fs.writeFileSync(path.join(debatesDir, `${taskId}.json`), JSON.stringify(saved));
+        };
+        fs.writeFileSync(path.join(debatesDir, 'swarm-2.json'), '"truncated"');
+        broken('swarm-3', saved => delete saved.debate);
+        broken('swarm-4', saved => { saved.debate.rounds = null; });
+        broken('swarm-5', saved => { saved.debate.rounds[0].critiques = undefined; });
+        broken('swarm-6', saved => delete saved.participants);
+
+        expect(await store.load('swarm-3')).toBeUndefined();
+        expect((await store.list()).map(r => r.taskId)).toEqual(['swarm-1']);
+        expect((await store.search('queue'))).toEqual([]);
+    });
+
+    it('should delete debates', async () => {
+        await store.save(record('swarm-1', 'How should we cache?', 1));
+
+        await store.delete('swarm-1');
+
+        expect(await store.list()).toEqual([]);
+    });
+});
@@ -0,0 +1,114 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SubagentOrchestrator, PlanStep } from '../SubagentOrchestrator';
+import { ConflictResolution, MergeConflictResolver } from '../MergeConflictResolver';
+import { GitWorktreeManager } from '../../git/GitWorktreeManager';
+import { AgentRunOptions } from '../../engine/AgentBackend';
+import { ScriptedBackend, textRun } from '../../engine/ScriptedBackend';
+import { createTestOrchestrator, createTestPlan } from './setup';
+
+/**
+ * Tests for resolving merge conflicts with the resolver agent, against a
+ * throwaway git repository.
+ */
+describe('MergeConflictResolver', () => {
+    let repo: string;
+    let manager: GitWorktreeManager;
+    let orchestrator: SubagentOrchestrator;
+    let reviewed: ConflictResolution[][];
+
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf-8' }).trim();
+
+    // Coders write the file named in their step description; the resolver writes `resolution`
+    function createBackend(resolution: string) {
+        return new ScriptedBackend((options: AgentRunOptions) => {
+            if (options.prompt.includes('The Verifier')) {
+                return textRun('PASS');
+            }
+            if (options.prompt.includes('The Resolver')) {
+                fs.writeFileSync(path.join(options.cwd, 'shared.txt'), resolution);
+                return textRun('shared.txt: kept both lines');
+            }
+            const [, file, content] = options.prompt.match(/Description: write (\S+) = (.*)/)!;
+            fs.writeFileSync(path.join(options.cwd, file), `${content}\n`);
+            return { ...textRun(`Wrote ${file}`), delayMs: content.includes('step 2') ? 20 : 0 };
+        });
+    }
+
+    async function setup(resolution: string, approve: boolean) {
+        manager = new GitWorktreeManager({ rootDir: repo });
+        await manager.initialize();
+        orchestrator = createTestOrchestrator(createBackend(resolution), repo);
+        orchestrator.setWorktreeManager(manager);
+        const resolver = new MergeConflictResolver(orchestrator, async resolutions => {
+            reviewed.push(resolutions);
+            return approve;
+        });
+        orchestrator.setConflictHandler(resolver.handle);
+    }
+
+    const planSteps: PlanStep[] = [
+        { id: 1, action: 'modify_file', description: 'write shared.txt = from step 1', status: 'pending', dependencies: [] },
+        { id: 2, action: 'modify_file', description: 'write shared.txt = from step 2', status: 'pending', dependencies: [] }
+    ];
+
+    beforeEach(() => {
+        repo = fs.mkdtempSync(path.join(os.tmpdir(), 'conflict-resolver-'));
+        git('init', '-q', '-b', 'main');
+        git('config', 'user.email', 'test@example.com');
+        git('config', 'user.name', 'Test');
+        fs.writeFileSync(path.join(repo, 'shared.txt'), 'base\n');
+        fs.writeFileSync(path.join(repo, '.gitignore'), '.worktrees/\n');
+        git('add', '-A');
+        git('commit', '-q', '-m', 'initial');
+        reviewed = [];
+    });
+
+    afterEach(() => {
+        orchestrator.dispose();
+        fs.rmSync(repo, { recursive: true, force: true });
+    });
+
+    it('should resolve a conflicting step in its worktree once the resolution is approved', async () => {
+        await setup('from step 1\nfrom step 2\n', true);
+        const plan = createTestPlan(planSteps);
+        const backend = (orchestrator as any).backend as ScriptedBackend;
+
+        await orchestrator.executePlan(plan, repo);
+
+        expect(plan.steps.map(s => s.status)).toEqual(['completed', 'completed']);
+        const resolverRun = backend.runs.find(r => r.prompt.includes('The Resolver'))!;
+        expect(resolverRun.cwd).toBe(path.join(repo, '.worktrees', 'plan-1-step-2'));
+        expect(resolverRun.prompt).toContain('- shared.txt');
+        expect(reviewed).toEqual([[expect.objectContaining({
+            file: 'shared.txt',
+            targetContent: 'from step 1\n',
+            resolvedContent: 'from step 1\nfrom step 2\n'
+        })]]);
+        expect(fs.readFileSync(path.join(repo, 'shared.txt'), 'utf-8')).toBe('from step 1\nfrom step 2\n');
+    });
+
+    it('should keep the step failed when the resolution is rejected', async () => {
+        await setup('from step 1\nfrom step 2\n', false);
+        const plan = createTestPlan(planSteps);
+
+        await orchestrator.executePlan(plan, repo);
+
+        expect(plan.steps.map(s => s.status)).toEqual(['completed', 'failed']);
+        expect(reviewed).toHaveLength(1);
+        expect(fs.readFileSync(path.join(repo, 'shared.txt'), 'utf-8')).toBe('from step 1\n');
+        expect(git('branch', '--list', 'task/plan-1-step-2')).toContain('task/plan-1-step-2');
+    });
+
+    it('should not ask for review while conflict markers are left', async () => {
+        await setup('<<<<<<< HEAD\nfrom step 2\n=======\nfrom step 1\n>>>>>>> main\n', true);
+        const plan = createTestPlan(planSteps);
+
+        await orchestrator.executePlan(plan, repo);
+
+        expect(plan.steps.map(s => s.status)).toEqual(['completed', 'failed']);
+        expect(reviewed).toEqual([]);
+    });
+});
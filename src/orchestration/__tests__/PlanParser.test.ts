@@ -0,0 +1,111 @@
+import { PLAN_SCHEMA, buildRepairPrompt, parsePlan } from '../PlanParser';
+
+describe('PlanParser', () => {
+    const steps = [
+        { id: 1, action: 'create_file', description: 'Add the parser', files: ['src/parser.ts'], dependencies: [] },
+        { id: 2, action: 'run_tests', description: 'Run the tests', dependencies: [1] }
+    ];
+
+    describe('parsePlan', () => {
+        it('should read a plain JSON plan', () => {
+            const { plan, errors } = parsePlan(JSON.stringify({ steps }), 'plan-1');
+
+            expect(errors).toEqual([]);
+            expect(plan!.taskId).toBe('plan-1');
+            expect(plan!.steps).toEqual([
+                { id: 1, action: 'create_file', description: 'Add the parser', status: 'pending', files: ['src/parser.ts'], dependencies: [] },
+                { id: 2, action: 'run_tests', description: 'Run the tests', status: 'pending', files: undefined, dependencies: [1] }
+            ]);
+        });
+
+        it('should read a fenced plan surrounded by prose with stray braces', () => {
+            const content = [
+                'I looked at the code. The config uses {braces} and ends with }.',
+                '```json',
+                JSON.stringify({ steps: [{ action: 'modify_file', description: 'Replace "{" with "}" in the lexer' }] }, null, 2),
+                '```',
+                'Let me know if {anything} should change.'
+            ].join('\n');
+
+            const { plan, errors } = parsePlan(content, 'plan-1');
+
+            expect(errors).toEqual([]);
+            expect(plan!.steps).toMatchObject([{ id: 1, description: 'Replace "{" with "}" in the lexer' }]);
+        });
+
+        it('should find an unfenced plan after prose with braces', () => {
+            const content = `Looked at {src}. Plan: ${JSON.stringify({ steps })} Done {`;
+
+            expect(parsePlan(content, 'plan-1').plan!.steps).toHaveLength(2);
+        });
+
+        it('should report every schema violation', () => {
+            const { plan, errors } = parsePlan(JSON.stringify({
+                steps: [
+                    { id: 0, action: '', description: 'x', files: 'src/a.ts' },
+                    'run the tests',
+                    { action: 'run_tests', dependencies: ['1'] }
+                ]
+            }), 'plan-1');
+
+            expect(plan).toBeUndefined();
+            expect(errors).toEqual([
+                'steps[0].id must be a positive integer',
+                'steps[0].action must be a non-empty string',
+                'steps[0].files must be an array of file paths',
+                'steps[1] must be an object',
+                'steps[2].description must be a non-empty string',
+                'steps[2].dependencies must be an array of step ids'
+            ]);
+        });
+
+        it('should reject duplicate ids, unknown dependencies and cycles', () => {
+            const step = (id: number, dependencies: number[]) => ({ id, action: 'modify_file', description: `Step ${id}`, dependencies });
+
+            expect(parsePlan(JSON.stringify({ steps: [step(1, []), step(1, [3]), step(2, [2])] }), 'plan-1').errors).toEqual([
+                'steps[1].id 1 is used by more than one step',
+                'steps[1].dependencies: there is no step 3',
+                'steps[2].dependencies: step 2 cannot depend on itself'
+            ]);
+            expect(parsePlan(JSON.stringify({ steps: [step(1, [2]), step(2, [1])] }), 'plan-1').errors).toEqual([
+                'Step dependencies form a cycle: 1 -> 2 -> 1'
+            ]);
+        });
+
+        it('should keep step roles other than the coder and check them against the known roles', () => {
+            const content = JSON.stringify({
+                steps: [
+                    { action: 'create_file', description: 'Add the parser', role: 'coder' },
+                    { action: 'modify_file', description: 'Document it', role: 'doc-writer' }
+                ]
+            });
+
+            expect(parsePlan(content, 'plan-1').plan!.steps.map(step => step.role)).toEqual([undefined, 'doc-writer']);
+            expect(parsePlan(content, 'plan-1', ['coder', 'doc-writer']).errors).toEqual([]);
+            expect(parsePlan(content, 'plan-1', ['coder']).errors).toEqual(['steps[1].role "doc-writer" is not one of: coder']);
+            expect(parsePlan(JSON.stringify({ steps: [{ action: 'x', description: 'y', role: 3 }] }), 'plan-1').errors)
+                .toEqual(['steps[0].role must be a non-empty string']);
+        });
+
+        it('should explain output without a plan', () => {
+            expect(parsePlan('## Plan\n1. Add the parser\n2. Run the tests', 'plan-1').errors).toEqual([
+                'No JSON object with a "steps" array was found in the planner output'
+            ]);
+            expect(parsePlan('{"steps": []}', 'plan-1').errors).toEqual(['"steps" must contain at least one step']);
+            expect(parsePlan('{"steps": {}}', 'plan-1').errors).toEqual(['"steps" must be an array']);
+            expect(parsePlan('{"steps": [{"action": "x", "description": "y",}]}', 'plan-1').errors[0])
+                .toMatch(/^The plan is not valid JSON: /);
+        });
+    });
+
+    describe('buildRepairPrompt', () => {
+        it('should list the errors and include the schema, request and previous output', () => {
+            const prompt = buildRepairPrompt('Add a parser', '{"steps": []}', ['"steps" must contain at least one step']);
+
+            expect(prompt).toContain('- "steps" must contain at least one step');
+            expect(prompt).toContain(JSON.stringify(PLAN_SCHEMA, null, 2));
+            expect(prompt).toContain('Request:\nAdd a parser');
+            expect(prompt).toContain('Your previous output:\n{"steps": []}');
+        });
+    });
+});
@@ -0,0 +1,146 @@
+import { PlanScheduler, StepOutcome, buildStepDependencies } from '../PlanScheduler';
+import { PlanStep } from '../SubagentOrchestrator';
+import { collectEvents } from './setup';
+
+/**
+ * Tests for dependency-aware plan step scheduling.
+ */
+describe('PlanScheduler', () => {
+    function step(id: number, extra: Partial<PlanStep> = {}): PlanStep {
+        return { id, action: 'modify_file', description: `Step ${id}`, status: 'pending', dependencies: [], ...extra };
+    }
+
+    function deferred() {
+        let resolve!: (outcome: StepOutcome) => void;
+        const promise = new Promise<StepOutcome>(r => { resolve = r; });
+        return { promise, resolve };
+    }
+
+    describe('buildStepDependencies', () => {
+        it('should combine explicit dependencies and file overlap', () => {
+            const dependencies = buildStepDependencies([
+                step(1, { files: ['src/a.ts'] }),
+                step(2, { files: ['src\\b.ts'] }),
+                step(3, { files: ['./src/b.ts', 'src/c.ts'], dependencies: [1, 99] })
+            ]);
+
+            expect([...dependencies.get(1)!]).toEqual([]);
+            expect([...dependencies.get(2)!]).toEqual([]);
+            expect([...dependencies.get(3)!].sort()).toEqual([1, 2]);
+        });
+
+        it('should keep steps without dependency information in order', () => {
+            const dependencies = buildStepDependencies([
+                step(1, { dependencies: undefined }),
+                step(2, { dependencies: undefined }),
+                step(3)
+            ]);
+
+            expect([...dependencies.get(2)!]).toEqual([1]);
+            expect([...dependencies.get(3)!]).toEqual([]);
+        });
+
+        it('should not add a file edge against an explicit dependency', () => {
+            const dependencies = buildStepDependencies([
+                step(1, { files: ['src/a.ts'], dependencies: [2] }),
+                step(2, { files: ['src/a.ts'] })
+            ]);
+
+            expect([...dependencies.get(2)!]).toEqual([]);
+        });
+    });
+
+    it('should reject dependency cycles', () => {
+        expect(() => new PlanScheduler([step(1, { dependencies: [3] }), step(2, { dependencies: [1] }), step(3, { dependencies: [2] })]))
+            .toThrow('Plan steps depend on each other in a cycle: 1 -> 3 -> 2 -> 1');
+    });
+
+    it('should run independent steps concurrently up to the limit', async () => {
+        const scheduler = new PlanScheduler([step(1), step(2), step(3), step(4, { dependencies: [1] })], 2);
+        const runs = new Map<number, ReturnType<typeof deferred>>();
+        const started: number[] = [];
+
+        const done = scheduler.run(s => {
+            started.push(s.id);
+            runs.set(s.id, deferred());
+            return runs.get(s.id)!.promise;
+        });
+
+        await new Promise(setImmediate);
+        expect(started).toEqual([1, 2]);
+
+        runs.get(1)!.resolve('completed');
+        await new Promise(setImmediate);
+        expect(started).toEqual([1, 2, 3]);
+
+        runs.get(2)!.resolve('completed');
+        await new Promise(setImmediate);
+        expect(started).toEqual([1, 2, 3, 4]);
+
+        runs.get(3)!.resolve('completed');
+        runs.get(4)!.resolve('completed');
+        await done;
+    });
+
+    it('should skip the dependents of a failed step and explain why', async () => {
+        const steps = [
+            step(1, { action: 'create_file' }),
+            step(2, { dependencies: [1] }),
+            step(3, { dependencies: [2] }),
+            step(4)
+        ];
+        const scheduler = new PlanScheduler(steps, 3);
+        const skipped = collectEvents(scheduler, 'step_skipped');
+        const started: number[] = [];
+
+        await scheduler.run(async s => {
+            started.push(s.id);
+            return s.id === 1 ? 'failed' : 'completed';
+        });
+
+        expect(started).toEqual([1, 4]);
+        expect(skipped.events.map(e => [e.step.id, e.reason])).toEqual([
+            [2, 'Skipped because step 1 (create_file) failed'],
+            [3, 'Skipped because step 2 (modify_file) was skipped']
+        ]);
+    });
+
+    it('should treat completed steps as done without running them', async () => {
+        const scheduler = new PlanScheduler([step(1, { status: 'completed' }), step(2, { dependencies: [1] })], 2);
+        const started: number[] = [];
+
+        await scheduler.run(async s => {
+            started.push(s.id);
+            return 'completed';
+        });
+
+        expect(started).toEqual([2]);
+    });
+
+    it('should start no further steps after a step halts', async () => {
+        const scheduler = new PlanScheduler([step(1), step(2), step(3)], 2);
+        const started: number[] = [];
+
+        await scheduler.run(async s => {
+            started.push(s.id);
+            return s.id === 1 ? 'halted' : 'completed';
+        });
+
+        expect(started).toEqual([1, 2]);
+    });
+
+    it('should count steps that already failed as failed without running them', async () => {
+        const steps = [step(1, { status: 'completed' }), step(2, { dependencies: [1] }), step(3, { dependencies: [2] }), step(4)];
+        const scheduler = new PlanScheduler(steps, 2);
+        const skipped = collectEvents(scheduler, 'step_skipped');
+        const started: number[] = [];
+
+        await scheduler.run(async s => {
+            started.push(s.id);
+            return 'completed';
+        }, [2]);
+
+        expect(started).toEqual([4]);
+        expect(skipped.events.map(e => e.step.id)).toEqual([3]);
+    });
+});
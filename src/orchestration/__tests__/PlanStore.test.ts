@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PlanRecord, PlanStore } from '../PlanStore';
+import { PlanStep } from '../SubagentOrchestrator';
+
+/**
+ * Tests for saved plans and finding the one to resume after a reload.
+ */
+describe('PlanStore', () => {
+    let workspace: string;
+    let store: PlanStore;
+
+    function record(taskId: string, statuses: PlanStep['status'][], status: PlanRecord['status'] = 'running'): PlanRecord {
+        return {
+            plan: {
+                taskId,
+                steps: statuses.map((s, i) => ({ id: i + 1, action: 'modify_file', description: `Step ${i + 1}`, status: s })),
+                createdAt: 0
+            },
+            status,
+            steps: {},
+            updatedAt: 0
+        };
+    }
+
+    // Saves get distinct timestamps
+    const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+    beforeEach(() => {
+        workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'plan-store-'));
+        store = new PlanStore(workspace);
+    });
+
+    afterEach(() => {
+        fs.rmSync(workspace, { recursive: true, force: true });
+    });
+
+    it('should save plans with their step progress', async () => {
+        const saved = record('plan-1', ['completed', 'failed']);
+        saved.steps[2] = { responses: [], attempts: 3, lastError: 'Tests failed', worktree: { path: '/w', branch: 'task/plan-1-step-2' } };
+
+        await store.save(saved);
+
+        expect(await store.load('plan-1')).toEqual(saved);
+        expect(fs.existsSync(path.join(workspace, '.claudeprint', 'plans', 'plan-1.json'))).toBe(true);
+        expect(await store.load('plan-2')).toBeUndefined();
+    });
+
+    it('should resume the latest plan with steps left to run', async () => {
+        await store.save(record('plan-old', ['failed']));
+        await tick();
+        await store.save(record('plan-new', ['completed', 'in_progress', 'pending']));
+        await tick();
+        await store.save(record('plan-done', ['completed'], 'finished'));
+        await tick();
+        await store.save(record('plan-cancelled', ['pending'], 'cancelled'));
+
+        const resumable = await store.findResumable();
+
+        expect(resumable?.plan.taskId).toBe('plan-new');
+        // A running plan was cut off by the reload
+        expect(resumable?.status).toBe('paused');
+        expect(resumable?.plan.steps.map(s => s.status)).toEqual(['completed', 'pending', 'pending']);
+    });
+
+    it('should skip plan files that are not plan records', async () => {
+        await store.save(record('plan-1', ['completed', 'pending']));
+        const plansDir = path.join(workspace, '.claudeprint', 'plans');
+        fs.writeFileSync(path.join(plansDir, 'plan-2.json'), 'null');
+        fs.writeFileSync(path.join(plansDir, 'plan-3.json'), JSON.stringify({ ...record('plan-3', []), plan: { taskId: 'plan-3', steps: {} } }));
+        fs.writeFileSync(path.join(plansDir, 'plan-4.json'), JSON.stringify({ ...record('plan-4', ['pending']), updatedAt: Date.now() + 1000, steps: null }));
+
+        expect(await store.load('plan-2')).toBeUndefined();
+        expect(await store.load('plan-3')).toBeUndefined();
+        expect((await store.list()).map(r => r.plan.taskId)).toEqual(['plan-1']);
+        expect((await store.findResumable())?.plan.taskId).toBe('plan-1');
+    });
+
+    it('should find nothing to resume without saved plans', async () => {
+        expect(await store.findResumable()).toBeUndefined();
+        expect(await store.list()).toEqual([]);
+    });
+});
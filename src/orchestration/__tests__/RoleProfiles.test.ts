@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RoleProfileRegistry, loadRolesFile, mergeRoleSettings } from '../RoleProfiles';
+
+/**
+ * Tests for resolving role profiles from defaults and settings.
+ */
+describe('RoleProfileRegistry', () => {
+    it('should default every role to the default model and the built-in behavior', () => {
+        const profiles = new RoleProfileRegistry('claude-sonnet-4-5');
+
+        expect(profiles.roles()).toEqual(['planner', 'coder', 'verifier', 'resolver', 'debater', 'architect']);
+        expect(profiles.get('planner')).toEqual({ model: 'claude-sonnet-4-5', ultrathink: true, timeoutMs: 300000, maxRetries: 2 });
+        expect(profiles.get('coder')).toEqual({ model: 'claude-sonnet-4-5', ultrathink: false, timeoutMs: 300000, maxRetries: 2 });
+        expect(profiles.get('verifier').maxRetries).toBe(0);
+    });
+
+    it('should override the defaults field by field', () => {
+        const profiles = new RoleProfileRegistry('claude-opus-4-5', {
+            verifier: { model: 'claude-haiku-4-5', timeoutSeconds: 120, allowedTools: ['Read', 'Bash'] },
+            planner: { ultrathink: false, systemPrompt: 'You plan.' }
+        });
+
+        expect(profiles.get('verifier')).toEqual({
+            model: 'claude-haiku-4-5',
+            ultrathink: false,
+            timeoutMs: 120000,
+            maxRetries: 0,
+            allowedTools: ['Read', 'Bash']
+        });
+        expect(profiles.get('planner')).toMatchObject({ model: 'claude-opus-4-5', ultrathink: false, systemPrompt: 'You plan.', maxRetries: 2 });
+    });
+
+    it('should register custom roles from settings and give unknown roles the base profile', () => {
+        const profiles = new RoleProfileRegistry('claude-opus-4-5', { security: { model: 'claude-sonnet-4-5', maxRetries: 1 } });
+
+        expect(profiles.roles()).toEqual(['planner', 'coder', 'verifier', 'resolver', 'debater', 'architect', 'security']);
+        expect(profiles.get('security')).toEqual({ model: 'claude-sonnet-4-5', ultrathink: false, timeoutMs: 300000, maxRetries: 1 });
+        expect(profiles.get('docs')).toEqual({ model: 'claude-opus-4-5', ultrathink: false, timeoutMs: 300000, maxRetries: 2 });
+    });
+
+    it('should offer only custom roles with a system prompt for plan steps', () => {
+        const profiles = new RoleProfileRegistry('claude-opus-4-5', {
+            'doc-writer': { description: 'Writes docs', systemPrompt: 'You write docs.' },
+            verifier: { systemPrompt: 'You verify.' },
+            security: { model: 'claude-sonnet-4-5' }
+        });
+
+        expect(profiles.customRoles()).toEqual(['doc-writer']);
+        expect(profiles.stepRoles()).toEqual(['coder', 'doc-writer']);
+        expect(profiles.get('doc-writer').description).toBe('Writes docs');
+    });
+
+    it('should ignore values of the wrong type', () => {
+        const profiles = new RoleProfileRegistry('claude-opus-4-5', {
+            coder: { model: ' ', timeoutSeconds: -5, maxRetries: 1.5, ultrathink: 'yes', allowedTools: 'Read' } as any
+        });
+
+        expect(profiles.get('coder')).toEqual({ model: 'claude-opus-4-5', ultrathink: false, timeoutMs: 300000, maxRetries: 2 });
+    });
+
+    it('should layer role settings field by field', () => {
+        expect(mergeRoleSettings(
+            { verifier: { model: 'claude-haiku-4-5', timeoutSeconds: 60 }, 'doc-writer': { systemPrompt: 'You write docs.' } },
+            { verifier: { timeoutSeconds: 120 } }
+        )).toEqual({
+            verifier: { model: 'claude-haiku-4-5', timeoutSeconds: 120 },
+            'doc-writer': { systemPrompt: 'You write docs.' }
+        });
+    });
+
+    describe('loadRolesFile', () => {
+        let root: string;
+
+        const writeRoles = (content: string) => {
+            fs.mkdirSync(path.join(root, '.claudeprint'), { recursive: true });
+            fs.writeFileSync(path.join(root, '.claudeprint', 'roles.json'), content);
+        };
+
+        beforeEach(() => {
+            root = fs.mkdtempSync(path.join(os.tmpdir(), 'roles-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(root, { recursive: true, force: true });
+        });
+
+        it('should return no roles when the workspace has no roles file', () => {
+            expect(loadRolesFile(root)).toEqual({ roles: {}, errors: [] });
+        });
+
+        it('should load valid roles and report the invalid ones', () => {
+            writeRoles(JSON.stringify({
+                'security-auditor': { description: 'Audits for vulnerabilities', systemPrompt: 'You audit.', allowedTools: ['Read', 'Grep'] },
+                verifier: { model: 'claude-haiku-4-5' },
+                'test-writer': { description: 'Writes tests' },
+                'doc-writer': { systemPrompt: 'You write docs.' },
+                'Migration Specialist': { description: 'Migrates', systemPrompt: 'You migrate.' }
+            }));
+
+            const { roles, errors } = loadRolesFile(root);
+
+            expect(Object.keys(roles)).toEqual(['security-auditor', 'verifier']);
+            expect(roles['security-auditor'].allowedTools).toEqual(['Read', 'Grep']);
+            expect(errors).toEqual([
+                'Role "test-writer" needs a systemPrompt',
+                'Role "doc-writer" needs a description',
+                'Role "Migration Specialist" must be lowercase letters, digits and dashes'
+            ]);
+        });
+
+        it('should report a file that is not a JSON object', () => {
+            writeRoles('{ "doc-writer": ');
+            expect(loadRolesFile(root).errors[0]).toMatch(/^\.claudeprint\/roles\.json is not valid JSON: /);
+
+            writeRoles('[]');
+            expect(loadRolesFile(root).errors).toEqual(['.claudeprint/roles.json must hold an object keyed by role name']);
+        });
+    });
+});
@@ -0,0 +1,92 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SubagentOrchestrator, PlanStep } from '../SubagentOrchestrator';
+import { PlanStore } from '../PlanStore';
+import { GitCheckpointManager } from '../../git/GitCheckpointManager';
+import { AgentRunOptions } from '../../engine/AgentBackend';
+import { ScriptedBackend, textRun } from '../../engine/ScriptedBackend';
+import { collectEvents, createTestOrchestrator, createTestPlan } from './setup';
+
+/**
+ * Tests for checkpointing the workspace before plan steps and rolling back to them.
+ */
+describe('SubagentOrchestrator - Checkpoints', () => {
+    let repo: string;
+    let store: PlanStore;
+    let orchestrator: SubagentOrchestrator;
+    let backend: ScriptedBackend;
+
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf-8' }).trim();
+    const read = (file: string) => fs.readFileSync(path.join(repo, file), 'utf-8');
+
+    const planSteps: PlanStep[] = [
+        { id: 1, action: 'create_file', description: 'write a.txt = alpha', status: 'pending', dependencies: [] },
+        { id: 2, action: 'create_file', description: 'write b.txt = beta', status: 'pending', dependencies: [1] },
+        { id: 3, action: 'modify_file', description: 'write a.txt = broken', status: 'pending', dependencies: [2] }
+    ];
+
+    beforeEach(async () => {
+        repo = fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-checkpoints-'));
+        git('init', '-q', '-b', 'main');
+        git('config', 'user.email', 'test@example.com');
+        git('config', 'user.name', 'Test');
+        fs.writeFileSync(path.join(repo, 'README.md'), 'readme\n');
+        git('add', '-A');
+        git('commit', '-q', '-m', 'initial');
+
+        // Coders write the file named in their step description into the workspace
+        backend = new ScriptedBackend((options: AgentRunOptions) => {
+            if (options.prompt.includes('The Verifier')) {
+                return textRun('PASS');
+            }
+            const [, file, content] = options.prompt.match(/Description: write (\S+) = (.*)/)!;
+            fs.writeFileSync(path.join(options.cwd, file), `${content}\n`);
+            return textRun(`Wrote ${file}`);
+        });
+        store = new PlanStore(repo);
+        orchestrator = createTestOrchestrator(backend, repo);
+        orchestrator.setPlanStore(store);
+        orchestrator.setCheckpointManager(new GitCheckpointManager({ rootDir: repo }));
+    });
+
+    afterEach(() => {
+        orchestrator.dispose();
+        fs.rmSync(repo, { recursive: true, force: true });
+    });
+
+    it('should roll back to before a step and replay the plan from there', async () => {
+        const plan = createTestPlan(planSteps);
+        await orchestrator.executePlan(plan, repo);
+        expect(read('a.txt')).toBe('broken\n');
+
+        const steps = collectEvents(orchestrator, 'step');
+        const { reset, replaced } = await orchestrator.rollbackToStep(plan, 2);
+
+        expect(reset.map(s => s.id)).toEqual([2, 3]);
+        expect(plan.steps.map(s => s.status)).toEqual(['completed', 'pending', 'pending']);
+        expect(steps.events.map(e => e.step.id)).toEqual([2, 3]);
+        expect(read('a.txt')).toBe('alpha\n');
+        expect(fs.existsSync(path.join(repo, 'b.txt'))).toBe(false);
+        expect(git('show', `${replaced.commit}:a.txt`)).toBe('broken');
+        expect((await store.load('plan-1'))!.status).toBe('paused');
+
+        // Replay with step 3 fixed
+        plan.steps[2].description = 'write a.txt = fixed';
+        backend.runs.length = 0;
+        await orchestrator.executePlan(plan, repo);
+
+        expect(backend.runs.filter(r => r.prompt.includes('The Coder')).map(r => r.prompt.match(/Implement step (\d)/)![1]))
+            .toEqual(['2', '3']);
+        expect(read('a.txt')).toBe('fixed\n');
+        expect(read('b.txt')).toBe('beta\n');
+    });
+
+    it('should refuse to roll back to a step without a checkpoint', async () => {
+        const plan = createTestPlan(planSteps);
+
+        await expect(orchestrator.rollbackToStep(plan, 1)).rejects.toThrow('No checkpoint was saved before step 1');
+        await expect(orchestrator.rollbackToStep(plan, 7)).rejects.toThrow('Plan plan-1 has no step 7');
+    });
+});
@@ -0,0 +1,126 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SubagentOrchestrator } from '../SubagentOrchestrator';
+import { PlanStore } from '../PlanStore';
+import { AgentRunOptions } from '../../engine/AgentBackend';
+import { ScriptedBackend, textRun } from '../../engine/ScriptedBackend';
+import { createTestOrchestrator, createTestPlan } from './setup';
+
+/**
+ * Tests for saving plan progress and resuming or retrying saved plans.
+ */
+describe('SubagentOrchestrator - Persistence', () => {
+    let workspace: string;
+    let store: PlanStore;
+    let orchestrators: SubagentOrchestrator[];
+    let stepTwoPasses: boolean;
+
+    // Step 2 fails verification until `stepTwoPasses` is set
+    function createOrchestrator(delayMs: number = 0) {
+        const backend = new ScriptedBackend((options: AgentRunOptions) => {
+            if (options.prompt.includes('The Verifier')) {
+                const failing = options.prompt.includes('implementation of step 2') && !stepTwoPasses;
+                return { ...textRun(failing ? 'FAIL: test suite is red' : 'PASS'), delayMs };
+            }
+            return { ...textRun('Implemented'), delayMs };
+        });
+        const orchestrator = createTestOrchestrator(backend, workspace);
+        orchestrator.setPlanStore(store);
+        orchestrators.push(orchestrator);
+        return { orchestrator, backend };
+    }
+
+    const implemented = (backend: ScriptedBackend) =>
+        backend.runs.map(r => r.prompt.match(/Implement step (\d)/)?.[1]).filter(Boolean);
+
+    beforeEach(async () => {
+        workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-persistence-'));
+        store = new PlanStore(workspace);
+        orchestrators = [];
+        stepTwoPasses = false;
+
+        const plan = createTestPlan([
+            { id: 1, action: 'create_file', description: 'Add the parser', status: 'pending', dependencies: [] },
+            { id: 2, action: 'modify_file', description: 'Use the parser', status: 'pending', dependencies: [1] },
+            { id: 3, action: 'run_tests', description: 'Run the tests', status: 'pending', dependencies: [2] }
+        ]);
+        await store.save({ plan, status: 'awaiting_approval', conversationId: 'chat-1', steps: {}, updatedAt: 0 });
+        await createOrchestrator().orchestrator.executePlan(plan, workspace);
+    });
+
+    afterEach(() => {
+        orchestrators.forEach(o => o.dispose());
+        fs.rmSync(workspace, { recursive: true, force: true });
+    });
+
+    it('should save step statuses, responses and attempts', async () => {
+        const record = (await store.load('plan-1'))!;
+
+        expect(record.status).toBe('finished');
+        expect(record.conversationId).toBe('chat-1');
+        expect(record.plan.steps.map(s => s.status)).toEqual(['completed', 'failed', 'skipped']);
+        expect(record.steps[1]).toMatchObject({ attempts: 1, responses: [{ role: 'coder' }, { role: 'verifier' }] });
+        expect(record.steps[2]).toMatchObject({
+            attempts: 3,
+            lastError: 'Verification failed: test suite is red',
+            responses: [{ success: false }]
+        });
+        expect(record.steps[3].responses[0].error).toBe('Skipped because step 2 (modify_file) failed');
+    });
+
+    it('should resume a reloaded plan from its first incomplete step', async () => {
+        stepTwoPasses = true;
+        const { orchestrator, backend } = createOrchestrator();
+        const record = (await store.findResumable())!;
+
+        await orchestrator.executePlan(record.plan, workspace);
+
+        expect(implemented(backend)).toEqual(['2', '3']);
+        expect(record.plan.steps.map(s => s.status)).toEqual(['completed', 'completed', 'completed']);
+        expect(record.plan.steps[2].skipReason).toBeUndefined();
+        expect(await store.findResumable()).toBeUndefined();
+    });
+
+    it('should retry a single failed step', async () => {
+        stepTwoPasses = true;
+        const { orchestrator, backend } = createOrchestrator();
+        const { plan } = (await store.load('plan-1'))!;
+
+        const results = await orchestrator.retryStep(plan, 2, workspace);
+
+        expect(implemented(backend)).toEqual(['2']);
+        expect(results.every(r => r.success)).toBe(true);
+        const record = (await store.load('plan-1'))!;
+        expect(record.plan.steps.map(s => s.status)).toEqual(['completed', 'completed', 'skipped']);
+        expect(record.steps[2].attempts).toBe(1);
+        expect(record.steps[2].lastError).toBeUndefined();
+    });
+
+    it('should stop a cancelled plan and save it as cancelled', async () => {
+        stepTwoPasses = true;
+        const { orchestrator, backend } = createOrchestrator(50);
+        const { plan } = (await store.load('plan-1'))!;
+
+        const execution = orchestrator.executePlan(plan, workspace);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        await orchestrator.cancelPlan('plan-1');
+        const results = await execution;
+
+        expect(backend.runs).toHaveLength(1);
+        expect(results.find(r => r.taskId === 'plan-1-step-2')?.error).toBe('Plan cancelled');
+        const record = (await store.load('plan-1'))!;
+        expect(record.status).toBe('cancelled');
+        expect(record.plan.steps[1].status).toBe('failed');
+    });
+
+    it('should not retry a step whose prerequisites have not completed', async () => {
+        const { orchestrator, backend } = createOrchestrator();
+        const { plan } = (await store.load('plan-1'))!;
+
+        await expect(orchestrator.retryStep(plan, 3, workspace))
+            .rejects.toThrow('Step 3 cannot run before step 2 has completed');
+        await expect(orchestrator.retryStep(plan, 9, workspace)).rejects.toThrow('Plan plan-1 has no step 9');
+        expect(backend.runs).toHaveLength(0);
+    });
+});
@@ -0,0 +1,57 @@
+import { SubagentOrchestrator } from '../SubagentOrchestrator';
+import { ScriptedBackend, textRun } from '../../engine/ScriptedBackend';
+import { collectEvents } from './setup';
+
+/**
+ * Tests for creating plans and repairing invalid planner output.
+ */
+describe('SubagentOrchestrator - Planning', () => {
+    let orchestrator: SubagentOrchestrator;
+
+    const validPlan = JSON.stringify({ steps: [{ action: 'create_file', description: 'Add the parser' }] });
+
+    function createOrchestrator(outputs: string[]) {
+        const backend = new ScriptedBackend(outputs.map(output => textRun(output)));
+        orchestrator = new SubagentOrchestrator('/workspace', backend);
+        return backend;
+    }
+
+    afterEach(() => {
+        orchestrator.dispose();
+    });
+
+    it('should accept a valid plan without repairs', async () => {
+        const backend = createOrchestrator([validPlan]);
+
+        const response = await orchestrator.createPlan({ taskId: 'plan-1', prompt: 'Add a parser' });
+
+        expect(response.plan!.steps).toHaveLength(1);
+        expect(response.planErrors).toBeUndefined();
+        expect(backend.runs).toHaveLength(1);
+    });
+
+    it('should ask the planner to repair invalid output', async () => {
+        const backend = createOrchestrator(['{"steps": [{"action": "create_file"}]}', validPlan]);
+        const repairs = collectEvents(orchestrator, 'plan_repair');
+
+        const response = await orchestrator.createPlan({ taskId: 'plan-1', prompt: 'Add a parser' });
+
+        expect(response.plan!.steps[0].description).toBe('Add the parser');
+        expect(repairs.events).toEqual([
+            { taskId: 'plan-1', attempt: 1, errors: ['steps[0].description must be a non-empty string'] }
+        ]);
+        expect(backend.runs[1].prompt).toContain('Your plan for the request below was rejected:\n- steps[0].description must be a non-empty string');
+        expect(backend.runs[1].prompt).toContain('Request:\nAdd a parser');
+    });
+
+    it('should give up after the repair attempts with the last errors', async () => {
+        const backend = createOrchestrator(['no plan', '{"steps": []}', '{"steps": [1]}']);
+
+        const response = await orchestrator.createPlan({ taskId: 'plan-1', prompt: 'Add a parser' });
+
+        expect(backend.runs).toHaveLength(3);
+        expect(response.plan).toBeUndefined();
+        expect(response.planErrors).toEqual(['steps[0] must be an object']);
+        expect(response.content).toBe('{"steps": [1]}');
+    });
+});
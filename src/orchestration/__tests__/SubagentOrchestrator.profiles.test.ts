@@ -0,0 +1,155 @@
+import { SubagentOrchestrator, PlanStep } from '../SubagentOrchestrator';
+import { RoleProfileRegistry } from '../RoleProfiles';
+import { AgentRunOptions } from '../../engine/AgentBackend';
+import { ScriptedBackend, ScriptedRun, textRun } from '../../engine/ScriptedBackend';
+import { createTestOrchestrator, createTestPlan } from './setup';
+
+/**
+ * Tests for running each role with its configured profile.
+ */
+describe('SubagentOrchestrator - Role profiles', () => {
+    let orchestrator: SubagentOrchestrator;
+    let backend: ScriptedBackend;
+
+    const planSteps: PlanStep[] = [{ id: 1, action: 'create_file', description: 'Add the parser', status: 'pending', dependencies: [] }];
+
+    function createOrchestrator(script: (options: AgentRunOptions) => ScriptedRun) {
+        backend = new ScriptedBackend(script);
+        orchestrator = createTestOrchestrator(backend);
+    }
+
+    const runsOf = (role: string) => backend.runs.filter(r => r.prompt.includes(`You are The ${role}`));
+
+    afterEach(() => {
+        orchestrator.dispose();
+    });
+
+    it('should run each role with its own model and tools', async () => {
+        createOrchestrator(options => textRun(options.prompt.includes('The Verifier') ? 'PASS' : 'Implemented'));
+        orchestrator.setRoleProfiles(new RoleProfileRegistry('claude-sonnet-4-5', {
+            verifier: { model: 'claude-haiku-4-5', allowedTools: ['Read', 'Bash'] }
+        }));
+
+        await orchestrator.executePlan(createTestPlan(planSteps), '/workspace');
+
+        expect(runsOf('Coder').map(r => [r.model, r.tools])).toEqual([['claude-sonnet-4-5', undefined]]);
+        expect(runsOf('Verifier').map(r => [r.model, r.tools])).toEqual([['claude-haiku-4-5', ['Read', 'Bash']]]);
+    });
+
+    it('should replace the system prompt and apply ultrathink per role', async () => {
+        createOrchestrator(() => textRun('{"steps": [{"action": "create_file", "description": "Add it"}]}'));
+        orchestrator.setRoleProfiles(new RoleProfileRegistry('claude-opus-4-5', {
+            planner: { systemPrompt: 'You are a terse planner.', ultrathink: false }
+        }));
+
+        const response = await orchestrator.createPlan({ taskId: 'plan-1', prompt: 'Add a parser' });
+
+        expect(response.plan?.steps).toHaveLength(1);
+        expect(backend.runs[0].prompt).toBe('You are a terse planner.\n\nAdd a parser');
+    });
+
+    it('should time out a run after its role\'s timeout', async () => {
+        createOrchestrator(() => ({ ...textRun('{"steps": []}'), delayMs: 5000 }));
+        orchestrator.setRoleProfiles(new RoleProfileRegistry('claude-opus-4-5', { planner: { timeoutSeconds: 0.05 } }));
+
+        const response = await orchestrator.runAgent({ taskId: 'plan-1', role: 'planner', prompt: 'Add a parser' });
+
+        expect(response).toMatchObject({ success: false, error: 'Process timed out after 0.05 seconds' });
+    });
+
+    it('should retry a step as often as the coder\'s maxRetries allows', async () => {
+        createOrchestrator(options => textRun(options.prompt.includes('The Verifier') ? 'FAIL: broken' : 'Implemented'));
+        orchestrator.setRoleProfiles(new RoleProfileRegistry('claude-opus-4-5', { coder: { maxRetries: 4 } }));
+        const plan = createTestPlan(planSteps);
+
+        const results = await orchestrator.executePlan(plan, '/workspace');
+
+        expect(runsOf('Coder')).toHaveLength(5);
+        expect(results[0].error).toBe('Step exhausted after 5 attempts: Verification failed: broken');
+    });
+
+    it('should hand steps with a custom role to that role', async () => {
+        createOrchestrator(options => textRun(options.prompt.includes('The Verifier') ? 'PASS' : 'Done'));
+        orchestrator.setRoleProfiles(new RoleProfileRegistry('claude-opus-4-5', {
+            'doc-writer': { description: 'Writes user docs', systemPrompt: 'You are The Doc Writer.', model: 'claude-haiku-4-5' }
+        }));
+        const plan = createTestPlan(planSteps);
+        plan.steps.push({ id: 2, action: 'modify_file', description: 'Document the parser', status: 'pending', dependencies: [1], role: 'doc-writer' });
+
+        const results = await orchestrator.executePlan(plan, '/workspace');
+
+        expect(runsOf('Coder').map(r => r.prompt)).toEqual([expect.stringContaining('Implement step 1: create_file')]);
+        expect(runsOf('Doc Writer').map(r => [r.model, r.prompt])).toEqual([
+            ['claude-haiku-4-5', 'You are The Doc Writer.\n\nImplement step 2: modify_file\n\nDescription: Document the parser']
+        ]);
+        expect(results.map(r => r.role)).toEqual(['coder', 'verifier', 'doc-writer', 'verifier']);
+        expect(plan.steps.map(s => s.status)).toEqual(['completed', 'completed']);
+    });
+
+    it('should tell the planner about custom roles and reject steps for unknown roles', async () => {
+        createOrchestrator(() => textRun('{"steps": [{"action": "modify_file", "description": "Audit", "role": "auditor"}]}'));
+        orchestrator.setRoleProfiles(new RoleProfileRegistry('claude-opus-4-5', {
+            'doc-writer': { description: 'Writes user docs', systemPrompt: 'You write docs.' }
+        }));
+
+        const response = await orchestrator.runAgent({ taskId: 'plan-1', role: 'planner', prompt: 'Add a parser' });
+
+        expect(backend.runs[0].prompt).toContain('STEP ROLES:\nSteps go to the coder unless you set "role" on them.');
+        expect(backend.runs[0].prompt).toContain('\n- doc-writer: Writes user docs');
+        expect(response.planErrors).toEqual(['steps[0].role "auditor" is not one of: coder, doc-writer']);
+    });
+
+    it('should fail runs of a role that was never declared', async () => {
+        createOrchestrator(() => textRun('Done'));
+
+        const response = await orchestrator.runAgent({ taskId: 'task-1', role: 'auditor', prompt: 'Audit' });
+
+        expect(response).toMatchObject({ success: false, error: 'Unknown role "auditor"; declare it in .claudeprint/roles.json' });
+        expect(backend.runs).toHaveLength(0);
+    });
+
+    it('should run every agent of a plan under the permission mode it was started with', async () => {
+        createOrchestrator(options => ({ ...textRun(options.prompt.includes('The Verifier') ? 'PASS' : 'Done'), delayMs: 10 }));
+        const plan = createTestPlan(planSteps);
+        plan.steps.push({ id: 2, action: 'modify_file', description: 'Test the parser', status: 'pending', dependencies: [1] });
+
+        const execution = orchestrator.executePlan(plan, '/workspace', [], 'manual');
+        // A chat sent meanwhile in another mode does not reach the plan's runs
+        await orchestrator.runAgent({ taskId: 'task-1', role: 'coder', prompt: 'Quick fix', permissionMode: 'skip' });
+        await execution;
+
+        const modes = backend.runs.map(r => [r.prompt.endsWith('Quick fix'), r.permissionMode]);
+        expect(modes.filter(([chat]) => chat)).toEqual([[true, 'skip']]);
+        expect(modes.filter(([chat]) => !chat)).toEqual(Array(4).fill([false, 'manual']));
+    });
+
+    it('should keep the profiles a plan started with when they change during its execution', async () => {
+        createOrchestrator(options => ({ ...textRun(options.prompt.includes('The Verifier') ? 'PASS' : 'Done'), delayMs: 10 }));
+        orchestrator.setRoleProfiles(new RoleProfileRegistry('claude-sonnet-4-5'));
+        const plan = createTestPlan(planSteps);
+        plan.steps.push({ id: 2, action: 'modify_file', description: 'Test the parser', status: 'pending', dependencies: [1] });
+
+        const execution = orchestrator.executePlan(plan, '/workspace');
+        orchestrator.setRoleProfiles(new RoleProfileRegistry('claude-haiku-4-5'));
+        await execution;
+        await orchestrator.runAgent({ taskId: 'task-1', role: 'coder', prompt: 'Quick fix' });
+
+        expect(backend.runs.map(r => r.model)).toEqual([...Array(4).fill('claude-sonnet-4-5'), 'claude-haiku-4-5']);
+    });
+
+    it('should run an errored verifier again without a new coder attempt', async () => {
+        let verifierRuns = 0;
+        createOrchestrator(options => {
+            if (!options.prompt.includes('The Verifier')) return textRun('Implemented');
+            return ++verifierRuns === 1 ? { stderr: 'overloaded', exitCode: 1 } : textRun('PASS');
+        });
+        orchestrator.setRoleProfiles(new RoleProfileRegistry('claude-opus-4-5', { verifier: { maxRetries: 1 } }));
+        const plan = createTestPlan(planSteps);
+
+        await orchestrator.executePlan(plan, '/workspace');
+
+        expect(runsOf('Coder')).toHaveLength(1);
+        expect(runsOf('Verifier')).toHaveLength(2);
+        expect(plan.steps[0].status).toBe('completed');
+    });
+});
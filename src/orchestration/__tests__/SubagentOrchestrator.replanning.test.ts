@@ -0,0 +1,101 @@
+import { SubagentOrchestrator, PlanStep } from '../SubagentOrchestrator';
+import { ReplanProposal } from '../Replanner';
+import { AgentRunOptions } from '../../engine/AgentBackend';
+import { ScriptedBackend, textRun } from '../../engine/ScriptedBackend';
+import { collectEvents, createTestOrchestrator, createTestPlan } from './setup';
+
+/**
+ * Tests for replanning the rest of a plan after a step fails every attempt.
+ */
+describe('SubagentOrchestrator - Replanning', () => {
+    let orchestrator: SubagentOrchestrator;
+    let backend: ScriptedBackend;
+    let proposals: ReplanProposal[];
+
+    const revisedPlan = JSON.stringify({
+        steps: [
+            { id: 1, action: 'modify_file', description: 'Use the old parser', dependencies: [] },
+            { id: 2, action: 'run_tests', description: 'Run the revised tests', dependencies: [1] }
+        ]
+    });
+
+    const planSteps: PlanStep[] = [
+        { id: 1, action: 'create_file', description: 'Add the parser', status: 'pending', dependencies: [] },
+        { id: 2, action: 'modify_file', description: 'Use the new parser', status: 'pending', dependencies: [1] },
+        { id: 3, action: 'run_tests', description: 'Run the tests', status: 'pending', dependencies: [2] }
+    ];
+
+    // Step 2 never passes verification
+    function createOrchestrator(approve?: boolean) {
+        backend = new ScriptedBackend((options: AgentRunOptions) => {
+            if (options.prompt.includes('A plan is partway through')) return textRun(revisedPlan);
+            if (options.prompt.includes('The Verifier')) {
+                return textRun(options.prompt.includes('implementation of step 2') ? 'FAIL: parser not found' : 'PASS');
+            }
+            return textRun('Implemented');
+        });
+        orchestrator = createTestOrchestrator(backend);
+        proposals = [];
+        if (approve !== undefined) {
+            orchestrator.setReplanHandler(async proposal => {
+                proposals.push(proposal);
+                return approve;
+            });
+        }
+    }
+
+    const implemented = () => backend.runs
+        .filter(r => r.prompt.includes('The Coder'))
+        .map(r => r.prompt.match(/Implement step (\d+)/)![1]);
+
+    afterEach(() => {
+        orchestrator.dispose();
+    });
+
+    it('should replace the remaining steps with an approved revision', async () => {
+        createOrchestrator(true);
+        const revised = collectEvents(orchestrator, 'plan_revised');
+        const plan = createTestPlan(planSteps, { goal: 'Switch to the new parser' });
+
+        await orchestrator.executePlan(plan, '/workspace');
+
+        const replanPrompt = backend.runs.find(r => r.prompt.includes('A plan is partway through'))!.prompt;
+        expect(replanPrompt).toContain('Goal:\nSwitch to the new parser');
+        expect(replanPrompt).toContain('Completed steps:\n- Step 1 (create_file): Add the parser');
+        expect(replanPrompt).toContain('- Step 2 (modify_file): Use the new parser\n  Error: Verification failed: parser not found');
+        expect(replanPrompt).toContain('will be replaced by your plan:\n- Step 3 (run_tests): Run the tests');
+        expect(replanPrompt).toContain('Workspace changes so far:\nNot available.');
+
+        expect(proposals).toHaveLength(1);
+        expect(proposals[0].failed.map(f => f.step.id)).toEqual([2]);
+        expect(proposals[0].replaced.map(s => s.id)).toEqual([3]);
+        expect(proposals[0].steps.map(s => [s.id, s.dependencies])).toEqual([[4, []], [5, [4]]]);
+
+        // Step 3 never ran: the plan halted on step 2
+        expect(implemented()).toEqual(['1', '2', '2', '2', '4', '5']);
+        expect(plan.steps.map(s => [s.id, s.status])).toEqual([[1, 'completed'], [4, 'completed'], [5, 'completed']]);
+        expect(revised.events).toEqual([{ taskId: 'plan-1', plan }]);
+    });
+
+    it('should carry on with the original plan when the revision is declined', async () => {
+        createOrchestrator(false);
+        const plan = createTestPlan(planSteps, { goal: 'Switch to the new parser' });
+
+        await orchestrator.executePlan(plan, '/workspace');
+
+        expect(proposals).toHaveLength(1);
+        expect(implemented()).toEqual(['1', '2', '2', '2']);
+        expect(plan.steps.map(s => s.status)).toEqual(['completed', 'failed', 'skipped']);
+        expect(plan.steps[2].skipReason).toBe('Skipped because step 2 (modify_file) failed');
+    });
+
+    it('should not replan without a replan handler', async () => {
+        createOrchestrator();
+        const plan = createTestPlan(planSteps, { goal: 'Switch to the new parser' });
+
+        await orchestrator.executePlan(plan, '/workspace');
+
+        expect(backend.runs.some(r => r.prompt.includes('A plan is partway through'))).toBe(false);
+        expect(plan.steps.map(s => s.status)).toEqual(['completed', 'failed', 'skipped']);
+    });
+});
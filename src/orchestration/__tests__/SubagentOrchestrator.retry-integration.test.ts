@@ -31,14 +31,8 @@ describe('SubagentOrchestrator - Retry Flow Integration', () => {
         orchestrator = new SubagentOrchestrator('C:\\test\\workspace');
         mockSpawn = spawn as jest.MockedFunction<typeof spawn>;
 
-        // Patch RetryExecutor to use shorter delays for testing
-        const retryExecutor = (orchestrator as any).retryExecutor;
-        const originalCalculateDelay = retryExecutor.calculateDelay.bind(retryExecutor);
-        retryExecutor.calculateDelay = function(attempt: number, policy: any) {
-            // Use 10ms base delay instead of 1000ms for faster tests
-            const testPolicy = { ...policy, baseDelayMs: 10, maxDelayMs: 100, jitter: false };
-            return originalCalculateDelay(attempt, testPolicy);
-        };
+        // Use 10ms base delay instead of 1000ms for faster tests
+        orchestrator.setRetryDelay(10, 100);
     });
 
     afterEach(() => {
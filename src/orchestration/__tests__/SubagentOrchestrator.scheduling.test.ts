@@ -0,0 +1,68 @@
+import { SubagentOrchestrator, PlanStep } from '../SubagentOrchestrator';
+import { ScriptedBackend, textRun } from '../../engine/ScriptedBackend';
+import { createTestOrchestrator, createTestPlan } from './setup';
+
+/**
+ * Tests for dependency-aware plan execution in SubagentOrchestrator.
+ */
+describe('SubagentOrchestrator - Scheduling', () => {
+    let orchestrator: SubagentOrchestrator;
+
+    const planSteps: PlanStep[] = [
+        { id: 1, action: 'modify_file', description: 'Rename in package a', status: 'pending', dependencies: [], files: ['packages/a/index.ts'] },
+        { id: 2, action: 'modify_file', description: 'Rename in package b', status: 'pending', dependencies: [], files: ['packages/b/index.ts'] },
+        { id: 3, action: 'run_tests', description: 'Run all tests', status: 'pending', dependencies: [1, 2] }
+    ];
+
+    afterEach(() => {
+        orchestrator.dispose();
+    });
+
+    it('should run independent steps side by side and return responses in plan order', async () => {
+        const backend = new ScriptedBackend((options) => {
+            if (options.prompt.includes('The Verifier')) {
+                return textRun('PASS');
+            }
+            // Package a takes longer than package b
+            return { ...textRun(`Done: ${options.prompt.match(/Description: (.*)/)![1]}`), delayMs: options.prompt.includes('package a') ? 30 : 0 };
+        });
+        orchestrator = createTestOrchestrator(backend);
+        const plan = createTestPlan(planSteps);
+
+        const results = await orchestrator.executePlan(plan, '/workspace');
+
+        const coderPrompts = backend.runs.filter(r => r.prompt.includes('The Coder')).map(r => r.prompt.match(/Implement step (\d)/)![1]);
+        expect(coderPrompts).toEqual(['1', '2', '3']);
+        expect(results.map(r => r.taskId)).toEqual([
+            'plan-1-step-1', 'plan-1-verify-1',
+            'plan-1-step-2', 'plan-1-verify-2',
+            'plan-1-step-3', 'plan-1-verify-3'
+        ]);
+        expect(plan.steps.every(s => s.status === 'completed')).toBe(true);
+    });
+
+    it('should skip steps that depend on a failed step', async () => {
+        const backend = new ScriptedBackend((options) => {
+            if (options.prompt.includes('The Verifier')) {
+                return textRun(options.prompt.includes('step 1') ? 'FAIL: missing export' : 'PASS');
+            }
+            return textRun('Implemented');
+        });
+        orchestrator = createTestOrchestrator(backend);
+        const steps: any[] = [];
+        orchestrator.on('step', ({ step }) => steps.push({ id: step.id, status: step.status }));
+        const plan = createTestPlan(planSteps);
+
+        const results = await orchestrator.executePlan(plan, '/workspace');
+
+        expect(plan.steps.map(s => s.status)).toEqual(['failed', 'completed', 'skipped']);
+        expect(plan.steps[2].skipReason).toBe('Skipped because step 1 (modify_file) failed');
+        expect(results[results.length - 1]).toMatchObject({
+            taskId: 'plan-1-step-3',
+            success: false,
+            error: 'Skipped because step 1 (modify_file) failed'
+        });
+        expect(steps).toContainEqual({ id: 3, status: 'skipped' });
+        expect(backend.runs.some(r => r.prompt.includes('Implement step 3'))).toBe(false);
+    });
+});
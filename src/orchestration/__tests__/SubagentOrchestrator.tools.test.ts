@@ -0,0 +1,115 @@
+import { SubagentOrchestrator, AgentPlan } from '../SubagentOrchestrator';
+import { ScriptedBackend, textRun } from '../../engine/ScriptedBackend';
+import { collectEvents, createReplayBackend } from './setup';
+
+/**
+ * Tests for per-task tool tracking in SubagentOrchestrator.
+ *
+ * Uses the recorded coder session, which runs Glob and Write successfully
+ * and then a failing Bash type-check.
+ */
+describe('SubagentOrchestrator - Tool Tracking', () => {
+    let orchestrator: SubagentOrchestrator;
+
+    afterEach(() => {
+        orchestrator.dispose();
+    });
+
+    it('should record the tool history of a task', async () => {
+        orchestrator = new SubagentOrchestrator('/workspace', createReplayBackend(['coder-tools-session']));
+
+        await orchestrator.runAgent({ taskId: 'task-1', role: 'coder', prompt: 'Add slugify' });
+
+        const history = orchestrator.getToolHistory('task-1');
+        expect(history.map(t => t.toolName)).toEqual(['Glob', 'Write', 'Bash']);
+        expect(history.map(t => t.status)).toEqual(['success', 'success', 'error']);
+        expect(history[1].toolInput).toMatchObject({ file_path: '/workspace/src/utils/slugify.ts' });
+    });
+
+    it('should report statistics per task', async () => {
+        orchestrator = new SubagentOrchestrator('/workspace', createReplayBackend(['coder-tools-session']));
+
+        await orchestrator.runAgent({ taskId: 'task-1', role: 'coder', prompt: 'Add slugify' });
+
+        expect(orchestrator.getToolStatistics('task-1')).toMatchObject({
+            totalInvocations: 3,
+            successCount: 2,
+            errorCount: 1
+        });
+        expect(orchestrator.getToolStatistics('other-task')).toBeUndefined();
+        expect(orchestrator.getToolHistory('other-task')).toEqual([]);
+    });
+
+    it('should tag forwarded tool events with taskId and role', async () => {
+        orchestrator = new SubagentOrchestrator('/workspace', createReplayBackend(['coder-tools-session']));
+        const invoked = collectEvents(orchestrator, 'tool_invoked');
+        const errors = collectEvents(orchestrator, 'tool_error');
+        const statistics = collectEvents(orchestrator, 'tool_statistics');
+
+        await orchestrator.runAgent({ taskId: 'task-1', role: 'coder', prompt: 'Add slugify' });
+
+        expect(invoked.events.map(e => e.toolName)).toEqual(['Glob', 'Write', 'Bash']);
+        expect(invoked.events.every(e => e.taskId === 'task-1' && e.role === 'coder')).toBe(true);
+        expect(errors.events).toEqual([
+            expect.objectContaining({ taskId: 'task-1', role: 'coder', toolName: 'Bash' })
+        ]);
+        expect(statistics.events[statistics.events.length - 1].statistics.totalInvocations).toBe(3);
+    });
+
+    it('should keep tool histories of plan steps apart', async () => {
+        const backend = new ScriptedBackend((options) => {
+            if (options.prompt.includes('The Verifier')) {
+                return textRun('PASS');
+            }
+            return {
+                events: [{
+                    type: 'assistant',
+                    message: { content: [{ type: 'tool_use', id: `toolu_${options.prompt.length}`, name: 'Edit', input: {} }] }
+                }]
+            };
+        });
+        orchestrator = new SubagentOrchestrator('/workspace', backend);
+        const plan: AgentPlan = {
+            taskId: 'plan-1',
+            steps: [
+                { id: 1, action: 'modify_file', description: 'Change a', status: 'pending' },
+                { id: 2, action: 'modify_file', description: 'Change bb', status: 'pending' }
+            ],
+            createdAt: Date.now()
+        };
+
+        await orchestrator.executePlan(plan, '/workspace');
+
+        expect(orchestrator.getToolHistory('plan-1-step-1')).toHaveLength(1);
+        expect(orchestrator.getToolHistory('plan-1-step-2')).toHaveLength(1);
+        expect(orchestrator.getToolHistory('plan-1-verify-1')).toEqual([]);
+    });
+
+    it('should tag each run\'s tool events with its own role and stop forwarding when it ends', async () => {
+        const editRun = (id: string) => ({
+            events: [{ type: 'assistant', message: { content: [{ type: 'tool_use', id, name: 'Edit', input: {} }] } }]
+        });
+        orchestrator = new SubagentOrchestrator('/workspace', new ScriptedBackend(options => editRun(`toolu_${options.prompt.length}`)));
+        const invoked = collectEvents(orchestrator, 'tool_invoked');
+
+        await orchestrator.runAgent({ taskId: 'task-1', role: 'coder', prompt: 'Change a' });
+        await orchestrator.runAgent({ taskId: 'task-1', role: 'verifier', prompt: 'Check it' });
+
+        expect(invoked.events.map(e => [e.taskId, e.role])).toEqual([['task-1', 'coder'], ['task-1', 'verifier']]);
+        expect(orchestrator.getToolHistory('task-1')).toHaveLength(2);
+        const handler = (orchestrator as any).toolHandlers.get('task-1');
+        expect(handler.listenerCount('tool_invoked') + handler.listenerCount('statistics_updated')).toBe(0);
+    });
+
+    it('should keep the tool histories of the latest 100 tasks only', async () => {
+        orchestrator = new SubagentOrchestrator('/workspace', new ScriptedBackend(() => textRun('Done')));
+
+        for (let i = 0; i <= 100; i++) {
+            await orchestrator.runAgent({ taskId: `task-${i}`, role: 'coder', prompt: 'Work' });
+        }
+
+        expect((orchestrator as any).toolHandlers.size).toBe(100);
+        expect((orchestrator as any).toolHandlers.has('task-0')).toBe(false);
+        expect((orchestrator as any).toolHandlers.has('task-100')).toBe(true);
+    });
+});
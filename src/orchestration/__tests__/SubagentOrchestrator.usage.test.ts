@@ -0,0 +1,106 @@
+import { SubagentOrchestrator, AgentPlan } from '../SubagentOrchestrator';
+import { ScriptedBackend, ScriptedRun } from '../../engine/ScriptedBackend';
+import { collectEvents } from './setup';
+
+/**
+ * Tests for usage rollups and plan budgets in SubagentOrchestrator.
+ */
+describe('SubagentOrchestrator - Usage', () => {
+    let orchestrator: SubagentOrchestrator;
+
+    function costedRun(text: string, costUsd: number): ScriptedRun {
+        return {
+            events: [
+                { type: 'assistant', message: { content: [{ type: 'text', text }] } },
+                {
+                    type: 'result',
+                    subtype: 'success',
+                    is_error: false,
+                    result: text,
+                    total_cost_usd: costUsd,
+                    usage: { input_tokens: 1000, output_tokens: 200 }
+                }
+            ]
+        };
+    }
+
+    // Every coder and verifier run costs $0.10
+    function createBackend() {
+        return new ScriptedBackend((options) =>
+            costedRun(options.prompt.includes('The Verifier') ? 'PASS' : 'Implemented', 0.1)
+        );
+    }
+
+    function createPlan(stepCount: number): AgentPlan {
+        return {
+            taskId: 'plan-1',
+            steps: Array.from({ length: stepCount }, (_, i) => ({
+                id: i + 1,
+                action: 'modify_file',
+                description: `Change ${i + 1}`,
+                status: 'pending' as const
+            })),
+            createdAt: Date.now()
+        };
+    }
+
+    afterEach(() => {
+        orchestrator.dispose();
+    });
+
+    it('should return and record the usage of a run', async () => {
+        orchestrator = new SubagentOrchestrator('/workspace', new ScriptedBackend([costedRun('done', 0.25)]));
+
+        const response = await orchestrator.runAgent({
+            taskId: 'swarm-1-agent-0',
+            role: 'coder',
+            prompt: 'Analyze',
+            usageScopes: ['swarm:swarm-1']
+        });
+
+        expect(response.usage).toMatchObject({ inputTokens: 1000, outputTokens: 200, costUsd: 0.25, runs: 1 });
+        expect(orchestrator.usage.getTotals('task:swarm-1-agent-0').costUsd).toBe(0.25);
+        expect(orchestrator.usage.getTotals('swarm:swarm-1').costUsd).toBe(0.25);
+    });
+
+    it('should roll plan execution up per step and per plan', async () => {
+        orchestrator = new SubagentOrchestrator('/workspace', createBackend());
+
+        await orchestrator.executePlan(createPlan(2), '/workspace', ['session:chat-1']);
+
+        expect(orchestrator.usage.getTotals('step:plan-1-step-1')).toMatchObject({ inputTokens: 2000, runs: 2 });
+        expect(orchestrator.usage.getTotals('plan:plan-1')).toMatchObject({ outputTokens: 800, runs: 4 });
+        expect(orchestrator.usage.getTotals('session:chat-1').runs).toBe(4);
+    });
+
+    it('should halt a plan once it has spent its budget', async () => {
+        const backend = createBackend();
+        orchestrator = new SubagentOrchestrator('/workspace', backend);
+        orchestrator.setPlanBudget(0.25);
+        const exceeded = collectEvents(orchestrator, 'budget_exceeded');
+        const plan = createPlan(3);
+
+        const results = await orchestrator.executePlan(plan, '/workspace');
+
+        // Step 1 spends $0.20; step 2 stops after its coder run reaches $0.30
+        expect(backend.runs).toHaveLength(3);
+        expect(plan.steps.map(s => s.status)).toEqual(['completed', 'failed', 'pending']);
+        expect(results[results.length - 1]).toMatchObject({ success: false, error: 'Plan budget of $0.25 exceeded' });
+        expect(exceeded.events).toHaveLength(1);
+        expect(exceeded.events[0]).toMatchObject({ taskId: 'plan-1', stepId: 2, limitUsd: 0.25 });
+        expect(exceeded.events[0].spentUsd).toBeCloseTo(0.3);
+    });
+
+    it('should count only the current execution against the budget', async () => {
+        orchestrator = new SubagentOrchestrator('/workspace', createBackend());
+        orchestrator.setPlanBudget(0.5);
+        const exceeded = collectEvents(orchestrator, 'budget_exceeded');
+
+        await orchestrator.executePlan(createPlan(2), '/workspace');
+        const plan = createPlan(2);
+        await orchestrator.executePlan(plan, '/workspace');
+
+        expect(plan.steps.every(s => s.status === 'completed')).toBe(true);
+        expect(exceeded.events).toEqual([]);
+    });
+});
@@ -0,0 +1,120 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SubagentOrchestrator, PlanStep } from '../SubagentOrchestrator';
+import { VerificationGateRunner } from '../VerificationGates';
+import { ScriptedBackend, textRun } from '../../engine/ScriptedBackend';
+import { createTestOrchestrator, createTestPlan } from './setup';
+
+/**
+ * Tests for how verifier verdicts decide and drive step retries.
+ */
+describe('SubagentOrchestrator - Verification', () => {
+    let orchestrator: SubagentOrchestrator;
+
+    const failing = JSON.stringify({
+        verdict: 'FAIL',
+        findings: [{ category: 'correctness', severity: 'critical', message: 'parse() throws on empty input', file: 'src/parser.ts', line: 12 }],
+        reviewerNotes: '1 of 3 tests fails'
+    });
+
+    const planSteps: PlanStep[] = [{ id: 1, action: 'create_file', description: 'Add the parser', status: 'pending', dependencies: [] }];
+
+    function createOrchestrator(verdicts: string[]) {
+        const backend = new ScriptedBackend((options) =>
+            textRun(options.prompt.includes('The Verifier') ? verdicts.shift()! : 'Implemented')
+        );
+        orchestrator = createTestOrchestrator(backend);
+        return backend;
+    }
+
+    afterEach(() => {
+        orchestrator.dispose();
+    });
+
+    it('should feed the findings of a failed verification to the next coder attempt', async () => {
+        const backend = createOrchestrator([failing, '```json\n{"verdict": "PASS", "findings": []}\n```']);
+        const plan = createTestPlan(planSteps);
+
+        const results = await orchestrator.executePlan(plan, '/workspace');
+
+        const coderPrompts = backend.runs.filter(r => r.prompt.includes('The Coder')).map(r => r.prompt);
+        expect(coderPrompts).toHaveLength(2);
+        expect(coderPrompts[0]).not.toContain('FIX THIS ERROR');
+        expect(coderPrompts[1]).toContain(
+            'FIX THIS ERROR: Verification failed: 1 of 3 tests fails\n' +
+            '- [critical correctness] src/parser.ts:12 parse() throws on empty input'
+        );
+        expect(plan.steps[0].status).toBe('completed');
+        expect(results[1].verdict).toEqual({ verdict: 'PASS', findings: [], reviewerNotes: '' });
+    });
+
+    it('should not pass a step whose verifier only mentions PASS', async () => {
+        createOrchestrator(['The code does not PASS the linter.', 'does not PASS', 'does not PASS']);
+        const plan = createTestPlan(planSteps);
+
+        const results = await orchestrator.executePlan(plan, '/workspace');
+
+        expect(plan.steps[0].status).toBe('failed');
+        expect(results[0].error).toContain('The verifier did not return a PASS or FAIL verdict');
+    });
+
+    it('should run verification gates before the verifier and retry on their failures', async () => {
+        const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-gates-'));
+        try {
+            // The first coder attempt leaves a type error behind
+            let attempt = 0;
+            const backend = new ScriptedBackend((options) => {
+                if (options.prompt.includes('The Verifier')) return textRun('PASS');
+                fs.writeFileSync(path.join(options.cwd, 'status.txt'), ++attempt === 1 ? 'broken' : 'ok');
+                return textRun('Implemented');
+            });
+            orchestrator = createTestOrchestrator(backend, workspace);
+            const check = 'const ok = require(\'fs\').readFileSync(\'status.txt\', \'utf-8\') === \'ok\'; ' +
+                'if (!ok) { console.log(\'src/parser.ts(4,2): error TS2304: Cannot find name x.\'); process.exit(1); }';
+            orchestrator.setVerificationGates(new VerificationGateRunner([{ name: 'typecheck', command: `node -e "${check}"` }]));
+            const verifications: any[] = [];
+            orchestrator.on('step', ({ step }) => step.verification && verifications.push(structuredClone(step.verification)));
+            const plan = createTestPlan(planSteps);
+
+            await orchestrator.executePlan(plan, workspace);
+
+            const prompts = backend.runs.map(r => r.prompt);
+            expect(prompts.filter(p => p.includes('The Verifier'))).toHaveLength(1);
+            expect(prompts.filter(p => p.includes('The Verifier'))[0]).toContain('These verification commands already passed:\n- typecheck:');
+            const retry = prompts.filter(p => p.includes('The Coder'))[1];
+            expect(retry).toContain('FIX THIS ERROR: Verification gate "typecheck" failed:');
+            expect(retry).toContain('- [major correctness] src/parser.ts:4 TS2304: Cannot find name x.');
+
+            expect(verifications[0].gates[0]).toMatchObject({ name: 'typecheck', passed: false, exitCode: 1 });
+            expect(verifications[0].verdict).toBeUndefined();
+            expect(plan.steps[0].status).toBe('completed');
+            expect(plan.steps[0].verification!.gates[0].passed).toBe(true);
+            expect(plan.steps[0].verification!.verdict!.verdict).toBe('PASS');
+        } finally {
+            fs.rmSync(workspace, { recursive: true, force: true });
+        }
+    });
+
+    it('should pass the planner\'s absolute step files to gates relative to the workspace', async () => {
+        const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-gates-'));
+        try {
+            const backend = new ScriptedBackend((options) => textRun(options.prompt.includes('The Verifier') ? 'PASS' : 'Implemented'));
+            orchestrator = createTestOrchestrator(backend, workspace);
+            orchestrator.setVerificationGates(new VerificationGateRunner([
+                { name: 'related', command: 'node -e "console.log(process.argv.slice(1).join(\'|\'))" {files}' }
+            ]));
+            const plan = createTestPlan([{
+                ...planSteps[0],
+                files: [path.join(workspace, 'src', 'parser.ts'), path.join(workspace, 'README.md')]
+            }]);
+
+            await orchestrator.executePlan(plan, workspace);
+
+            expect(plan.steps[0].status).toBe('completed');
+            expect(plan.steps[0].verification!.gates[0]).toMatchObject({ passed: true, output: `${path.join('src', 'parser.ts')}|README.md` });
+        } finally {
+            fs.rmSync(workspace, { recursive: true, force: true });
+        }
+    });
+});
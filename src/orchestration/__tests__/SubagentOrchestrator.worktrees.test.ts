@@ -0,0 +1,126 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SubagentOrchestrator } from '../SubagentOrchestrator';
+import { GitWorktreeManager } from '../../git/GitWorktreeManager';
+import { AgentRunOptions } from '../../engine/AgentBackend';
+import { ScriptedBackend, textRun } from '../../engine/ScriptedBackend';
+import { collectEvents, createTestOrchestrator, createTestPlan } from './setup';
+
+/**
+ * Tests for running plan steps in their own worktrees and merging them back.
+ */
+describe('SubagentOrchestrator - Worktrees', () => {
+    let repo: string;
+    let orchestrator: SubagentOrchestrator;
+
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf-8' }).trim();
+
+    // Coders write the file named in their step description, relative to their working directory
+    function createBackend() {
+        return new ScriptedBackend((options: AgentRunOptions) => {
+            if (options.prompt.includes('The Verifier')) {
+                return textRun('PASS');
+            }
+            const [, file, content] = options.prompt.match(/Description: write (\S+) = (.*)/)!;
+            fs.writeFileSync(path.resolve(options.cwd, file), `${content}\n`);
+            // Later steps take longer, so merges happen in step order
+            return { ...textRun(`Wrote ${file}`), delayMs: content.includes('step 2') ? 20 : 0 };
+        });
+    }
+
+    beforeEach(async () => {
+        repo = fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-worktrees-'));
+        git('init', '-q', '-b', 'main');
+        git('config', 'user.email', 'test@example.com');
+        git('config', 'user.name', 'Test');
+        fs.writeFileSync(path.join(repo, 'shared.txt'), 'base\n');
+        fs.writeFileSync(path.join(repo, '.gitignore'), '.worktrees/\n');
+        git('add', '-A');
+        git('commit', '-q', '-m', 'initial');
+
+        const manager = new GitWorktreeManager({ rootDir: repo });
+        await manager.initialize();
+        orchestrator = createTestOrchestrator(createBackend(), repo);
+        orchestrator.setWorktreeManager(manager);
+    });
+
+    afterEach(() => {
+        orchestrator.dispose();
+        fs.rmSync(repo, { recursive: true, force: true });
+    });
+
+    it('should run steps in worktrees and merge each one back', async () => {
+        const backend = (orchestrator as any).backend as ScriptedBackend;
+        const plan = createTestPlan([
+            { id: 1, action: 'create_file', description: 'write a.txt = alpha', status: 'pending', dependencies: [] },
+            { id: 2, action: 'create_file', description: 'write b.txt = beta', status: 'pending', dependencies: [] }
+        ]);
+        const merged = collectEvents(orchestrator, 'step_merged');
+
+        await orchestrator.executePlan(plan, repo);
+
+        expect(plan.steps.map(s => s.status)).toEqual(['completed', 'completed']);
+        expect(backend.runs.every(r => r.cwd.includes(`${path.sep}.worktrees${path.sep}plan-1-step-`))).toBe(true);
+        expect(fs.readFileSync(path.join(repo, 'a.txt'), 'utf-8')).toBe('alpha\n');
+        expect(fs.readFileSync(path.join(repo, 'b.txt'), 'utf-8')).toBe('beta\n');
+        expect(git('log', '--format=%s').split('\n')).toHaveLength(3);
+        expect(merged.events).toHaveLength(2);
+        expect(fs.readdirSync(path.join(repo, '.worktrees'))).toEqual([]);
+    });
+
+    it('should fail a conflicting step and keep its branch', async () => {
+        const plan = createTestPlan([
+            { id: 1, action: 'modify_file', description: 'write shared.txt = from step 1', status: 'pending', dependencies: [] },
+            { id: 2, action: 'modify_file', description: 'write shared.txt = from step 2', status: 'pending', dependencies: [] },
+            { id: 3, action: 'run_tests', description: 'write done.txt = yes', status: 'pending', dependencies: [2] }
+        ]);
+        // No shared `files` are declared, so both steps start from the same HEAD
+        const conflicts = collectEvents(orchestrator, 'merge_conflict');
+
+        const results = await orchestrator.executePlan(plan, repo);
+
+        expect(plan.steps.map(s => s.status)).toEqual(['completed', 'failed', 'skipped']);
+        expect(conflicts.events).toEqual([expect.objectContaining({
+            stepId: 2,
+            reason: 'conflict',
+            conflicts: ['shared.txt'],
+            branch: 'task/plan-1-step-2'
+        })]);
+        expect(results.find(r => r.taskId === 'plan-1-step-2' && !r.success)?.error)
+            .toBe('Merge conflict in shared.txt; the changes are kept on branch task/plan-1-step-2');
+        expect(fs.readFileSync(path.join(repo, 'shared.txt'), 'utf-8')).toBe('from step 1\n');
+        expect(git('branch', '--list', 'task/plan-1-step-2')).toContain('task/plan-1-step-2');
+    });
+
+    it('should point the planner\'s absolute workspace paths at the step\'s worktree', async () => {
+        const backend = (orchestrator as any).backend as ScriptedBackend;
+        const file = path.join(repo, 'a.txt');
+        const plan = createTestPlan([{ id: 1, action: 'create_file', description: `write ${file} = alpha`, status: 'pending', dependencies: [], files: [file] }]);
+
+        await orchestrator.executePlan(plan, repo);
+
+        const worktree = path.join(repo, '.worktrees', 'plan-1-step-1');
+        expect(backend.runs.map(r => r.prompt)).toEqual([
+            expect.stringContaining(`Description: write ${path.join(worktree, 'a.txt')} = alpha\n\nWorking directory: ${worktree}\n`),
+            expect.stringContaining(`Working directory: ${worktree}\n`)
+        ]);
+        expect(plan.steps[0].status).toBe('completed');
+        expect(fs.readFileSync(file, 'utf-8')).toBe('alpha\n');
+        expect(git('status', '--porcelain')).toBe('');
+        expect(git('log', '--format=%s').split('\n')).toHaveLength(2);
+    });
+
+    it('should refuse to start steps while the workspace has uncommitted changes', async () => {
+        const backend = (orchestrator as any).backend as ScriptedBackend;
+        const plan = createTestPlan([{ id: 1, action: 'create_file', description: 'write a.txt = alpha', status: 'pending', dependencies: [] }]);
+        fs.writeFileSync(path.join(repo, 'shared.txt'), 'unsaved user edit\n');
+
+        await expect(orchestrator.executePlan(plan, repo)).rejects.toThrow('The workspace has uncommitted changes');
+        await expect(orchestrator.retryStep(plan, 1, repo)).rejects.toThrow('The workspace has uncommitted changes');
+
+        expect(backend.runs).toHaveLength(0);
+        expect(plan.steps[0].status).toBe('pending');
+    });
+});
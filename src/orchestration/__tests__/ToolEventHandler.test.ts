@@ -747,7 +747,8 @@ describe('ToolEventHandler', () => {
             expect(event).toEqual({
                 toolId: 'tool_1',
                 toolName: 'Read',
-                error: 'File not found'
+                error: 'File not found',
+                duration: expect.any(Number)
             });
         });
 
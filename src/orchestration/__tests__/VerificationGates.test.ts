@@ -0,0 +1,141 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    VerificationGateRunner,
+    describeGateFailures,
+    parseGateFailures,
+    resolveVerificationGates
+} from '../VerificationGates';
+
+describe('VerificationGates', () => {
+    describe('resolveVerificationGates', () => {
+        it('should read verify.* preferences and let overrides replace or drop them', () => {
+            const gates = resolveVerificationGates(
+                { 'verify.test': 'npm test -- --findRelatedTests {files}', 'verify.lint': 'npx eslint .', 'indent': '4 spaces' },
+                { lint: '', Typecheck: 'npx tsc --noEmit' }
+            );
+
+            expect(gates).toEqual([
+                { name: 'test', command: 'npm test -- --findRelatedTests {files}' },
+                { name: 'typecheck', command: 'npx tsc --noEmit' }
+            ]);
+        });
+    });
+
+    describe('parseGateFailures', () => {
+        it('should read TypeScript diagnostics', () => {
+            expect(parseGateFailures("src/a.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.")).toEqual([{
+                category: 'correctness',
+                severity: 'major',
+                message: "TS2322: Type 'string' is not assignable to type 'number'.",
+                file: 'src/a.ts',
+                line: 3
+            }]);
+        });
+
+        it('should read ESLint stylish output', () => {
+            const output = [
+                '/repo/src/a.ts',
+                "  1:10  error    'x' is defined but never used  @typescript-eslint/no-unused-vars",
+                '  4:1   warning  Unexpected console statement   no-console',
+                '',
+                '✖ 2 problems (1 error, 1 warning)'
+            ].join('\n');
+
+            expect(parseGateFailures(output)).toEqual([
+                { category: 'style', severity: 'major', message: "'x' is defined but never used (@typescript-eslint/no-unused-vars)", file: '/repo/src/a.ts', line: 1 },
+                { category: 'style', severity: 'minor', message: 'Unexpected console statement (no-console)', file: '/repo/src/a.ts', line: 4 }
+            ]);
+        });
+
+        it('should read failed Jest tests once and file:line errors', () => {
+            const output = [
+                'FAIL src/parser.test.ts',
+                '  ● Parser › should parse empty input',
+                '    expect(received).toBe(expected)',
+                'Summary of all failing tests',
+                '  ● Parser › should parse empty input',
+                'src/main.c:12:5: error: expected ;'
+            ].join('\n');
+
+            expect(parseGateFailures(output)).toEqual([
+                { category: 'correctness', severity: 'critical', message: 'Test failed: Parser › should parse empty input' },
+                { category: 'correctness', severity: 'major', message: 'expected ;', file: 'src/main.c', line: 12 }
+            ]);
+        });
+    });
+
+    describe('VerificationGateRunner', () => {
+        let workspace: string;
+
+        beforeEach(() => {
+            workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'verification-gates-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(workspace, { recursive: true, force: true });
+        });
+
+        it('should run each gate in the working directory and report exit codes', async () => {
+            fs.writeFileSync(path.join(workspace, 'marker.txt'), 'x');
+            const runner = new VerificationGateRunner([
+                { name: 'exists', command: 'node -e "require(\'fs\').accessSync(\'marker.txt\')"' },
+                { name: 'typecheck', command: 'node -e "console.log(\'src/a.ts(1,1): error TS1005: oops\'); process.exit(2)"' }
+            ]);
+
+            const [exists, typecheck] = await runner.run(workspace);
+
+            expect(exists).toMatchObject({ name: 'exists', passed: true, exitCode: 0, failures: [] });
+            expect(typecheck).toMatchObject({
+                passed: false,
+                exitCode: 2,
+                output: 'src/a.ts(1,1): error TS1005: oops',
+                failures: [{ file: 'src/a.ts', line: 1, message: 'TS1005: oops' }]
+            });
+            expect(describeGateFailures([exists, typecheck])).toBe([
+                `Verification gate "typecheck" failed: \`${typecheck.command}\` exited with code 2`,
+                '- [major correctness] src/a.ts:1 TS1005: oops'
+            ].join('\n'));
+        });
+
+        it('should fill in the step\'s files and skip file gates without files', async () => {
+            const runner = new VerificationGateRunner([{ name: 'echo', command: 'node -e "console.log(process.argv.slice(1).join(\'|\'))" {files}' }]);
+
+            expect(await runner.run(workspace)).toEqual([]);
+            const [result] = await runner.run(workspace, ['src/a.ts', 'src/my file.ts']);
+            expect(result.output).toBe('src/a.ts|src/my file.ts');
+        });
+
+        it('should pass files to the shell literally and never as options', async () => {
+            const runner = new VerificationGateRunner([{ name: 'echo', command: 'node -e "console.log(process.argv.slice(1).join(\'|\'))" {files}' }]);
+
+            const [result] = await runner.run(workspace, ['--version', '$(echo pwned).ts', "it's.ts"]);
+
+            expect(result.output).toBe("./--version|$(echo pwned).ts|it's.ts");
+        });
+
+        it('should refuse files outside the working directory without running the gate', async () => {
+            const runner = new VerificationGateRunner([
+                { name: 'echo', command: 'node -e "process.exit(0)" {files}' },
+                { name: 'build', command: 'node -e "process.exit(0)"' }
+            ]);
+
+            for (const file of ['../secrets.env', 'src/../../x.ts', '/etc/passwd', 'C:\\Windows\\win.ini', path.join(workspace, '..', 'x.ts')]) {
+                const [echo, build] = await runner.run(workspace, ['src/a.ts', file]);
+                expect(echo).toMatchObject({ passed: false, exitCode: null, command: 'node -e "process.exit(0)" {files}' });
+                expect(echo.output).toContain('step files must be paths inside the working directory');
+                expect(build.passed).toBe(true);
+            }
+        });
+
+        it('should fail a gate that times out', async () => {
+            const runner = new VerificationGateRunner([{ name: 'slow', command: 'node -e "setTimeout(() => {}, 10000)"' }], 200);
+
+            const [result] = await runner.run(workspace);
+
+            expect(result).toMatchObject({ passed: false, exitCode: null, timedOut: true });
+            expect(describeGateFailures([result])).toContain('timed out');
+        });
+    });
+});
@@ -0,0 +1,93 @@
+import { describeVerdict, parseVerifierVerdict } from '../VerifierVerdict';
+
+describe('VerifierVerdict', () => {
+    describe('parseVerifierVerdict', () => {
+        it('should read a fenced JSON verdict after the verifier\'s notes', () => {
+            const content = [
+                'Ran `npm test`; two tests fail.',
+                '```json',
+                JSON.stringify({
+                    verdict: 'FAIL',
+                    findings: [
+                        { category: 'correctness', severity: 'critical', message: 'parse() throws on empty input', file: 'src/parser.ts', line: 12 },
+                        { category: 'Style', severity: 'MINOR', message: 'Unused import' }
+                    ],
+                    reviewerNotes: '8 of 10 tests pass'
+                }),
+                '```'
+            ].join('\n');
+
+            expect(parseVerifierVerdict(content)).toEqual({
+                verdict: 'FAIL',
+                findings: [
+                    { category: 'correctness', severity: 'critical', message: 'parse() throws on empty input', file: 'src/parser.ts', line: 12 },
+                    { category: 'style', severity: 'minor', message: 'Unused import', file: undefined, line: undefined }
+                ],
+                reviewerNotes: '8 of 10 tests pass'
+            });
+        });
+
+        it('should read a bare JSON verdict and normalize unknown fields', () => {
+            const verdict = parseVerifierVerdict(
+                'Result: {"verdict": "pass", "findings": [{"category": "docs", "severity": "blocker", "message": "Missing README entry", "line": "x"}, {"message": ""}]}'
+            );
+
+            expect(verdict.verdict).toBe('PASS');
+            expect(verdict.findings).toEqual([
+                { category: 'correctness', severity: 'major', message: 'Missing README entry', file: undefined, line: undefined }
+            ]);
+            expect(verdict.reviewerNotes).toBe('');
+        });
+
+        it('should read a bare JSON verdict between braces in the surrounding prose', () => {
+            const verdict = parseVerifierVerdict(
+                'The handler returns `{}` on empty input.\n{"verdict": "FAIL", "reviewerNotes": "Empty input is not an error"}\nSee also `{ strict: true }`.'
+            );
+
+            expect(verdict).toEqual({ verdict: 'FAIL', findings: [], reviewerNotes: 'Empty input is not an error' });
+        });
+
+        it('should fall back to a line that opens with the verdict', () => {
+            expect(parseVerifierVerdict('PASS')).toEqual({ verdict: 'PASS', findings: [], reviewerNotes: '' });
+            expect(parseVerifierVerdict('All good so far.\n**FAIL**: test suite is red')).toMatchObject({
+                verdict: 'FAIL',
+                reviewerNotes: 'test suite is red'
+            });
+            expect(parseVerifierVerdict('Verdict: PASS - all 10 tests pass').verdict).toBe('PASS');
+        });
+
+        it('should not count PASS in the middle of a sentence', () => {
+            expect(parseVerifierVerdict('The build does not PASS.')).toEqual({
+                verdict: 'FAIL',
+                findings: [],
+                reviewerNotes: 'The verifier did not return a PASS or FAIL verdict'
+            });
+            expect(parseVerifierVerdict('Pass the config to the loader').verdict).toBe('FAIL');
+            expect(parseVerifierVerdict('{"verdict": "maybe"}').verdict).toBe('FAIL');
+        });
+    });
+
+    describe('describeVerdict', () => {
+        it('should list the findings under the notes', () => {
+            expect(describeVerdict({
+                verdict: 'FAIL',
+                findings: [
+                    { category: 'correctness', severity: 'critical', message: 'parse() throws on empty input', file: 'src/parser.ts', line: 12 },
+                    { category: 'security', severity: 'major', message: 'Path is not sanitized', file: 'src/io.ts' },
+                    { category: 'style', severity: 'minor', message: 'Unused import' }
+                ],
+                reviewerNotes: '8 of 10 tests pass'
+            })).toBe([
+                'Verification failed: 8 of 10 tests pass',
+                '- [critical correctness] src/parser.ts:12 parse() throws on empty input',
+                '- [major security] src/io.ts Path is not sanitized',
+                '- [minor style] Unused import'
+            ].join('\n'));
+        });
+
+        it('should fall back to a generic summary without notes', () => {
+            expect(describeVerdict({ verdict: 'FAIL', findings: [], reviewerNotes: '' }))
+                .toBe('Verification failed: code does not meet quality standards');
+        });
+    });
+});
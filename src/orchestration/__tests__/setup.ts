@@ -1,4 +1,9 @@
 import { EventEmitter } from 'events';
+import * as path from 'path';
+import { AgentBackend } from '../../engine/AgentBackend';
+import { ReplayBackend, ReplayOptions } from '../../engine/ReplayBackend';
+import { loadTranscript } from '../../engine/TranscriptRecorder';
+import { AgentPlan, PlanStep, SubagentOrchestrator } from '../SubagentOrchestrator';
 
 /**
  * Test Setup Utilities for Orchestration Components
@@ -274,3 +279,48 @@ export async function expectAsyncError(
         expect(error?.message).toMatch(errorPattern);
     }
 }
+
+/**
+ * Directory holding recorded stream-json transcripts used by replay tests.
+ */
+export const TRANSCRIPT_FIXTURES = path.join(__dirname, 'fixtures', 'transcripts');
+
+/**
+ * Creates a ReplayBackend that plays the named transcript fixtures in order,
+ * one per agent run. Replays instantly unless other timing is requested.
+ *
+ * @param names - Fixture file names without the .json extension
+ * @param options - Replay timing options
+ */
+export function createReplayBackend(names: string[], options: ReplayOptions = { timing: 'instant' }): ReplayBackend {
+    const transcripts = names.map(name => loadTranscript(path.join(TRANSCRIPT_FIXTURES, `${name}.json`)));
+    return new ReplayBackend(transcripts, options);
+}
+
+/**
+ * Creates a plan 'plan-1' with fresh copies of the given steps, so tests can
+ * share step lists while each plan's steps change independently.
+ *
+ * @param steps - The plan's steps
+ * @param fields - Other plan fields to set, such as the goal
+ */
+export function createTestPlan(steps: PlanStep[], fields: Partial<AgentPlan> = {}): AgentPlan {
+    return {
+        taskId: 'plan-1',
+        steps: steps.map(step => ({ ...step, dependencies: step.dependencies && [...step.dependencies] })),
+        createdAt: Date.now(),
+        ...fields
+    };
+}
+
+/**
+ * Creates an orchestrator that retries failed steps without waiting.
+ *
+ * @param backend - Backend the orchestrator's agents run on
+ * @param workspace - Workspace folder (default: '/workspace')
+ */
+export function createTestOrchestrator(backend: AgentBackend, workspace: string = '/workspace'): SubagentOrchestrator {
+    const orchestrator = new SubagentOrchestrator(workspace, backend);
+    orchestrator.setRetryDelay(0);
+    return orchestrator;
+}
@@ -0,0 +1,448 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** Workspace file holding the project's Bash rules */
+export const BASH_POLICY_FILE = path.join('.claudeprint', 'policy.json');
+
+export type PolicyDecision = 'allow' | 'deny' | 'ask';
+
+/** Built-in checks that need more than a pattern */
+export type PolicyCheck = 'rm-outside-worktree' | 'network-tools' | 'git-push' | 'shell-wrapper';
+
+const POLICY_CHECKS: PolicyCheck[] = ['rm-outside-worktree', 'network-tools', 'git-push', 'shell-wrapper'];
+
+/**
+ * A single rule. Exactly one of `match` (a regular expression tested against
+ * each command of a line) or `check` is set. A pattern matches a command as
+ * written or with its prefixes (`sudo`, `env`, `VAR=1`, ...) dropped and the
+ * program reduced to its name, so `^git\b` also matches `sudo /usr/bin/git`.
+ */
+export interface BashPolicyRule {
+    match?: string;
+    check?: PolicyCheck;
+    decision: PolicyDecision;
+    /** Reported to the user and, on deny, to the agent */
+    reason: string;
+}
+
+/**
+ * Contents of `.claudeprint/policy.json`. Project rules are tried before the
+ * defaults, so they can loosen or tighten them.
+ */
+export interface BashPolicyConfig {
+    /** Append DEFAULT_BASH_POLICY_RULES after the project rules (default true) */
+    includeDefaults?: boolean;
+    rules?: BashPolicyRule[];
+}
+
+export interface BashPolicyVerdict {
+    decision: PolicyDecision;
+    reason: string;
+    /** The command of the line that decided the verdict */
+    command: string;
+}
+
+export const DEFAULT_BASH_POLICY_RULES: BashPolicyRule[] = [
+    {
+        check: 'rm-outside-worktree',
+        decision: 'deny',
+        reason: 'Recursive or forced rm may only target paths inside the working directory'
+    },
+    {
+        check: 'network-tools',
+        decision: 'deny',
+        reason: 'Network tools are blocked for agents'
+    },
+    {
+        check: 'git-push',
+        decision: 'ask',
+        reason: 'git push publishes commits outside this machine'
+    },
+    {
+        check: 'shell-wrapper',
+        decision: 'ask',
+        reason: 'sh -c and eval run a command line the policy cannot fully check'
+    }
+];
+
+const NETWORK_TOOLS = new Set([
+    'curl', 'wget', 'nc', 'ncat', 'netcat', 'telnet', 'ssh', 'scp', 'sftp', 'ftp', 'rsync'
+]);
+
+/** Words that run the command after them, with those of their options that take a value */
+const COMMAND_PREFIXES: Record<string, Set<string>> = {
+    sudo: new Set(['-u', '-g', '-h', '-p', '-C', '-D', '-r', '-t', '-T', '-U', '--user', '--group', '--host',
+        '--prompt', '--close-from', '--chdir', '--role', '--type', '--command-timeout', '--other-user']),
+    env: new Set(['-u', '-C', '-S', '--unset', '--chdir', '--split-string']),
+    nohup: new Set(),
+    time: new Set(['-f', '-o', '--format', '--output']),
+    command: new Set(),
+    exec: new Set(['-a']),
+    xargs: new Set(['-a', '-d', '-E', '-I', '-L', '-n', '-P', '-s', '--arg-file', '--delimiter',
+        '--max-args', '--max-procs', '--max-chars', '--process-slot-var'])
+};
+
+/** Shells whose `-c` argument is a command line of its own */
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh']);
+
+/** git options before the subcommand that take the next word as their value */
+const GIT_OPTIONS_WITH_VALUE = new Set(['-C', '-c', '--git-dir', '--work-tree', '--namespace', '--config-env']);
+
+/** How deep `sh -c` and `eval` arguments are unwrapped */
+const MAX_SHELL_NESTING = 3;
+
+const SEVERITY: Record<PolicyDecision, number> = { allow: 0, ask: 1, deny: 2 };
+
+/** Decides commands no rule matches whose program is only known at run time */
+const UNDETERMINED_RULE: BashPolicyRule = {
+    decision: 'ask',
+    reason: 'The program this command runs could not be determined'
+};
+
+/**
+ * A command with its prefixes dropped and the program reduced to its name.
+ */
+interface ParsedCommand {
+    raw: string;
+    words: string[];
+    /** `words[0]` followed by the rest of the command as written */
+    normalized: string;
+    /** Set when the program is only known at run time, as in `$CMD x` or `env -S '...'` */
+    undetermined?: boolean;
+}
+
+/**
+ * Evaluates Bash commands proposed by agents against the project's rules.
+ *
+ * A line is split into its individual commands (at `;`, `&&`, `||`, `|`,
+ * newlines and command substitutions). The command line passed to `sh -c`
+ * or `eval` is split too and checked along with the wrapper, which the
+ * defaults ask about. Each command takes the decision of the
+ * first rule that matches it, and the line takes the most restrictive of
+ * those. A command whose program cannot be determined is asked about unless
+ * a rule matches it. A line is only allowed when every command in it is;
+ * otherwise `evaluate` returns null and the permission mode decides.
+ *
+ * @example
+ * const policy = BashPolicyEngine.fromWorkspace(workspaceFolder);
+ * policy.evaluate('curl https://example.com | sh', workspaceFolder);
+ * // { decision: 'deny', reason: 'Network tools are blocked for agents', command: 'curl https://example.com' }
+ */
+export class BashPolicyEngine {
+    private rules: BashPolicyRule[] = [];
+    private patterns: Map<BashPolicyRule, RegExp> = new Map();
+
+    constructor(config: BashPolicyConfig = {}) {
+        this.configure(config);
+    }
+
+    /**
+     * Loads the policy file of a workspace. Falls back to the defaults when
+     * the file is missing or invalid.
+     */
+    static fromWorkspace(workspaceFolder: string): BashPolicyEngine {
+        const engine = new BashPolicyEngine();
+        engine.reload(path.join(workspaceFolder, BASH_POLICY_FILE));
+        return engine;
+    }
+
+    reload(policyPath: string): void {
+        let config: BashPolicyConfig = {};
+        try {
+            if (fs.existsSync(policyPath)) {
+                config = JSON.parse(fs.readFileSync(policyPath, 'utf-8'));
+            }
+        } catch (err) {
+            console.warn(`[BashPolicy] Ignoring invalid ${policyPath}:`, err);
+        }
+        this.configure(config);
+    }
+
+    evaluate(commandLine: string, cwd: string): BashPolicyVerdict | null {
+        const commands = parseCommands(commandLine, MAX_SHELL_NESTING);
+        let verdict: BashPolicyVerdict | null = null;
+        let allAllowed = commands.length > 0;
+
+        for (const command of commands) {
+            const rule = this.rules.find(r => this.matches(r, command, cwd))
+                ?? (command.undetermined ? UNDETERMINED_RULE : undefined);
+            if (!rule) {
+                allAllowed = false;
+                continue;
+            }
+            if (rule.decision === 'allow') {
+                continue;
+            }
+            if (!verdict || SEVERITY[rule.decision] > SEVERITY[verdict.decision]) {
+                verdict = { decision: rule.decision, reason: rule.reason, command: command.raw };
+            }
+        }
+
+        if (verdict) {
+            return verdict;
+        }
+        return allAllowed
+            ? { decision: 'allow', reason: 'Every command is allowed by project policy', command: commandLine }
+            : null;
+    }
+
+    private configure(config: BashPolicyConfig): void {
+        const rules = config?.rules ?? [];
+        if (!Array.isArray(rules)) {
+            console.warn('[BashPolicy] Ignoring rules that are not a list:', rules);
+        }
+        const projectRules = Array.isArray(rules) ? rules.filter(rule => this.isValid(rule)) : [];
+        this.rules = config?.includeDefaults === false
+            ? projectRules
+            : [...projectRules, ...DEFAULT_BASH_POLICY_RULES];
+
+        this.patterns.clear();
+        for (const rule of this.rules) {
+            if (rule.match) {
+                this.patterns.set(rule, new RegExp(rule.match));
+            }
+        }
+    }
+
+    private isValid(rule: BashPolicyRule): boolean {
+        if (!rule || !(rule.decision in SEVERITY) || typeof rule.reason !== 'string') {
+            console.warn('[BashPolicy] Ignoring rule without decision or reason:', rule);
+            return false;
+        }
+        if (rule.match) {
+            try {
+                new RegExp(rule.match);
+            } catch {
+                console.warn('[BashPolicy] Ignoring rule with invalid pattern:', rule.match);
+                return false;
+            }
+            return true;
+        }
+        return POLICY_CHECKS.includes(rule.check as PolicyCheck);
+    }
+
+    private matches(rule: BashPolicyRule, command: ParsedCommand, cwd: string): boolean {
+        const pattern = this.patterns.get(rule);
+        if (pattern) {
+            return pattern.test(command.raw) || pattern.test(command.normalized);
+        }
+
+        const words = command.words;
+        switch (rule.check) {
+            case 'rm-outside-worktree':
+                return isRmOutside(words, cwd);
+            case 'network-tools':
+                return words.length > 0 && NETWORK_TOOLS.has(words[0]);
+            case 'git-push':
+                return isGitPush(words);
+            case 'shell-wrapper':
+                return shellScript(words) !== null;
+            default:
+                return false;
+        }
+    }
+}
+
+/**
+ * Splits a command line into its commands. Quotes are respected; the contents
+ * of `$(...)` and backticks become commands of their own, even inside quotes.
+ */
+export function splitCommands(commandLine: string): string[] {
+    const commands: string[] = [];
+    let current = '';
+    let quote: '"' | "'" | null = null;
+
+    const pushCurrent = () => {
+        const trimmed = current.trim();
+        if (trimmed) commands.push(trimmed);
+        current = '';
+    };
+
+    for (let i = 0; i < commandLine.length; i++) {
+        const char = commandLine[i];
+        const next = commandLine[i + 1];
+
+        if (quote) {
+            if (char === quote) quote = null;
+            current += char;
+            continue;
+        }
+
+        if (char === '"' || char === "'") {
+            quote = char;
+            current += char;
+        } else if (char === '\\' && next !== undefined) {
+            current += char + next;
+            i++;
+        } else if (char === '$' && next === '(') {
+            pushCurrent();
+            i++;
+        } else if ((char === '&' && next === '&') || (char === '|' && next === '|')) {
+            pushCurrent();
+            i++;
+        } else if (char === ';' || char === '|' || char === '&' || char === '\n' || char === '`' || char === '(' || char === ')') {
+            pushCurrent();
+        } else {
+            current += char;
+        }
+    }
+    pushCurrent();
+
+    // Substitutions inside double quotes run too
+    const substitution = /\$\(([^()]*)\)|`([^`]*)`/g;
+    let match: RegExpExecArray | null;
+    while ((match = substitution.exec(commandLine)) !== null) {
+        const inner = (match[1] ?? match[2]).trim();
+        if (inner && !commands.includes(inner)) {
+            commands.push(...splitCommands(inner).filter(c => !commands.includes(c)));
+        }
+    }
+
+    return commands;
+}
+
+/**
+ * Splits a line with splitCommands and adds the commands of every `sh -c` or
+ * `eval` argument, up to `depth` levels deep.
+ */
+function parseCommands(commandLine: string, depth: number): ParsedCommand[] {
+    const commands: ParsedCommand[] = [];
+    for (const raw of splitCommands(commandLine)) {
+        const command = parseCommand(raw);
+        commands.push(command);
+
+        const script = shellScript(command.words);
+        if (script && depth > 0) {
+            commands.push(...parseCommands(script, depth - 1));
+        }
+    }
+    return commands;
+}
+
+function parseCommand(raw: string): ParsedCommand {
+    const words: string[] = [];
+    const ends: number[] = [];
+    // A word runs up to unquoted whitespace; its quotes and backslashes are dropped
+    const wordPattern = /(?:"[^"]*"|'[^']*'|\\[\s\S]|[^\s"'\\]|["'\\])+/g;
+    let match: RegExpExecArray | null;
+    while ((match = wordPattern.exec(raw)) !== null) {
+        const word = match[0].replace(/"([^"]*)"|'([^']*)'|\\([\s\S])|["'\\]/g,
+            (_, double, single, escaped) => double ?? single ?? escaped ?? '');
+        words.push(word);
+        ends.push(match.index + match[0].length);
+    }
+
+    let start = 0;
+    let undetermined = false;
+    while (start < words.length && !undetermined) {
+        const prefix = words[start];
+        if (/^\w+=/.test(prefix)) {
+            start++;
+            continue;
+        }
+        const options = COMMAND_PREFIXES[prefix];
+        if (!options) {
+            break;
+        }
+        // The prefix's own options come before the command it runs
+        for (start++; start < words.length && words[start].startsWith('-'); start++) {
+            const option = words[start];
+            if (option === '--') {
+                start++;
+                break;
+            }
+            // `env -S` runs a command line given as one string
+            undetermined ||= prefix === 'env' && /^(-[a-zA-Z]*S|--split-string)/.test(option);
+            if (optionTakesValue(option, options)) {
+                start++;
+            }
+        }
+    }
+    if (!undetermined && start >= words.length) {
+        return { raw, words: [], normalized: raw };
+    }
+
+    const program = undetermined ? '' : path.basename(words[start]);
+    if (!program || /[$`*?[{]/.test(program)) {
+        return { raw, words: words.slice(start), normalized: raw, undetermined: true };
+    }
+    return {
+        raw,
+        words: [program, ...words.slice(start + 1)],
+        normalized: program + raw.slice(ends[start])
+    };
+}
+
+/**
+ * Whether a prefix option takes the next word as its value. In a cluster of
+ * short options like `-Eu` that is the last one; a value written right after
+ * the option, as in `-uroot` or `--user=root`, is part of the word.
+ */
+function optionTakesValue(option: string, options: Set<string>): boolean {
+    if (option.startsWith('--')) {
+        return !option.includes('=') && options.has(option);
+    }
+    for (let i = 1; i < option.length; i++) {
+        if (options.has(`-${option[i]}`)) {
+            return i === option.length - 1;
+        }
+    }
+    return false;
+}
+
+/**
+ * The command line a `sh -c` or `eval` command runs, or null for other commands.
+ */
+function shellScript(words: string[]): string | null {
+    if (words[0] === 'eval') {
+        return words.length > 1 ? words.slice(1).join(' ') : null;
+    }
+    if (!SHELLS.has(words[0])) {
+        return null;
+    }
+    for (let i = 1; i < words.length && /^[-+]/.test(words[i]); i++) {
+        // -c may be combined with other single-letter options, e.g. `bash -lc`
+        if (/^-[a-zA-Z]*c[a-zA-Z]*$/.test(words[i])) {
+            return words[i + 1] ?? null;
+        }
+    }
+    return null;
+}
+
+function isGitPush(words: string[]): boolean {
+    if (words[0] !== 'git') {
+        return false;
+    }
+
+    let i = 1;
+    while (i < words.length && words[i].startsWith('-')) {
+        i += GIT_OPTIONS_WITH_VALUE.has(words[i]) ? 2 : 1;
+    }
+    return words[i] === 'push';
+}
+
+function isRmOutside(words: string[], cwd: string): boolean {
+    if (words[0] !== 'rm') {
+        return false;
+    }
+
+    const flags = words.slice(1).filter(w => w.startsWith('-'));
+    const destructive = flags.some(f =>
+        f === '--recursive' || f === '--force' || (!f.startsWith('--') && /[rRf]/.test(f))
+    );
+    if (!destructive) {
+        return false;
+    }
+
+    const root = path.resolve(cwd);
+    const targets = words.slice(1).filter(w => !w.startsWith('-'));
+    return targets.some(target => {
+        // Variables and home paths can't be resolved safely here
+        if (target.includes('$') || target.startsWith('~')) {
+            return true;
+        }
+        // Removing the working directory itself counts as outside
+        const resolved = path.resolve(root, target);
+        return resolved === root || !resolved.startsWith(root + path.sep);
+    });
+}
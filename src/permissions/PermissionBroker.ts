@@ -0,0 +1,305 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { PermissionMode } from '../types/WebviewMessages';
+import { BashPolicyEngine } from './BashPolicyEngine';
+
+/**
+ * MCP server name and tool the CLI calls for permission decisions.
+ * Passed as `--permission-prompt-tool mcp__<server>__<tool>`.
+ */
+export const PERMISSION_SERVER_NAME = 'claudeprint_permissions';
+export const PERMISSION_TOOL_NAME = 'approve';
+export const PERMISSION_PROMPT_TOOL = `mcp__${PERMISSION_SERVER_NAME}__${PERMISSION_TOOL_NAME}`;
+
+/** Environment variables that tell the permission server where the broker listens */
+export const PERMISSION_ENDPOINT_ENV = 'CLAUDEPRINT_PERMISSION_ENDPOINT';
+export const PERMISSION_RUN_ENV = 'CLAUDEPRINT_PERMISSION_RUN';
+
+/** Read-only tools approved without prompting in auto mode */
+export const DEFAULT_AUTO_APPROVED_TOOLS = ['Read', 'Glob', 'Grep', 'LS', 'NotebookRead', 'TodoWrite'];
+
+/**
+ * A tool call the CLI wants permission for.
+ */
+export interface PermissionRequest {
+    toolName: string;
+    input: Record<string, unknown>;
+    toolUseId?: string;
+}
+
+/**
+ * Answer returned to the CLI. `message` on deny is shown to the agent.
+ */
+export type PermissionDecision =
+    | { behavior: 'allow'; updatedInput: Record<string, unknown> }
+    | { behavior: 'deny'; message: string };
+
+/**
+ * A registered agent run that may ask for permissions.
+ */
+export interface PermissionRun {
+    mode: PermissionMode;
+    /** Tools allowed without prompting (auto mode) */
+    allowedTools: string[];
+    /** Shown in approval prompts, e.g. "Chat" or "coder (plan-1-step-2)" */
+    label: string;
+    cwd: string;
+}
+
+/**
+ * Asks the user about a request. Resolves to 'always' to allow the tool for
+ * the rest of the session. `reason` is set when a Bash policy rule asked.
+ */
+export type PermissionPrompt = (
+    request: PermissionRequest,
+    run: PermissionRun,
+    reason?: string
+) => Promise<'allow' | 'always' | 'deny'>;
+
+/**
+ * Wire format between the permission server and the broker:
+ * one JSON object per line in each direction.
+ */
+export interface BrokerRequest extends PermissionRequest {
+    id: number;
+    runId: string;
+}
+
+export interface BrokerResponse {
+    id: number;
+    decision: PermissionDecision;
+}
+
+/**
+ * One-line summary of what a tool call would do, for prompts and deny messages.
+ */
+export function describeToolRequest(request: PermissionRequest): string {
+    const input = request.input;
+    const target = input.command ?? input.file_path ?? input.notebook_path ?? input.path ?? input.url ?? input.pattern;
+    return typeof target === 'string' ? `${request.toolName}: ${target}` : request.toolName;
+}
+
+/**
+ * Answers `--permission-prompt-tool` requests for CLI runs in manual and auto mode.
+ *
+ * Each run is registered with its mode and gets an MCP config file that
+ * launches the permission server with the broker's endpoint and a random run
+ * id. The server forwards every request over a local socket; the broker
+ * applies the run's mode and asks the user when needed. Requests carrying an
+ * unknown run id are denied.
+ *
+ * Bash commands are checked against the BashPolicyEngine first, in every
+ * mode: its deny and allow verdicts are final, and 'ask' prompts even for
+ * tools approved for the session.
+ *
+ * @example
+ * const broker = new PermissionBroker(serverScript, askUser);
+ * await broker.start();
+ * const { mcpConfigPath } = broker.registerRun({ mode: 'auto', allowedTools: ['Read'], label: 'Chat', cwd });
+ */
+export class PermissionBroker {
+    readonly endpoint: string;
+    private server: net.Server | null = null;
+    private connections: Set<net.Socket> = new Set();
+    private runs: Map<string, PermissionRun & { mcpConfigPath: string }> = new Map();
+    private sessionApprovedTools: Set<string> = new Set();
+    private bashPolicy: BashPolicyEngine | null = null;
+
+    constructor(
+        private serverScript: string,
+        private prompt: PermissionPrompt,
+        private configDir: string = os.tmpdir()
+    ) {
+        const id = `claudeprint-permissions-${process.pid}-${crypto.randomBytes(4).toString('hex')}`;
+        this.endpoint = process.platform === 'win32'
+            ? `\\\\.\\pipe\\${id}`
+            : path.join(os.tmpdir(), `${id}.sock`);
+    }
+
+    /** Whether the broker accepts requests; false before start() and after a failed start */
+    get listening(): boolean {
+        return this.server !== null;
+    }
+
+    async start(): Promise<void> {
+        if (this.server) return;
+
+        const server = net.createServer(socket => this.handleConnection(socket));
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(this.endpoint, () => {
+                server.off('error', reject);
+                resolve();
+            });
+        });
+        this.server = server;
+    }
+
+    /**
+     * Registers a run and writes the MCP config the CLI should load for it.
+     */
+    registerRun(run: PermissionRun): { runId: string; mcpConfigPath: string } {
+        const runId = crypto.randomUUID();
+        const mcpConfigPath = path.join(this.configDir, `claudeprint-mcp-${runId}.json`);
+
+        const config = {
+            mcpServers: {
+                [PERMISSION_SERVER_NAME]: {
+                    command: process.execPath,
+                    args: [this.serverScript],
+                    env: {
+                        // Lets the VS Code (Electron) binary run the script as plain Node
+                        ELECTRON_RUN_AS_NODE: '1',
+                        [PERMISSION_ENDPOINT_ENV]: this.endpoint,
+                        [PERMISSION_RUN_ENV]: runId
+                    }
+                }
+            }
+        };
+        fs.writeFileSync(mcpConfigPath, JSON.stringify(config, null, 2));
+
+        this.runs.set(runId, { ...run, mcpConfigPath });
+        return { runId, mcpConfigPath };
+    }
+
+    setBashPolicy(policy: BashPolicyEngine | null): void {
+        this.bashPolicy = policy;
+    }
+
+    releaseRun(runId: string): void {
+        const run = this.runs.get(runId);
+        if (!run) return;
+
+        this.runs.delete(runId);
+        fs.rm(run.mcpConfigPath, { force: true }, () => {});
+    }
+
+    /**
+     * Decides a request for a registered run.
+     */
+    async decide(runId: string, request: PermissionRequest): Promise<PermissionDecision> {
+        const run = this.runs.get(runId);
+        if (!run) {
+            return { behavior: 'deny', message: 'Permission request from an unknown agent run' };
+        }
+
+        const command = request.toolName === 'Bash' ? request.input.command : undefined;
+        const verdict = typeof command === 'string' ? this.bashPolicy?.evaluate(command, run.cwd) : null;
+
+        if (verdict?.decision === 'deny') {
+            return { behavior: 'deny', message: `Blocked by project policy: ${verdict.reason} (\`${verdict.command}\`)` };
+        }
+        if (verdict?.decision === 'allow') {
+            return { behavior: 'allow', updatedInput: request.input };
+        }
+
+        if (verdict?.decision === 'ask') {
+            // A policy 'ask' is never remembered for the session
+            const answer = await this.ask(request, run, verdict.reason);
+            return answer === 'deny'
+                ? { behavior: 'deny', message: `The user denied ${describeToolRequest(request)} (${verdict.reason})` }
+                : { behavior: 'allow', updatedInput: request.input };
+        }
+
+        if (run.mode === 'skip' || this.isPreApproved(run, request.toolName)) {
+            return { behavior: 'allow', updatedInput: request.input };
+        }
+
+        const answer = await this.ask(request, run);
+        if (answer === 'always') {
+            this.sessionApprovedTools.add(request.toolName);
+        }
+
+        return answer === 'deny'
+            ? { behavior: 'deny', message: `The user denied ${describeToolRequest(request)}` }
+            : { behavior: 'allow', updatedInput: request.input };
+    }
+
+    dispose(): void {
+        for (const runId of [...this.runs.keys()]) {
+            this.releaseRun(runId);
+        }
+        for (const socket of this.connections) {
+            socket.destroy();
+        }
+        this.connections.clear();
+        this.server?.close();
+        this.server = null;
+    }
+
+    private async ask(request: PermissionRequest, run: PermissionRun, reason?: string): Promise<'allow' | 'always' | 'deny'> {
+        try {
+            return await this.prompt(request, run, reason);
+        } catch (err) {
+            console.error('[PermissionBroker] Prompt failed:', err);
+            return 'deny';
+        }
+    }
+
+    private isPreApproved(run: PermissionRun, toolName: string): boolean {
+        if (this.sessionApprovedTools.has(toolName)) {
+            return true;
+        }
+        return run.mode === 'auto' && run.allowedTools.includes(toolName);
+    }
+
+    private handleConnection(socket: net.Socket): void {
+        let buffer = '';
+        this.connections.add(socket);
+        socket.on('close', () => this.connections.delete(socket));
+
+        socket.on('data', (chunk: Buffer) => {
+            buffer += chunk.toString();
+
+            let newlineIndex: number;
+            while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+                const line = buffer.substring(0, newlineIndex).trim();
+                buffer = buffer.substring(newlineIndex + 1);
+                if (line) {
+                    this.handleRequestLine(socket, line).catch(err => {
+                        console.error('[PermissionBroker] Could not answer request:', err);
+                    });
+                }
+            }
+        });
+
+        socket.on('error', (err) => {
+            console.warn('[PermissionBroker] Connection error:', err.message);
+        });
+    }
+
+    private async handleRequestLine(socket: net.Socket, line: string): Promise<void> {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(line);
+        } catch {
+            console.warn('[PermissionBroker] Ignoring malformed request:', line.substring(0, 100));
+            return;
+        }
+
+        // Requests that are not a BrokerRequest are denied rather than left waiting
+        const request = isRecord(parsed) ? parsed : {};
+        let decision: PermissionDecision;
+        if (typeof request.runId === 'string' && typeof request.toolName === 'string') {
+            decision = await this.decide(request.runId, {
+                toolName: request.toolName,
+                input: isRecord(request.input) ? request.input : {},
+                toolUseId: typeof request.toolUseId === 'string' ? request.toolUseId : undefined
+            });
+        } else {
+            console.warn('[PermissionBroker] Denying malformed request:', line.substring(0, 100));
+            decision = { behavior: 'deny', message: 'Malformed permission request' };
+        }
+
+        if (!socket.destroyed) {
+            socket.write(JSON.stringify({ id: request.id, decision } as BrokerResponse) + '\n');
+        }
+    }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,33 @@
+import * as vscode from 'vscode';
+import { PermissionPrompt, PermissionRequest, describeToolRequest } from './PermissionBroker';
+
+/** Longest tool input shown in the approval dialog, in characters */
+const INPUT_PREVIEW_LENGTH = 600;
+
+/**
+ * Asks for tool approval with a modal dialog. Dismissing the dialog denies.
+ * Policy-triggered prompts show the rule's reason above the tool input.
+ */
+export const promptForPermission: PermissionPrompt = async (request, run, reason) => {
+    const allow = 'Allow';
+    const always = `Always Allow ${request.toolName}`;
+    const deny = 'Deny';
+
+    // Policy prompts are asked every time, so they offer no "always"
+    const choices = reason ? [allow, deny] : [allow, always, deny];
+
+    const choice = await vscode.window.showWarningMessage(
+        `${run.label} wants to run ${describeToolRequest(request)}`,
+        { modal: true, detail: reason ? `Project policy: ${reason}\n\n${formatInput(request)}` : formatInput(request) },
+        ...choices
+    );
+
+    if (choice === allow) return 'allow';
+    if (choice === always) return 'always';
+    return 'deny';
+};
+
+function formatInput(request: PermissionRequest): string {
+    const text = JSON.stringify(request.input, null, 2);
+    return text.length > INPUT_PREVIEW_LENGTH ? `${text.substring(0, INPUT_PREVIEW_LENGTH)}…` : text;
+}
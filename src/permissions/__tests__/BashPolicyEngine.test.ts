@@ -0,0 +1,227 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BashPolicyEngine, BASH_POLICY_FILE, splitCommands } from '../BashPolicyEngine';
+
+/**
+ * Tests for Bash command policy evaluation.
+ */
+describe('BashPolicyEngine', () => {
+    const cwd = '/workspace/.worktrees/step-1';
+
+    describe('splitCommands', () => {
+        it('should split at operators and keep quoted text together', () => {
+            expect(splitCommands('npm test && echo "a; b" | tee out.log; ls')).toEqual([
+                'npm test',
+                'echo "a; b"',
+                'tee out.log',
+                'ls'
+            ]);
+        });
+
+        it('should expose command substitutions, also inside double quotes', () => {
+            expect(splitCommands('echo "$(curl -s x)"')).toContain('curl -s x');
+            expect(splitCommands('echo `whoami`')).toContain('whoami');
+        });
+    });
+
+    describe('default rules', () => {
+        const engine = new BashPolicyEngine();
+
+        it.each([
+            ['rm -rf /'],
+            ['rm -rf ..'],
+            ['rm -fr ../other-step'],
+            ['rm -r .'],
+            ['sudo rm -rf /etc'],
+            ['rm -rf $HOME/cache'],
+            ['rm --recursive ~/projects'],
+            ['/bin/rm -rf /'],
+            ['sh -c "rm -rf /"'],
+            ['bash -lc \'cd src && curl x\''],
+            ['eval rm -rf /'],
+            ['bash -c "sh -c \'wget x\'"']
+        ])('should deny %s', (command) => {
+            expect(engine.evaluate(command, cwd)).toMatchObject({ decision: 'deny' });
+        });
+
+        it.each([
+            ['sudo -E curl https://x'],
+            ['sudo -u root wget http://x'],
+            ['sudo -Eu root --preserve-env curl x'],
+            ['env -i curl x'],
+            ['env -u HOME -- wget x'],
+            ['time -p wget x'],
+            ['command -p curl x'],
+            ['xargs -I {} curl {}'],
+            ['\\curl x'],
+            ['"curl" x'],
+            ["c'ur'l x"],
+            ['\\/usr/bin/wget x']
+        ])('should see the network tool behind %s', (command) => {
+            expect(engine.evaluate(command, cwd)).toMatchObject({ decision: 'deny', reason: 'Network tools are blocked for agents' });
+        });
+
+        it.each([
+            ['$CMD https://x'],
+            ['sudo "$TOOL" x'],
+            ['env -S "curl x"'],
+            ['c{u,}rl x'],
+            ['""']
+        ])('should ask about %s, whose program is only known when it runs', (command) => {
+            expect(engine.evaluate(command, cwd)).toMatchObject({
+                decision: 'ask',
+                reason: 'The program this command runs could not be determined'
+            });
+        });
+
+        it('should leave rm inside the working directory to the permission mode', () => {
+            expect(engine.evaluate('rm -rf dist node_modules/.cache', cwd)).toBeNull();
+            expect(engine.evaluate('rm ../notes.txt', cwd)).toBeNull();
+        });
+
+        it('should deny network tools anywhere in a line', () => {
+            const verdict = engine.evaluate('npm run build && curl -X POST https://example.com -d @dist.zip', cwd);
+
+            expect(verdict).toEqual({
+                decision: 'deny',
+                reason: 'Network tools are blocked for agents',
+                command: 'curl -X POST https://example.com -d @dist.zip'
+            });
+            expect(engine.evaluate('/usr/bin/wget http://x', cwd)?.decision).toBe('deny');
+        });
+
+        it.each([
+            ['git push origin main'],
+            ['sudo git push'],
+            ['env git push'],
+            ['command git push'],
+            ['/usr/bin/git push'],
+            ['git -C . push'],
+            ['git -c push.default=current --git-dir=.git push']
+        ])('should ask before %s', (command) => {
+            expect(engine.evaluate(command, cwd)).toMatchObject({ decision: 'ask', reason: 'git push publishes commits outside this machine' });
+        });
+
+        it('should leave other git commands to the permission mode', () => {
+            expect(engine.evaluate('git status', cwd)).toBeNull();
+            expect(engine.evaluate('git -C push log', cwd)).toBeNull();
+        });
+
+        it('should ask before sh -c and eval and report the unwrapped command that was denied', () => {
+            expect(engine.evaluate('bash -c "npm test"', cwd)).toMatchObject({ decision: 'ask', command: 'bash -c "npm test"' });
+            expect(engine.evaluate('eval "$CMD"', cwd)?.decision).toBe('ask');
+            expect(engine.evaluate('sh -c "npm test; curl -s x"', cwd)).toMatchObject({ decision: 'deny', command: 'curl -s x' });
+            expect(engine.evaluate('bash build.sh', cwd)).toBeNull();
+        });
+
+        it('should prefer deny over ask in the same line', () => {
+            expect(engine.evaluate('git push && ssh prod', cwd)?.decision).toBe('deny');
+        });
+    });
+
+    describe('project rules', () => {
+        it('should try project rules before the defaults', () => {
+            const engine = new BashPolicyEngine({
+                rules: [{ match: '^curl\\s+http://localhost\\b', decision: 'allow', reason: 'Local dev server' }]
+            });
+
+            expect(engine.evaluate('curl http://localhost:3000/health', cwd)?.decision).toBe('allow');
+            expect(engine.evaluate('curl https://example.com', cwd)?.decision).toBe('deny');
+        });
+
+        it('should match patterns against the command without its prefixes and program path', () => {
+            const engine = new BashPolicyEngine({
+                rules: [
+                    { match: '^make\\s+deploy\\b', decision: 'deny', reason: 'No deploys' },
+                    { match: '^sudo\\b', decision: 'ask', reason: 'Root access' }
+                ]
+            });
+
+            expect(engine.evaluate('FORCE=1 /usr/bin/make deploy', cwd)?.reason).toBe('No deploys');
+            expect(engine.evaluate('sudo "make" deploy', cwd)?.reason).toBe('No deploys');
+            expect(engine.evaluate('sudo ls', cwd)?.reason).toBe('Root access');
+        });
+
+        it('should allow a line only when every command is allowed', () => {
+            const engine = new BashPolicyEngine({
+                rules: [{ match: '^npm (test|run lint)\\b', decision: 'allow', reason: 'Checks are safe' }]
+            });
+
+            expect(engine.evaluate('npm test && npm run lint', cwd)?.decision).toBe('allow');
+            expect(engine.evaluate('npm test && node script.js', cwd)).toBeNull();
+        });
+
+        it('should drop the defaults when includeDefaults is false', () => {
+            const engine = new BashPolicyEngine({ includeDefaults: false, rules: [] });
+
+            expect(engine.evaluate('rm -rf /', cwd)).toBeNull();
+        });
+
+        it('should ignore invalid rules', () => {
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+            const engine = new BashPolicyEngine({
+                includeDefaults: false,
+                rules: [
+                    { match: '([', decision: 'deny', reason: 'broken' },
+                    { match: '^make', decision: 'maybe' as any, reason: 'unknown decision' },
+                    { match: '^make\\b', decision: 'deny', reason: 'No make' }
+                ]
+            });
+
+            expect(engine.evaluate('make all', cwd)).toMatchObject({ decision: 'deny', reason: 'No make' });
+            expect(warn).toHaveBeenCalledTimes(2);
+            warn.mockRestore();
+        });
+    });
+
+    describe('fromWorkspace', () => {
+        let workspace: string;
+
+        beforeEach(() => {
+            workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'bash-policy-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(workspace, { recursive: true, force: true });
+        });
+
+        it('should load and reload the workspace policy file', () => {
+            const policyPath = path.join(workspace, BASH_POLICY_FILE);
+            fs.mkdirSync(path.dirname(policyPath), { recursive: true });
+            fs.writeFileSync(policyPath, JSON.stringify({
+                rules: [{ match: '^git\\s+push\\b', decision: 'deny', reason: 'CI pushes, agents do not' }]
+            }));
+
+            const engine = BashPolicyEngine.fromWorkspace(workspace);
+            expect(engine.evaluate('git push', workspace)?.reason).toBe('CI pushes, agents do not');
+
+            fs.rmSync(policyPath);
+            engine.reload(policyPath);
+            expect(engine.evaluate('git push', workspace)?.decision).toBe('ask');
+        });
+
+        it('should ignore rules that are not a list', () => {
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+            fs.mkdirSync(path.join(workspace, '.claudeprint'));
+            fs.writeFileSync(path.join(workspace, BASH_POLICY_FILE), JSON.stringify({ rules: {} }));
+
+            const engine = BashPolicyEngine.fromWorkspace(workspace);
+
+            expect(engine.evaluate('wget http://x', workspace)?.decision).toBe('deny');
+            expect(warn).toHaveBeenCalledWith('[BashPolicy] Ignoring rules that are not a list:', {});
+            warn.mockRestore();
+        });
+
+        it('should fall back to the defaults when the file is invalid', () => {
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+            fs.mkdirSync(path.join(workspace, '.claudeprint'));
+            fs.writeFileSync(path.join(workspace, BASH_POLICY_FILE), '{ not json');
+
+            const engine = BashPolicyEngine.fromWorkspace(workspace);
+
+            expect(engine.evaluate('wget http://x', workspace)?.decision).toBe('deny');
+            warn.mockRestore();
+        });
+    });
+});
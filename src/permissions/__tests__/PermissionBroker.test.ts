@@ -0,0 +1,327 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import {
+    PermissionBroker,
+    PermissionPrompt,
+    PERMISSION_ENDPOINT_ENV,
+    PERMISSION_RUN_ENV,
+    PERMISSION_SERVER_NAME,
+    PERMISSION_TOOL_NAME
+} from '../PermissionBroker';
+import { runPermissionPromptServer } from '../permissionPromptServer';
+import { BashPolicyEngine } from '../BashPolicyEngine';
+import { ClaudeCliBackend } from '../../engine/AgentBackend';
+
+/**
+ * Tests for the permission broker and the MCP server the CLI talks to.
+ */
+describe('PermissionBroker', () => {
+    let configDir: string;
+    let broker: PermissionBroker;
+    let prompt: jest.MockedFunction<PermissionPrompt>;
+
+    const bash = { toolName: 'Bash', input: { command: 'rm -rf dist' } };
+    const read = { toolName: 'Read', input: { file_path: 'src/index.ts' } };
+
+    beforeEach(() => {
+        configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'permission-broker-'));
+        prompt = jest.fn();
+        broker = new PermissionBroker('/ext/dist/permission-server.js', prompt, configDir);
+    });
+
+    afterEach(() => {
+        broker.dispose();
+        fs.rmSync(configDir, { recursive: true, force: true });
+    });
+
+    function register(mode: 'manual' | 'auto' | 'skip') {
+        return broker.registerRun({ mode, allowedTools: ['Read', 'Glob'], label: 'Chat', cwd: '/workspace' });
+    }
+
+    describe('decide', () => {
+        it('should allow allowlisted tools in auto mode without prompting', async () => {
+            const { runId } = register('auto');
+
+            const decision = await broker.decide(runId, read);
+
+            expect(decision).toEqual({ behavior: 'allow', updatedInput: read.input });
+            expect(prompt).not.toHaveBeenCalled();
+        });
+
+        it('should prompt for other tools in auto mode', async () => {
+            const { runId } = register('auto');
+            prompt.mockResolvedValue('deny');
+
+            const decision = await broker.decide(runId, bash);
+
+            expect(decision).toEqual({ behavior: 'deny', message: 'The user denied Bash: rm -rf dist' });
+            expect(prompt).toHaveBeenCalledWith(bash, expect.objectContaining({ label: 'Chat', mode: 'auto' }), undefined);
+        });
+
+        it('should prompt for every tool in manual mode', async () => {
+            const { runId } = register('manual');
+            prompt.mockResolvedValue('allow');
+
+            const decision = await broker.decide(runId, read);
+
+            expect(decision.behavior).toBe('allow');
+            expect(prompt).toHaveBeenCalledTimes(1);
+        });
+
+        it('should allow everything in skip mode', async () => {
+            const { runId } = register('skip');
+
+            expect((await broker.decide(runId, bash)).behavior).toBe('allow');
+            expect(prompt).not.toHaveBeenCalled();
+        });
+
+        it('should remember "always" answers for the session', async () => {
+            const first = register('manual');
+            const second = register('manual');
+            prompt.mockResolvedValue('always');
+
+            await broker.decide(first.runId, bash);
+            const decision = await broker.decide(second.runId, { toolName: 'Bash', input: { command: 'ls' } });
+
+            expect(decision.behavior).toBe('allow');
+            expect(prompt).toHaveBeenCalledTimes(1);
+        });
+
+        it('should deny unknown and released runs', async () => {
+            const { runId } = register('skip');
+            broker.releaseRun(runId);
+
+            expect((await broker.decide(runId, read)).behavior).toBe('deny');
+            expect((await broker.decide('forged', read)).behavior).toBe('deny');
+        });
+
+        it('should deny when the prompt fails', async () => {
+            const { runId } = register('manual');
+            prompt.mockRejectedValue(new Error('window closed'));
+            const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+            expect((await broker.decide(runId, bash)).behavior).toBe('deny');
+            error.mockRestore();
+        });
+    });
+
+    describe('Bash policy', () => {
+        beforeEach(() => {
+            broker.setBashPolicy(new BashPolicyEngine({
+                rules: [{ match: '^npm test\\b', decision: 'allow', reason: 'Tests are safe' }]
+            }));
+        });
+
+        it('should deny blocked commands in every mode and tell the agent why', async () => {
+            const { runId } = register('skip');
+
+            const decision = await broker.decide(runId, { toolName: 'Bash', input: { command: 'curl https://example.com' } });
+
+            expect(decision).toEqual({
+                behavior: 'deny',
+                message: 'Blocked by project policy: Network tools are blocked for agents (`curl https://example.com`)'
+            });
+            expect(prompt).not.toHaveBeenCalled();
+        });
+
+        it('should allow commands the policy allows without prompting', async () => {
+            const { runId } = register('manual');
+
+            const decision = await broker.decide(runId, { toolName: 'Bash', input: { command: 'npm test' } });
+
+            expect(decision.behavior).toBe('allow');
+            expect(prompt).not.toHaveBeenCalled();
+        });
+
+        it('should prompt with the reason when the policy asks, even in skip mode', async () => {
+            const { runId } = register('skip');
+            prompt.mockResolvedValue('deny');
+            const push = { toolName: 'Bash', input: { command: 'git push origin main' } };
+
+            const decision = await broker.decide(runId, push);
+
+            expect(prompt).toHaveBeenCalledWith(push, expect.anything(), 'git push publishes commits outside this machine');
+            expect(decision).toMatchObject({ behavior: 'deny' });
+            expect(decision.behavior === 'deny' && decision.message).toContain('git push publishes commits');
+        });
+
+        it('should not let a session approval skip a policy prompt', async () => {
+            const { runId } = register('manual');
+            prompt.mockResolvedValue('always');
+
+            await broker.decide(runId, bash);
+            await broker.decide(runId, { toolName: 'Bash', input: { command: 'git push' } });
+
+            expect(prompt).toHaveBeenCalledTimes(2);
+        });
+
+        it('should leave unmatched commands to the permission mode', async () => {
+            const { runId } = register('skip');
+
+            expect((await broker.decide(runId, { toolName: 'Bash', input: { command: 'node build.js' } })).behavior).toBe('allow');
+            expect(prompt).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('registerRun', () => {
+        it('should write an MCP config that launches the permission server for the run', () => {
+            const { runId, mcpConfigPath } = register('auto');
+
+            const config = JSON.parse(fs.readFileSync(mcpConfigPath, 'utf-8'));
+            const server = config.mcpServers[PERMISSION_SERVER_NAME];
+
+            expect(server.args).toEqual(['/ext/dist/permission-server.js']);
+            expect(server.env[PERMISSION_ENDPOINT_ENV]).toBe(broker.endpoint);
+            expect(server.env[PERMISSION_RUN_ENV]).toBe(runId);
+        });
+    });
+
+    describe('start', () => {
+        it('should refuse CLI runs until the broker is listening', async () => {
+            const backend = new ClaudeCliBackend({ broker });
+            const errors: Error[] = [];
+
+            expect(broker.listening).toBe(false);
+            backend.start({ prompt: 'List files', cwd: configDir }).on('error', (err: Error) => errors.push(err));
+            await new Promise(resolve => setImmediate(resolve));
+
+            expect(errors.map(e => e.message)).toEqual([expect.stringContaining('the permission broker is not running')]);
+            expect(fs.readdirSync(configDir)).toEqual([]);
+
+            await broker.start();
+            expect(broker.listening).toBe(true);
+        });
+    });
+
+    describe('malformed requests', () => {
+        it('should deny requests without a run or tool instead of leaving them unanswered', async () => {
+            await broker.start();
+            const socket = net.createConnection(broker.endpoint);
+            const replies: any[] = [];
+            let buffer = '';
+            socket.on('data', (chunk: Buffer) => {
+                buffer += chunk.toString();
+                const lines = buffer.split('\n');
+                buffer = lines.pop() ?? '';
+                replies.push(...lines.filter(Boolean).map(line => JSON.parse(line)));
+            });
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+            socket.write('null\n"x"\n{"id": 7, "toolName": "Bash"}\n{"id": 8, "runId": 1, "toolName": "Bash"}\n');
+            for (let i = 0; i < 200 && replies.length < 4; i++) {
+                await new Promise(resolve => setTimeout(resolve, 10));
+            }
+
+            expect(replies).toEqual([
+                { decision: { behavior: 'deny', message: 'Malformed permission request' } },
+                { decision: { behavior: 'deny', message: 'Malformed permission request' } },
+                { id: 7, decision: { behavior: 'deny', message: 'Malformed permission request' } },
+                { id: 8, decision: { behavior: 'deny', message: 'Malformed permission request' } }
+            ]);
+            expect(prompt).not.toHaveBeenCalled();
+            socket.destroy();
+            warn.mockRestore();
+        });
+    });
+
+    describe('permission server', () => {
+        function startServer(runId: string) {
+            const input = new PassThrough();
+            const output = new PassThrough();
+            const responses: any[] = [];
+            let buffer = '';
+
+            output.on('data', (chunk: Buffer) => {
+                buffer += chunk.toString();
+                const lines = buffer.split('\n');
+                buffer = lines.pop() ?? '';
+                responses.push(...lines.filter(Boolean).map(line => JSON.parse(line)));
+            });
+
+            runPermissionPromptServer(input, output, broker.endpoint, runId);
+
+            const call = (message: object) => input.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+            const response = async (id: number) => {
+                for (let i = 0; i < 200; i++) {
+                    const found = responses.find(r => r.id === id);
+                    if (found) return found;
+                    await new Promise(resolve => setTimeout(resolve, 10));
+                }
+                throw new Error(`No response for request ${id}`);
+            };
+
+            return { call, response, close: () => input.end() };
+        }
+
+        it('should answer the MCP handshake and list the approve tool', async () => {
+            const server = startServer('unused');
+
+            server.call({ id: 1, method: 'initialize', params: { protocolVersion: '2025-06-18' } });
+            server.call({ method: 'notifications/initialized' });
+            server.call({ id: 2, method: 'tools/list' });
+
+            expect((await server.response(1)).result).toMatchObject({
+                protocolVersion: '2025-06-18',
+                serverInfo: { name: PERMISSION_SERVER_NAME }
+            });
+            expect((await server.response(2)).result.tools.map((t: any) => t.name)).toEqual([PERMISSION_TOOL_NAME]);
+            server.close();
+        });
+
+        it('should forward tool calls to the broker and return its decision', async () => {
+            await broker.start();
+            const { runId } = register('auto');
+            prompt.mockResolvedValue('deny');
+            const server = startServer(runId);
+
+            server.call({
+                id: 1,
+                method: 'tools/call',
+                params: { name: PERMISSION_TOOL_NAME, arguments: { tool_name: 'Read', input: read.input } }
+            });
+            server.call({
+                id: 2,
+                method: 'tools/call',
+                params: { name: PERMISSION_TOOL_NAME, arguments: { tool_name: 'Bash', input: bash.input, tool_use_id: 'toolu_1' } }
+            });
+
+            const allowed = JSON.parse((await server.response(1)).result.content[0].text);
+            const denied = JSON.parse((await server.response(2)).result.content[0].text);
+
+            expect(allowed).toEqual({ behavior: 'allow', updatedInput: read.input });
+            expect(denied).toMatchObject({ behavior: 'deny' });
+            expect(prompt).toHaveBeenCalledWith({ ...bash, toolUseId: 'toolu_1' }, expect.anything(), undefined);
+            server.close();
+        });
+
+        it('should reject messages and tool calls of the wrong shape', async () => {
+            const server = startServer('run-1');
+
+            server.call({ id: 1, method: 'tools/call', params: { name: PERMISSION_TOOL_NAME, arguments: { tool_name: 5 } } });
+            server.call({ id: 2, method: 'tools/call', params: 'Bash' });
+            server.call({ id: 3, method: 'initialize', params: { protocolVersion: 1 } });
+
+            expect((await server.response(1)).error).toEqual({ code: -32602, message: 'tool_name must be a string' });
+            expect((await server.response(2)).error).toEqual({ code: -32602, message: 'Unknown tool: undefined' });
+            expect((await server.response(3)).result.protocolVersion).toBe('2024-11-05');
+            server.close();
+        });
+
+        it('should deny when the broker is not reachable', async () => {
+            const server = startServer('run-1');
+
+            server.call({
+                id: 1,
+                method: 'tools/call',
+                params: { name: PERMISSION_TOOL_NAME, arguments: { tool_name: 'Bash', input: bash.input } }
+            });
+
+            const decision = JSON.parse((await server.response(1)).result.content[0].text);
+            expect(decision.behavior).toBe('deny');
+            server.close();
+        });
+    });
+});
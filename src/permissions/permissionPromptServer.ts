@@ -0,0 +1,234 @@
+import * as net from 'net';
+import { Readable, Writable } from 'stream';
+import {
+    BrokerRequest,
+    BrokerResponse,
+    PERMISSION_ENDPOINT_ENV,
+    PERMISSION_RUN_ENV,
+    PERMISSION_SERVER_NAME,
+    PERMISSION_TOOL_NAME,
+    PermissionDecision
+} from './PermissionBroker';
+
+/**
+ * Minimal MCP server (JSON-RPC 2.0 over stdio, one message per line) exposing
+ * the single tool the CLI calls through `--permission-prompt-tool`.
+ *
+ * Launched by the CLI from the MCP config the PermissionBroker writes; every
+ * call is forwarded to the broker over its local socket. This file is bundled
+ * separately (dist/permission-server.js) and must not import vscode.
+ */
+
+interface JsonRpcMessage {
+    jsonrpc: '2.0';
+    id?: number | string;
+    method?: string;
+    params?: unknown;
+}
+
+const PROTOCOL_VERSION = '2024-11-05';
+
+const APPROVE_TOOL = {
+    name: PERMISSION_TOOL_NAME,
+    description: 'Asks the ClaudePrint extension whether a tool call may run',
+    inputSchema: {
+        type: 'object',
+        properties: {
+            tool_name: { type: 'string' },
+            input: { type: 'object' },
+            tool_use_id: { type: 'string' }
+        },
+        required: ['tool_name', 'input']
+    }
+};
+
+/**
+ * Forwards permission requests to the broker, one socket per server process.
+ */
+class BrokerClient {
+    private socket: net.Socket | null = null;
+    private buffer: string = '';
+    private nextId: number = 1;
+    private pending: Map<number, (decision: PermissionDecision) => void> = new Map();
+
+    constructor(private endpoint: string, private runId: string) {}
+
+    request(toolName: string, input: Record<string, unknown>, toolUseId?: string): Promise<PermissionDecision> {
+        return new Promise(resolve => {
+            const socket = this.connect();
+            if (!socket) {
+                resolve({ behavior: 'deny', message: 'Permission broker is not available' });
+                return;
+            }
+
+            const id = this.nextId++;
+            this.pending.set(id, resolve);
+            const message: BrokerRequest = { id, runId: this.runId, toolName, input, toolUseId };
+            socket.write(JSON.stringify(message) + '\n');
+        });
+    }
+
+    private connect(): net.Socket | null {
+        if (this.socket && !this.socket.destroyed) {
+            return this.socket;
+        }
+        if (!this.endpoint) {
+            return null;
+        }
+
+        const socket = net.createConnection(this.endpoint);
+        socket.on('data', (chunk: Buffer) => this.handleData(chunk.toString()));
+        socket.on('error', () => this.failPending('Permission broker connection failed'));
+        socket.on('close', () => this.failPending('Permission broker closed the connection'));
+        this.socket = socket;
+        return socket;
+    }
+
+    private handleData(chunk: string): void {
+        this.buffer += chunk;
+
+        let newlineIndex: number;
+        while ((newlineIndex = this.buffer.indexOf('\n')) !== -1) {
+            const line = this.buffer.substring(0, newlineIndex).trim();
+            this.buffer = this.buffer.substring(newlineIndex + 1);
+            try {
+                const response = JSON.parse(line) as BrokerResponse;
+                this.pending.get(response.id)?.(response.decision);
+                this.pending.delete(response.id);
+            } catch {
+                // Ignore malformed broker output
+            }
+        }
+    }
+
+    close(): void {
+        this.socket?.end();
+        this.socket = null;
+    }
+
+    private failPending(message: string): void {
+        for (const resolve of this.pending.values()) {
+            resolve({ behavior: 'deny', message });
+        }
+        this.pending.clear();
+        this.socket = null;
+    }
+}
+
+/**
+ * Runs the MCP server on the given streams until input ends.
+ */
+export function runPermissionPromptServer(
+    input: Readable,
+    output: Writable,
+    endpoint: string,
+    runId: string
+): void {
+    const broker = new BrokerClient(endpoint, runId);
+    let buffer = '';
+
+    const send = (message: object) => {
+        output.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+    };
+
+    const handle = async (message: JsonRpcMessage) => {
+        // Notifications carry no id and need no answer
+        if (message.id === undefined) {
+            return;
+        }
+
+        switch (message.method) {
+            case 'initialize':
+                send({
+                    id: message.id,
+                    result: {
+                        protocolVersion: isRecord(message.params) && typeof message.params.protocolVersion === 'string'
+                            ? message.params.protocolVersion
+                            : PROTOCOL_VERSION,
+                        capabilities: { tools: {} },
+                        serverInfo: { name: PERMISSION_SERVER_NAME, version: '1.0.0' }
+                    }
+                });
+                break;
+            case 'ping':
+                send({ id: message.id, result: {} });
+                break;
+            case 'tools/list':
+                send({ id: message.id, result: { tools: [APPROVE_TOOL] } });
+                break;
+            case 'tools/call': {
+                const params = isRecord(message.params) ? message.params : {};
+                if (params.name !== PERMISSION_TOOL_NAME) {
+                    send({ id: message.id, error: { code: -32602, message: `Unknown tool: ${String(params.name)}` } });
+                    break;
+                }
+                const args = isRecord(params.arguments) ? params.arguments : {};
+                if (typeof args.tool_name !== 'string') {
+                    send({ id: message.id, error: { code: -32602, message: 'tool_name must be a string' } });
+                    break;
+                }
+                const decision = await broker.request(
+                    args.tool_name,
+                    isRecord(args.input) ? args.input : {},
+                    typeof args.tool_use_id === 'string' ? args.tool_use_id : undefined
+                );
+                send({
+                    id: message.id,
+                    result: { content: [{ type: 'text', text: JSON.stringify(decision) }] }
+                });
+                break;
+            }
+            default:
+                send({ id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } });
+        }
+    };
+
+    input.on('data', (chunk: Buffer | string) => {
+        buffer += chunk.toString();
+
+        let newlineIndex: number;
+        while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+            const line = buffer.substring(0, newlineIndex).trim();
+            buffer = buffer.substring(newlineIndex + 1);
+            if (!line) continue;
+
+            let message: unknown;
+            try {
+                message = JSON.parse(line);
+            } catch {
+                send({ id: null, error: { code: -32700, message: 'Parse error' } });
+                continue;
+            }
+            if (!isRecord(message)) {
+                send({ id: null, error: { code: -32600, message: 'Invalid Request' } });
+                continue;
+            }
+            const request: JsonRpcMessage = {
+                jsonrpc: '2.0',
+                id: typeof message.id === 'number' || typeof message.id === 'string' ? message.id : undefined,
+                method: typeof message.method === 'string' ? message.method : undefined,
+                params: message.params
+            };
+            handle(request).catch(err => {
+                console.error('[PermissionServer] Request failed:', err);
+                send({ id: request.id ?? null, error: { code: -32603, message: 'Internal error' } });
+            });
+        }
+    });
+
+    input.on('end', () => broker.close());
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+if (require.main === module) {
+    runPermissionPromptServer(
+        process.stdin,
+        process.stdout,
+        process.env[PERMISSION_ENDPOINT_ENV] ?? '',
+        process.env[PERMISSION_RUN_ENV] ?? ''
+    );
+    process.stdin.on('end', () => process.exit(0));
+}
@@ -2,9 +2,83 @@ import * as vscode from 'vscode';
 import { ClaudeService, ClaudeMessage, SendOptions } from '../engine/ClaudeService';
 import { DiffManager } from '../diff/DiffManager';
 import { SessionManager } from '../indexing/SessionManager';
-import { SubagentOrchestrator } from '../orchestration/SubagentOrchestrator';
+import { AgentsConfigLoader } from '../indexing/AgentsConfigLoader';
+import { SubagentOrchestrator, SubagentRole } from '../orchestration/SubagentOrchestrator';
+import { ConflictResolution, MergeConflictResolver } from '../orchestration/MergeConflictResolver';
+import { PlanStore } from '../orchestration/PlanStore';
+import { VerificationGateRunner, resolveVerificationGates } from '../orchestration/VerificationGates';
+import { ReplanProposal } from '../orchestration/Replanner';
+import { BrainstormSwarm } from '../orchestration/BrainstormSwarm';
+import { DebateDecisionRequest, DebateParticipant } from '../orchestration/DebateRunner';
+import { DebateStore } from '../orchestration/DebateStore';
+import { exportDebateAdr } from '../orchestration/DebateAdr';
+import { Critique, Debate, DebateRound, Defense, Proposal, Vote } from '../orchestration/AgentDebateCoordinator';
+import {
+    DEFAULT_MODEL,
+    RoleProfileRegistry,
+    RoleProfileSettings,
+    loadRolesFile,
+    mergeRoleSettings
+} from '../orchestration/RoleProfiles';
+import {
+    BudgetExceededPayload,
+    DebateDecisionPayload,
+    DebateEntry,
+    DebateExportedPayload,
+    DebateRecordPayload,
+    DebateSummary,
+    DebateUpdatePayload,
+    MergeConflictPayload,
+    PermissionMode,
+    PlanRejectedPayload,
+    PlanRevisedPayload,
+    PlanRevisionPayload,
+    ToolEventPayload,
+    UsageUpdatePayload
+} from '../types/WebviewMessages';
+import { UsageScope, UsageTotals } from '../engine/UsageTracker';
+import { AgentBackend, ClaudeCliBackend } from '../engine/AgentBackend';
+import { GitWorktreeManager } from '../git/GitWorktreeManager';
+import { GitCheckpointManager } from '../git/GitCheckpointManager';
 import * as path from 'path';
 
+/** Longest tool output sent to the webview, in characters */
+const TOOL_OUTPUT_PREVIEW_LENGTH = 2000;
+
+/** Fields shared by tool events from ClaudeService (per request) and the orchestrator (per task) */
+interface ToolEventSource {
+    toolId: string;
+    toolName: string;
+    taskId?: string;
+    role?: SubagentRole;
+    requestId?: string;
+    conversationId?: string;
+}
+
+/** How a proposal, critique, defense or vote shows in the webview's debate view */
+function proposalEntry(proposal: Proposal): Omit<DebateEntry, 'round'> {
+    return { kind: 'proposal', agentId: proposal.agentId, text: proposal.solution, detail: proposal.reasoning, confidence: proposal.confidence };
+}
+
+function critiqueEntry(critique: Critique): Omit<DebateEntry, 'round'> {
+    return {
+        kind: 'critique',
+        agentId: critique.fromAgent,
+        targetAgentId: critique.toAgent,
+        text: critique.criticism,
+        detail: critique.suggestedFix,
+        severity: critique.severity
+    };
+}
+
+function defenseEntry(defense: Defense): Omit<DebateEntry, 'round'> {
+    return { kind: 'defense', agentId: defense.agentId, text: defense.defense, revised: defense.proposalModified };
+}
+
+function voteEntry(vote: Vote, authorId: string | undefined): Omit<DebateEntry, 'round'> {
+    return { kind: 'vote', agentId: vote.agentId, targetAgentId: authorId, text: vote.justification ?? '' };
+}
+
 interface FileContext {
     fileName: string;
     relativePath: string;
@@ -22,18 +96,93 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     private workspaceFolder: string;
     private cliInitialized: boolean = false;
     private orchestrator!: SubagentOrchestrator;
+    private worktreeManager: GitWorktreeManager | undefined;
+    private planStore: PlanStore | undefined;
+    private debateStore: DebateStore | undefined;
+    private roleFileErrors: string = '';
+    /** Debate of the brainstorm running, if any */
+    private brainstormSwarm: BrainstormSwarm | undefined;
+    /** Settles the choice of an escalated debate's proposal shown to the user, if any */
+    private resolveDebateDecision: ((proposalId: string | undefined) => void) | undefined;
     
     constructor(
         private readonly extensionUri: vscode.Uri,
         private readonly claudeService: ClaudeService,
-        workspaceFolder?: string
+        workspaceFolder?: string,
+        private readonly backend: AgentBackend = new ClaudeCliBackend()
     ) {
         this.workspaceFolder = workspaceFolder || '';
         this.diffManager = new DiffManager();
+        this.disposables.push(vscode.workspace.registerTextDocumentContentProvider(DiffManager.scheme, this.diffManager));
         this.sessionManager = new SessionManager(this.workspaceFolder);
+        this.planStore = this.workspaceFolder ? new PlanStore(this.workspaceFolder) : undefined;
+        this.debateStore = this.workspaceFolder ? new DebateStore(this.workspaceFolder) : undefined;
         this.claudeService.on('message', (msg: ClaudeMessage) => {
             this.postMessage({ type: 'claude', payload: msg });
         });
+        this.claudeService.on('session', (sessionId: string | null, conversationId: string) => {
+            this.postMessage({ type: 'cli_session', payload: { sessionId, conversationId } });
+        });
+        this.forwardToolEvents(this.claudeService);
+        // Chat turns and orchestrated agents record into the same tracker
+        this.claudeService.usage.on('usage_updated', (data: { scope: UsageScope; totals: UsageTotals }) => {
+            const payload: UsageUpdatePayload = { scope: data.scope, ...data.totals };
+            this.postMessage({ type: 'usage_update', payload });
+        });
+    }
+
+    /**
+     * Posts tool status transitions from a ToolEventHandler-backed emitter as
+     * `tool_event` messages, with output truncated for display.
+     */
+    private forwardToolEvents(source: ClaudeService | SubagentOrchestrator) {
+        source.on('tool_invoked', (data: ToolEventSource & { toolInput?: Record<string, unknown> }) => {
+            this.postToolEvent({
+                ...this.toolEventContext(data),
+                status: 'running',
+                input: data.toolInput
+            });
+        });
+
+        source.on('tool_completed', (data: ToolEventSource & { output?: string; duration?: number }) => {
+            this.postToolEvent({
+                ...this.toolEventContext(data),
+                status: 'success',
+                durationMs: data.duration,
+                ...this.truncateToolOutput(data.output)
+            });
+        });
+
+        source.on('tool_error', (data: ToolEventSource & { error?: string; duration?: number }) => {
+            this.postToolEvent({
+                ...this.toolEventContext(data),
+                status: 'error',
+                durationMs: data.duration,
+                ...this.truncateToolOutput(data.error)
+            });
+        });
+    }
+
+    private toolEventContext(data: ToolEventSource): Omit<ToolEventPayload, 'status'> {
+        return {
+            toolId: data.toolId,
+            toolName: data.toolName,
+            taskId: data.taskId,
+            role: data.role,
+            requestId: data.requestId,
+            conversationId: data.conversationId
+        };
+    }
+
+    private truncateToolOutput(output?: string): Pick<ToolEventPayload, 'output' | 'outputTruncated'> {
+        if (!output || output.length <= TOOL_OUTPUT_PREVIEW_LENGTH) {
+            return { output };
+        }
+        return { output: output.substring(0, TOOL_OUTPUT_PREVIEW_LENGTH), outputTruncated: true };
+    }
+
+    private postToolEvent(payload: ToolEventPayload) {
+        this.postMessage({ type: 'tool_event', payload });
     }
 
     private simulateCliInit() {
@@ -69,7 +218,13 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         webviewView.webview.html = this.getHtmlContent(webviewView.webview);
 
         // Initialize orchestration components (no GitWorktree dependency)
-        this.orchestrator = new SubagentOrchestrator(this.workspaceFolder);
+        this.orchestrator = new SubagentOrchestrator(this.workspaceFolder, this.backend, this.claudeService.usage);
+        const resolver = new MergeConflictResolver(this.orchestrator, resolutions => this.reviewResolutions(resolutions));
+        this.orchestrator.setConflictHandler(resolver.handle);
+        this.orchestrator.setPlanStore(this.planStore);
+        if (this.workspaceFolder) {
+            this.orchestrator.setCheckpointManager(new GitCheckpointManager({ rootDir: this.workspaceFolder }));
+        }
 
         // Listen for streaming chunks from orchestrator and forward to UI
         this.orchestrator.on('chunk', (data: { taskId: string; role: string; content: string }) => {
@@ -88,6 +243,8 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 taskId: data.taskId,
                 stepId: data.step.id,
                 status: data.step.status,
+                skipReason: data.step.skipReason,
+                verification: data.step.verification,
                 stepIndex: data.step.id - 1
             });
         });
@@ -123,36 +280,21 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             });
         });
 
-        // Listen for tool events
-        this.orchestrator.on('tool_invoked', (data: { toolId: string; toolName: string; input?: any }) => {
-            this.postMessage({
-                type: 'tool_start',
-                toolId: data.toolId,
-                toolName: data.toolName,
-                input: data.input
-            });
+        this.orchestrator.on('budget_exceeded', (payload: BudgetExceededPayload) => {
+            this.postMessage({ type: 'budget_exceeded', payload });
         });
 
-        this.orchestrator.on('tool_completed', (data: { toolId: string; toolName: string; output?: any; duration?: number }) => {
-            this.postMessage({
-                type: 'tool_complete',
-                toolId: data.toolId,
-                toolName: data.toolName,
-                output: data.output,
-                duration: data.duration
-            });
+        this.orchestrator.on('merge_conflict', (payload: MergeConflictPayload) => {
+            this.postMessage({ type: 'merge_conflict', payload });
         });
 
-        this.orchestrator.on('tool_error', (data: { toolId: string; toolName: string; error: string; duration?: number }) => {
-            this.postMessage({
-                type: 'tool_error',
-                toolId: data.toolId,
-                toolName: data.toolName,
-                error: data.error,
-                duration: data.duration
-            });
+        this.orchestrator.on('plan_revised', (payload: PlanRevisedPayload) => {
+            this.postMessage({ type: 'plan_revised', ...payload });
         });
 
+        // Tool activity of orchestrated agents, tagged with taskId and role
+        this.forwardToolEvents(this.orchestrator);
+
         webviewView.webview.onDidReceiveMessage((message) => {
             this.handleMessage(message);
         });
@@ -190,11 +332,13 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                     ultrathink: message.ultrathink,
                     mode: message.mode || 'chat',
                     swarmDensity: message.swarmDensity || 3,
-                    permissionMode: message.permissionMode || 'auto'
+                    permissionMode: message.permissionMode || this.getDefaultPermissionMode(),
+                    requestId: message.requestId,
+                    conversationId: message.conversationId
                 });
                 break;
             case 'stop':
-                this.claudeService.stop();
+                this.claudeService.stop(message.requestId);
                 break;
             case 'getContext':
                 this.sendActiveFileContext();
@@ -209,7 +353,12 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 this.handleInsert(message.code);
                 break;
             case 'saveSession':
-                this.sessionManager.save(message.id, message.messages);
+                this.sessionManager.save(
+                    message.id,
+                    message.messages,
+                    message.cliSessionId ?? this.claudeService.getSessionId(message.id) ?? undefined,
+                    this.getSessionUsage(message.id)
+                );
                 break;
             case 'loadSession':
                 this.handleLoadSession(message.id);
@@ -218,7 +367,13 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 this.handleGetSessions();
                 break;
             case 'newSession':
-                this.claudeService.createSession();
+                // Earlier chats keep streaming in the background; the new one starts fresh
+                break;
+            case 'resetSession':
+                this.claudeService.createSession(message.conversationId);
+                break;
+            case 'forkSession':
+                this.claudeService.forkSession(message.conversationId, message.forkId);
                 break;
             case 'showInfo':
                 vscode.window.showInformationMessage(message.message);
@@ -226,10 +381,13 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             case 'webviewReady':
                 this.simulateCliInit();
                 this.claudeService.initialize();
+                this.restorePlan().catch(error => {
+                    console.error('[ChatViewProvider] Could not restore the saved plan:', error);
+                });
                 break;
             // Plan mode handlers
             case 'plan_approve':
-                this.handlePlanApprove(message.planId);
+                this.handlePlanApprove(message.planId, message.permissionMode || this.getDefaultPermissionMode());
                 break;
             case 'plan_cancel':
                 this.handlePlanCancel(message.planId);
@@ -237,6 +395,32 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             case 'plan_edit_step':
                 this.handlePlanEditStep(message.stepId, message.description);
                 break;
+            case 'retryStep':
+                this.handleRetryStep(message.taskId, message.stepId, message.permissionMode || this.getDefaultPermissionMode());
+                break;
+            case 'plan_rollback':
+                this.handlePlanRollback(
+                    message.planId,
+                    message.stepId,
+                    message.description,
+                    message.permissionMode || this.getDefaultPermissionMode()
+                );
+                break;
+            case 'plan_revision_response':
+                this.resolvePlanRevision?.(message.approved === true);
+                break;
+            case 'debate_decision_response':
+                this.resolveDebateDecision?.(typeof message.proposalId === 'string' ? message.proposalId : undefined);
+                break;
+            case 'getDebates':
+                this.handleGetDebates(typeof message.query === 'string' ? message.query : '');
+                break;
+            case 'loadDebate':
+                this.handleLoadDebate(message.taskId);
+                break;
+            case 'exportDebate':
+                this.handleExportDebate(message.taskId);
+                break;
             // Review mode handlers
             case 'review_accept':
                 this.handleReviewAccept(message.changeIds);
@@ -253,7 +437,27 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
     private async handleLoadSession(sessionId: string) {
         const messages = await this.sessionManager.load(sessionId);
-        this.postMessage({ type: 'sessionLoaded', payload: { messages } });
+        // A chat still known to the service may have moved on since it was saved
+        const cliSessionId = this.claudeService.getSessionId(sessionId)
+            ?? await this.sessionManager.getCliSessionId(sessionId);
+        this.claudeService.resumeSession(cliSessionId ?? null, sessionId);
+
+        const usage = await this.sessionManager.getUsage(sessionId);
+        if (usage) {
+            this.claudeService.usage.restore(`session:${sessionId}`, usage);
+        }
+        this.postMessage({
+            type: 'sessionLoaded',
+            payload: { messages, cliSessionId, usage: this.getSessionUsage(sessionId) }
+        });
+    }
+
+    /**
+     * Usage recorded for a chat, or undefined when none of its runs reported any.
+     */
+    private getSessionUsage(sessionId: string): UsageTotals | undefined {
+        const usage = this.claudeService.usage.getTotals(`session:${sessionId}`);
+        return usage.runs > 0 ? usage : undefined;
     }
 
     private async handleGetSessions() {
@@ -346,10 +550,13 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             ultrathink: boolean;
             mode: 'chat' | 'review' | 'plan' | 'brainstorm';
             swarmDensity: number;
-            permissionMode: 'manual' | 'auto' | 'skip';
+            permissionMode: PermissionMode;
+            requestId?: string;
+            conversationId?: string;
         }
     ) {
         const context = includeContext ? await this.buildContext() : '';
+        this.orchestrator.setRoleProfiles(this.getRoleProfiles());
 
         switch (options.mode) {
             case 'chat':
@@ -369,6 +576,35 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         }
     }
 
+    private getDefaultPermissionMode(): PermissionMode {
+        return vscode.workspace.getConfiguration('claudeAssistant').get<PermissionMode>('executionPermission', 'auto');
+    }
+
+    /**
+     * Role profiles from the workspace roles file and the `roles` setting,
+     * which wins field by field, on top of `defaultModel`. Problems in the
+     * roles file are shown once until they change.
+     */
+    private getRoleProfiles(): RoleProfileRegistry {
+        const config = vscode.workspace.getConfiguration('claudeAssistant');
+        const file = this.workspaceFolder ? loadRolesFile(this.workspaceFolder) : { roles: {}, errors: [] };
+
+        const errors = file.errors.join('\n');
+        if (errors && errors !== this.roleFileErrors) {
+            vscode.window.showWarningMessage(`Some custom roles were not loaded: ${file.errors.join('; ')}`);
+        }
+        this.roleFileErrors = errors;
+
+        return new RoleProfileRegistry(
+            config.get<string>('defaultModel', DEFAULT_MODEL),
+            mergeRoleSettings(file.roles, config.get<Record<string, RoleProfileSettings>>('roles', {}))
+        );
+    }
+
+    private getPlanBudget(): number {
+        return vscode.workspace.getConfiguration('claudeAssistant').get<number>('budget.planLimitUsd', 0);
+    }
+
     private async buildContext(): Promise<string> {
         const fileContext = this.getActiveFileContext();
         if (!fileContext) {
@@ -382,12 +618,15 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             const fullPrompt = context ? `${context}\n\n${text}` : text;
             await this.claudeService.sendMessage(fullPrompt, {
                 model: options.model,
-                ultrathink: options.ultrathink
+                ultrathink: options.ultrathink,
+                permissionMode: options.permissionMode,
+                requestId: options.requestId,
+                conversationId: options.conversationId
             });
         } catch (error) {
             this.postMessage({
                 type: 'claude',
-                payload: { type: 'error', content: `Chat failed: ${error}` }
+                payload: { type: 'error', content: `Chat failed: ${error}`, requestId: options.requestId }
             });
         }
     }
@@ -403,14 +642,18 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
 ${context ? `Code context:\n${context}\n\n` : ''}User request: ${text}`;
 
+            // Reviews are one-off: they neither continue nor interrupt the chat
             await this.claudeService.sendMessage(reviewPrompt, {
                 model: options.model,
-                ultrathink: options.ultrathink
+                ultrathink: options.ultrathink,
+                permissionMode: options.permissionMode,
+                requestId: options.requestId,
+                conversationId: `review-${options.requestId ?? Date.now()}`
             });
         } catch (error) {
             this.postMessage({
                 type: 'claude',
-                payload: { type: 'error', content: `Review failed: ${error}` }
+                payload: { type: 'error', content: `Review failed: ${error}`, requestId: options.requestId }
             });
         }
     }
@@ -418,13 +661,26 @@ ${context ? `Code context:\n${context}\n\n` : ''}User request: ${text}`;
     private async handlePlanMode(text: string, context: string, options: any) {
         // Use SubagentOrchestrator's planner role
         const taskId = `plan-${Date.now()}`;
+        let repairs = 0;
+        const onRepair = (data: { taskId: string; attempt: number; errors: string[] }) => {
+            if (data.taskId !== taskId) return;
+            repairs = data.attempt;
+            this.postMessage({
+                type: 'agent_stream',
+                taskId,
+                role: 'planner',
+                content: `\n\n--- Plan rejected (${data.errors.join('; ')}). Asking the planner to fix it ---\n\n`
+            });
+        };
+        this.orchestrator.on('plan_repair', onRepair);
 
         try {
-            const response = await this.orchestrator.runAgent({
+            const response = await this.orchestrator.createPlan({
                 taskId,
-                role: 'planner',
                 prompt: text,
-                context
+                context,
+                usageScopes: this.chatUsageScopes(`plan:${taskId}`, options.conversationId),
+                permissionMode: options.permissionMode
             });
 
             // Check for explicit failure
@@ -439,18 +695,28 @@ ${context ? `Code context:\n${context}\n\n` : ''}User request: ${text}`;
             // If we have a structured plan, use it
             if (response.plan && response.plan.steps && response.plan.steps.length > 0) {
                 this.currentPlan = response.plan;
+                this.currentPlanConversationId = options.conversationId;
+                await this.planStore?.save({
+                    plan: response.plan,
+                    status: 'awaiting_approval',
+                    conversationId: options.conversationId,
+                    steps: {},
+                    updatedAt: Date.now()
+                });
                 this.postMessage({
                     type: 'plan_ready',
                     plan: response.plan,
                     steps: response.plan.steps
                 });
             } else if (response.content && response.content.trim()) {
-                // No structured plan but we have content - show it as a regular response
-                // This handles cases where Claude outputs markdown instead of JSON
-                this.postMessage({
-                    type: 'claude',
-                    payload: { type: 'done', content: `## Plan\n\n${response.content}` }
-                });
+                // Show why the output is not a plan, rather than passing it off as one
+                const rejected: PlanRejectedPayload = {
+                    taskId,
+                    errors: response.planErrors ?? ['The planner output holds no plan steps'],
+                    output: response.content,
+                    repairs
+                };
+                this.postMessage({ type: 'plan_rejected', ...rejected });
             } else {
                 this.postMessage({
                     type: 'claude',
@@ -463,89 +729,333 @@ ${context ? `Code context:\n${context}\n\n` : ''}User request: ${text}`;
                 type: 'claude',
                 payload: { type: 'error', content: `Plan generation failed: ${error}` }
             });
+        } finally {
+            this.orchestrator.off('plan_repair', onRepair);
         }
     }
 
     private async handleSwarmMode(text: string, context: string, options: any) {
-        try {
-            const agentCount = options.swarmDensity;
-            const taskId = `swarm-${Date.now()}`;
-
-            // Initialize swarm in UI
+        // A second swarm would take over the first one's decision prompt and stop button
+        if (this.brainstormSwarm) {
+            this.postMessage({
+                type: 'claude',
+                payload: { type: 'error', content: 'A brainstorm is already running; stop it before starting another' }
+            });
+            return;
+        }
+        const taskId = `swarm-${Date.now()}`;
+        const swarm = new BrainstormSwarm(this.orchestrator);
+        this.brainstormSwarm = swarm;
+        const perspectives = new Map<string, string>();
+        const authors = new Map<string, string>();
+        const defended = new Set<string>();
+        let round = 0;
+        const postDebate = (payload: DebateUpdatePayload) => this.postMessage({ type: 'debate_update', payload });
+        const postEntry = (entry: Omit<DebateEntry, 'round'>) => postDebate({ taskId, action: 'entry', entry: { ...entry, round } });
+
+        swarm.on('debate_started', ({ participants }: { participants: DebateParticipant[] }) => {
+            const panel = participants.map(p => ({ agentId: p.agentId, perspective: p.perspective }));
+            for (const participant of panel) {
+                perspectives.set(participant.agentId, participant.perspective);
+            }
             this.postMessage({
                 type: 'swarm_init',
                 taskId,
-                agentCount,
+                agentCount: panel.length,
+                agents: panel,
                 topology: 'mesh'
             });
+            postDebate({ taskId, action: 'start', topic: text, participants: panel });
+        });
+        swarm.on('agent_status', (update: { agentId: string; status: string; activity: string }) => {
+            this.postMessage({
+                type: 'agent_update',
+                agentId: update.agentId,
+                status: update.status,
+                progress: update.status === 'working' ? 50 : 100,
+                task: update.activity
+            });
+        });
+        swarm.on('round_started', ({ round: started }: { round: DebateRound }) => {
+            round = started.roundNumber;
+            postDebate({ taskId, action: 'round', round, roundType: started.type });
+        });
+        swarm.on('proposal_submitted', ({ proposal }: { proposal: Proposal }) => {
+            authors.set(proposal.id, proposal.agentId);
+            postEntry(proposalEntry(proposal));
+        });
+        swarm.on('critique_submitted', ({ critique }: { critique: Critique }) => postEntry(critiqueEntry(critique)));
+        swarm.on('defense_submitted', ({ defense }: { defense: Defense }) => {
+            // The coordinator records one defense per critique answered; show it once
+            if (defended.has(defense.proposalId)) return;
+            defended.add(defense.proposalId);
+            postEntry(defenseEntry(defense));
+        });
+        swarm.on('vote_cast', ({ vote }: { vote: Vote }) => postEntry(voteEntry(vote, authors.get(vote.proposalId))));
+        swarm.on('debate_escalated', ({ reason }: { reason: string }) => postDebate({ taskId, action: 'escalated', reason }));
+        swarm.on('architect_started', () => postDebate({ taskId, action: 'architect' }));
+        swarm.setDecisionHandler(request => this.chooseDebateProposal(request, perspectives));
 
-            // Spawn multiple agents
-            const agentPromises = [];
-            for (let i = 0; i < agentCount; i++) {
-                const agentId = `agent-${i}`;
-                this.postMessage({
-                    type: 'agent_update',
-                    agentId,
-                    status: 'working',
-                    progress: 0
-                });
-
-                agentPromises.push(
-                    this.orchestrator.runAgent({
-                        taskId: `${taskId}-${agentId}`,
-                        role: 'coder',
-                        prompt: `As agent ${i+1} of ${agentCount}, analyze: ${text}`,
-                        context
-                    }).then(response => {
-                        this.postMessage({
-                            type: 'agent_update',
-                            agentId,
-                            status: response.success ? 'completed' : 'failed',
-                            progress: 100,
-                            output: response.content
-                        });
-                        return response;
-                    }).catch(err => {
-                        this.postMessage({
-                            type: 'agent_update',
-                            agentId,
-                            status: 'failed',
-                            progress: 100
-                        });
-                        return { content: `Agent ${agentId} failed: ${err}`, success: false };
-                    })
-                );
+        try {
+            const result = await swarm.run({
+                taskId,
+                topic: text,
+                context,
+                swarmDensity: options.swarmDensity,
+                usageScopes: this.chatUsageScopes(`swarm:${taskId}`, options.conversationId),
+                permissionMode: options.permissionMode
+            });
+            if (result.debate.status === 'cancelled') {
+                return;
             }
+            this.debateStore?.save({
+                taskId,
+                debate: result.debate,
+                participants: result.participants,
+                updatedAt: Date.now()
+            }).catch(error => {
+                vscode.window.showWarningMessage(`Could not save the debate: ${error}`);
+            });
 
-            // Wait for all agents
-            const results = await Promise.all(agentPromises);
-
-            // Aggregate results
-            const aggregated = results.map(r => r.content).join('\n\n---\n\n');
+            let content: string;
+            if (result.consensus) {
+                const winner = result.consensus;
+                const { decision } = result;
+                postDebate({
+                    taskId,
+                    action: 'consensus',
+                    agentId: winner.agentId,
+                    solution: winner.solution,
+                    reasoning: winner.reasoning,
+                    decidedBy: decision?.decidedBy,
+                    rationale: decision?.rationale
+                });
+                const heading = !decision
+                    ? 'Consensus'
+                    : decision.decidedBy === 'architect' ? 'Decided by the architect' : 'Your decision';
+                content = `## ${heading}: ${perspectives.get(winner.agentId)}'s proposal\n\n${winner.solution}` +
+                    (winner.reasoning ? `\n\n**Reasoning:** ${winner.reasoning}` : '') +
+                    (decision?.rationale ? `\n\n**Why it was chosen:** ${decision.rationale}` : '');
+            } else {
+                const reason = result.escalationReason ?? 'The debate ended without consensus';
+                content = `## No consensus\n\n${reason}. The panel's final proposals:\n\n` +
+                    this.lastProposals(result.debate).map(p => `### ${perspectives.get(p.agentId)}\n\n${p.solution}`).join('\n\n');
+            }
             this.postMessage({
                 type: 'claude',
-                payload: { type: 'done', content: `## Swarm Results (${agentCount} agents)\n\n${aggregated}` }
+                payload: {
+                    type: 'done',
+                    content,
+                    usage: this.orchestrator.usage.getTotals(`swarm:${taskId}`)
+                }
             });
         } catch (error) {
             this.postMessage({
                 type: 'claude',
                 payload: { type: 'error', content: `Swarm failed: ${error}` }
             });
+        } finally {
+            swarm.removeAllListeners();
+            if (this.brainstormSwarm === swarm) {
+                this.brainstormSwarm = undefined;
+            }
         }
     }
 
+    /**
+     * Shows the proposals of an escalated debate in the webview and waits for
+     * the user to choose one, or none.
+     */
+    private chooseDebateProposal(request: DebateDecisionRequest, perspectives: Map<string, string>): Promise<string | undefined> {
+        this.resolveDebateDecision?.(undefined);
+        return new Promise(resolve => {
+            this.resolveDebateDecision = proposalId => {
+                this.resolveDebateDecision = undefined;
+                resolve(proposalId);
+            };
+            const payload: DebateDecisionPayload = {
+                taskId: request.taskId,
+                reason: request.reason,
+                rationale: request.rationale,
+                options: request.options.map(p => ({
+                    proposalId: p.id,
+                    agentId: p.agentId,
+                    perspective: perspectives.get(p.agentId) ?? p.agentId,
+                    solution: p.solution,
+                    reasoning: p.reasoning,
+                    votes: p.voteCount ?? 0
+                }))
+            };
+            this.postMessage({ type: 'debate_decision', payload });
+        });
+    }
+
+    private async handleGetDebates(query: string) {
+        const records = await this.debateStore?.search(query) ?? [];
+        const payload: DebateSummary[] = records.map(record => ({
+            taskId: record.taskId,
+            topic: record.debate.topic,
+            status: record.debate.status,
+            decidedBy: record.debate.decision?.decidedBy,
+            perspectives: record.participants.map(p => p.perspective),
+            startedAt: record.debate.startedAt,
+            adrPath: record.adrPath
+        }));
+        this.postMessage({ type: 'debate_history', payload });
+    }
+
+    private async handleLoadDebate(taskId: string) {
+        const record = await this.debateStore?.load(taskId);
+        if (!record) return;
+
+        const { debate } = record;
+        const authors = new Map<string, string>();
+        const entries: DebateEntry[] = [];
+        for (const round of debate.rounds) {
+            const add = (entry: Omit<DebateEntry, 'round'>) => entries.push({ ...entry, round: round.roundNumber });
+            for (const proposal of round.proposals) {
+                authors.set(proposal.id, proposal.agentId);
+                add(proposalEntry(proposal));
+            }
+            round.critiques.forEach(critique => add(critiqueEntry(critique)));
+            // One defense per critique answered, as in a live debate
+            round.defenses
+                .filter((defense, index) => round.defenses.findIndex(d => d.proposalId === defense.proposalId) === index)
+                .forEach(defense => add(defenseEntry(defense)));
+            round.votes.forEach(vote => add(voteEntry(vote, authors.get(vote.proposalId))));
+        }
+
+        const winner = debate.consensus;
+        const payload: DebateRecordPayload = {
+            taskId,
+            topic: debate.topic,
+            participants: record.participants.map(p => ({ agentId: p.agentId, perspective: p.perspective })),
+            entries,
+            status: debate.status === 'consensus_reached' ? 'consensus_reached' : 'escalated',
+            consensus: winner && {
+                agentId: winner.agentId,
+                solution: winner.solution,
+                reasoning: winner.reasoning,
+                decidedBy: debate.decision?.decidedBy,
+                rationale: debate.decision?.rationale
+            },
+            escalationReason: debate.escalationReason,
+            adrPath: record.adrPath
+        };
+        this.postMessage({ type: 'debate_record', payload });
+    }
+
+    /**
+     * Writes a saved debate out as an ADR in the configured directory and
+     * opens it.
+     */
+    private async handleExportDebate(taskId: string) {
+        const record = await this.debateStore?.load(taskId);
+        if (!record) {
+            vscode.window.showErrorMessage('Only debates saved in a workspace can be exported.');
+            return;
+        }
+
+        const directory = vscode.workspace.getConfiguration('claudeAssistant').get<string>('debates.adrDirectory', 'docs/decisions');
+        let adrPath: string;
+        try {
+            adrPath = exportDebateAdr(this.workspaceFolder, record, directory);
+            await this.debateStore!.save({ ...record, adrPath });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Could not export the debate: ${error}`);
+            return;
+        }
+
+        const payload: DebateExportedPayload = { taskId, adrPath };
+        this.postMessage({ type: 'debate_exported', payload });
+        const document = await vscode.workspace.openTextDocument(path.join(this.workspaceFolder, adrPath));
+        await vscode.window.showTextDocument(document, { preview: false });
+    }
+
+    /** Proposals of a debate's latest propose round */
+    private lastProposals(debate: Debate): Proposal[] {
+        return [...debate.rounds].reverse().find(r => r.type === 'propose')?.proposals ?? [];
+    }
+
+    /**
+     * Worktree manager for plan steps, or undefined when steps run in the
+     * workspace (disabled by setting or no workspace folder).
+     */
+    private async getWorktreeManager(): Promise<GitWorktreeManager | undefined> {
+        const enabled = vscode.workspace.getConfiguration('claudeAssistant').get<boolean>('plan.useWorktrees', true);
+        if (!enabled || !this.workspaceFolder) {
+            return undefined;
+        }
+        if (!this.worktreeManager) {
+            this.worktreeManager = new GitWorktreeManager({ rootDir: this.workspaceFolder });
+            await this.worktreeManager.initialize();
+        }
+        return this.worktreeManager;
+    }
+
+    /**
+     * Shows each resolved file against the version it is merged into and
+     * accepts the resolution only when the user accepts every file.
+     */
+    private async reviewResolutions(resolutions: ConflictResolution[]): Promise<boolean> {
+        for (const resolution of resolutions) {
+            const accepted = await this.diffManager.reviewChange(
+                resolution.file,
+                resolution.targetContent,
+                resolution.resolvedContent,
+                `Accept the merge conflict resolution for ${resolution.file}?`
+            );
+            if (!accepted) return false;
+        }
+        return true;
+    }
+
     // Plan mode handlers
     private currentPlan: any = null;
+    private currentPlanConversationId: string | undefined;
+    /** Set while a plan runs, retries a step or rolls back; two at once would share its record and worktrees */
+    private planRunning: boolean = false;
+    /** Settles the revised plan shown for approval, if any */
+    private resolvePlanRevision: ((approved: boolean) => void) | undefined;
+
+    /**
+     * Shows a revised remaining plan in the webview and waits for the user to
+     * approve or decline it.
+     */
+    private reviewPlanRevision(proposal: ReplanProposal): Promise<boolean> {
+        this.resolvePlanRevision?.(false);
+        return new Promise(resolve => {
+            this.resolvePlanRevision = approved => {
+                this.resolvePlanRevision = undefined;
+                resolve(approved);
+            };
+            const payload: PlanRevisionPayload = proposal;
+            this.postMessage({ type: 'plan_revision', ...payload });
+        });
+    }
 
-    private async handlePlanApprove(planId: string) {
+    /**
+     * Runs the current plan; its agents approve tool calls by the permission
+     * mode the plan was approved under, whatever later messages use.
+     */
+    private async handlePlanApprove(planId: string, permissionMode: PermissionMode) {
         if (!this.currentPlan || this.currentPlan.taskId !== planId) {
             this.postMessage({ type: 'claude', payload: { type: 'error', content: 'No plan to approve' } });
             return;
         }
+        await this.runPlanExclusively(() => this.executeCurrentPlan(planId, permissionMode));
+    }
 
+    private async executeCurrentPlan(planId: string, permissionMode: PermissionMode) {
         try {
-            // Execute the plan in main workspace (no GitWorktree)
-            const results = await this.orchestrator.executePlan(this.currentPlan, this.workspaceFolder);
+            // Completed steps of a restored plan are not run again
+            await this.configurePlanExecution();
+            const results = await this.orchestrator.executePlan(
+                this.currentPlan,
+                this.workspaceFolder,
+                this.chatUsageScopes(undefined, this.currentPlanConversationId),
+                permissionMode
+            );
 
             this.postMessage({ type: 'plan_execution_complete' });
 
@@ -553,7 +1063,11 @@ ${context ? `Code context:\n${context}\n\n` : ''}User request: ${text}`;
             const summary = results.map((r, i) => `Step ${i+1}: ${r.success ? 'Success' : 'Failed'}`).join('\n');
             this.postMessage({
                 type: 'claude',
-                payload: { type: 'done', content: `## Plan Execution Complete\n\n${summary}` }
+                payload: {
+                    type: 'done',
+                    content: `## Plan Execution Complete\n\n${summary}`,
+                    usage: this.orchestrator.usage.getTotals(`plan:${planId}`)
+                }
             });
         } catch (error) {
             this.postMessage({
@@ -563,20 +1077,171 @@ ${context ? `Code context:\n${context}\n\n` : ''}User request: ${text}`;
         }
     }
 
-    private handlePlanCancel(planId: string) {
+    private async handleRetryStep(planId: string, stepId: number, permissionMode: PermissionMode) {
+        if (!this.currentPlan || this.currentPlan.taskId !== planId) {
+            this.postMessage({ type: 'claude', payload: { type: 'error', content: 'No plan to retry' } });
+            return;
+        }
+        await this.runPlanExclusively(() => this.retryCurrentPlanStep(planId, stepId, permissionMode));
+    }
+
+    private async retryCurrentPlanStep(planId: string, stepId: number, permissionMode: PermissionMode) {
+        try {
+            await this.configurePlanExecution();
+            const results = await this.orchestrator.retryStep(
+                this.currentPlan,
+                stepId,
+                this.workspaceFolder,
+                this.chatUsageScopes(undefined, this.currentPlanConversationId),
+                permissionMode
+            );
+
+            this.postMessage({ type: 'plan_execution_complete' });
+            const succeeded = results.length > 0 && results.every(r => r.success);
+            this.postMessage({
+                type: 'claude',
+                payload: {
+                    type: 'done',
+                    content: `Step ${stepId}: ${succeeded ? 'Success' : 'Failed'}`,
+                    usage: this.orchestrator.usage.getTotals(`step:${planId}-step-${stepId}`)
+                }
+            });
+        } catch (error) {
+            this.postMessage({ type: 'plan_execution_complete' });
+            this.postMessage({
+                type: 'claude',
+                payload: { type: 'error', content: `Step retry failed: ${error instanceof Error ? error.message : error}` }
+            });
+        }
+    }
+
+    /**
+     * Rolls the workspace back to before a step, after confirmation, applies
+     * the edited step description and replays the plan from there.
+     */
+    private async handlePlanRollback(planId: string, stepId: number, description: string | undefined, permissionMode: PermissionMode) {
+        if (!this.currentPlan || this.currentPlan.taskId !== planId) {
+            this.postMessage({ type: 'claude', payload: { type: 'error', content: 'No plan to roll back' } });
+            return;
+        }
+        await this.runPlanExclusively(() => this.rollbackCurrentPlan(planId, stepId, description, permissionMode));
+    }
+
+    private async rollbackCurrentPlan(planId: string, stepId: number, description: string | undefined, permissionMode: PermissionMode) {
+        const answer = await vscode.window.showWarningMessage(
+            `Roll the workspace back to before step ${stepId} and replay the plan from there? Changes made since then are discarded.`,
+            { modal: true },
+            'Roll Back'
+        );
+        if (answer !== 'Roll Back') {
+            this.postMessage({ type: 'plan_execution_complete' });
+            return;
+        }
+
+        try {
+            if (description !== undefined) {
+                await this.handlePlanEditStep(stepId, description);
+            }
+            await this.configurePlanExecution();
+            const { replaced } = await this.orchestrator.rollbackToStep(this.currentPlan, stepId);
+            this.postMessage({
+                type: 'claude',
+                payload: {
+                    type: 'done',
+                    content: `Rolled back to before step ${stepId}. The replaced workspace state is kept as \`${replaced.ref}\`.`
+                }
+            });
+        } catch (error) {
+            this.postMessage({ type: 'plan_execution_complete' });
+            this.postMessage({
+                type: 'claude',
+                payload: { type: 'error', content: `Rollback failed: ${error instanceof Error ? error.message : error}` }
+            });
+            return;
+        }
+
+        await this.executeCurrentPlan(planId, permissionMode);
+    }
+
+    /**
+     * Runs `work` unless the plan is already running, retrying a step or
+     * rolling back; a second request meanwhile is refused.
+     */
+    private async runPlanExclusively(work: () => Promise<void>) {
+        if (this.planRunning) {
+            this.postMessage({ type: 'claude', payload: { type: 'error', content: 'The plan is still running; wait for it to finish or cancel it first' } });
+            return;
+        }
+        this.planRunning = true;
+        try {
+            await work();
+        } finally {
+            this.planRunning = false;
+        }
+    }
+
+    private async configurePlanExecution() {
+        this.orchestrator.setRoleProfiles(this.getRoleProfiles());
+        this.orchestrator.setPlanBudget(this.getPlanBudget());
+        this.orchestrator.setMaxParallelSteps(
+            vscode.workspace.getConfiguration('claudeAssistant').get<number>('plan.maxParallelSteps', 3)
+        );
+        this.orchestrator.setWorktreeManager(await this.getWorktreeManager());
+        this.orchestrator.setVerificationGates(this.getVerificationGates());
+        const adaptive = vscode.workspace.getConfiguration('claudeAssistant').get<boolean>('plan.adaptiveReplanning', false);
+        this.orchestrator.setReplanHandler(adaptive ? proposal => this.reviewPlanRevision(proposal) : undefined);
+    }
+
+    /**
+     * Verification commands from AGENTS.md `verify.*` preferences and the
+     * `plan.verificationGates` setting, or undefined when there are none.
+     */
+    private getVerificationGates(): VerificationGateRunner | undefined {
+        if (!this.workspaceFolder) return undefined;
+        const { preferences } = new AgentsConfigLoader(this.workspaceFolder).load();
+        const gates = resolveVerificationGates(
+            preferences,
+            vscode.workspace.getConfiguration('claudeAssistant').get<Record<string, string>>('plan.verificationGates', {})
+        );
+        return gates.length ? new VerificationGateRunner(gates) : undefined;
+    }
+
+    /**
+     * Shows the latest plan that still has steps to run, e.g. one cut off by a
+     * reload, so it can be approved, resumed or have a step retried.
+     */
+    private async restorePlan() {
+        if (!this.planStore || this.currentPlan) return;
+
+        const record = await this.planStore.findResumable();
+        if (!record) return;
+
+        this.currentPlan = record.plan;
+        this.currentPlanConversationId = record.conversationId;
+        await this.planStore.save(record);
+        this.postMessage({ type: 'plan_restored', plan: record.plan, status: record.status });
+    }
+
+    private async handlePlanCancel(planId: string) {
         this.currentPlan = null;
-        this.orchestrator.stopTask(planId);
+        this.resolvePlanRevision?.(false);
+        await this.orchestrator.cancelPlan(planId);
         this.postMessage({
             type: 'claude',
             payload: { type: 'done', content: 'Plan cancelled.' }
         });
     }
 
-    private handlePlanEditStep(stepId: number, description: string) {
+    private async handlePlanEditStep(stepId: number, description: string) {
         if (this.currentPlan) {
             const step = this.currentPlan.steps.find((s: any) => s.id === stepId);
             if (step) {
                 step.description = description;
+                const record = await this.planStore?.load(this.currentPlan.taskId);
+                if (record) {
+                    record.plan = this.currentPlan;
+                    await this.planStore!.save(record);
+                }
             }
         }
     }
@@ -598,8 +1263,22 @@ ${context ? `Code context:\n${context}\n\n` : ''}User request: ${text}`;
         });
     }
 
+    /**
+     * Usage scopes of an orchestrated run started from a chat: its own rollup
+     * plus the chat's session.
+     */
+    private chatUsageScopes(scope: UsageScope | undefined, conversationId: string | undefined): UsageScope[] {
+        const scopes: UsageScope[] = scope ? [scope] : [];
+        if (conversationId) {
+            scopes.push(`session:${conversationId}`);
+        }
+        return scopes;
+    }
+
     // Swarm mode handler
     private handleSwarmStop() {
+        this.brainstormSwarm?.cancel();
+        this.resolveDebateDecision?.(undefined);
         this.orchestrator.stopAll();
         this.postMessage({
             type: 'claude',
@@ -9,7 +9,10 @@
  * @date 2025-12-07
  */
 
-import { PlanStep, AgentPlan } from '../orchestration/SubagentOrchestrator';
+import { PlanStep, AgentPlan, StepVerification, SubagentRole } from '../orchestration/SubagentOrchestrator';
+import { PlanRecordStatus } from '../orchestration/PlanStore';
+import { ReplanProposal } from '../orchestration/Replanner';
+import { CritiqueSeverity, DebateRoundType, DebateStatus } from '../orchestration/AgentDebateCoordinator';
 
 // ============================================
 // Core Types
@@ -33,11 +36,25 @@ export type ExtensionMessageType =
     | 'initProgress'        // CLI initialization progress
     | 'sessionLoaded'       // Session loaded
     | 'sessions'            // Session list
+    | 'cli_session'         // CLI session id of the current chat changed
     | 'plan_ready'          // Plan generated, awaiting approval
+    | 'plan_restored'       // Saved plan with steps left to run, shown after a reload
+    | 'plan_rejected'       // Planner output held no valid plan, even after repairs
+    | 'plan_revision'       // Revised remaining plan after failed steps, awaiting approval
+    | 'plan_revised'        // An approved revision replaced the remaining steps
     | 'step_update'         // Plan step status changed
     | 'swarm_init'          // Swarm initialized
     | 'agent_update'        // Individual agent status
+    | 'debate_update'       // Brainstorm debate started, moved to a round, got an entry or ended
+    | 'debate_decision'     // Escalated debate left to the user, awaiting their choice
+    | 'debate_history'      // Saved debates matching a search
+    | 'debate_record'       // A saved debate, opened from the history
+    | 'debate_exported'     // A debate was written out as an ADR
     | 'review_result'       // Code review completed
+    | 'tool_event'          // Tool status transition (chat turn or agent task)
+    | 'usage_update'        // Token and cost totals of a usage scope changed
+    | 'budget_exceeded'     // Plan execution halted at its spend limit
+    | 'merge_conflict'      // A plan step could not be merged back into the workspace
     | 'error';              // Error occurred
 
 // ============================================
@@ -51,11 +68,38 @@ export interface PlanReadyPayload {
     estimatedDuration: number; // milliseconds
 }
 
+export interface PlanRejectedPayload {
+    taskId: string;
+    /** Validation errors of the planner's last output */
+    errors: string[];
+    /** The planner's last output */
+    output: string;
+    /** Repair attempts made before giving up */
+    repairs: number;
+}
+
+/** A revised remaining plan, proposed after steps failed every attempt */
+export type PlanRevisionPayload = ReplanProposal;
+
+export interface PlanRevisedPayload {
+    taskId: string;
+    /** The plan with its completed steps followed by the revised ones */
+    plan: AgentPlan;
+}
+
+export interface PlanRestoredPayload {
+    /** The plan with the step statuses it was saved with */
+    plan: AgentPlan;
+    status: PlanRecordStatus;
+}
+
 export interface StepUpdatePayload {
     taskId: string;
     step: PlanStep;
     agentRole?: 'planner' | 'coder' | 'verifier';
     output?: string;
+    /** Verification commands and verifier verdict of the step's latest attempt */
+    verification?: StepVerification;
 }
 
 // ============================================
@@ -82,6 +126,94 @@ export interface AgentUpdatePayload {
     output?: string;
 }
 
+/** Something a panelist said in a brainstorm debate */
+export interface DebateEntry {
+    kind: 'proposal' | 'critique' | 'defense' | 'vote';
+    agentId: string;
+    /** Author of the proposal a critique or vote is about */
+    targetAgentId?: string;
+    text: string;
+    /** A proposal's reasoning, a critique's suggested fix or a vote's justification */
+    detail?: string;
+    severity?: CritiqueSeverity;
+    confidence?: number;
+    /** Set on defenses that came with a revised solution */
+    revised?: boolean;
+    /** Debate round the entry was made in */
+    round: number;
+}
+
+export type DebateUpdatePayload = { taskId: string } & (
+    | { action: 'start'; topic: string; participants: { agentId: string; perspective: string }[] }
+    | { action: 'round'; round: number; roundType: DebateRoundType }
+    | { action: 'entry'; entry: DebateEntry }
+    | { action: 'escalated'; reason: string }
+    | { action: 'architect' }
+    | {
+        action: 'consensus';
+        agentId: string;
+        solution: string;
+        reasoning: string;
+        /** Set when an escalated debate was settled by the architect or the user */
+        decidedBy?: 'architect' | 'user';
+        rationale?: string;
+    }
+);
+
+/** Proposals of an escalated debate for the user to choose between */
+export interface DebateDecisionPayload {
+    taskId: string;
+    /** Why the debate escalated */
+    reason: string;
+    /** The architect's view of the choice */
+    rationale?: string;
+    options: {
+        proposalId: string;
+        agentId: string;
+        perspective: string;
+        solution: string;
+        reasoning: string;
+        votes: number;
+    }[];
+}
+
+/** A saved debate in the history list */
+export interface DebateSummary {
+    taskId: string;
+    topic: string;
+    status: DebateStatus;
+    /** Set when an escalated debate was settled by the architect or the user */
+    decidedBy?: 'architect' | 'user';
+    perspectives: string[];
+    startedAt: number;
+    /** Workspace-relative path of the debate's ADR, once exported */
+    adrPath?: string;
+}
+
+/** A saved debate in full, in the entries a live debate is shown with */
+export interface DebateRecordPayload {
+    taskId: string;
+    topic: string;
+    participants: { agentId: string; perspective: string }[];
+    entries: DebateEntry[];
+    status: 'consensus_reached' | 'escalated';
+    consensus?: {
+        agentId: string;
+        solution: string;
+        reasoning: string;
+        decidedBy?: 'architect' | 'user';
+        rationale?: string;
+    };
+    escalationReason?: string;
+    adrPath?: string;
+}
+
+export interface DebateExportedPayload {
+    taskId: string;
+    /** Workspace-relative path the ADR was written to */
+    adrPath: string;
+}
+
 // ============================================
 // Review Mode Messages
 // ============================================
@@ -101,6 +233,63 @@ export interface ReviewFinding {
     line?: number;
 }
 
+// ============================================
+// Tool Activity Messages
+// ============================================
+
+export interface ToolEventPayload {
+    toolId: string;
+    toolName: string;
+    status: 'running' | 'success' | 'error';
+    input?: Record<string, unknown>;
+    /** Tool output (or error text), truncated for display */
+    output?: string;
+    /** True when output was cut short */
+    outputTruncated?: boolean;
+    durationMs?: number;
+    /** Set for tools run by orchestrated agents; absent for chat turns */
+    taskId?: string;
+    role?: SubagentRole;
+    /** Set for tools run by chat turns */
+    requestId?: string;
+    conversationId?: string;
+}
+
+export interface MergeConflictPayload {
+    taskId: string;
+    stepId: number;
+    /** Branch and worktree that keep the step's changes */
+    branch: string;
+    worktreePath: string;
+    reason: 'conflict' | 'dirty_workspace' | 'failed';
+    /** Conflicted files, relative to the workspace */
+    conflicts: string[];
+    message: string;
+}
+
+// ============================================
+// Usage Messages
+// ============================================
+
+export interface UsageUpdatePayload {
+    /** Rollup key, e.g. `session:<chat id>`, `plan:<taskId>` or `swarm:<taskId>` */
+    scope: string;
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadTokens: number;
+    cacheCreationTokens: number;
+    costUsd: number;
+    runs: number;
+}
+
+export interface BudgetExceededPayload {
+    taskId: string;
+    /** Step that was running or about to start when the plan halted */
+    stepId: number;
+    limitUsd: number;
+    spentUsd: number;
+}
+
 // ============================================
 // Error Messages
 // ============================================
@@ -134,12 +323,19 @@ export type WebviewMessageType =
     | 'loadSession'
     | 'getSessions'
     | 'newSession'
+    | 'resetSession'      // Keep the messages, start a fresh CLI session
+    | 'forkSession'       // Branch the next turn off the current CLI session
     | 'showInfo'
     | 'webviewReady'
     // New mode-aware message types
     | 'approvePlan'       // User approves plan
     | 'rejectPlan'        // User rejects plan
     | 'retryStep'         // Retry failed step
+    | 'plan_revision_response' // Approve or decline a revised remaining plan
+    | 'debate_decision_response' // Choose a proposal of an escalated debate, or none
+    | 'getDebates'        // Search saved debates
+    | 'loadDebate'        // Open a saved debate
+    | 'exportDebate'      // Write a saved debate out as an ADR
     | 'cancelTask';       // Cancel ongoing task
 
 // ============================================
@@ -156,6 +352,10 @@ export interface SendMessagePayload {
     mode: AppMode;
     swarmDensity: number;
     permissionMode: PermissionMode;
+    /** Tags the reply's messages; also passed back with 'stop' */
+    requestId?: string;
+    /** Chat the turn belongs to, so concurrent chats keep separate CLI sessions */
+    conversationId?: string;
 }
 
 // ============================================
@@ -177,6 +377,37 @@ export interface RetryStepPayload {
     type: 'retryStep';
     taskId: string;
     stepId: number;
+    /** How the step's agents approve tool calls */
+    permissionMode?: PermissionMode;
+}
+
+export interface PlanRevisionResponsePayload {
+    type: 'plan_revision_response';
+    taskId: string;
+    approved: boolean;
+}
+
+export interface DebateDecisionResponsePayload {
+    type: 'debate_decision_response';
+    taskId: string;
+    /** The chosen proposal; absent to leave the debate undecided */
+    proposalId?: string;
+}
+
+export interface GetDebatesPayload {
+    type: 'getDebates';
+    /** Words every listed debate must mention; blank lists them all */
+    query?: string;
+}
+
+export interface LoadDebatePayload {
+    type: 'loadDebate';
+    taskId: string;
+}
+
+export interface ExportDebatePayload {
+    type: 'exportDebate';
+    taskId: string;
 }
 
 export interface CancelTaskPayload {
@@ -115,6 +115,27 @@ interface Message {
     content: string;
     tools?: ToolCall[];
     thoughts?: ThoughtStep[];
+    toolTimeline?: ToolTimelineEntry[];
+    usage?: UsageSummary;
+}
+
+/** Tokens and cost of a reply, or rolled up for a chat */
+interface UsageSummary {
+    inputTokens: number;
+    outputTokens: number;
+    cacheReadTokens: number;
+    cacheCreationTokens: number;
+    costUsd: number;
+    runs: number;
+}
+
+function formatTokens(count: number): string {
+    return count >= 1000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+}
+
+function formatUsage(usage: UsageSummary): string {
+    return `${formatTokens(usage.inputTokens + usage.cacheReadTokens + usage.cacheCreationTokens)} in · `
+        + `${formatTokens(usage.outputTokens)} out · $${usage.costUsd.toFixed(4)}`;
 }
 
 interface FileContext {
@@ -139,8 +160,48 @@ interface PlanStep {
     id: number;
     action: string;
     description: string;
-    status: 'pending' | 'in_progress' | 'completed' | 'failed';
+    status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'skipped';
     files?: string[];
+    dependencies?: number[];
+    /** Role carrying out the step when it is not the coder */
+    role?: string;
+    skipReason?: string;
+    verification?: StepVerification;
+}
+
+interface ReviewFinding {
+    category: 'correctness' | 'security' | 'performance' | 'style';
+    severity: 'critical' | 'major' | 'minor';
+    message: string;
+    file?: string;
+    line?: number;
+}
+
+/** Revised remaining plan proposed after steps failed every attempt */
+interface PlanRevision {
+    taskId: string;
+    failed: { step: PlanStep; error: string }[];
+    replaced: PlanStep[];
+    steps: PlanStep[];
+}
+
+/** Planner output that did not hold a valid plan, after the repair attempts */
+interface PlanRejection {
+    errors: string[];
+    output: string;
+    repairs: number;
+}
+
+interface StepVerification {
+    gates: {
+        name: string;
+        command: string;
+        passed: boolean;
+        exitCode: number | null;
+        timedOut?: boolean;
+        failures: ReviewFinding[];
+    }[];
+    verdict?: { verdict: 'PASS' | 'FAIL'; findings: ReviewFinding[]; reviewerNotes: string };
 }
 
 interface AgentPlan {
@@ -154,7 +215,8 @@ type PermissionMode = 'manual' | 'auto' | 'skip';
 interface PlanState {
     currentPlan: AgentPlan | null;
     steps: PlanStep[];
-    executionStatus: 'idle' | 'draft' | 'approved' | 'executing' | 'completed' | 'cancelled';
+    /** interrupted: restored after a reload with steps left to run */
+    executionStatus: 'idle' | 'draft' | 'approved' | 'executing' | 'completed' | 'cancelled' | 'interrupted';
     currentStepIndex: number;
 }
 
@@ -239,19 +301,69 @@ interface ToolExecution {
     endTime?: number;
 }
 
-interface DebateArgument {
+interface ToolTimelineEntry {
+    toolId: string;
+    toolName: string;
+    status: 'running' | 'success' | 'error';
+    input?: Record<string, unknown>;
+    output?: string;
+    outputTruncated?: boolean;
+    durationMs?: number;
+}
+
+/** Reply still streaming for a chat the user has left */
+interface BackgroundReply {
+    chatId: string;
+    messages: Message[];
+    content: string;
+}
+
+interface DebateEntry {
+    kind: 'proposal' | 'critique' | 'defense' | 'vote';
     agentId: string;
-    position: string;
-    reasoning: string;
-    timestamp: number;
+    targetAgentId?: string;
+    text: string;
+    detail?: string;
+    severity?: 'minor' | 'major' | 'blocking';
+    confidence?: number;
+    revised?: boolean;
+    round: number;
 }
 
 interface DebateState {
+    taskId: string;
+    topic: string;
+    /** Perspective of each panelist, by agent id */
+    perspectives: Record<string, string>;
+    round: { number: number; type: 'propose' | 'critique' | 'defend' | 'vote' } | null;
+    entries: DebateEntry[];
+    status: 'active' | 'consensus_reached' | 'escalated';
+    consensus?: { agentId: string; solution: string; reasoning: string; decidedBy?: 'architect' | 'user'; rationale?: string };
+    escalationReason?: string;
+    /** The architect is reviewing the escalated debate */
+    architectDeciding?: boolean;
+    /** Proposals the user is asked to choose between */
+    pendingDecision?: DebateDecision;
+    /** Workspace-relative path of the debate's ADR, once exported */
+    adrPath?: string;
+}
+
+/** A saved debate in the history list */
+interface DebateSummary {
+    taskId: string;
     topic: string;
-    participants: string[];
-    arguments: DebateArgument[];
-    consensus?: string;
-    status: 'active' | 'concluded';
+    status: 'active' | 'consensus_reached' | 'escalated' | 'cancelled';
+    decidedBy?: 'architect' | 'user';
+    perspectives: string[];
+    startedAt: number;
+    adrPath?: string;
+}
+
+interface DebateDecision {
+    taskId: string;
+    reason: string;
+    rationale?: string;
+    options: { proposalId: string; agentId: string; perspective: string; solution: string; reasoning: string; votes: number }[];
 }
 
 // ============================================
@@ -510,25 +622,151 @@ const LoaderIcon = () => (
     </svg>
 );
 
+function FindingList({ findings }: { findings: ReviewFinding[] }) {
+    return (
+        <>
+            {findings.map((finding, i) => (
+                <div key={i} style={styles.verificationFinding}>
+                    [{finding.severity}] {finding.file ? `${finding.file}${finding.line ? `:${finding.line}` : ''} ` : ''}{finding.message}
+                </div>
+            ))}
+        </>
+    );
+}
+
+/** Verification commands and the verifier's verdict of a step's latest attempt */
+function StepVerificationSummary({ verification }: { verification: StepVerification }) {
+    const { gates, verdict } = verification;
+    return (
+        <div>
+            {gates.map(gate => (
+                <div key={gate.name}>
+                    <div style={{ ...styles.verificationLine, color: gate.passed ? COLORS.accent : COLORS.error }}>
+                        {gate.passed ? '✓' : '✗'} {gate.name}: {gate.command}
+                        {!gate.passed && (gate.timedOut ? ' (timed out)' : gate.exitCode === null ? ' (could not run)' : ` (exit ${gate.exitCode})`)}
+                    </div>
+                    <FindingList findings={gate.failures} />
+                </div>
+            ))}
+            {verdict && (
+                <>
+                    <div style={{ ...styles.verificationLine, color: verdict.verdict === 'PASS' ? COLORS.accent : COLORS.error }}>
+                        {verdict.verdict === 'PASS' ? '✓' : '✗'} Verifier: {verdict.verdict}{verdict.reviewerNotes ? ` - ${verdict.reviewerNotes}` : ''}
+                    </div>
+                    <FindingList findings={verdict.findings} />
+                </>
+            )}
+        </div>
+    );
+}
+
+function PlanRejectedView({ rejection, onDismiss }: { rejection: PlanRejection; onDismiss: () => void }) {
+    const [showOutput, setShowOutput] = useState(false);
+    return (
+        <div style={styles.plannerContainer}>
+            <div style={styles.plannerHeader}>
+                <h3 style={styles.plannerTitle}>Plan rejected</h3>
+                <p style={styles.plannerSubtitle}>
+                    The planner's output is not a valid plan
+                    {rejection.repairs > 0 ? `, also after ${rejection.repairs} repair attempt${rejection.repairs === 1 ? '' : 's'}` : ''}.
+                    Rephrase the request and try again.
+                </p>
+            </div>
+            <div style={styles.stepsList}>
+                {rejection.errors.map((error, i) => (
+                    <div key={i} style={styles.stepItem}>
+                        <div style={styles.stepLeft}>
+                            <span style={{ color: COLORS.error }}><XIcon /></span>
+                            <div style={styles.stepContent}>
+                                <div style={styles.stepDescription}>{error}</div>
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+            {rejection.output && (
+                <div style={styles.streamingContent}>
+                    <button style={styles.stepRetryButton} onClick={() => setShowOutput(!showOutput)}>
+                        {showOutput ? 'Hide planner output' : 'Show planner output'}
+                    </button>
+                    {showOutput && <pre style={styles.streamingPre}>{rejection.output}</pre>}
+                </div>
+            )}
+            <div style={styles.plannerActions}>
+                <button style={styles.cancelButton} onClick={onDismiss}>
+                    Dismiss
+                </button>
+            </div>
+        </div>
+    );
+}
+
+function PlanRevisionPanel({ revision, onRespond }: { revision: PlanRevision; onRespond: (approved: boolean) => void }) {
+    return (
+        <div style={styles.revisionPanel}>
+            <div style={styles.stepAction}>Revised plan proposed</div>
+            {revision.failed.map(({ step, error }) => (
+                <div key={step.id} style={styles.stepMeta}>
+                    Step {step.id} ({step.action}) failed every attempt: {error.split('\n')[0]}
+                </div>
+            ))}
+            <div style={styles.stepMeta}>
+                {revision.replaced.length > 0
+                    ? `Replaces ${revision.replaced.length} remaining step${revision.replaced.length === 1 ? '' : 's'} with:`
+                    : 'Continues with:'}
+            </div>
+            {revision.steps.map(step => (
+                <div key={step.id} style={styles.verificationFinding}>
+                    {step.id}. {step.action}: {step.description}
+                    {step.dependencies && step.dependencies.length > 0 ? ` (after step ${step.dependencies.join(', ')})` : ''}
+                </div>
+            ))}
+            <div style={styles.stepEditButtons}>
+                <button style={styles.stepEditSave} onClick={() => onRespond(true)}>
+                    Approve & Continue
+                </button>
+                <button style={styles.stepEditCancel} onClick={() => onRespond(false)}>
+                    Keep original plan
+                </button>
+            </div>
+        </div>
+    );
+}
+
 function PlannerView({
     plan,
+    executionStatus,
+    revision,
     onApprove,
     onCancel,
-    onEditStep
+    onEditStep,
+    onRetryStep,
+    onRollback,
+    onRevisionResponse
 }: {
     plan: AgentPlan;
+    executionStatus: PlanState['executionStatus'];
+    revision: PlanRevision | null;
     onApprove: () => void;
     onCancel: () => void;
     onEditStep: (stepId: number, newDescription: string) => void;
+    onRetryStep: (stepId: number) => void;
+    onRollback: (stepId: number, description: string) => void;
+    onRevisionResponse: (approved: boolean) => void;
 }) {
+    const interrupted = executionStatus === 'interrupted';
+    const canRetry = interrupted || executionStatus === 'completed';
     const [editingId, setEditingId] = useState<number | null>(null);
     const [editValue, setEditValue] = useState('');
+    // Step being rolled back to, with its description editable before the replay
+    const [rollbackId, setRollbackId] = useState<number | null>(null);
 
     const getStatusIcon = (status: PlanStep['status']) => {
         switch (status) {
             case 'completed': return <span style={{ color: '#10b981' }}><CheckIcon /></span>;
             case 'failed': return <span style={{ color: '#ef4444' }}><XIcon /></span>;
             case 'in_progress': return <span style={{ color: '#f59e0b' }}><LoaderIcon /></span>;
+            case 'skipped': return <span style={styles.stepNumber}>⊘</span>;
             default: return <span style={styles.stepNumber}>○</span>;
         }
     };
@@ -543,16 +781,25 @@ function PlannerView({
         <div style={styles.plannerContainer}>
             <div style={styles.plannerHeader}>
                 <h3 style={styles.plannerTitle}>Execution Plan</h3>
-                <p style={styles.plannerSubtitle}>Review and approve the steps before execution</p>
+                <p style={styles.plannerSubtitle}>
+                    {interrupted
+                        ? 'Execution stopped before every step ran. Resume from the first incomplete step or retry a failed one'
+                        : 'Review and approve the steps before execution'}
+                </p>
             </div>
 
+            {revision && <PlanRevisionPanel revision={revision} onRespond={onRevisionResponse} />}
+
             <div style={styles.stepsList}>
                 {plan.steps.map((step, index) => (
                     <div key={step.id} style={styles.stepItem}>
                         <div style={styles.stepLeft}>
                             {getStatusIcon(step.status)}
                             <div style={styles.stepContent}>
-                                <div style={styles.stepAction}>{step.action}</div>
+                                <div style={styles.stepAction}>
+                                    {step.action}
+                                    {step.role && <span style={styles.stepRoleBadge}>{step.role}</span>}
+                                </div>
                                 {editingId === step.id ? (
                                     <div style={styles.stepEditContainer}>
                                         <textarea
@@ -576,6 +823,32 @@ function PlannerView({
                                             </button>
                                         </div>
                                     </div>
+                                ) : rollbackId === step.id ? (
+                                    <div style={styles.stepEditContainer}>
+                                        <textarea
+                                            style={styles.stepEditTextarea}
+                                            value={editValue}
+                                            onChange={(e) => setEditValue(e.target.value)}
+                                            rows={2}
+                                        />
+                                        <div style={styles.stepEditButtons}>
+                                            <button
+                                                style={styles.stepEditSave}
+                                                onClick={() => {
+                                                    onRollback(step.id, editValue);
+                                                    setRollbackId(null);
+                                                }}
+                                            >
+                                                Roll back & replay
+                                            </button>
+                                            <button
+                                                style={styles.stepEditCancel}
+                                                onClick={() => setRollbackId(null)}
+                                            >
+                                                Cancel
+                                            </button>
+                                        </div>
+                                    </div>
                                 ) : (
                                     <div 
                                         style={styles.stepDescription}
@@ -587,6 +860,34 @@ function PlannerView({
                                         {step.description}
                                     </div>
                                 )}
+                                {step.dependencies && step.dependencies.length > 0 && (
+                                    <div style={styles.stepMeta}>After step {step.dependencies.join(', ')}</div>
+                                )}
+                                {step.skipReason && (
+                                    <div style={styles.stepMeta}>{step.skipReason}</div>
+                                )}
+                                {step.verification && <StepVerificationSummary verification={step.verification} />}
+                                {canRetry && rollbackId !== step.id && (
+                                    <div style={styles.stepEditButtons}>
+                                        {step.status === 'failed' && (
+                                            <button style={styles.stepRetryButton} onClick={() => onRetryStep(step.id)}>
+                                                Retry step
+                                            </button>
+                                        )}
+                                        {step.status !== 'pending' && (
+                                            <button
+                                                style={styles.stepRetryButton}
+                                                title="Restore the workspace to before this step and run the plan again from here"
+                                                onClick={() => {
+                                                    setRollbackId(step.id);
+                                                    setEditValue(step.description);
+                                                }}
+                                            >
+                                                Roll back here
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
                                 {step.files && step.files.length > 0 && (
                                     <div style={styles.stepFiles}>
                                         {step.files.map((f, i) => (
@@ -607,7 +908,7 @@ function PlannerView({
                 </button>
                 <button style={styles.approveButton} onClick={onApprove}>
                     <CheckIcon />
-                    Approve & Execute
+                    {interrupted ? 'Resume' : 'Approve & Execute'}
                 </button>
             </div>
         </div>
@@ -794,24 +1095,52 @@ const NewSessionIcon = () => (
     </svg>
 );
 
+const ForkIcon = () => (
+    <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <circle cx="6" cy="5" r="2"/>
+        <circle cx="6" cy="19" r="2"/>
+        <circle cx="18" cy="7" r="2"/>
+        <path d="M6 7v10M18 9c0 5-12 3-12 8"/>
+    </svg>
+);
+
+const ResetContextIcon = () => (
+    <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <polyline points="1 4 1 10 7 10"/>
+        <path d="M3.51 15a9 9 0 1 0 2.13-9.36L1 10"/>
+    </svg>
+);
+
 interface SessionMetadata {
     id: string;
     title: string;
     timestamp: number;
     messageCount: number;
+    cliSessionId?: string;
 }
 
 function TopNavBar({
     onHome,
     onNewSession,
+    onFork,
+    onResetContext,
+    canContinue,
+    sessionUsage,
     onIndex,
     onSettings
 }: {
     onHome: () => void;
     onNewSession: () => void;
+    onFork: () => void;
+    onResetContext: () => void;
+    /** Whether the chat has a CLI session to fork or reset */
+    canContinue: boolean;
+    sessionUsage: UsageSummary | null;
     onIndex: () => void;
     onSettings: () => void;
 }) {
+    const continueButtonStyle = canContinue ? styles.navButton : { ...styles.navButton, ...styles.navButtonDisabled };
+
     return (
         <div style={styles.topNavBar}>
             <div style={styles.topNavLeft}>
@@ -823,6 +1152,17 @@ function TopNavBar({
                 </button>
             </div>
             <div style={styles.topNavRight}>
+                {sessionUsage && (
+                    <span style={styles.sessionUsage} title={`Session total: ${formatUsage(sessionUsage)}`}>
+                        ${sessionUsage.costUsd.toFixed(2)}
+                    </span>
+                )}
+                <button style={continueButtonStyle} onClick={onFork} disabled={!canContinue} title="Fork Conversation">
+                    <ForkIcon />
+                </button>
+                <button style={continueButtonStyle} onClick={onResetContext} disabled={!canContinue} title="Reset Context (keep messages)">
+                    <ResetContextIcon />
+                </button>
                 <button style={styles.navButton} onClick={onNewSession} title="New Session">
                     <NewSessionIcon />
                 </button>
@@ -849,12 +1189,24 @@ function LoadingOverlay({ progress }: { progress: number }) {
 function HomeView({
     sessions,
     onSelect,
-    onNewSession
+    onNewSession,
+    debates,
+    debateQuery,
+    onSearchDebates,
+    onOpenDebate
 }: {
     sessions: SessionMetadata[];
     onSelect: (id: string) => void;
     onNewSession: () => void;
+    debates: DebateSummary[];
+    debateQuery: string;
+    onSearchDebates: (query: string) => void;
+    onOpenDebate: (taskId: string) => void;
 }) {
+    const outcome = (debate: DebateSummary) => debate.status === 'consensus_reached'
+        ? (debate.decidedBy === 'architect' ? 'decided by the architect' : debate.decidedBy === 'user' ? 'decided by you' : 'consensus')
+        : 'no consensus';
+
     return (
         <div style={styles.homeView}>
             <div style={styles.homeHeader}>
@@ -883,6 +1235,38 @@ function HomeView({
                     ))
                 )}
             </div>
+            <div style={{ ...styles.homeHeader, marginTop: '32px' }}>
+                <h2 style={styles.homeTitle}>Past Debates</h2>
+            </div>
+            <input
+                style={styles.debateSearch}
+                placeholder="Search topics, proposals and critiques..."
+                value={debateQuery}
+                onChange={(e) => onSearchDebates(e.target.value)}
+            />
+            <div style={styles.sessionList}>
+                {debates.length === 0 ? (
+                    <div style={styles.emptyState}>
+                        <p style={styles.emptyText}>
+                            {debateQuery.trim() ? 'No debates match your search' : 'No saved debates. Brainstorm mode saves each debate when it ends'}
+                        </p>
+                    </div>
+                ) : (
+                    debates.map(debate => (
+                        <button
+                            key={debate.taskId}
+                            style={styles.sessionItem}
+                            onClick={() => onOpenDebate(debate.taskId)}
+                        >
+                            <span style={styles.sessionTitle}>{debate.topic.split('\n')[0]}</span>
+                            <span style={styles.sessionMeta}>
+                                {new Date(debate.startedAt).toLocaleDateString()} • {outcome(debate)}
+                                {debate.adrPath && ' • exported'}
+                            </span>
+                        </button>
+                    ))
+                )}
+            </div>
         </div>
     );
 }
@@ -994,7 +1378,7 @@ const SwarmView: React.FC<SwarmViewProps> = ({ agents, progress, agentOutputs, o
                         }}
                     >
                         <div style={swarmStyles.agentHeader}>
-                            <span style={swarmStyles.agentId}>{agent.id}</span>
+                            <span style={swarmStyles.agentId}>{agent.type}</span>
                             <span style={{
                                 ...swarmStyles.agentStatus,
                                 color: agent.status === 'completed' ? '#10b981' :
@@ -1342,7 +1726,123 @@ function ToolExecutionFeedback({ tool }: { tool: ToolExecution }) {
     );
 }
 
-function DebateVisualization({ debate }: { debate: DebateState }) {
+/** Short description of what a tool call touched, e.g. a file path or command */
+function toolTarget(entry: ToolTimelineEntry): string {
+    const input = entry.input || {};
+    const target = input.file_path ?? input.path ?? input.command ?? input.pattern ?? input.url;
+    return typeof target === 'string' ? target : '';
+}
+
+function ToolTimeline({ entries, isActive }: { entries: ToolTimelineEntry[]; isActive: boolean }) {
+    const [expanded, setExpanded] = useState(false);
+    const [openEntryId, setOpenEntryId] = useState<string | null>(null);
+
+    if (entries.length === 0) return null;
+
+    const running = entries.filter(e => e.status === 'running');
+    const failedCount = entries.filter(e => e.status === 'error').length;
+    const label = isActive && running.length > 0
+        ? `Running ${running[running.length - 1].toolName}...`
+        : `${entries.length} tool call${entries.length === 1 ? '' : 's'}${failedCount > 0 ? ` · ${failedCount} failed` : ''}`;
+
+    return (
+        <div style={styles.thoughtContainer}>
+            <button onClick={() => setExpanded(!expanded)} style={styles.thoughtHeader}>
+                <div style={styles.thoughtHeaderLeft}>
+                    {isActive && running.length > 0 ? <div style={styles.thoughtSpinner} /> : <CheckIcon />}
+                    <span style={styles.thoughtLabel}>{label}</span>
+                </div>
+                <ChevronIcon expanded={expanded} />
+            </button>
+            {expanded && (
+                <div style={styles.thoughtSteps}>
+                    {entries.map(entry => (
+                        <div key={entry.toolId} style={styles.thoughtStep}>
+                            <div
+                                style={{ ...styles.thoughtStepHeader, ...styles.toolTimelineRow, marginBottom: 0 }}
+                                onClick={() => setOpenEntryId(openEntryId === entry.toolId ? null : entry.toolId)}
+                            >
+                                <span style={styles.thoughtToolBadge}>{entry.toolName}</span>
+                                <span style={styles.toolTimelineTarget} title={toolTarget(entry)}>{toolTarget(entry)}</span>
+                                {entry.durationMs !== undefined && (
+                                    <span style={styles.toolTimelineMeta}>{(entry.durationMs / 1000).toFixed(1)}s</span>
+                                )}
+                                <span style={styles.thoughtStatus}>
+                                    {entry.status === 'running' && <LoaderIcon />}
+                                    {entry.status === 'success' && <CheckIcon />}
+                                    {entry.status === 'error' && <XIcon />}
+                                </span>
+                            </div>
+                            {openEntryId === entry.toolId && entry.output && (
+                                <pre style={{ ...styles.thoughtCode, marginTop: '6px', maxHeight: '160px', overflowY: 'auto' }}>
+                                    {entry.output}
+                                    {entry.outputTruncated && '\n… (truncated)'}
+                                </pre>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+const DEBATE_ENTRY_ICONS: Record<DebateEntry['kind'], string> = {
+    proposal: '💡',
+    critique: '🔍',
+    defense: '🛡️',
+    vote: '🗳️'
+};
+
+const SEVERITY_COLORS: Record<NonNullable<DebateEntry['severity']>, string> = {
+    minor: '#6b7280',
+    major: '#f59e0b',
+    blocking: '#ef4444'
+};
+
+function DebateDecisionPanel({ decision, onDecide }: { decision: DebateDecision; onDecide: (proposalId?: string) => void }) {
+    return (
+        <div style={styles.revisionPanel}>
+            <div style={styles.stepAction}>Choose the proposal to adopt</div>
+            {decision.rationale && <div style={styles.stepMeta}>Architect: {decision.rationale}</div>}
+            {decision.options.map(option => (
+                <div key={option.proposalId} style={styles.verificationFinding}>
+                    <div style={{ fontWeight: 600 }}>
+                        {option.perspective} ({option.votes} vote{option.votes === 1 ? '' : 's'})
+                    </div>
+                    <div style={{ whiteSpace: 'pre-wrap', margin: '4px 0' }}>{option.solution}</div>
+                    <button style={styles.stepEditSave} onClick={() => onDecide(option.proposalId)}>
+                        Adopt this proposal
+                    </button>
+                </div>
+            ))}
+            <div style={styles.stepEditButtons}>
+                <button style={styles.stepEditCancel} onClick={() => onDecide(undefined)}>
+                    Leave undecided
+                </button>
+            </div>
+        </div>
+    );
+}
+
+function DebateVisualization({
+    debate,
+    onDecide,
+    onExport
+}: {
+    debate: DebateState;
+    onDecide: (proposalId?: string) => void;
+    /** Offered once the debate has ended and nothing is left to decide */
+    onExport?: () => void;
+}) {
+    const name = (agentId: string | undefined) => (agentId && debate.perspectives[agentId]) || agentId || 'unknown';
+    const decidedBy = debate.consensus?.decidedBy;
+    const statusText = debate.status === 'consensus_reached'
+        ? (decidedBy === 'architect' ? 'decided by the architect' : decidedBy === 'user' ? 'decided by you' : 'consensus reached')
+        : debate.status === 'escalated'
+            ? (debate.architectDeciding ? 'architect deciding' : debate.pendingDecision ? 'awaiting your choice' : 'no consensus')
+            : debate.round ? `round ${debate.round.number}: ${debate.round.type}` : 'starting';
+
     return (
         <div style={{
             ...styles.planCard,
@@ -1357,18 +1857,18 @@ function DebateVisualization({ debate }: { debate: DebateState }) {
                         Agent Debate: {debate.topic}
                     </div>
                     <div style={{ fontSize: '12px', color: 'var(--vscode-descriptionForeground)', marginTop: '4px' }}>
-                        {debate.participants.join(', ')} • {debate.status}
+                        {Object.values(debate.perspectives).join(', ')} • {statusText}
                     </div>
                 </div>
             </div>
 
-            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
-                {debate.arguments.map((arg, idx) => (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', maxHeight: '400px', overflowY: 'auto' }}>
+                {debate.entries.map((entry, idx) => (
                     <div key={idx} style={{
                         backgroundColor: 'rgba(0, 0, 0, 0.2)',
                         padding: '12px',
                         borderRadius: '6px',
-                        borderLeft: '2px solid #8b5cf6'
+                        borderLeft: `2px solid ${entry.severity ? SEVERITY_COLORS[entry.severity] : '#8b5cf6'}`
                     }}>
                         <div style={{
                             fontWeight: 600,
@@ -1376,22 +1876,39 @@ function DebateVisualization({ debate }: { debate: DebateState }) {
                             marginBottom: '4px',
                             fontSize: '13px'
                         }}>
-                            {arg.agentId}
-                        </div>
-                        <div style={{
-                            fontSize: '13px',
-                            color: 'var(--vscode-foreground)',
-                            marginBottom: '6px'
-                        }}>
-                            Position: {arg.position}
-                        </div>
-                        <div style={{
-                            fontSize: '12px',
-                            color: 'var(--vscode-descriptionForeground)',
-                            fontStyle: 'italic'
-                        }}>
-                            {arg.reasoning}
+                            {DEBATE_ENTRY_ICONS[entry.kind]} {name(entry.agentId)}
+                            {entry.targetAgentId && ` → ${name(entry.targetAgentId)}`}
+                            {entry.severity && (
+                                <span style={{ marginLeft: '8px', fontSize: '11px', color: SEVERITY_COLORS[entry.severity] }}>
+                                    {entry.severity}
+                                </span>
+                            )}
+                            {entry.confidence !== undefined && (
+                                <span style={{ marginLeft: '8px', fontSize: '11px', color: 'var(--vscode-descriptionForeground)' }}>
+                                    {Math.round(entry.confidence * 100)}% confident
+                                </span>
+                            )}
+                            {entry.revised && (
+                                <span style={{ marginLeft: '8px', fontSize: '11px', color: COLORS.accent }}>
+                                    revised proposal
+                                </span>
+                            )}
                         </div>
+                        {entry.text && (
+                            <div style={{ fontSize: '13px', color: 'var(--vscode-foreground)', whiteSpace: 'pre-wrap' }}>
+                                {entry.text}
+                            </div>
+                        )}
+                        {entry.detail && (
+                            <div style={{
+                                fontSize: '12px',
+                                color: 'var(--vscode-descriptionForeground)',
+                                fontStyle: 'italic',
+                                marginTop: '6px'
+                            }}>
+                                {entry.kind === 'critique' ? `Suggested fix: ${entry.detail}` : entry.detail}
+                            </div>
+                        )}
                     </div>
                 ))}
             </div>
@@ -1405,11 +1922,50 @@ function DebateVisualization({ debate }: { debate: DebateState }) {
                     borderLeft: '3px solid #10b981'
                 }}>
                     <div style={{ fontWeight: 600, color: '#10b981', marginBottom: '4px' }}>
-                        Consensus Reached
+                        {decidedBy === 'architect' ? 'Decided by the Architect' : decidedBy === 'user' ? 'Your Decision' : 'Consensus Reached'}
+                        : {name(debate.consensus.agentId)}'s proposal
+                    </div>
+                    <div style={{ fontSize: '13px', color: 'var(--vscode-foreground)', whiteSpace: 'pre-wrap' }}>
+                        {debate.consensus.solution}
+                    </div>
+                    {debate.consensus.rationale && (
+                        <div style={{ fontSize: '12px', color: 'var(--vscode-descriptionForeground)', fontStyle: 'italic', marginTop: '6px' }}>
+                            {debate.consensus.rationale}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {debate.escalationReason && !debate.consensus && (
+                <div style={{
+                    marginTop: '12px',
+                    padding: '12px',
+                    backgroundColor: 'rgba(239, 68, 68, 0.1)',
+                    borderRadius: '6px',
+                    borderLeft: '3px solid #ef4444'
+                }}>
+                    <div style={{ fontWeight: 600, color: '#ef4444', marginBottom: '4px' }}>
+                        No Consensus
                     </div>
                     <div style={{ fontSize: '13px', color: 'var(--vscode-foreground)' }}>
-                        {debate.consensus}
+                        {debate.escalationReason}
                     </div>
+                    {debate.architectDeciding && (
+                        <div style={{ fontSize: '12px', color: 'var(--vscode-descriptionForeground)', marginTop: '6px' }}>
+                            ⏳ The architect is reviewing the debate…
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {debate.pendingDecision && <DebateDecisionPanel decision={debate.pendingDecision} onDecide={onDecide} />}
+
+            {onExport && debate.status !== 'active' && !debate.architectDeciding && !debate.pendingDecision && (
+                <div style={{ ...styles.stepEditButtons, alignItems: 'center', marginTop: '12px' }}>
+                    <button style={styles.stepEditSave} onClick={onExport}>
+                        {debate.adrPath ? 'Export ADR again' : 'Export as ADR'}
+                    </button>
+                    {debate.adrPath && <span style={styles.sessionMeta}>{debate.adrPath}</span>}
                 </div>
             )}
         </div>
@@ -1435,6 +1991,7 @@ export function App() {
     const [showWelcome, setShowWelcome] = useState(true);
     const [currentMode, setCurrentMode] = useState<AppMode>('chat');
     const [thoughtSteps, setThoughtSteps] = useState<ThoughtStep[]>([]);
+    const [toolTimeline, setToolTimeline] = useState<ToolTimelineEntry[]>([]);
     const [showSettings, setShowSettings] = useState(false);
     const [swarmDensity, setSwarmDensity] = useState(3);
     const [permissionMode, setPermissionMode] = useState<PermissionMode>('auto');
@@ -1446,6 +2003,8 @@ export function App() {
         executionStatus: 'idle',
         currentStepIndex: 0
     });
+    const [planRejection, setPlanRejection] = useState<PlanRejection | null>(null);
+    const [planRevision, setPlanRevision] = useState<PlanRevision | null>(null);
 
     // Review mode state
     const [reviewState, setReviewState] = useState<ReviewState>({
@@ -1470,16 +2029,27 @@ export function App() {
     const [isInitializing, setIsInitializing] = useState(true);
     const [initProgress, setInitProgress] = useState(0);
     const [currentSessionId, setCurrentSessionId] = useState<string>(`session-${Date.now()}`);
+    const [cliSessionId, setCliSessionId] = useState<string | null>(null);
+    const [sessionUsage, setSessionUsage] = useState<UsageSummary | null>(null);
 
     // Retry, Tool, and Debate states
     const [retryState, setRetryState] = useState<RetryState | null>(null);
     const [toolExecutions, setToolExecutions] = useState<Map<string, ToolExecution>>(new Map());
     const [activeDebate, setActiveDebate] = useState<DebateState | null>(null);
+    const [debates, setDebates] = useState<DebateSummary[]>([]);
+    const [debateQuery, setDebateQuery] = useState('');
+    /** Saved debate opened from the history */
+    const [viewedDebate, setViewedDebate] = useState<DebateState | null>(null);
 
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const streamingRef = useRef('');
     const toolsRef = useRef<ToolCall[]>([]);
     const thoughtStepsRef = useRef<ThoughtStep[]>([]);
+    const toolTimelineRef = useRef<ToolTimelineEntry[]>([]);
+    // Request whose reply this view shows; replies to other requests belong to chats left mid-stream
+    const activeRequestRef = useRef<string | null>(null);
+    const backgroundRepliesRef = useRef<Map<string, BackgroundReply>>(new Map());
+    const currentSessionIdRef = useRef(currentSessionId);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -1504,29 +2074,56 @@ export function App() {
     }, [thoughtSteps]);
 
     useEffect(() => {
+        toolTimelineRef.current = toolTimeline;
+    }, [toolTimeline]);
+
+    useEffect(() => {
+        currentSessionIdRef.current = currentSessionId;
+    }, [currentSessionId]);
+
+    useEffect(() => {
+        // Completes the reply of a chat left mid-stream and saves it to that chat
+        const handleBackgroundReply = (payload: { type: string; content: string; requestId: string }) => {
+            const reply = backgroundRepliesRef.current.get(payload.requestId);
+            if (!reply) return;
+
+            if (payload.type === 'chunk') {
+                reply.content += payload.content;
+            } else if (payload.type === 'done' || payload.type === 'error') {
+                backgroundRepliesRef.current.delete(payload.requestId);
+                const content = payload.type === 'error'
+                    ? `**Error:** ${payload.content}`
+                    : reply.content || payload.content;
+                if (content?.trim()) {
+                    vscode.postMessage({
+                        type: 'saveSession',
+                        id: reply.chatId,
+                        messages: [...reply.messages, { role: 'assistant', content }]
+                    });
+                }
+            }
+        };
+
         const handleMessage = (event: MessageEvent) => {
             const message = event.data;
 
             if (message.type === 'claude') {
                 const payload = message.payload;
+                if (payload.requestId && payload.requestId !== activeRequestRef.current) {
+                    handleBackgroundReply(payload);
+                    return;
+                }
                 switch (payload.type) {
                     case 'chunk':
                         setStreamingContent(prev => prev + payload.content);
                         break;
                     case 'tool':
-                        const newStep: ThoughtStep = {
-                            id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-                            type: 'tool',
-                            toolName: payload.toolName,
-                            toolInput: payload.toolInput,
-                            timestamp: Date.now(),
-                            status: 'running'
-                        };
-                        setThoughtSteps(prev => [...prev, newStep]);
+                        // Status and output arrive separately as tool_event messages
                         setActiveTools(prev => [...prev, { name: payload.toolName, input: payload.toolInput }]);
                         break;
                     case 'done':
                         setIsGenerating(false);
+                        activeRequestRef.current = null;
                         const finalContent = streamingRef.current || payload.content;
                         setThoughtSteps(prev => prev.map(s => ({ ...s, status: 'done' as const })));
                         if (finalContent?.trim()) {
@@ -1534,25 +2131,36 @@ export function App() {
                                 role: 'assistant',
                                 content: finalContent,
                                 tools: toolsRef.current.length > 0 ? [...toolsRef.current] : undefined,
-                                thoughts: thoughtStepsRef.current.length > 0 ? [...thoughtStepsRef.current] : undefined
+                                thoughts: thoughtStepsRef.current.length > 0 ? [...thoughtStepsRef.current] : undefined,
+                                toolTimeline: toolTimelineRef.current.length > 0 ? [...toolTimelineRef.current] : undefined,
+                                usage: payload.usage
                             }]);
                         }
                         setStreamingContent('');
                         setActiveTools([]);
                         setThoughtSteps([]);
+                        setToolTimeline([]);
                         streamingRef.current = '';
                         toolsRef.current = [];
                         thoughtStepsRef.current = [];
+                        toolTimelineRef.current = [];
                         break;
                     case 'error':
                         setIsGenerating(false);
-                        setMessages(prev => [...prev, { role: 'assistant', content: `**Error:** ${payload.content}` }]);
+                        activeRequestRef.current = null;
+                        setMessages(prev => [...prev, {
+                            role: 'assistant',
+                            content: `**Error:** ${payload.content}`,
+                            toolTimeline: toolTimelineRef.current.length > 0 ? [...toolTimelineRef.current] : undefined
+                        }]);
                         setStreamingContent('');
                         setActiveTools([]);
                         setThoughtSteps([]);
+                        setToolTimeline([]);
                         streamingRef.current = '';
                         toolsRef.current = [];
                         thoughtStepsRef.current = [];
+                        toolTimelineRef.current = [];
                         break;
                 }
             } else if (message.type === 'context') {
@@ -1561,13 +2169,43 @@ export function App() {
                 setSessions(message.payload);
             } else if (message.type === 'sessionLoaded') {
                 setMessages(message.payload.messages);
+                setCliSessionId(message.payload.cliSessionId ?? null);
+                setSessionUsage(message.payload.usage ?? null);
                 setShowWelcome(false);
+            } else if (message.type === 'cli_session') {
+                if (message.payload.conversationId === currentSessionIdRef.current) {
+                    setCliSessionId(message.payload.sessionId);
+                }
+            } else if (message.type === 'usage_update') {
+                if (message.payload.scope === `session:${currentSessionIdRef.current}`) {
+                    setSessionUsage(message.payload);
+                }
+            } else if (message.type === 'budget_exceeded') {
+                const { stepId, limitUsd, spentUsd } = message.payload;
+                setMessages(prev => [...prev, {
+                    role: 'assistant',
+                    content: `**Budget reached:** plan execution stopped at step ${stepId} after spending `
+                        + `$${spentUsd.toFixed(2)} of its $${limitUsd.toFixed(2)} limit.`
+                }]);
+            } else if (message.type === 'merge_conflict') {
+                const { stepId, branch, reason, conflicts, message: detail } = message.payload;
+                const problem = reason === 'conflict'
+                    ? `conflicts in ${conflicts.map((file: string) => `\`${file}\``).join(', ')}`
+                    : reason === 'dirty_workspace'
+                        ? 'the workspace has uncommitted changes'
+                        : detail;
+                setMessages(prev => [...prev, {
+                    role: 'assistant',
+                    content: `**Step ${stepId} not merged:** ${problem}. Its changes are kept on branch \`${branch}\`; `
+                        + 'your working tree was left unchanged.'
+                }]);
             } else if (message.type === 'initProgress') {
                 setInitProgress(message.payload);
                 if (message.payload >= 100) {
                     setIsInitializing(false);
                 }
             } else if (message.type === 'plan_ready') {
+                setPlanRejection(null);
                 setPlanState({
                     currentPlan: message.plan,
                     steps: message.steps || message.plan?.steps || [],
@@ -1576,17 +2214,35 @@ export function App() {
                 });
                 setIsGenerating(false);
                 setStreamingContent('');
+            } else if (message.type === 'plan_revision') {
+                setPlanRevision({ taskId: message.taskId, failed: message.failed, replaced: message.replaced, steps: message.steps });
+            } else if (message.type === 'plan_revised') {
+                setPlanRevision(null);
+                setPlanState(prev => ({ ...prev, currentPlan: message.plan, steps: message.plan.steps }));
+            } else if (message.type === 'plan_rejected') {
+                setPlanRejection({ errors: message.errors, output: message.output, repairs: message.repairs });
+                setIsGenerating(false);
+                setStreamingContent('');
+            } else if (message.type === 'plan_restored') {
+                setPlanState({
+                    currentPlan: message.plan,
+                    steps: message.plan.steps,
+                    executionStatus: message.status === 'awaiting_approval' ? 'draft' : 'interrupted',
+                    currentStepIndex: 0
+                });
+                setCurrentMode('plan');
             } else if (message.type === 'step_update') {
                 setPlanState(prev => ({
                     ...prev,
                     steps: prev.steps.map(step =>
                         step.id === message.stepId
-                            ? { ...step, status: message.status }
+                            ? { ...step, status: message.status, skipReason: message.skipReason, verification: message.verification }
                             : step
                     ),
                     currentStepIndex: message.stepIndex ?? prev.currentStepIndex
                 }));
             } else if (message.type === 'plan_execution_complete') {
+                setPlanRevision(null);
                 setPlanState(prev => ({
                     ...prev,
                     executionStatus: 'completed'
@@ -1607,7 +2263,7 @@ export function App() {
                 for (let i = 0; i < message.agentCount; i++) {
                     initialAgents.push({
                         id: `agent-${i}`,
-                        type: 'coder',
+                        type: message.agents?.[i]?.perspective ?? 'coder',
                         status: 'idle',
                         progress: 0,
                         currentTask: null
@@ -1699,72 +2355,107 @@ export function App() {
                         status: 'exhausted'
                     });
                 }
-            } else if (message.type === 'tool_start') {
-                // Add new tool execution
-                const toolExec: ToolExecution = {
-                    id: message.toolId || `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-                    toolName: message.toolName,
-                    input: message.input || {},
-                    status: 'running',
-                    startTime: Date.now()
-                };
-                setToolExecutions(prev => new Map(prev).set(toolExec.id, toolExec));
-            } else if (message.type === 'tool_complete') {
-                // Update tool execution with output
-                setToolExecutions(prev => {
-                    const newMap = new Map(prev);
-                    const tool = newMap.get(message.toolId);
-                    if (tool) {
-                        newMap.set(message.toolId, {
-                            ...tool,
-                            output: message.output,
-                            status: 'completed',
-                            endTime: Date.now()
-                        });
-                    }
-                    return newMap;
-                });
-            } else if (message.type === 'tool_error') {
-                // Update tool execution with error
-                setToolExecutions(prev => {
-                    const newMap = new Map(prev);
-                    const tool = newMap.get(message.toolId);
-                    if (tool) {
-                        newMap.set(message.toolId, {
-                            ...tool,
-                            error: message.error,
-                            status: 'error',
-                            endTime: Date.now()
+            } else if (message.type === 'tool_event') {
+                const payload = message.payload;
+                if (payload.taskId) {
+                    // Tool run by an orchestrated agent
+                    setToolExecutions(prev => {
+                        const existing = prev.get(payload.toolId);
+                        return new Map(prev).set(payload.toolId, {
+                            id: payload.toolId,
+                            toolName: payload.toolName,
+                            input: payload.input || existing?.input || {},
+                            output: payload.status === 'success' ? payload.output : undefined,
+                            error: payload.status === 'error' ? payload.output : undefined,
+                            status: payload.status === 'success' ? 'completed' : payload.status,
+                            startTime: existing?.startTime ?? Date.now(),
+                            endTime: payload.status === 'running' ? undefined : Date.now()
                         });
-                    }
-                    return newMap;
+                    });
+                } else if (!payload.requestId || payload.requestId === activeRequestRef.current) {
+                    // Tool run in the current chat turn
+                    setToolTimeline(prev => {
+                        const index = prev.findIndex(e => e.toolId === payload.toolId);
+                        if (index === -1) {
+                            return [...prev, payload];
+                        }
+                        const next = [...prev];
+                        next[index] = { ...prev[index], ...payload, input: payload.input ?? prev[index].input };
+                        return next;
+                    });
+                }
+            } else if (message.type === 'debate_history') {
+                setDebates(message.payload);
+            } else if (message.type === 'debate_record') {
+                const record = message.payload;
+                setViewedDebate({
+                    taskId: record.taskId,
+                    topic: record.topic,
+                    perspectives: Object.fromEntries(
+                        record.participants.map((p: { agentId: string; perspective: string }) => [p.agentId, p.perspective])
+                    ),
+                    round: null,
+                    entries: record.entries,
+                    status: record.status,
+                    consensus: record.consensus,
+                    escalationReason: record.escalationReason,
+                    adrPath: record.adrPath
                 });
+            } else if (message.type === 'debate_exported') {
+                const { taskId, adrPath } = message.payload;
+                const withPath = (prev: DebateState | null) => prev && prev.taskId === taskId ? { ...prev, adrPath } : prev;
+                setActiveDebate(withPath);
+                setViewedDebate(withPath);
+                setDebates(prev => prev.map(d => d.taskId === taskId ? { ...d, adrPath } : d));
+            } else if (message.type === 'debate_decision') {
+                const decision: DebateDecision = message.payload;
+                setActiveDebate(prev => prev && prev.taskId === decision.taskId
+                    ? { ...prev, architectDeciding: false, pendingDecision: decision }
+                    : prev);
             } else if (message.type === 'debate_update') {
-                // Update active debate state
-                if (message.action === 'start') {
+                const update = message.payload;
+                if (update.action === 'start') {
                     setActiveDebate({
-                        topic: message.topic,
-                        participants: message.participants || [],
-                        arguments: [],
+                        taskId: update.taskId,
+                        topic: update.topic,
+                        perspectives: Object.fromEntries(
+                            update.participants.map((p: { agentId: string; perspective: string }) => [p.agentId, p.perspective])
+                        ),
+                        round: null,
+                        entries: [],
                         status: 'active'
                     });
-                } else if (message.action === 'argument' && activeDebate) {
-                    setActiveDebate({
-                        ...activeDebate,
-                        arguments: [...activeDebate.arguments, {
-                            agentId: message.agentId,
-                            position: message.position,
-                            reasoning: message.reasoning,
-                            timestamp: Date.now()
-                        }]
-                    });
-                } else if (message.action === 'conclude' && activeDebate) {
-                    setActiveDebate({
-                        ...activeDebate,
-                        consensus: message.consensus,
-                        status: 'concluded'
-                    });
+                    return;
                 }
+                setActiveDebate(prev => {
+                    if (!prev || prev.taskId !== update.taskId) return prev;
+                    switch (update.action) {
+                        case 'round':
+                            return { ...prev, round: { number: update.round, type: update.roundType } };
+                        case 'entry':
+                            return { ...prev, entries: [...prev.entries, update.entry] };
+                        case 'consensus':
+                            return {
+                                ...prev,
+                                status: 'consensus_reached',
+                                consensus: {
+                                    agentId: update.agentId,
+                                    solution: update.solution,
+                                    reasoning: update.reasoning,
+                                    decidedBy: update.decidedBy,
+                                    rationale: update.rationale
+                                },
+                                architectDeciding: false,
+                                pendingDecision: undefined
+                            };
+                        case 'escalated':
+                            return { ...prev, status: 'escalated', escalationReason: update.reason };
+                        case 'architect':
+                            return { ...prev, architectDeciding: true };
+                        default:
+                            return prev;
+                    }
+                });
             }
         };
 
@@ -1781,6 +2472,26 @@ export function App() {
         }
     }, [messages, isGenerating]);
 
+    const startRequest = (): string => {
+        const requestId = `request-${Date.now()}`;
+        activeRequestRef.current = requestId;
+        return requestId;
+    };
+
+    // Leaves the current reply streaming in the background, to be saved to its chat when done
+    const detachActiveRequest = () => {
+        if (isGenerating && activeRequestRef.current) {
+            backgroundRepliesRef.current.set(activeRequestRef.current, {
+                chatId: currentSessionId,
+                messages,
+                content: streamingRef.current
+            });
+        }
+        activeRequestRef.current = null;
+        setIsGenerating(false);
+        setActiveTools([]);
+    };
+
     const handleSlashCommand = (cmd: SlashCommand) => {
         setInput('');
         setShowSlashPicker(false);
@@ -1792,6 +2503,7 @@ export function App() {
         setIsGenerating(true);
         setStreamingContent('');
         setActiveTools([]);
+        setPlanRejection(null);
 
         vscode.postMessage({
             type: 'send',
@@ -1801,7 +2513,9 @@ export function App() {
             ultrathink,
             mode: currentMode,
             swarmDensity,
-            permissionMode
+            permissionMode,
+            requestId: startRequest(),
+            conversationId: currentSessionId
         });
     };
 
@@ -1815,6 +2529,7 @@ export function App() {
         setIsGenerating(true);
         setStreamingContent('');
         setActiveTools([]);
+        setPlanRejection(null);
         setShowSlashPicker(false);
 
         // Include mode and settings in message
@@ -1826,12 +2541,14 @@ export function App() {
             ultrathink,
             mode: currentMode,           // NEW: pass current mode
             swarmDensity,                // NEW: pass swarm density
-            permissionMode               // NEW: pass permission mode
+            permissionMode,              // NEW: pass permission mode
+            requestId: startRequest(),
+            conversationId: currentSessionId
         });
     };
 
     const handleStop = () => {
-        vscode.postMessage({ type: 'stop' });
+        vscode.postMessage({ type: 'stop', requestId: activeRequestRef.current });
         setIsGenerating(false);
     };
 
@@ -1877,18 +2594,39 @@ export function App() {
 
     const handleNewSession = () => {
         if (messages.length > 0) {
-            vscode.postMessage({ type: 'saveSession', id: currentSessionId, messages });
+            vscode.postMessage({ type: 'saveSession', id: currentSessionId, messages, cliSessionId });
         }
+        detachActiveRequest();
+        setCliSessionId(null);
+        setSessionUsage(null);
         setMessages([]);
         setStreamingContent('');
         setThoughtSteps([]);
+        setToolTimeline([]);
         setCurrentSessionId(`session-${Date.now()}`);
         setCurrentView('chat');
         setShowWelcome(true);
         vscode.postMessage({ type: 'newSession' });
     };
 
+    // Saves the chat as it is and continues a copy under a new id; the next
+    // turn branches the CLI session
+    const handleForkSession = () => {
+        const forkId = `session-${Date.now()}`;
+        vscode.postMessage({ type: 'saveSession', id: currentSessionId, messages, cliSessionId });
+        vscode.postMessage({ type: 'forkSession', conversationId: currentSessionId, forkId });
+        setCurrentSessionId(forkId);
+        setSessionUsage(null);
+    };
+
+    const handleResetContext = () => {
+        vscode.postMessage({ type: 'resetSession', conversationId: currentSessionId });
+    };
+
     const handleLoadSession = (sessionId: string) => {
+        detachActiveRequest();
+        setStreamingContent('');
+        streamingRef.current = '';
         vscode.postMessage({ type: 'loadSession', id: sessionId });
         setCurrentSessionId(sessionId);
         setCurrentView('chat');
@@ -1900,15 +2638,30 @@ export function App() {
 
     const handleGoHome = () => {
         vscode.postMessage({ type: 'getSessions' });
+        vscode.postMessage({ type: 'getDebates', query: debateQuery });
+        setViewedDebate(null);
         setCurrentView('home');
     };
 
+    const handleSearchDebates = (query: string) => {
+        setDebateQuery(query);
+        vscode.postMessage({ type: 'getDebates', query });
+    };
+
+    const handleExportDebate = (taskId: string) => {
+        vscode.postMessage({ type: 'exportDebate', taskId });
+    };
+
     return (
         <div style={styles.container}>
             {/* Top Navigation Bar */}
             <TopNavBar
                 onHome={handleGoHome}
                 onNewSession={handleNewSession}
+                onFork={handleForkSession}
+                onResetContext={handleResetContext}
+                canContinue={cliSessionId !== null && !isGenerating}
+                sessionUsage={sessionUsage}
                 onIndex={handleIndex}
                 onSettings={() => setShowSettings(true)}
             />
@@ -1918,11 +2671,28 @@ export function App() {
 
             {/* Main Content Area */}
             <div style={styles.mainContent}>
-                {currentView === 'home' ? (
+                {currentView === 'home' && viewedDebate ? (
+                    <div style={styles.homeView}>
+                        <div style={styles.homeHeader}>
+                            <button style={styles.stepEditCancel} onClick={() => setViewedDebate(null)}>
+                                ← Past debates
+                            </button>
+                        </div>
+                        <DebateVisualization
+                            debate={viewedDebate}
+                            onDecide={() => undefined}
+                            onExport={() => handleExportDebate(viewedDebate.taskId)}
+                        />
+                    </div>
+                ) : currentView === 'home' ? (
                     <HomeView
                         sessions={sessions}
                         onSelect={handleLoadSession}
                         onNewSession={handleNewSession}
+                        debates={debates}
+                        debateQuery={debateQuery}
+                        onSearchDebates={handleSearchDebates}
+                        onOpenDebate={(taskId) => vscode.postMessage({ type: 'loadDebate', taskId })}
                     />
                 ) : currentMode === 'plan' && isGenerating && !planState.currentPlan ? (
                     /* Plan Generation Streaming View */
@@ -1939,13 +2709,18 @@ export function App() {
                             <span>Planner agent working</span>
                         </div>
                     </div>
+                ) : currentMode === 'plan' && planRejection ? (
+                    <PlanRejectedView rejection={planRejection} onDismiss={() => setPlanRejection(null)} />
                 ) : currentMode === 'plan' && planState.currentPlan ? (
                     <PlannerView
-                        plan={planState.currentPlan}
+                        plan={{ ...planState.currentPlan, steps: planState.steps }}
+                        executionStatus={planState.executionStatus}
+                        revision={planRevision}
                         onApprove={() => {
                             vscode.postMessage({
                                 type: 'plan_approve',
-                                planId: planState.currentPlan?.taskId
+                                planId: planState.currentPlan?.taskId,
+                                permissionMode
                             });
                             setPlanState(prev => ({ ...prev, executionStatus: 'approved' }));
                         }}
@@ -1973,20 +2748,69 @@ export function App() {
                                 )
                             }));
                         }}
-                    />
-                ) : currentMode === 'brainstorm' && swarmState.agents.length > 0 ? (
-                    <SwarmView
-                        agents={swarmState.agents}
-                        progress={swarmState.progress}
-                        agentOutputs={swarmState.agentOutputs}
-                        onStop={() => {
-                            vscode.postMessage({ type: 'swarm_stop' });
-                            setSwarmState(prev => ({
+                        onRetryStep={(stepId) => {
+                            vscode.postMessage({
+                                type: 'retryStep',
+                                taskId: planState.currentPlan?.taskId,
+                                stepId,
+                                permissionMode
+                            });
+                            setPlanState(prev => ({ ...prev, executionStatus: 'approved' }));
+                        }}
+                        onRollback={(stepId, description) => {
+                            vscode.postMessage({
+                                type: 'plan_rollback',
+                                planId: planState.currentPlan?.taskId,
+                                stepId,
+                                description,
+                                permissionMode
+                            });
+                            setPlanState(prev => ({
                                 ...prev,
-                                agents: prev.agents.map(a => ({ ...a, status: 'idle' as const }))
+                                executionStatus: 'approved',
+                                steps: prev.steps.map(s =>
+                                    s.id === stepId ? { ...s, description } : s
+                                )
                             }));
                         }}
+                        onRevisionResponse={(approved) => {
+                            vscode.postMessage({
+                                type: 'plan_revision_response',
+                                taskId: planRevision?.taskId,
+                                approved
+                            });
+                            setPlanRevision(null);
+                        }}
                     />
+                ) : currentMode === 'brainstorm' && swarmState.agents.length > 0 ? (
+                    <div style={styles.messagesContainer}>
+                        <SwarmView
+                            agents={swarmState.agents}
+                            progress={swarmState.progress}
+                            agentOutputs={swarmState.agentOutputs}
+                            onStop={() => {
+                                vscode.postMessage({ type: 'swarm_stop' });
+                                setSwarmState(prev => ({
+                                    ...prev,
+                                    agents: prev.agents.map(a => ({ ...a, status: 'idle' as const }))
+                                }));
+                            }}
+                        />
+                        {activeDebate && (
+                            <DebateVisualization
+                                debate={activeDebate}
+                                onDecide={(proposalId) => {
+                                    vscode.postMessage({
+                                        type: 'debate_decision_response',
+                                        taskId: activeDebate.taskId,
+                                        proposalId
+                                    });
+                                    setActiveDebate(prev => prev && { ...prev, pendingDecision: undefined });
+                                }}
+                                onExport={() => handleExportDebate(activeDebate.taskId)}
+                            />
+                        )}
+                    </div>
                 ) : showWelcome && messages.length === 0 && !isGenerating ? (
                     <WelcomeScreen onViewFeatures={handleViewFeatures} />
                 ) : (
@@ -2010,11 +2834,17 @@ export function App() {
                                         isActive={false}
                                     />
                                 )}
+                                {msg.toolTimeline && msg.toolTimeline.length > 0 && (
+                                    <ToolTimeline entries={msg.toolTimeline} isActive={false} />
+                                )}
                                 {msg.role === 'user' ? (
                                     <div style={styles.userContent}>{msg.content}</div>
                                 ) : (
                                     <MessageContent content={msg.content} />
                                 )}
+                                {msg.usage && msg.usage.runs > 0 && (
+                                    <div style={styles.messageUsage}>{formatUsage(msg.usage)}</div>
+                                )}
                             </div>
                         ))}
 
@@ -2032,6 +2862,9 @@ export function App() {
                                         isActive={true}
                                     />
                                 )}
+                                {toolTimeline.length > 0 && (
+                                    <ToolTimeline entries={toolTimeline} isActive={true} />
+                                )}
                                 {streamingContent ? (
                                     <MessageContent content={streamingContent} isStreaming />
                                 ) : (
@@ -2055,9 +2888,6 @@ export function App() {
                             <ToolExecutionFeedback key={tool.id} tool={tool} />
                         ))}
 
-                        {/* Debate Visualization */}
-                        {activeDebate && <DebateVisualization debate={activeDebate} />}
-
                         <div ref={messagesEndRef} />
                     </div>
                 )}
@@ -2112,19 +2942,22 @@ export function App() {
                         setStreamingContent('');
                         setActiveTools([]);
                         setThoughtSteps([]);
+                        setToolTimeline([]);
                         streamingRef.current = '';
                         toolsRef.current = [];
                         thoughtStepsRef.current = [];
+                        toolTimelineRef.current = [];
                         // Reset mode-specific states
                         if (newMode !== 'plan') {
                             setPlanState({ currentPlan: null, steps: [], executionStatus: 'idle', currentStepIndex: 0 });
                         }
                         if (newMode !== 'brainstorm') {
                             setSwarmState({ agents: [], topology: 'mesh', progress: { totalAgents: 0, activeAgents: 0, completedAgents: 0, overallProgress: 0 }, agentOutputs: new Map() });
+                            setActiveDebate(null);
                         }
                         // Stop any in-flight generation
                         if (isGenerating) {
-                            vscode.postMessage({ type: 'stop' });
+                            vscode.postMessage({ type: 'stop', requestId: activeRequestRef.current });
                             setIsGenerating(false);
                         }
                     }} />
@@ -2393,6 +3226,11 @@ const styles: { [key: string]: React.CSSProperties } = {
         letterSpacing: '0.5px',
         color: COLORS.textMuted,
     },
+    messageUsage: {
+        marginTop: '6px',
+        fontSize: '10px',
+        color: COLORS.textMuted,
+    },
     streamingBadge: {
         fontSize: '10px',
         padding: '2px 8px',
@@ -2609,6 +3447,17 @@ const styles: { [key: string]: React.CSSProperties } = {
         cursor: 'pointer',
         transition: 'all 0.15s',
     },
+    navButtonDisabled: {
+        opacity: 0.4,
+        cursor: 'default',
+    },
+    sessionUsage: {
+        display: 'flex',
+        alignItems: 'center',
+        padding: '0 8px',
+        fontSize: '11px',
+        color: COLORS.textSecondary,
+    },
 
     // ======== LOADING OVERLAY ========
     loadingOverlay: {
@@ -2713,6 +3562,18 @@ const styles: { [key: string]: React.CSSProperties } = {
         color: COLORS.textMuted,
         fontSize: '12px',
     },
+    debateSearch: {
+        width: '100%',
+        padding: '8px 12px',
+        marginBottom: '12px',
+        backgroundColor: COLORS.backgroundLight,
+        border: `1px solid ${COLORS.border}`,
+        borderRadius: '6px',
+        color: COLORS.textPrimary,
+        fontSize: '13px',
+        outline: 'none',
+        boxSizing: 'border-box',
+    },
 
     inputCard: {
         backgroundColor: COLORS.surface,
@@ -2988,12 +3849,56 @@ const styles: { [key: string]: React.CSSProperties } = {
         color: COLORS.textPrimary,
         marginBottom: '4px',
     },
+    stepRoleBadge: {
+        marginLeft: '8px',
+        padding: '2px 6px',
+        fontSize: '10px',
+        fontWeight: 500,
+        backgroundColor: COLORS.accentBg,
+        color: COLORS.accent,
+        borderRadius: '4px',
+    },
     stepDescription: {
         fontSize: '13px',
         color: COLORS.textSecondary,
         lineHeight: 1.5,
         cursor: 'pointer',
     },
+    stepMeta: {
+        marginTop: '4px',
+        fontSize: '11px',
+        color: COLORS.textMuted,
+    },
+    revisionPanel: {
+        margin: '0 0 12px',
+        padding: '12px',
+        border: `1px solid ${COLORS.accentBorder}`,
+        borderRadius: '8px',
+        backgroundColor: COLORS.accentBg,
+    },
+    verificationLine: {
+        marginTop: '4px',
+        fontSize: '11px',
+        color: COLORS.textSecondary,
+    },
+    verificationFinding: {
+        marginTop: '2px',
+        paddingLeft: '14px',
+        fontSize: '11px',
+        color: COLORS.textMuted,
+        fontFamily: 'SFMono-Regular, Consolas, Monaco, monospace',
+        wordBreak: 'break-word',
+    },
+    stepRetryButton: {
+        marginTop: '8px',
+        padding: '4px 10px',
+        backgroundColor: 'transparent',
+        color: COLORS.textSecondary,
+        border: `1px solid ${COLORS.border}`,
+        borderRadius: '6px',
+        cursor: 'pointer',
+        fontSize: '12px',
+    },
     stepFiles: {
         display: 'flex',
         flexWrap: 'wrap',
@@ -3311,6 +4216,24 @@ const styles: { [key: string]: React.CSSProperties } = {
         marginTop: '4px',
         fontStyle: 'italic',
     },
+    toolTimelineRow: {
+        gap: '8px',
+        cursor: 'pointer',
+    },
+    toolTimelineTarget: {
+        flex: 1,
+        minWidth: 0,
+        fontSize: '11px',
+        fontFamily: 'SFMono-Regular, Consolas, Monaco, monospace',
+        color: COLORS.textSecondary,
+        overflow: 'hidden',
+        textOverflow: 'ellipsis',
+        whiteSpace: 'nowrap',
+    },
+    toolTimelineMeta: {
+        fontSize: '11px',
+        color: COLORS.textMuted,
+    },
 
     // ======== MODE SELECTOR ========
     modeSelector: {